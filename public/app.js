@@ -22,6 +22,8 @@ async function api(action) {
 const state = {
   devices: [],
   deviceStates: {},
+  // Now-playing state per Echo serial (from push media events)
+  nowPlaying: {},
   routines: [],
   liveEvents: [],
   pushStatus: { connected: false, state: 'disconnected', eventCount: 0 },
@@ -35,6 +37,9 @@ const state = {
   activityNextToken: null,
   activityPrevTokens: [],
   pushEventsOffset: 0,
+  routineRunsOffset: 0,
+  editingRoutine: null,
+  expandedRunId: null,
   // Custom device grouping (localStorage-backed)
   customGroups: { groups: [], assignments: {} },
   editMode: false,
@@ -563,8 +568,16 @@ function handleSSEEvent(event) {
   // Check if it's a push-related event
   const isPushEvent = event.tags && event.tags.includes('push_event');
   const isStateChange = event.eventType === 'PushListenerStateChange';
+  const isConnectivity = event.tags && event.tags.includes('connectivity');
 
-  if (isPushEvent || isStateChange) {
+  if (isConnectivity) handleConnectivityEvent(event);
+
+  if (event.eventType === 'CookieExpiring' || event.eventType === 'CookieInvalid') {
+    showToast(event.eventType === 'CookieInvalid' ? 'Alexa cookie is no longer valid' : 'Alexa cookie expires soon', 'error');
+    checkCookieStatus();
+  }
+
+  if (isPushEvent || isStateChange || isConnectivity) {
     state.liveEventCount++;
 
     // Update badge
@@ -583,6 +596,24 @@ function handleSSEEvent(event) {
     state.liveEvents.unshift(event);
     if (state.liveEvents.length > 500) state.liveEvents.length = 500;
   }
+
+  // Media pushes change an Echo's now-playing strip
+  if (isPushEvent && event.tags.some(t => MEDIA_PUSH_COMMANDS.includes(t))) {
+    refreshNowPlaying();
+  }
+}
+
+/** A device went offline or came back: update its card and tell the user. */
+function handleConnectivityEvent(event) {
+  const offline = event.eventType === 'DeviceWentOffline';
+  const device = state.devices.find(d => d.id === event.endpointId);
+  const name = event.payload?.deviceName || device?.name || event.endpointId;
+
+  if (device) {
+    device.online = !offline;
+    if (currentTab === 'devices') renderDeviceGrid();
+  }
+  showToast(offline ? `${name} went offline` : `${name} is back online`, offline ? 'error' : 'success');
 }
 
 // ---------------------------------------------------------------------------
@@ -603,15 +634,43 @@ function updateCookieStatusBadge() {
   const el = document.getElementById('cookie-status');
   if (!el) return;
   const text = el.querySelector('.status-text');
-  if (state.cookieStatus.hasCookie) {
-    el.className = 'status-badge ok';
-    text.textContent = 'Cookie Active';
-    el.title = 'Alexa cookie is configured and valid';
-  } else {
+  const cs = state.cookieStatus;
+  if (!cs.hasCookie) {
     el.className = 'status-badge warn';
     text.textContent = 'No Cookie';
     el.title = 'No cookie — go to /extract-cookie to set up';
+  } else if (cs.state === 'invalid') {
+    el.className = 'status-badge error';
+    text.textContent = 'Cookie Invalid';
+    el.title = 'Alexa rejects the stored cookie — go to /extract-cookie to replace it';
+  } else if (cs.state === 'expiring') {
+    el.className = 'status-badge warn';
+    text.textContent = 'Cookie Expiring';
+    el.title = `Cookie expires around ${formatDateTime(cs.estimatedExpiry)}`;
+  } else {
+    el.className = 'status-badge ok';
+    text.textContent = 'Cookie Active';
+    el.title = 'Alexa cookie is configured' +
+      (cs.storedAt ? `, stored ${formatAge(cs.storedAt)} ago` : '') +
+      (cs.lastValidatedAt ? `, validated ${formatAge(cs.lastValidatedAt)} ago` : '') +
+      (cs.estimatedExpiry ? `, expires ~${formatDateTime(cs.estimatedExpiry)}` : '');
+  }
+  updateCookieBanner();
+}
+
+/** Show a banner while the cookie is expiring or already rejected. */
+function updateCookieBanner() {
+  const banner = document.getElementById('cookie-banner');
+  if (!banner) return;
+  const cs = state.cookieStatus;
+  if (cs.state !== 'expiring' && cs.state !== 'invalid') {
+    banner.classList.add('hidden');
+    return;
   }
+  banner.className = `cookie-banner ${cs.state}`;
+  banner.querySelector('.cookie-banner-text').textContent = cs.state === 'invalid'
+    ? 'Alexa no longer accepts the stored cookie. Device control, polling and push events will fail until it is replaced.'
+    : `The Alexa cookie expires around ${formatDateTime(cs.estimatedExpiry)}. Replace it to avoid an interruption.`;
 }
 
 async function checkPushStatus() {
@@ -628,14 +687,27 @@ function updatePushStatusBadge() {
   const el = document.getElementById('push-status');
   if (!el) return;
   const text = el.querySelector('.status-text');
-  if (state.pushStatus.connected) {
+  const ps = state.pushStatus;
+  if (ps.connected) {
     el.className = 'status-badge connected';
-    text.textContent = `Push: ${state.pushStatus.eventCount || 0}`;
-    el.title = `Push listener connected (${state.pushStatus.state}). Events: ${state.pushStatus.eventCount}`;
+    text.textContent = `Push: ${ps.eventCount || 0}`;
+    el.title = `Push listener connected (${ps.state}). Events: ${ps.eventCount}` +
+      (ps.connectedSince ? `, up ${formatAge(ps.connectedSince)}` : '') +
+      (ps.eventsPerMinute != null ? `, ${ps.eventsPerMinute}/min` : '') +
+      (ps.reconnectCount ? `, ${ps.reconnectCount} reconnects` : '');
+  } else if (ps.cookieLikelyExpired) {
+    el.className = 'status-badge error';
+    text.textContent = 'Push: Cookie?';
+    el.title = 'Push listener gave up after repeated auth failures — the cookie has likely expired';
+  } else if (ps.state === 'reconnecting') {
+    el.className = 'status-badge warn';
+    text.textContent = 'Push Retry';
+    el.title = `Push listener reconnecting (attempt ${ps.consecutiveFailures || 1})` +
+      (ps.lastDisconnect ? `. Last disconnect: ${ps.lastDisconnect.code} ${ps.lastDisconnect.reason}` : '');
   } else {
     el.className = 'status-badge';
     text.textContent = 'Push Off';
-    el.title = `Push listener: ${state.pushStatus.state || 'disconnected'}`;
+    el.title = `Push listener: ${ps.state || 'disconnected'}`;
   }
 
   // Update the connect/disconnect button on Live tab
@@ -693,10 +765,34 @@ async function loadDevices() {
     console.warn('Failed to load cached states:', e);
   }
 
+  loadNowPlaying();
+
   // Then poll fresh states in the background and update the grid when done
   pollStatesInBackground();
 }
 
+const MEDIA_PUSH_COMMANDS = [
+  'PUSH_AUDIO_PLAYER_STATE', 'PUSH_MEDIA_CHANGE', 'PUSH_MEDIA_PROGRESS_CHANGE', 'PUSH_MEDIA_QUEUE_CHANGE',
+];
+
+/** Fetch now-playing state for every Echo and re-render the grid. */
+async function loadNowPlaying() {
+  try {
+    const result = await api({ type: 'get_now_playing' });
+    if (!result.success) return;
+    state.nowPlaying = {};
+    for (const np of result.data.nowPlaying) {
+      state.nowPlaying[np.deviceSerial] = np;
+    }
+    if (currentTab === 'devices') renderDeviceGrid();
+  } catch (e) {
+    console.warn('Failed to load now playing:', e);
+  }
+}
+
+// The push event is logged before it is processed, so wait a moment
+const refreshNowPlaying = debounce(loadNowPlaying, 1000);
+
 /** Poll all device states in the background without blocking the UI. */
 async function pollStatesInBackground() {
   const btn = document.getElementById('device-poll-btn');
@@ -909,9 +1005,42 @@ function renderDeviceCard(d) {
       </div>
     </div>
     ${cardBody}
+    ${d.source === 'echo' ? renderNowPlayingStrip(state.nowPlaying[d.id]) : ''}
+  </div>`;
+}
+
+/** Player state, position, and queue mode of an Echo that is playing or paused. */
+function renderNowPlayingStrip(np) {
+  if (!np || (np.playerState !== 'PLAYING' && np.playerState !== 'INTERRUPTED')) return '';
+
+  const playing = np.playerState === 'PLAYING';
+  let progress = '';
+  if (np.mediaLength > 0 && np.mediaProgress !== undefined) {
+    // Extrapolate from the last reported position while playing
+    const elapsed = playing && np.progressUpdatedAt ? (Date.now() - new Date(np.progressUpdatedAt).getTime()) / 1000 : 0;
+    const position = Math.min(np.mediaProgress + elapsed, np.mediaLength);
+    const pct = Math.round((position / np.mediaLength) * 100);
+    progress = `<div class="now-playing-progress"><div class="now-playing-progress-bar" style="width:${pct}%"></div></div>
+      <span class="now-playing-time">${formatMediaTime(position)} / ${formatMediaTime(np.mediaLength)}</span>`;
+  }
+
+  const modes = [];
+  if (np.playBackOrder && np.playBackOrder !== 'NORMAL') modes.push('\u{1F500}');
+  if (np.loopMode && np.loopMode !== 'NONE' && np.loopMode !== 'NORMAL') modes.push('\u{1F501}');
+
+  return `<div class="now-playing-strip${playing ? ' playing' : ''}" title="${escapeHtml(np.mediaReferenceId || '')}">
+    <span class="now-playing-icon">${playing ? '\u25B6' : '\u23F8'}</span>
+    <span class="now-playing-label">${playing ? 'Playing' : 'Paused'}</span>
+    ${progress}
+    ${modes.length ? `<span class="now-playing-modes">${modes.join(' ')}</span>` : ''}
   </div>`;
 }
 
+function formatMediaTime(seconds) {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
 /** Map a RangeController instance name to a display icon, label, and unit. */
 function rangeInstanceInfo(instLower, instRaw, friendlyName) {
   // First check the semantic friendlyName from discovery (Alexa asset IDs or text)
@@ -1688,58 +1817,43 @@ async function loadDeviceHistory(deviceId, device) {
   historyEl.innerHTML = '<div class="history-loading"><span class="loading-spinner"></span> Loading history...</div>';
 
   try {
-    const res = await fetch(`/state-history?deviceId=${encodeURIComponent(deviceId)}&limit=24`);
-    const data = await res.json();
-    const snapshots = data.snapshots || [];
-
-    if (snapshots.length <= 1) {
-      historyEl.innerHTML = '<div class="history-empty">No historical data yet. Readings are collected automatically every 10 minutes.</div>';
-      return;
-    }
-
-    // Build a timeline of key readings from snapshots (oldest → newest)
-    const reversed = [...snapshots].reverse();
-
-    // Identify which capabilities to track (RangeController instances + temperature)
-    const trackedKeys = new Map(); // key → { label, icon, unit, values: [{time, value}] }
-    for (const s of reversed) {
-      for (const cap of s.capabilities || []) {
-        if (cap.namespace === 'Alexa.TemperatureSensor' && cap.name === 'temperature' && cap.value) {
-          const key = 'temp';
-          if (!trackedKeys.has(key)) {
-            trackedKeys.set(key, { label: 'Temp', icon: '\u{1F321}\uFE0F', unit: '\u00B0F', values: [] });
-          }
-          const f = toFahrenheit(cap.value);
-          trackedKeys.get(key).values.push({ time: s.polledAt, value: f.value });
-        }
-        if (cap.namespace === 'Alexa.RangeController' && cap.instance && cap.value != null) {
-          const key = 'range-' + cap.instance;
-          if (!trackedKeys.has(key)) {
-            const rc = device && (device.rangeCapabilities || []).find(r => r.instance === cap.instance);
-            const info = rangeInstanceInfo(cap.instance.toLowerCase(), cap.instance, rc && rc.friendlyName);
-            trackedKeys.set(key, { label: info.label, icon: info.icon, unit: info.unit, values: [] });
-          }
-          trackedKeys.get(key).values.push({ time: s.polledAt, value: Number(cap.value) });
-        }
+    // Identify which capabilities to chart (RangeController instances + temperature)
+    const tracked = [];
+    for (const cap of (snap && snap.capabilities) || []) {
+      if (cap.namespace === 'Alexa.TemperatureSensor' && cap.name === 'temperature' && cap.value) {
+        const scale = cap.value.scale;
+        tracked.push({
+          label: 'Temp', icon: '\u{1F321}\uFE0F', unit: '\u00B0F', cap,
+          convert: (v) => toFahrenheit({ value: v, scale }).value,
+        });
+      }
+      if (cap.namespace === 'Alexa.RangeController' && cap.instance && cap.value != null && !isNaN(Number(cap.value))) {
+        const rc = device && (device.rangeCapabilities || []).find(r => r.instance === cap.instance);
+        const info = rangeInstanceInfo(cap.instance.toLowerCase(), cap.instance, rc && rc.friendlyName);
+        tracked.push({ label: info.label, icon: info.icon, unit: info.unit, cap, convert: (v) => v });
       }
     }
 
-    if (trackedKeys.size === 0) {
-      historyEl.innerHTML = '<div class="history-empty">No sensor data in history.</div>';
-      return;
-    }
-
-    // Render sparklines for each tracked reading
-    let html = '<div class="history-section"><div class="history-header">History <span class="text-muted">(' + snapshots.length + ' readings)</span></div>';
-
-    for (const [key, track] of trackedKeys) {
-      if (track.values.length < 2) continue;
-      const values = track.values.map(v => v.value);
-      const min = Math.min(...values);
-      const max = Math.max(...values);
-      const latest = values[values.length - 1];
-      const first = values[0];
-      const delta = latest - first;
+    // Hourly min / max / avg over the last week, from the rollups
+    const series = await Promise.all(tracked.map(async (track) => {
+      const params = new URLSearchParams({
+        deviceId, namespace: track.cap.namespace, name: track.cap.name, bucket: '1h',
+      });
+      if (track.cap.instance) params.set('instance', track.cap.instance);
+      const res = await fetch(`/state-aggregates?${params}`);
+      const data = await res.json();
+      return { track, points: data.points || [] };
+    }));
+
+    const round = (v) => Math.round(v * 10) / 10;
+    let rows = '';
+    for (const { track, points } of series) {
+      if (points.length < 2) continue;
+      const values = points.map(p => round(track.convert(p.avg)));
+      const min = round(Math.min(...points.map(p => track.convert(p.min))));
+      const max = round(Math.max(...points.map(p => track.convert(p.max))));
+      const latest = round(track.convert(points[points.length - 1].last));
+      const delta = latest - values[0];
       const deltaStr = delta > 0 ? `+${delta.toFixed(1)}` : delta.toFixed(1);
       const deltaClass = Math.abs(delta) < 0.5 ? '' : (delta > 0 ? 'trend-up' : 'trend-down');
 
@@ -1747,14 +1861,10 @@ async function loadDeviceHistory(deviceId, device) {
       const sparkline = renderSparkline(values, 120, 28);
 
       // Time range
-      const oldest = track.values[0].time;
-      const newest = track.values[track.values.length - 1].time;
-      const spanMs = new Date(newest).getTime() - new Date(oldest).getTime();
-      const spanStr = spanMs < 3600000 ? `${Math.round(spanMs / 60000)}m`
-        : spanMs < 86400000 ? `${Math.round(spanMs / 3600000)}h`
-        : `${Math.round(spanMs / 86400000)}d`;
-
-      html += `<div class="history-row">
+      const spanMs = Date.now() - new Date(points[0].bucketStart).getTime();
+      const spanStr = spanMs < 86400000 ? `${Math.round(spanMs / 3600000)}h` : `${Math.round(spanMs / 86400000)}d`;
+
+      rows += `<div class="history-row">
         <div class="history-label">${track.icon} ${escapeHtml(track.label)}</div>
         <div class="history-sparkline">${sparkline}</div>
         <div class="history-stats">
@@ -1766,8 +1876,12 @@ async function loadDeviceHistory(deviceId, device) {
       </div>`;
     }
 
-    html += '</div>';
-    historyEl.innerHTML = html;
+    if (!rows) {
+      historyEl.innerHTML = '<div class="history-empty">No historical data yet. Readings are collected automatically every few minutes.</div>';
+      return;
+    }
+
+    historyEl.innerHTML = '<div class="history-section"><div class="history-header">History <span class="text-muted">(hourly)</span></div>' + rows + '</div>';
   } catch (err) {
     historyEl.innerHTML = '<div class="history-empty">Failed to load history.</div>';
     console.warn('Failed to load device history:', err);
@@ -1872,6 +1986,8 @@ async function loadRoutines() {
 
   state.routines = result.data.routines || [];
   renderRoutineList();
+  renderRoutineRunFilter();
+  loadRoutineRuns();
 }
 
 function renderRoutineList() {
@@ -1894,15 +2010,19 @@ function renderRoutineList() {
         <div class="routine-name">${escapeHtml(r.name)}</div>
         <div class="routine-trigger">${escapeHtml(triggerText)}</div>
         <div class="routine-meta">
-          <span class="routine-enabled-badge ${r.enabled ? 'enabled' : 'disabled'}">${r.enabled ? 'Enabled' : 'Disabled'}</span>
+          <button class="routine-enabled-badge ${r.enabled ? 'enabled' : 'disabled'}" title="Click to ${r.enabled ? 'pause' : 'enable'}" onclick="toggleRoutineEnabled('${escapeHtml(r.id)}', ${!r.enabled})">${r.enabled ? 'Enabled' : 'Disabled'}</button>
           <span style="font-size:0.75rem;color:var(--text-muted)">${r.actionCount} action${r.actionCount !== 1 ? 's' : ''}</span>
           ${r.lastTriggered ? `<span style="font-size:0.75rem;color:var(--text-muted)">Last: ${timeAgo(r.lastTriggered)}</span>` : ''}
         </div>
       </div>
       <div class="routine-actions">
-        <button class="trigger-btn" data-routine="${escapeHtml(r.id)}" onclick="triggerRoutine('${escapeHtml(r.id)}', this)">
+        <button class="trigger-btn" data-routine="${escapeHtml(r.id)}" onclick="triggerRoutine('${escapeHtml(r.id)}', this)"${r.enabled ? '' : ' disabled title="Enable the routine to trigger it"'}>
           Trigger
         </button>
+        <div class="routine-secondary-actions">
+          <button class="btn btn-sm btn-secondary" onclick="editRoutine('${escapeHtml(r.id)}')">Edit</button>
+          <button class="btn btn-sm btn-secondary" onclick="duplicateRoutine('${escapeHtml(r.id)}')">Duplicate</button>
+        </div>
       </div>
     </div>`;
   }).join('');
@@ -1914,7 +2034,12 @@ async function triggerRoutine(routineId, btn) {
 
   const result = await api({ type: 'trigger_routine', routineId });
 
-  if (result.success) {
+  const report = result.data?.report;
+  if (result.success && report?.status === 'failed') {
+    btn.textContent = 'Failed';
+    btn.className = 'trigger-btn failed';
+    showToast(`Routine failed: ${report.error}`, 'error');
+  } else if (result.success) {
     btn.textContent = 'Triggered!';
     btn.className = 'trigger-btn triggered';
   } else {
@@ -1923,6 +2048,8 @@ async function triggerRoutine(routineId, btn) {
     showToast(result.error || 'Failed to trigger routine', 'error');
   }
 
+  loadRoutineRuns();
+
   setTimeout(() => {
     btn.textContent = 'Trigger';
     btn.className = 'trigger-btn';
@@ -1930,6 +2057,144 @@ async function triggerRoutine(routineId, btn) {
   }, 2000);
 }
 
+function renderRoutineRunFilter() {
+  const select = document.getElementById('routine-run-filter');
+  const current = select.value;
+  select.innerHTML = '<option value="">All Routines</option>'
+    + state.routines.map(r => `<option value="${escapeHtml(r.id)}">${escapeHtml(r.name)}</option>`).join('');
+  select.value = state.routines.some(r => r.id === current) ? current : '';
+}
+
+const RUN_STATUS_BADGE = { succeeded: 'state', failed: 'error', interrupted: 'error', running: 'action', skipped: '', timed_out: 'error' };
+
+async function loadRoutineRuns(offset = 0) {
+  const table = document.getElementById('routine-runs-table');
+  const pagination = document.getElementById('routine-runs-pagination');
+  const routineId = document.getElementById('routine-run-filter').value || undefined;
+  state.routineRunsOffset = offset;
+
+  const result = await api({ type: 'get_routine_runs', routineId, limit: 20, offset });
+
+  if (!result.success) {
+    table.innerHTML = `<div class="empty-state"><p>Failed to load routine runs</p><p class="text-muted">${escapeHtml(result.error)}</p></div>`;
+    return;
+  }
+
+  const runs = result.data.runs || [];
+  const totalCount = result.data.totalCount || 0;
+
+  if (runs.length === 0) {
+    table.innerHTML = '<div class="empty-state"><p>No routine runs yet</p></div>';
+    pagination.innerHTML = '';
+    return;
+  }
+
+  table.innerHTML = `
+    <div class="log-row header runs-row">
+      <span>Started</span><span>Routine</span><span>Status</span><span>Source</span><span>Duration</span>
+    </div>
+    ${runs.map(run => `
+      <div class="log-row runs-row" onclick="toggleRoutineRun('${escapeHtml(run.id)}')" title="${escapeHtml(run.error || 'Click for step details')}">
+        <span class="log-timestamp">${formatDateTime(run.startedAt)}</span>
+        <span>${escapeHtml(run.routineName)}</span>
+        <span><span class="log-type-badge ${RUN_STATUS_BADGE[run.status] || ''}">${escapeHtml(run.status)}</span></span>
+        <span style="color:var(--text-secondary);font-size:0.8rem">${escapeHtml(run.source)}</span>
+        <span class="log-timestamp">${run.durationMs != null ? `${run.durationMs} ms` : '—'}</span>
+      </div>
+      <div id="run-steps-${escapeHtml(run.id)}" class="run-steps${state.expandedRunId === run.id ? '' : ' hidden'}">
+        ${state.expandedRunId === run.id ? renderRunSteps(run.steps, run.error) : ''}
+      </div>
+    `).join('')}
+  `;
+
+  const hasMore = offset + runs.length < totalCount;
+  pagination.innerHTML = `
+    <span class="pagination-info">Showing ${offset + 1}–${offset + runs.length} of ${totalCount}</span>
+    ${offset > 0 ? `<button class="btn btn-sm btn-secondary" onclick="loadRoutineRuns(${Math.max(0, offset - 20)})">&laquo; Prev</button>` : ''}
+    ${hasMore ? `<button class="btn btn-sm btn-secondary" onclick="loadRoutineRuns(${offset + 20})">Next &raquo;</button>` : ''}
+  `;
+}
+
+async function toggleRoutineRun(runId) {
+  const container = document.getElementById(`run-steps-${runId}`);
+  if (!container) return;
+
+  if (state.expandedRunId === runId) {
+    state.expandedRunId = null;
+    container.classList.add('hidden');
+    return;
+  }
+
+  // Collapse the previously expanded run
+  if (state.expandedRunId) {
+    document.getElementById(`run-steps-${state.expandedRunId}`)?.classList.add('hidden');
+  }
+  state.expandedRunId = runId;
+
+  const result = await api({ type: 'get_routine_run', runId });
+  if (!result.success) {
+    container.innerHTML = `<div class="run-step-error">${escapeHtml(result.error)}</div>`;
+  } else {
+    container.innerHTML = renderRunSteps(result.data.run.steps, result.data.run.error);
+  }
+  container.classList.remove('hidden');
+}
+
+function renderRunSteps(steps, error) {
+  if (!steps || steps.length === 0) {
+    return `<div class="run-step-meta">${error ? `<span class="run-step-error">${escapeHtml(error)}</span>` : 'No steps executed'}</div>`;
+  }
+  return steps.map(step => `
+    <div class="run-step">
+      <span class="log-type-badge ${RUN_STATUS_BADGE[step.status] || ''}">${escapeHtml(step.status)}</span>
+      <span class="run-step-type">${escapeHtml(step.type)}${step.branch ? ` (${escapeHtml(step.branch)})` : ''}</span>
+      <span class="run-step-meta">${step.durationMs} ms</span>
+      ${step.error ? `<span class="run-step-error">${escapeHtml(step.error)}</span>` : ''}
+    </div>
+    ${step.steps && step.steps.length > 0 ? `<div class="run-step-children">${renderRunSteps(step.steps)}</div>` : ''}
+  `).join('');
+}
+
+async function toggleRoutineEnabled(routineId, enabled) {
+  const result = await api({ type: 'set_routine_enabled', routineId, enabled });
+  if (result.success) {
+    showToast(enabled ? 'Routine enabled' : 'Routine paused', 'success');
+    loadRoutines();
+  } else {
+    showToast(result.error || 'Failed to update routine', 'error');
+  }
+}
+
+async function duplicateRoutine(routineId) {
+  const result = await api({ type: 'duplicate_routine', routineId });
+  if (result.success) {
+    showToast(`Created "${result.data.routine.name}"`, 'success');
+    loadRoutines();
+  } else {
+    showToast(result.error || 'Failed to duplicate routine', 'error');
+  }
+}
+
+async function editRoutine(routineId) {
+  const result = await api({ type: 'get_routine', routineId });
+  if (!result.success) {
+    showToast(result.error || 'Failed to load routine', 'error');
+    return;
+  }
+
+  const routine = result.data.routine;
+  const triggerText = routineTriggerToText(routine.trigger);
+  const actionsText = routineActionsToText(routine.actions);
+  state.editingRoutine = { id: routine.id, triggerText, actionsText };
+
+  toggleRoutineForm(true);
+  document.getElementById('routine-form-title').textContent = `Edit "${routine.name}"`;
+  document.getElementById('routine-save-btn').textContent = 'Save Changes';
+  document.getElementById('routine-name').value = routine.name;
+  document.getElementById('routine-trigger').value = triggerText;
+  document.getElementById('routine-actions').value = actionsText;
+}
+
 function toggleRoutineForm(show) {
   const form = document.getElementById('routine-create-form');
   if (show) {
@@ -1937,30 +2202,68 @@ function toggleRoutineForm(show) {
     document.getElementById('routine-name').focus();
   } else {
     form.classList.add('hidden');
+    state.editingRoutine = null;
+    document.getElementById('routine-form-title').textContent = 'New Routine';
+    document.getElementById('routine-save-btn').textContent = 'Save Routine';
     document.getElementById('routine-name').value = '';
     document.getElementById('routine-trigger').value = '';
     document.getElementById('routine-actions').value = '';
   }
 }
 
-async function saveRoutine() {
-  const name = document.getElementById('routine-name').value.trim();
-  const triggerPhrase = document.getElementById('routine-trigger').value.trim();
-  const actionsText = document.getElementById('routine-actions').value.trim();
+/** Text shown in the trigger field; device_event triggers have no text form. */
+function routineTriggerToText(trigger) {
+  if (trigger.type === 'schedule') return trigger.cron;
+  if (trigger.type === 'custom') return trigger.triggerId;
+  return '';
+}
 
-  if (!name) { showToast('Routine name is required', 'error'); return; }
+/**
+ * Text shown in the actions field.  Simple step lists use the
+ * line-per-step format; anything else is shown as JSON.
+ */
+function routineActionsToText(actions) {
+  const lines = [];
+  for (const step of actions) {
+    if (step.delaySeconds || step.continueOnError) return JSON.stringify(actions, null, 2);
+    if (step.type === 'speak') {
+      lines.push(`speak:${step.text}`);
+    } else if (step.type === 'device_command' && ['turn_on', 'turn_off'].includes(step.command.action)) {
+      lines.push(`${step.endpointId}:${step.command.action}`);
+    } else if (step.type === 'device_command' && step.command.action === 'set_brightness') {
+      lines.push(`${step.endpointId}:set_brightness:${step.command.brightness}`);
+    } else if (step.type === 'device_command' && step.command.action === 'set_volume') {
+      lines.push(`${step.endpointId}:set_volume:${step.command.volume}`);
+    } else {
+      return JSON.stringify(actions, null, 2);
+    }
+  }
+  return lines.join('\n');
+}
 
-  // Parse trigger — if it looks like a cron, use schedule; otherwise use custom trigger ID
-  let trigger;
+function parseRoutineTrigger(triggerPhrase, name) {
+  // If it looks like a cron, use schedule; otherwise use custom trigger ID
   if (triggerPhrase.includes('*') || triggerPhrase.includes('/')) {
-    trigger = { type: 'schedule', cron: triggerPhrase };
+    return { type: 'schedule', cron: triggerPhrase };
   } else if (triggerPhrase) {
-    trigger = { type: 'custom', triggerId: triggerPhrase.toLowerCase().replace(/\s+/g, '-') };
-  } else {
-    trigger = { type: 'custom', triggerId: name.toLowerCase().replace(/\s+/g, '-') };
+    return { type: 'custom', triggerId: triggerPhrase.toLowerCase().replace(/\s+/g, '-') };
+  }
+  return { type: 'custom', triggerId: name.toLowerCase().replace(/\s+/g, '-') };
+}
+
+/** Returns the parsed steps, or null (after showing a toast) if invalid. */
+function parseRoutineActions(actionsText) {
+  // A JSON array is taken as-is, for steps the line format can't express
+  if (actionsText.startsWith('[')) {
+    try {
+      return JSON.parse(actionsText);
+    } catch (err) {
+      showToast(`Invalid actions JSON: ${err.message}`, 'error');
+      return null;
+    }
   }
 
-  // Parse actions — each line is "endpointId:command" or "speak:text"
+  // Each line is "endpointId:command" or "speak:text"
   const actions = [];
   for (const line of actionsText.split('\n')) {
     const trimmed = line.trim();
@@ -1971,12 +2274,14 @@ async function saveRoutine() {
     const cmdStr = trimmed.substring(colonIdx + 1).trim();
 
     if (target === 'speak') {
-      // Speak action — needs an Echo device; use first known echo or empty
+      // Speak action — needs an Echo device; use the first known echo
       const echoDevice = state.devices.find(d => d.source === 'echo');
+      if (!echoDevice) { showToast('No Echo device found for speak action', 'error'); return null; }
       actions.push({
-        type: 'device_command',
-        endpointId: echoDevice?.id || 'default',
-        command: { action: 'speak', text: cmdStr },
+        type: 'speak',
+        deviceId: echoDevice.id,
+        deviceType: echoDevice.alexaDeviceType || echoDevice.deviceType,
+        text: cmdStr,
       });
     } else {
       // Device command — turn_on, turn_off, set_brightness:50, etc.
@@ -1994,18 +2299,47 @@ async function saveRoutine() {
       });
     }
   }
+  return actions;
+}
 
-  const result = await api({
-    type: 'create_routine',
-    routine: { name, trigger, actions },
-  });
+async function saveRoutine() {
+  const name = document.getElementById('routine-name').value.trim();
+  const triggerPhrase = document.getElementById('routine-trigger').value.trim();
+  const actionsText = document.getElementById('routine-actions').value.trim();
+
+  if (!name) { showToast('Routine name is required', 'error'); return; }
+
+  const editing = state.editingRoutine;
+  let result;
+
+  if (editing) {
+    // Only send fields the user changed, so triggers and steps the form
+    // can't express (device_event triggers, for one) are kept as they are
+    const updates = { name };
+    if (triggerPhrase !== editing.triggerText) {
+      updates.trigger = parseRoutineTrigger(triggerPhrase, name);
+    }
+    if (actionsText !== editing.actionsText) {
+      const actions = parseRoutineActions(actionsText);
+      if (!actions) return;
+      updates.actions = actions;
+    }
+    result = await api({ type: 'update_routine', routineId: editing.id, updates });
+  } else {
+    const actions = parseRoutineActions(actionsText);
+    if (!actions) return;
+    result = await api({
+      type: 'create_routine',
+      routine: { name, trigger: parseRoutineTrigger(triggerPhrase, name), actions },
+    });
+  }
 
   if (result.success) {
-    showToast('Routine created', 'success');
+    showToast(editing ? 'Routine updated' : 'Routine created', 'success');
     toggleRoutineForm(false);
     loadRoutines();
   } else {
-    showToast(result.error || 'Failed to create routine', 'error');
+    showToast(result.error || 'Failed to save routine', 'error');
   }
 }
 
@@ -2398,9 +2732,14 @@ function setupEventListeners() {
     tabInitialized.routines = false;
     loadRoutines();
   });
-  document.getElementById('routine-create-btn').addEventListener('click', () => toggleRoutineForm(true));
+  document.getElementById('routine-create-btn').addEventListener('click', () => {
+    toggleRoutineForm(false);
+    toggleRoutineForm(true);
+  });
   document.getElementById('routine-cancel-btn').addEventListener('click', () => toggleRoutineForm(false));
   document.getElementById('routine-save-btn').addEventListener('click', saveRoutine);
+  document.getElementById('routine-run-filter').addEventListener('change', () => loadRoutineRuns());
+  document.getElementById('routine-runs-refresh-btn').addEventListener('click', () => loadRoutineRuns(state.routineRunsOffset));
 
   // Modal close
   document.getElementById('modal-close').addEventListener('click', closeDeviceModal);
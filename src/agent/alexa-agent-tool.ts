@@ -6,8 +6,20 @@
  * union of actions and returns structured results.
  *
  * Capabilities:
- * - Device discovery and control
- * - Routine listing, creation, triggering, and deletion
+ * - Device discovery and control (dispatched through a pluggable device backend)
+ * - Routine listing, creation, editing, triggering, and deletion
+ * - Scheduled routine execution (cron triggers)
+ * - Device-event routine triggers (rules engine)
+ * - Routine execution with conditions, branches, and per-step reports
+ * - Persistent routine run history
+ * - Proactive ChangeReports for skill endpoints whose state changes
+ * - Discovery sync (AddOrUpdateReport / DeleteReport) for skill endpoints
+ * - Push event processing: derived device state and activity records
+ * - Device directory: names for push events, activity records and snapshots
+ * - Media sessions: now-playing state and listening sessions per Echo
+ * - Connectivity: online/offline history and uptime reports
+ * - Per-device state polling, adapted to category, changes and push state
+ * - Retention: scheduled pruning of old history, per store
  * - Real-time event streaming (subscribe/unsubscribe)
  * - Historical event querying
  */
@@ -17,37 +29,81 @@ import type { AlexaAgentConfig } from '../config';
 import { loadConfig } from '../config';
 import { AuthManager } from '../auth';
 import { InMemoryTokenStore } from '../auth/token-store';
-import { DeviceRegistry, DeviceController } from '../devices';
-import { RoutineManager } from '../routines';
-import { InMemoryRoutineStore } from '../routines/routine-store';
-import { EventLogger, EventGatewayClient, InMemoryEventStore } from '../events';
+import {
+  DeviceRegistry,
+  DeviceController,
+  CookieApiDeviceBackend,
+  describeErrorResponse,
+  capabilityToPropertyState,
+  propertyStateToCapability,
+  mergePropertyStates,
+  propertyKey,
+  isProactivelyReported,
+  DiscoverySync,
+  InMemoryDiscoveryStateStore,
+} from '../devices';
+import type { DeviceBackend, DeviceStateReadMode, DiscoveryStateStore } from '../devices';
+import { RoutineManager, RoutineScheduler, RoutineRulesEngine, RoutineExecutor, pushEventToObservations } from '../routines';
+import { InMemoryRoutineStore, toSummary } from '../routines/routine-store';
+import { EventLogger, EventGatewayClient, InMemoryEventStore, ChangeReporter } from '../events';
 import type { EventStore } from '../events';
 import type { RoutineStore } from '../routines/routine-store';
+import { InMemoryRoutineRunStore } from '../routines/routine-run-store';
+import type { RoutineRunStore, RoutineRunSource } from '../routines/routine-run-store';
 import type { TokenStore } from '../auth/token-store';
-import { AlexaApiClient, InMemoryCookieStore } from '../alexa-api';
-import type { CookieStore } from '../alexa-api';
-import type { AlexaCookieCredentials, AlexaApiRegion, AccountDeviceCommand } from '../alexa-api';
+import { AlexaApiClient, InMemoryCookieStore, InMemoryRefreshTokenStore } from '../alexa-api';
+import type { CookieStore, RefreshTokenStore } from '../alexa-api';
+import type { DeviceStateSnapshot, ActivityRecord } from '../alexa-api/alexa-api-types';
+import type { AlexaMessage, ChangeCause, DeviceState, DiscoveredDevice } from '../types/alexa';
+import type { AlexaCookieCredentials, AlexaApiRegion, AccountDevice, AccountDeviceCommand } from '../alexa-api';
 import { InMemoryDeviceStateStore } from '../alexa-api/device-state-store';
-import type { DeviceStateStore } from '../alexa-api/device-state-store';
+import type { DeviceStateStore, StatePropertyChange } from '../alexa-api/device-state-store';
 import { InMemoryActivityStore } from '../alexa-api/activity-store';
 import type { ActivityStore } from '../alexa-api/activity-store';
 import { InMemoryPushEventStore } from '../alexa-api/push-event-store';
 import type { PushEventStore } from '../alexa-api/push-event-store';
 import { AlexaPushClient } from '../alexa-api/push-client';
-import type { PushEvent, StoredPushEvent } from '../alexa-api/push-event-types';
+import { PushCaptureRecorder } from '../alexa-api/push-capture';
+import { PushListenerSupervisor } from '../alexa-api/push-supervisor';
+import { CookieHealthMonitor } from '../alexa-api/cookie-health';
+import type { CookieStatus } from '../alexa-api/cookie-health';
+import { CookieSessionManager } from '../alexa-api/cookie-session';
+import { PushEventProcessor } from '../alexa-api/push-event-processor';
+import { DeviceDirectory, InMemoryDeviceDirectoryStore } from '../alexa-api/device-directory';
+import type { DeviceDirectoryStore } from '../alexa-api/device-directory';
+import { MediaSessionTracker, InMemoryMediaSessionStore } from '../alexa-api/media-sessions';
+import type { MediaSessionStore } from '../alexa-api/media-sessions';
+import { ConnectivityTracker, InMemoryConnectivityStore } from '../alexa-api/connectivity';
+import { PollScheduler } from '../alexa-api/poll-scheduler';
+import { StateAggregator, InMemoryStateRollupStore } from '../alexa-api/state-aggregates';
+import type { StateRollupStore } from '../alexa-api/state-aggregates';
+import { RetentionManager } from '../storage/retention';
+import type { SqliteStorage } from '../storage/sqlite';
+import type { ConnectivityStore, ConnectivityStatus } from '../alexa-api/connectivity';
+import type { PushConnectionChangePayload } from '../alexa-api/push-event-types';
+import type { PushEvent, StoredPushEvent, PushActivityPayload } from '../alexa-api/push-event-types';
 import type {
   AgentAction,
   AgentToolResult,
   DiscoverDevicesResult,
+  SyncDiscoveryResult,
   GetDeviceStateResult,
   ControlDeviceResult,
   ListRoutinesResult,
   TriggerRoutineResult,
   CreateRoutineResult,
   DeleteRoutineResult,
+  GetRoutineResult,
+  UpdateRoutineResult,
+  SetRoutineEnabledResult,
+  DuplicateRoutineResult,
+  GetRoutineScheduleResult,
+  GetRoutineRunsResult,
+  GetRoutineRunResult,
   QueryEventsResult,
   GetEventStreamResult,
   SetAlexaCookieResult,
+  SetAlexaRefreshTokenResult,
   ListAllDevicesResult,
   ControlAccountDeviceResult,
   PollDeviceStateResult,
@@ -55,33 +111,61 @@ import type {
   GetCachedStatesResult,
   GetActivityHistoryResult,
   QueryStateHistoryResult,
+  QueryStateAggregatesAction,
+  QueryStateAggregatesResult,
   StartPushListenerResult,
   StopPushListenerResult,
   QueryPushEventsResult,
+  GetNowPlayingResult,
+  QueryMediaSessionsResult,
+  GetConnectivityReportResult,
+  GetStorageStatsResult,
+  BackfillDeviceNamesResult,
+  RoutineScheduleEntry,
 } from '../types/agent';
 
+/** How far around a PUSH_ACTIVITY event to look for its activity record. */
+const PUSH_ACTIVITY_WINDOW_MS = 60_000;
+
 export class AlexaAgentTool {
   private config: AlexaAgentConfig;
   private auth: AuthManager;
   private registry: DeviceRegistry;
   private controller: DeviceController;
   private routines: RoutineManager;
+  private scheduler: RoutineScheduler;
+  private rulesEngine: RoutineRulesEngine;
+  private executor: RoutineExecutor;
   private eventLogger: EventLogger;
   private eventGateway: EventGatewayClient;
+  private changeReporter: ChangeReporter;
+  private discoverySync: DiscoverySync;
   private alexaApi: AlexaApiClient;
   private cookieStore: CookieStore;
   private deviceStateStore: DeviceStateStore;
   private activityStore: ActivityStore;
   private pushEventStore: PushEventStore;
+  private routineRunStore: RoutineRunStore;
+  private deviceBackend: DeviceBackend | null;
+  private cookieDeviceBackend: CookieApiDeviceBackend;
   private pushClient: AlexaPushClient | null = null;
+  private pushSupervisor: PushListenerSupervisor;
+  private cookieHealth: CookieHealthMonitor;
+  private cookieSession: CookieSessionManager;
+  private pushProcessor: PushEventProcessor;
+  private deviceDirectory: DeviceDirectory;
+  private mediaSessions: MediaSessionTracker;
+  private connectivity: ConnectivityTracker;
+  private pollScheduler: PollScheduler;
+  private stateAggregator: StateAggregator;
+  private retention: RetentionManager;
+  /** The database behind the stores, when the tool opened one */
+  private sqlite: SqliteStorage | null = null;
   private cleanup?: () => void;
 
   /** The user ID for the current session. */
   private userId: string;
 
-  /** Timestamp of the last poll_all_states call (rate limiting). */
-  private lastPollAllTime = 0;
-
   constructor(opts?: {
     config?: Partial<AlexaAgentConfig>;
     userId?: string;
@@ -90,9 +174,26 @@ export class AlexaAgentTool {
     routineStore?: RoutineStore;
     tokenStore?: TokenStore;
     cookieStore?: CookieStore;
+    refreshTokenStore?: RefreshTokenStore;
     deviceStateStore?: DeviceStateStore;
     activityStore?: ActivityStore;
     pushEventStore?: PushEventStore;
+    routineRunStore?: RoutineRunStore;
+    discoveryStateStore?: DiscoveryStateStore;
+    deviceDirectoryStore?: DeviceDirectoryStore;
+    mediaSessionStore?: MediaSessionStore;
+    connectivityStore?: ConnectivityStore;
+    stateRollupStore?: StateRollupStore;
+    /**
+     * Where control_device / get_device_state directives are sent.
+     * Defaults to the Alexa account API once a cookie is available.
+     */
+    deviceBackend?: DeviceBackend;
+    /**
+     * The endpoints the skill exposes, for sync_discovery.  Defaults to
+     * the device registry, once a Discover has filled it.
+     */
+    discoverySource?: () => Promise<DiscoveredDevice[]>;
   }) {
     this.config = loadConfig(opts?.config);
     this.userId = opts?.userId ?? 'default-user';
@@ -101,9 +202,16 @@ export class AlexaAgentTool {
     let routineStore = opts?.routineStore;
     let tokenStore = opts?.tokenStore;
     let cookieStore = opts?.cookieStore;
+    let refreshTokenStore = opts?.refreshTokenStore;
     let deviceStateStore = opts?.deviceStateStore;
     let activityStore = opts?.activityStore;
     let pushEventStore = opts?.pushEventStore;
+    let routineRunStore = opts?.routineRunStore;
+    let discoveryStateStore = opts?.discoveryStateStore;
+    let deviceDirectoryStore = opts?.deviceDirectoryStore;
+    let mediaSessionStore = opts?.mediaSessionStore;
+    let connectivityStore = opts?.connectivityStore;
+    let stateRollupStore = opts?.stateRollupStore;
 
     // Auto-create SQLite stores when configured and no override provided
     if (this.config.storageBackend === 'sqlite' && (!eventStore || !routineStore || !tokenStore || !cookieStore)) {
@@ -115,9 +223,22 @@ export class AlexaAgentTool {
       routineStore = routineStore ?? storage.routines();
       tokenStore = tokenStore ?? storage.tokens();
       cookieStore = cookieStore ?? storage.cookies();
-      deviceStateStore = deviceStateStore ?? storage.deviceStates();
+      refreshTokenStore = refreshTokenStore ?? storage.refreshTokens();
+      deviceStateStore = deviceStateStore ?? (this.config.stateStorageMode === 'snapshots'
+        ? storage.deviceStates()
+        : storage.deviceStateChanges({
+          keyframeIntervalMs: this.config.stateKeyframeIntervalHours * 60 * 60_000,
+          onChanges: (changes) => this.logStateChanges(changes),
+        }));
       activityStore = activityStore ?? storage.activities();
       pushEventStore = pushEventStore ?? storage.pushEvents();
+      routineRunStore = routineRunStore ?? storage.routineRuns();
+      discoveryStateStore = discoveryStateStore ?? storage.discoveryState();
+      deviceDirectoryStore = deviceDirectoryStore ?? storage.deviceDirectory();
+      mediaSessionStore = mediaSessionStore ?? storage.mediaSessions();
+      connectivityStore = connectivityStore ?? storage.connectivity();
+      stateRollupStore = stateRollupStore ?? storage.stateRollups();
+      this.sqlite = storage;
       this.cleanup = () => storage.close();
     }
 
@@ -131,7 +252,337 @@ export class AlexaAgentTool {
     this.deviceStateStore = deviceStateStore ?? new InMemoryDeviceStateStore();
     this.activityStore = activityStore ?? new InMemoryActivityStore();
     this.pushEventStore = pushEventStore ?? new InMemoryPushEventStore();
-    this.alexaApi = new AlexaApiClient(this.config.region as AlexaApiRegion);
+    this.routineRunStore = routineRunStore ?? new InMemoryRoutineRunStore();
+    this.alexaApi = new AlexaApiClient(this.config.region as AlexaApiRegion, {
+      policy: { timeoutMs: this.config.alexaApiTimeoutMs, maxRetries: this.config.alexaApiMaxRetries },
+    });
+    this.deviceBackend = opts?.deviceBackend ?? null;
+    this.cookieDeviceBackend = new CookieApiDeviceBackend(this.alexaApi);
+    this.changeReporter = new ChangeReporter(this.eventGateway, this.auth, this.eventLogger, {
+      userId: this.userId,
+      isReportable: (endpointId) => this.registry.has(endpointId),
+      isProactivelyReported: (endpointId, property) => {
+        const device = this.registry.get(endpointId);
+        return device ? isProactivelyReported(device, property) : false;
+      },
+      getStoredState: async (endpointId) => {
+        const snapshot = await this.deviceStateStore.getLatest(this.stateKey(endpointId));
+        return snapshot && !snapshot.error
+          ? snapshot.capabilities.map((cap) => capabilityToPropertyState(cap, snapshot.polledAt))
+          : null;
+      },
+    });
+    this.deviceDirectory = new DeviceDirectory(deviceDirectoryStore ?? new InMemoryDeviceDirectoryStore(), {
+      fetchDevices: async () => {
+        await this.ensureCookieLoaded();
+        const devices = await this.alexaApi.getAllDevices();
+        await this.connectivity.observeDevices(devices).catch(() => {});
+        return devices;
+      },
+      onError: (error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'DeviceDirectoryRefreshError',
+          namespace: 'DeviceDirectory',
+          userId: this.userId,
+          payload: { error: error.message },
+          tags: ['device_directory', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.connectivity = new ConnectivityTracker(connectivityStore ?? new InMemoryConnectivityStore(), {
+      onTransition: (transition, previous) => {
+        const offline = transition.status === 'OFFLINE';
+        this.eventLogger.logCustomEvent({
+          eventType: offline ? 'DeviceWentOffline' : 'DeviceCameOnline',
+          namespace: 'ConnectivityTracker',
+          endpointId: transition.deviceId,
+          userId: this.userId,
+          payload: {
+            deviceName: transition.deviceName,
+            source: transition.source,
+            at: transition.at,
+            previousAt: previous.at,
+          },
+          tags: ['connectivity', offline ? 'device_offline' : 'device_online'],
+        }).catch(() => {});
+      },
+    });
+    this.pollScheduler = new PollScheduler({
+      listDevices: async () => {
+        const devices = await this.alexaApi.getAllDevices();
+        await this.observeAccountDevices(devices);
+        return devices;
+      },
+      pollStates: async (applianceIds, names) => {
+        const snapshots = await this.alexaApi.getDeviceStates(applianceIds, names);
+        await this.storeSnapshots(snapshots, 'PERIODIC_POLL');
+        return snapshots;
+      },
+      pollEchoVolumes: async (devices) => {
+        const snapshots = await this.fetchEchoVolumes(new Map(
+          devices.map((d) => [d.id, { name: d.name, stateKey: d.applianceId || d.id }]),
+        ));
+        if (snapshots.length > 0) await this.storeSnapshots(snapshots, 'PERIODIC_POLL');
+        return snapshots;
+      },
+      hasCookie: () => this.ensureCookieLoaded().then(() => true, () => false),
+      policy: {
+        categories: {
+          sensor: { intervalMs: this.config.autoPollSensorIntervalMinutes * 60_000 },
+          static: { intervalMs: this.config.autoPollStaticIntervalMinutes * 60_000 },
+          ...(this.config.autoPollIntervalMinutes > 0
+            ? { controllable: { intervalMs: this.config.autoPollIntervalMinutes * 60_000 } }
+            : {}),
+        },
+        pushFreshMs: this.config.autoPollPushFreshMinutes * 60_000,
+      },
+      maxBatchesPerTick: this.alexaApi.getRequestPolicy().rateLimits.phoenix.burst,
+      onPoll: (result) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'ScheduledPoll',
+          namespace: 'PollScheduler',
+          userId: this.userId,
+          payload: { ...result },
+          tags: ['state_polling', 'account_api'],
+        }).catch(() => {});
+      },
+      onError: (error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'ScheduledPollError',
+          namespace: 'PollScheduler',
+          userId: this.userId,
+          payload: { error: error.message },
+          tags: ['state_polling', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.stateAggregator = new StateAggregator(this.deviceStateStore, stateRollupStore ?? new InMemoryStateRollupStore(), {
+      onRollup: (result) => {
+        if (result.rollupCount === 0) return;
+        this.eventLogger.logCustomEvent({
+          eventType: 'StateRollup',
+          namespace: 'StateAggregator',
+          userId: this.userId,
+          payload: { ...result },
+          tags: ['state_history'],
+        }).catch(() => {});
+      },
+      onError: (error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'StateRollupError',
+          namespace: 'StateAggregator',
+          userId: this.userId,
+          payload: { error: error.message },
+          tags: ['state_history', 'error'],
+        }).catch(() => {});
+      },
+    });
+    const days = (n: number) => n * 24 * 60 * 60_000;
+    const sqlite = this.sqlite;
+    this.retention = new RetentionManager({
+      events: (olderThan) => this.eventLogger.getStore().prune(olderThan),
+      routineRuns: (olderThan) => this.routineRunStore.prune(olderThan),
+      deviceStates: (olderThan) => this.deviceStateStore.prune(olderThan),
+      activity: (olderThan) => this.activityStore.prune(olderThan),
+      pushEvents: (olderThan) => this.pushEventStore.prune(olderThan),
+      mediaSessions: (olderThan) => this.mediaSessions.prune(olderThan),
+      connectivityTransitions: (olderThan) => this.connectivity.prune(olderThan),
+      stateRollups5m: (olderThan) => this.stateAggregator.prune('5m', olderThan),
+      stateRollups1h: (olderThan) => this.stateAggregator.prune('1h', olderThan),
+      stateRollups1d: (olderThan) => this.stateAggregator.prune('1d', olderThan),
+    }, {
+      policy: {
+        events: days(this.config.retentionEventsDays),
+        routineRuns: days(this.config.retentionRoutineRunsDays),
+        deviceStates: days(this.config.retentionDeviceStatesDays),
+        activity: days(this.config.retentionActivityDays),
+        pushEvents: days(this.config.retentionPushEventsDays),
+        mediaSessions: days(this.config.retentionMediaSessionsDays),
+        connectivityTransitions: days(this.config.retentionConnectivityDays),
+        stateRollups5m: days(this.config.retentionRollups5mDays),
+        stateRollups1h: days(this.config.retentionRollups1hDays),
+        stateRollups1d: days(this.config.retentionRollups1dDays),
+      },
+      vacuum: sqlite ? () => sqlite.vacuum() : undefined,
+      onRun: (result) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'RetentionRun',
+          namespace: 'RetentionManager',
+          userId: this.userId,
+          payload: { ...result },
+          tags: ['retention', 'storage'],
+        }).catch(() => {});
+      },
+      onError: (error, target) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'RetentionError',
+          namespace: 'RetentionManager',
+          userId: this.userId,
+          payload: { target, error: error.message },
+          tags: ['retention', 'storage', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.mediaSessions = new MediaSessionTracker(mediaSessionStore ?? new InMemoryMediaSessionStore());
+    this.pushProcessor = new PushEventProcessor(this.pushEventStore, {
+      PUSH_VOLUME_CHANGE: (event) => this.storePushState(event),
+      PUSH_DOPPLER_CONNECTION_CHANGE: (event) => this.storePushConnectivity(event),
+      PUSH_ACTIVITY: (event) => this.fetchPushActivity(event),
+      PUSH_AUDIO_PLAYER_STATE: (event) => this.mediaSessions.apply(event),
+      PUSH_MEDIA_CHANGE: (event) => this.mediaSessions.apply(event),
+      PUSH_MEDIA_PROGRESS_CHANGE: (event) => this.mediaSessions.apply(event),
+      PUSH_MEDIA_QUEUE_CHANGE: (event) => this.mediaSessions.apply(event),
+    }, {
+      onError: (event, error, gaveUp) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'PushEventProcessingError',
+          namespace: 'PushEventProcessor',
+          endpointId: event.deviceSerial,
+          userId: this.userId,
+          payload: { pushEventId: event.id, command: event.command, error: error.message, gaveUp },
+          tags: ['push_event', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.cookieHealth = new CookieHealthMonitor(this.alexaApi, {
+      loadCredentials: () => this.ensureCookieLoaded().then(() => this.alexaApi.getCredentials(), () => null),
+      onExpiring: (status) => this.logCookieAlert('CookieExpiring', status),
+      onInvalid: (status) => {
+        this.logCookieAlert('CookieInvalid', status);
+        // With a refresh token, replace the rejected cookie right away
+        this.cookieSession.refresh().catch(() => {});
+      },
+    });
+    this.cookieSession = new CookieSessionManager(refreshTokenStore ?? new InMemoryRefreshTokenStore(), this.cookieStore, {
+      userId: this.userId,
+      region: this.config.region as AlexaApiRegion,
+      exchangeUrl: this.config.cookieExchangeUrl || undefined,
+      alexaUrl: this.config.cookieCsrfUrl || undefined,
+      refreshBeforeExpiryMs: this.config.cookieRefreshBeforeExpiryHours * 60 * 60_000,
+      onRotated: (credentials) => this.applyRotatedCookie(credentials),
+      onError: (error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'CookieRefreshFailed',
+          namespace: 'CookieSessionManager',
+          userId: this.userId,
+          payload: { error: error.message },
+          tags: ['auth', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.pushSupervisor = new PushListenerSupervisor({
+      getClient: () => this.pushClient,
+      startListener: async () => { await this.startPushListener(true); },
+      hasCookie: () => this.ensureCookieLoaded().then(() => true, () => false),
+      enabled: this.config.pushAutoStart,
+      stallTimeoutMs: this.config.pushStallTimeoutMinutes * 60_000,
+      onRestart: (reason) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'PushListenerRestarted',
+          namespace: 'PushListenerSupervisor',
+          userId: this.userId,
+          payload: { reason },
+          tags: ['push_listener', 'connection'],
+        }).catch(() => {});
+      },
+      onStall: (idleMs) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'PushListenerStalled',
+          namespace: 'PushListenerSupervisor',
+          userId: this.userId,
+          payload: { idleMs },
+          tags: ['push_listener', 'connection'],
+        }).catch(() => {});
+      },
+      onError: (error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'PushListenerError',
+          namespace: 'PushListenerSupervisor',
+          userId: this.userId,
+          payload: { error: error.message },
+          tags: ['push_listener', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.discoverySync = new DiscoverySync(
+      this.eventGateway,
+      this.auth,
+      this.eventLogger,
+      discoveryStateStore ?? new InMemoryDiscoveryStateStore(),
+      this.registry,
+      {
+        userId: this.userId,
+        getEndpoints: opts?.discoverySource ?? (async () => (this.registry.isLoaded() ? this.registry.list() : null)),
+      },
+    );
+    this.scheduler = new RoutineScheduler(this.routines, {
+      onFire: async (routine, scheduledFor) => {
+        await this.eventLogger.logCustomEvent({
+          eventType: 'RoutineScheduledRun',
+          namespace: 'RoutineScheduler',
+          userId: this.userId,
+          payload: { routineId: routine.id, name: routine.name, scheduledFor: scheduledFor.toISOString() },
+          tags: ['routines', 'schedule'],
+        });
+        await this.triggerRoutine(routine.id, 'schedule');
+      },
+      onError: (routineId, error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'RoutineScheduleError',
+          namespace: 'RoutineScheduler',
+          userId: this.userId,
+          payload: { routineId, error: error.message },
+          tags: ['routines', 'schedule', 'error'],
+        }).catch(() => {});
+      },
+    });
+    this.executor = new RoutineExecutor({
+      controlDevice: async (endpointId, command) => {
+        await this.controlDevice(endpointId, command);
+      },
+      controlAccountDevice: async (step) => {
+        await this.controlAccountDevice(
+          step.deviceId, step.deviceType, step.command,
+          step.source, step.entityId, step.alexaDeviceType,
+        );
+      },
+      speak: async (deviceId, deviceType, text) => {
+        await this.controlAccountDevice(deviceId, deviceType, { action: 'speak', text }, 'echo', undefined, deviceType);
+      },
+      getState: (endpointId, live) => this.readDeviceState(endpointId, live),
+      getRoutine: (routineId) => this.routines.getRoutine(routineId),
+    });
+    this.rulesEngine = new RoutineRulesEngine(this.routines, this.eventLogger, {
+      userId: this.userId,
+      resolveDeviceId: (id) => this.deviceDirectory.applianceIdForSerial(id) ?? this.stateKey(id),
+      onFire: async (routine) => {
+        await this.triggerRoutine(routine.id, 'device_event');
+      },
+      onError: (routineId, error) => {
+        this.eventLogger.logCustomEvent({
+          eventType: 'RoutineTriggerError',
+          namespace: 'RoutineRulesEngine',
+          userId: this.userId,
+          payload: { routineId, error: error.message },
+          tags: ['routines', 'device_event', 'error'],
+        }).catch(() => {});
+      },
+    });
+
+    // Runs still `running` were cut off when the last process stopped;
+    // none of this process's runs have started yet
+    this.routineRunStore.interruptRunning(new Date().toISOString(), 'Interrupted by a restart before the run finished')
+      .then((count) => {
+        if (count === 0) return;
+        return this.eventLogger.logCustomEvent({
+          eventType: 'RoutineRunsInterrupted',
+          namespace: 'AlexaAgentTool',
+          userId: this.userId,
+          payload: { count },
+          tags: ['routines', 'error'],
+        });
+      })
+      .catch(() => {});
   }
 
   /**
@@ -139,6 +590,17 @@ export class AlexaAgentTool {
    * Call this when you're done using the tool.
    */
   close(): void {
+    this.scheduler.stop();
+    this.rulesEngine.stop();
+    this.changeReporter.stop();
+    this.pushProcessor.stop();
+    this.deviceDirectory.stop();
+    this.pushSupervisor.stop();
+    this.cookieHealth.stop();
+    this.cookieSession.stop();
+    this.pollScheduler.stop();
+    this.stateAggregator.stop();
+    this.retention.stop();
     if (this.pushClient) {
       this.pushClient.disconnect();
       this.pushClient = null;
@@ -154,10 +616,25 @@ export class AlexaAgentTool {
   getDeviceRegistry(): DeviceRegistry { return this.registry; }
   getDeviceController(): DeviceController { return this.controller; }
   getRoutineManager(): RoutineManager { return this.routines; }
+  getRoutineScheduler(): RoutineScheduler { return this.scheduler; }
+  getRoutineRulesEngine(): RoutineRulesEngine { return this.rulesEngine; }
   getEventLogger(): EventLogger { return this.eventLogger; }
   getEventGateway(): EventGatewayClient { return this.eventGateway; }
+  getChangeReporter(): ChangeReporter { return this.changeReporter; }
+  getDiscoverySync(): DiscoverySync { return this.discoverySync; }
+  getPushEventProcessor(): PushEventProcessor { return this.pushProcessor; }
+  getDeviceDirectory(): DeviceDirectory { return this.deviceDirectory; }
+  getMediaSessionTracker(): MediaSessionTracker { return this.mediaSessions; }
+  getConnectivityTracker(): ConnectivityTracker { return this.connectivity; }
   getAlexaApiClient(): AlexaApiClient { return this.alexaApi; }
   getPushClient(): AlexaPushClient | null { return this.pushClient; }
+  getPushSupervisor(): PushListenerSupervisor { return this.pushSupervisor; }
+  getCookieHealthMonitor(): CookieHealthMonitor { return this.cookieHealth; }
+  getCookieSessionManager(): CookieSessionManager { return this.cookieSession; }
+  getPollScheduler(): PollScheduler { return this.pollScheduler; }
+  getStateAggregator(): StateAggregator { return this.stateAggregator; }
+  getRetentionManager(): RetentionManager { return this.retention; }
+  getDeviceBackend(): DeviceBackend | null { return this.deviceBackend; }
 
   // -----------------------------------------------------------------------
   // Main dispatch
@@ -179,8 +656,11 @@ export class AlexaAgentTool {
         case 'discover_devices':
           data = await this.discoverDevices(action.category);
           break;
+        case 'sync_discovery':
+          data = await this.syncDiscovery(action.dryRun);
+          break;
         case 'get_device_state':
-          data = await this.getDeviceState(action.endpointId);
+          data = await this.getDeviceState(action.endpointId, action.mode);
           break;
         case 'control_device':
           data = await this.controlDevice(action.endpointId, action.command);
@@ -197,6 +677,27 @@ export class AlexaAgentTool {
         case 'delete_routine':
           data = await this.deleteRoutine(action.routineId);
           break;
+        case 'get_routine':
+          data = await this.getRoutine(action.routineId);
+          break;
+        case 'update_routine':
+          data = await this.updateRoutine(action.routineId, action.updates);
+          break;
+        case 'set_routine_enabled':
+          data = await this.setRoutineEnabled(action.routineId, action.enabled);
+          break;
+        case 'duplicate_routine':
+          data = await this.duplicateRoutine(action.routineId, action.name);
+          break;
+        case 'get_routine_schedule':
+          data = await this.getRoutineSchedule(action.routineId, action.count);
+          break;
+        case 'get_routine_runs':
+          data = await this.getRoutineRuns(action);
+          break;
+        case 'get_routine_run':
+          data = await this.getRoutineRun(action.runId);
+          break;
         case 'query_events':
           data = await this.queryEvents(action.query);
           break;
@@ -206,6 +707,9 @@ export class AlexaAgentTool {
         case 'set_alexa_cookie':
           data = await this.setAlexaCookie(action.cookie, action.csrf);
           break;
+        case 'set_alexa_refresh_token':
+          data = await this.setAlexaRefreshToken(action.refreshToken);
+          break;
         case 'list_all_devices':
           data = await this.listAllDevices(action.source, action.deviceType);
           break;
@@ -231,17 +735,39 @@ export class AlexaAgentTool {
           data = await this.getActivityHistory(action.startTimestamp, action.endTimestamp, action.maxRecords, action.nextToken);
           break;
         case 'query_state_history':
-          data = await this.queryStateHistory(action.deviceId, action.startTime, action.endTime, action.limit, action.offset);
+          data = await this.queryStateHistory(
+            action.deviceId, action.startTime, action.endTime, action.limit, action.offset, action.deviceName,
+          );
+          break;
+        case 'query_state_aggregates':
+          data = await this.queryStateAggregates(action);
           break;
         case 'start_push_listener':
+          this.pushSupervisor.enabled = true;
           data = await this.startPushListener();
           break;
         case 'stop_push_listener':
+          this.pushSupervisor.enabled = false;
           data = await this.stopPushListener();
           break;
         case 'query_push_events':
           data = await this.queryPushEvents(action);
           break;
+        case 'get_now_playing':
+          data = await this.getNowPlaying(action.deviceSerial);
+          break;
+        case 'query_media_sessions':
+          data = await this.queryMediaSessions(action);
+          break;
+        case 'get_connectivity_report':
+          data = await this.getConnectivityReport(action);
+          break;
+        case 'backfill_device_names':
+          data = await this.backfillDeviceNames(action.refresh);
+          break;
+        case 'get_storage_stats':
+          data = this.getStorageStats();
+          break;
         default: {
           const _exhaustive: never = action;
           throw new Error(`Unknown action type: ${(_exhaustive as AgentAction).type}`);
@@ -288,34 +814,114 @@ export class AlexaAgentTool {
     return { devices };
   }
 
-  private async getDeviceState(endpointId: string): Promise<GetDeviceStateResult> {
-    const device = this.registry.get(endpointId);
-    if (!device) {
+  private async syncDiscovery(dryRun?: boolean): Promise<SyncDiscoveryResult> {
+    const result = await this.discoverySync.sync(dryRun);
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentSyncDiscovery',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: {
+        added: result.added.length,
+        updated: result.updated.length,
+        removed: result.removed.length,
+        dryRun: result.dryRun,
+      },
+      tags: ['agent_action', 'discovery'],
+    });
+
+    return result;
+  }
+
+  /**
+   * Device state from the latest cached snapshot and/or a live
+   * ReportState through the device backend, with per-property freshness.
+   */
+  private async getDeviceState(
+    endpointId: string,
+    mode: DeviceStateReadMode = 'live_with_fallback',
+  ): Promise<GetDeviceStateResult> {
+    await this.deviceDirectory.load().catch(() => {});
+    const cached = await this.deviceStateStore.getLatest(this.stateKey(endpointId));
+    if (!this.registry.get(endpointId) && !cached) {
       throw new Error(`Device ${endpointId} not found. Run discover_devices first.`);
     }
 
-    // Build a ReportState directive
+    let live: DeviceState | null = null;
+    if (mode !== 'cache_only') {
+      try {
+        live = await this.readLiveState(endpointId);
+      } catch (err) {
+        if (mode === 'live') throw err;
+        // live_with_fallback: serve the cache
+      }
+    }
+
+    const now = new Date();
+    const cachedProperties = cached && mode !== 'live'
+      ? cached.capabilities.map((cap) => capabilityToPropertyState(cap, cached.polledAt, now))
+      : [];
+    const { properties, readings } = mergePropertyStates(cachedProperties, live?.properties ?? [], now);
+
+    const sources = new Set(readings.map((r) => r.source));
+    const source = sources.size === 0 ? 'none' : sources.size > 1 ? 'merged' : readings[0].source;
+
+    return {
+      state: {
+        endpointId,
+        properties,
+        retrievedAt: live?.retrievedAt ?? cached?.polledAt ?? now.toISOString(),
+      },
+      source,
+      readings,
+    };
+  }
+
+  /**
+   * ReportState round trip through the device backend.  The answer is
+   * stored as a snapshot like any other poll, with `cause` attributed to
+   * any change it reveals.  Throws when no backend is available or the
+   * device errors.
+   */
+  private async readLiveState(endpointId: string, cause: ChangeCause = 'PERIODIC_POLL'): Promise<DeviceState> {
+    const backend = await this.resolveDeviceBackend();
+    if (!backend) {
+      throw new Error(`No device backend available to read ${endpointId} live. Set an Alexa cookie first.`);
+    }
+
     let accessToken: string;
     try {
       accessToken = await this.auth.getAccessToken(this.userId);
     } catch {
-      // In development mode without real tokens, return a placeholder state
       accessToken = '';
     }
 
     const directiveMsg = this.controller.buildReportStateDirective(endpointId, accessToken);
-
     await this.eventLogger.logAlexaMessage(directiveMsg, this.userId);
 
-    // In a real deployment the directive would be sent to the device backend.
-    // Here we return whatever state we have cached.
-    return {
-      state: {
-        endpointId,
-        properties: [],
-        retrievedAt: new Date().toISOString(),
-      },
-    };
+    const report = await this.dispatchDirective(backend, directiveMsg);
+    const state = this.controller.parseStateReport(report);
+    if (!state) {
+      throw new Error(`Device ${endpointId} did not answer ReportState with a StateReport`);
+    }
+
+    await this.deviceDirectory.load().catch(() => {});
+    await this.storeSnapshots([{
+      deviceId: this.stateKey(endpointId),
+      capabilities: state.properties.map(propertyStateToCapability),
+      polledAt: state.retrievedAt,
+    }], cause);
+
+    return state;
+  }
+
+  /**
+   * Key an endpoint's snapshots are stored under: its applianceId when
+   * the (loaded) directory knows it, as polls store them, else the
+   * endpointId.
+   */
+  private stateKey(endpointId: string): string {
+    return this.deviceDirectory.applianceIdForEndpoint(endpointId) ?? endpointId;
   }
 
   private async controlDevice(
@@ -338,16 +944,63 @@ export class AlexaAgentTool {
 
     await this.eventLogger.logAlexaMessage(directiveMsg, this.userId);
 
+    // Dispatch, then ask the device what it actually ended up as.  The
+    // command already succeeded, so a failed read only leaves the
+    // new state out.
+    const backend = await this.resolveDeviceBackend();
+    let newState: DeviceState | undefined;
+    let stateError: string | undefined;
+    if (backend) {
+      await this.dispatchDirective(backend, directiveMsg);
+      try {
+        newState = await this.readLiveState(endpointId, 'APP_INTERACTION');
+      } catch (err) {
+        stateError = err instanceof Error ? err.message : String(err);
+      }
+    }
+
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentControlDevice',
       namespace: 'AlexaAgentTool',
       endpointId,
       userId: this.userId,
-      payload: { command },
+      payload: { command, backend: backend?.name ?? null, ...(stateError ? { stateError } : {}) },
       tags: ['agent_action', 'device_control'],
     });
 
-    return { acknowledged: true };
+    return { acknowledged: true, ...(newState ? { newState } : {}) };
+  }
+
+  /**
+   * The backend for Smart Home directives: the configured one, else the
+   * account API if a cookie is available, else none.
+   */
+  private async resolveDeviceBackend(): Promise<DeviceBackend | null> {
+    if (this.deviceBackend) return this.deviceBackend;
+    try {
+      await this.ensureCookieLoaded();
+      return this.cookieDeviceBackend;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send a directive to a backend and log the device's answer.
+   * An ErrorResponse is raised as an error.
+   */
+  private async dispatchDirective(backend: DeviceBackend, message: AlexaMessage): Promise<AlexaMessage> {
+    const response = await backend.handleDirective(message);
+    await this.eventLogger.logAlexaMessage(response, this.userId);
+
+    const error = describeErrorResponse(response);
+    if (error) {
+      const header = message.directive?.header;
+      throw new Error(
+        `Device ${message.directive?.endpoint?.endpointId} rejected ${header?.namespace}.${header?.name}: ${error}`,
+      );
+    }
+    return response;
   }
 
   private async listRoutines(): Promise<ListRoutinesResult> {
@@ -364,7 +1017,15 @@ export class AlexaAgentTool {
     return { routines };
   }
 
-  private async triggerRoutine(routineId: string): Promise<TriggerRoutineResult> {
+  /**
+   * Trigger a routine and record the run.  The run is stored as
+   * `running` before anything executes and completed with the
+   * per-step report afterwards.
+   */
+  private async triggerRoutine(routineId: string, source: RoutineRunSource = 'manual'): Promise<TriggerRoutineResult> {
+    const routine = await this.routines.getRoutine(routineId);
+    if (!routine) throw new Error(`Routine ${routineId} not found`);
+
     let accessToken: string | undefined;
     try {
       accessToken = await this.auth.getAccessToken(this.userId);
@@ -372,33 +1033,160 @@ export class AlexaAgentTool {
       accessToken = undefined;
     }
 
-    const result = await this.routines.triggerRoutine(routineId, accessToken);
+    const runId = uuid();
+    const startedAt = new Date();
+    await this.routineRunStore.insert({
+      id: runId,
+      routineId,
+      routineName: routine.name,
+      source,
+      status: 'running',
+      startedAt: startedAt.toISOString(),
+      steps: [],
+    });
 
-    // If the routine returned device actions to execute, run them
-    if (result.actionsToExecute) {
-      for (const step of result.actionsToExecute) {
-        if (step.delaySeconds) {
-          await new Promise((resolve) => setTimeout(resolve, step.delaySeconds! * 1000));
-        }
-        await this.controlDevice(step.endpointId, step.command);
-      }
+    let result: Awaited<ReturnType<RoutineManager['triggerRoutine']>>;
+    try {
+      result = await this.routines.triggerRoutine(routineId, accessToken);
+    } catch (err) {
+      const finishedAt = new Date();
+      await this.routineRunStore.update(runId, {
+        status: 'failed',
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
     }
 
+    // If the routine returned steps to execute, run them
+    const report = result.routine ? await this.executor.run(result.routine) : undefined;
+
+    const finishedAt = new Date();
+    await this.routineRunStore.update(runId, {
+      status: report?.status ?? 'succeeded',
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      steps: report?.steps ?? [],
+      error: report?.error,
+    });
+
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentTriggerRoutine',
       namespace: 'AlexaAgentTool',
       userId: this.userId,
-      payload: { routineId, triggered: result.triggered },
+      payload: { routineId, runId, source, triggered: result.triggered, status: report?.status, error: report?.error },
       tags: ['agent_action', 'routines'],
     });
 
-    return { triggered: result.triggered };
+    return { triggered: result.triggered, runId, report };
+  }
+
+  private async getRoutineRuns(
+    action: import('../types/agent').GetRoutineRunsAction,
+  ): Promise<GetRoutineRunsResult> {
+    const result = await this.routineRunStore.query({
+      routineId: action.routineId,
+      status: action.status,
+      source: action.source,
+      startTime: action.startTime,
+      endTime: action.endTime,
+      limit: action.limit ?? 50,
+      offset: action.offset,
+    });
+
+    return { runs: result.runs, totalCount: result.totalCount };
+  }
+
+  private async getRoutineRun(runId: string): Promise<GetRoutineRunResult> {
+    const run = await this.routineRunStore.get(runId);
+    if (!run) throw new Error(`Routine run ${runId} not found`);
+    return { run };
+  }
+
+  /**
+   * Persist polled snapshots and fan them out: device-event triggers,
+   * ChangeReports for skill endpoints and the poll scheduler (push state
+   * arrives as PHYSICAL_INTERACTION).  Snapshots are keyed by applianceId
+   * or serial, reports by endpointId.  Reports start before the insert
+   * so the stored state is still the baseline they diff against; they
+   * are not awaited, so a slow Event Gateway never delays a poll.
+   */
+  private async storeSnapshots(snapshots: DeviceStateSnapshot[], cause: ChangeCause): Promise<void> {
+    snapshots = await this.withDeviceNames(snapshots, (s) => s.deviceId);
+    const reports = snapshots
+      .filter((s) => !s.error)
+      .map((s) => this.changeReporter.report(
+        this.deviceDirectory.endpointIdFor(s.deviceId) ?? s.deviceId,
+        s.capabilities.map((cap) => capabilityToPropertyState(cap, s.polledAt)),
+        cause,
+      ));
+
+    await this.deviceStateStore.insertBatch(snapshots, cause);
+    await this.rulesEngine.observeSnapshots(snapshots);
+    this.pollScheduler.observe(snapshots, cause === 'PHYSICAL_INTERACTION' ? 'push' : 'poll');
+    Promise.all(reports).catch(() => {});
+  }
+
+  /**
+   * Send the property changes a change-based state store recorded to
+   * the EventLogger as PropertyChange events.  Errors and properties
+   * that stopped being reported are not property states, so they are
+   * left out.
+   */
+  private logStateChanges(changes: StatePropertyChange[]): void {
+    const byDevice = new Map<string, StatePropertyChange[]>();
+    for (const change of changes) {
+      if (change.namespace === '' || change.value === undefined) continue;
+      byDevice.set(change.deviceId, [...(byDevice.get(change.deviceId) ?? []), change]);
+    }
+    for (const [deviceId, deviceChanges] of byDevice) {
+      this.eventLogger.logPropertyChange(
+        deviceId,
+        deviceChanges.map((change) => ({
+          namespace: change.namespace,
+          name: change.name,
+          ...(change.instance ? { instance: change.instance } : {}),
+          value: change.value,
+          timeOfSample: change.timeOfSample ?? change.changedAt,
+          uncertaintyInMilliseconds: 0,
+        })),
+        deviceChanges[0].cause as ChangeCause | undefined,
+        this.userId,
+      ).catch(() => {});
+    }
+  }
+
+  /**
+   * Latest state for a device, for routine conditions.  A live read
+   * polls the account API when a cookie is loaded (storing the
+   * snapshot like any other poll); otherwise, or if the poll fails,
+   * the cached snapshot is used.  Both go by the device's state key,
+   * as polls do.
+   */
+  private async readDeviceState(endpointId: string, live: boolean): Promise<DeviceStateSnapshot | null> {
+    await this.deviceDirectory.load().catch(() => {});
+    const key = this.stateKey(endpointId);
+    if (live && this.alexaApi.hasValidCredentials()) {
+      try {
+        const [snapshot] = await this.alexaApi.getDeviceStates([key]);
+        if (snapshot && !snapshot.error) {
+          await this.storeSnapshots([snapshot], 'PERIODIC_POLL');
+          return snapshot;
+        }
+      } catch {
+        // Fall back to the cache
+      }
+    }
+    return this.deviceStateStore.getLatest(key);
   }
 
   private async createRoutine(
     routine: import('../types/agent').RoutineDefinition,
   ): Promise<CreateRoutineResult> {
     const routineId = await this.routines.createRoutine(routine);
+    await this.scheduler.refresh(routineId);
+    await this.rulesEngine.refresh();
 
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentCreateRoutine',
@@ -413,6 +1201,8 @@ export class AlexaAgentTool {
 
   private async deleteRoutine(routineId: string): Promise<DeleteRoutineResult> {
     const deleted = await this.routines.deleteRoutine(routineId);
+    await this.scheduler.refresh(routineId);
+    await this.rulesEngine.refresh();
 
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentDeleteRoutine',
@@ -425,6 +1215,100 @@ export class AlexaAgentTool {
     return { deleted };
   }
 
+  private async getRoutine(routineId: string): Promise<GetRoutineResult> {
+    const routine = await this.routines.getRoutine(routineId);
+    if (!routine) throw new Error(`Routine ${routineId} not found`);
+    return { routine };
+  }
+
+  private async updateRoutine(
+    routineId: string,
+    updates: Partial<import('../types/agent').RoutineDefinition>,
+  ): Promise<UpdateRoutineResult> {
+    const routine = await this.routines.updateRoutine(routineId, updates);
+    await this.scheduler.refresh(routineId);
+    await this.rulesEngine.refresh();
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentUpdateRoutine',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: { routineId, fields: Object.keys(updates) },
+      tags: ['agent_action', 'routines'],
+    });
+
+    return { routine: toSummary(routine) };
+  }
+
+  private async setRoutineEnabled(routineId: string, enabled: boolean): Promise<SetRoutineEnabledResult> {
+    await this.routines.setRoutineEnabled(routineId, enabled);
+    await this.scheduler.refresh(routineId);
+    await this.rulesEngine.refresh();
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentSetRoutineEnabled',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: { routineId, enabled },
+      tags: ['agent_action', 'routines'],
+    });
+
+    return { routineId, enabled };
+  }
+
+  private async duplicateRoutine(routineId: string, name?: string): Promise<DuplicateRoutineResult> {
+    const copy = await this.routines.duplicateRoutine(routineId, name);
+    await this.scheduler.refresh(copy.id);
+    await this.rulesEngine.refresh();
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentDuplicateRoutine',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: { sourceRoutineId: routineId, routineId: copy.id, name: copy.name },
+      tags: ['agent_action', 'routines'],
+    });
+
+    return { routineId: copy.id, routine: toSummary(copy) };
+  }
+
+  private async getRoutineSchedule(routineId?: string, count = 5): Promise<GetRoutineScheduleResult> {
+    const limit = Math.min(Math.max(1, count), 100);
+
+    let routines = await this.routines.listStoredRoutines();
+    if (routineId) {
+      routines = routines.filter((r) => r.id === routineId);
+      if (routines.length === 0) throw new Error(`Routine ${routineId} not found`);
+    }
+
+    const schedules: RoutineScheduleEntry[] = [];
+    for (const routine of routines) {
+      if (routine.trigger.type !== 'schedule') {
+        if (routineId) throw new Error(`Routine ${routineId} does not have a schedule trigger`);
+        continue;
+      }
+      // Prefer the armed timer's next run so the answer matches what will fire
+      const armed = this.scheduler.getNextRun(routine.id);
+      let nextRuns: Date[] = [];
+      if (routine.enabled) {
+        nextRuns = armed
+          ? [armed, ...RoutineScheduler.upcomingRuns(routine, limit - 1, armed)]
+          : RoutineScheduler.upcomingRuns(routine, limit);
+      }
+      schedules.push({
+        routineId: routine.id,
+        name: routine.name,
+        cron: routine.trigger.cron,
+        timezone: routine.trigger.timezone ?? 'UTC',
+        enabled: routine.enabled,
+        lastTriggered: routine.lastTriggered,
+        nextRuns: nextRuns.map((d) => d.toISOString()),
+      });
+    }
+
+    return { schedules, schedulerRunning: this.scheduler.isRunning() };
+  }
+
   private async queryEvents(
     query: import('../events/event-store').EventQuery,
   ): Promise<QueryEventsResult> {
@@ -465,11 +1349,13 @@ export class AlexaAgentTool {
     this.alexaApi.setCredentials(credentials);
 
     // Validate the cookie (best-effort; the bootstrap endpoint can be flaky)
-    const valid = await this.alexaApi.validateCookie();
+    const check = await this.alexaApi.checkCookie();
+    const valid = check === true;
 
     // Always persist — the cookie may still work for device APIs even if
     // the bootstrap endpoint returns a non-2xx status.
     await this.cookieStore.set(this.userId, this.alexaApi.getCredentials()!);
+    this.cookieHealth.credentialsUpdated(this.alexaApi.getCredentials()!, check);
 
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentSetAlexaCookie',
@@ -479,7 +1365,32 @@ export class AlexaAgentTool {
       tags: ['agent_action', 'auth'],
     });
 
-    return { stored: true, valid };
+    // Reconnect the push listener with the new cookie
+    const pushListenerRestarted = await this.pushSupervisor.cookieUpdated().catch(() => false);
+
+    return { stored: true, valid, pushListenerRestarted };
+  }
+
+  /**
+   * Store a refresh token: its cookies replace the current ones now
+   * (see applyRotatedCookie) and are rotated before they expire.
+   */
+  private async setAlexaRefreshToken(refreshToken: string): Promise<SetAlexaRefreshTokenResult> {
+    const credentials = await this.cookieSession.setRefreshToken(refreshToken);
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentSetAlexaRefreshToken',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: { hasCSRF: !!credentials.csrf, expiresAt: credentials.expiresAt },
+      tags: ['agent_action', 'auth'],
+    });
+
+    return {
+      stored: true,
+      hasCSRF: !!credentials.csrf,
+      ...(credentials.expiresAt ? { expiresAt: credentials.expiresAt } : {}),
+    };
   }
 
   private async listAllDevices(
@@ -489,6 +1400,7 @@ export class AlexaAgentTool {
     await this.ensureCookieLoaded();
 
     let devices = await this.alexaApi.getAllDevices();
+    await this.observeAccountDevices(devices);
 
     // Apply source filter
     if (source && source !== 'all') {
@@ -596,7 +1508,7 @@ export class AlexaAgentTool {
       error: 'No state returned from API',
     };
 
-    await this.deviceStateStore.insert(state);
+    await this.storeSnapshots([state], 'PERIODIC_POLL');
 
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentPollDeviceState',
@@ -616,17 +1528,6 @@ export class AlexaAgentTool {
   ): Promise<PollAllStatesResult> {
     await this.ensureCookieLoaded();
 
-    // Rate limiting: minimum 5 minutes between full polls
-    const RATE_LIMIT_MS = 5 * 60 * 1000;
-    const elapsed = Date.now() - this.lastPollAllTime;
-    if (elapsed < RATE_LIMIT_MS) {
-      const waitSec = Math.ceil((RATE_LIMIT_MS - elapsed) / 1000);
-      throw new Error(
-        `Rate limited: poll_all_states can only run every 5 minutes. ` +
-        `Please wait ${waitSec} more seconds.`,
-      );
-    }
-
     // Auto-discover applianceIds from the normalized device list.
     // The phoenix/state API requires legacyAppliance.applianceId — NOT the
     // entityId (UUID) or endpointId (amzn1.alexa.endpoint...).
@@ -640,6 +1541,7 @@ export class AlexaAgentTool {
     let ids = entityIds;
     if (!ids || ids.length === 0) {
       const devices = await this.alexaApi.getAllDevices();
+      await this.observeAccountDevices(devices);
       ids = [];
       for (const d of devices) {
         if (d.source === 'echo') {
@@ -664,10 +1566,8 @@ export class AlexaAgentTool {
     let errorCount = 0;
 
     // Process smart home devices in batches via phoenix/state API
+    // (paced by the client's rate limit for the phoenix family)
     for (let i = 0; i < ids.length; i += batchSize) {
-      if (i > 0) {
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
       const batch = ids.slice(i, i + batchSize);
       try {
         const snapshots = await this.alexaApi.getDeviceStates(batch, nameMap);
@@ -689,37 +1589,9 @@ export class AlexaAgentTool {
     }
 
     // Fetch Echo device volumes via the dedicated volume API.
-    // The phoenix/state API doesn't return Alexa.Speaker for Echo devices,
-    // so this is the only way to get real volume levels.
     if (echoDeviceInfo.size > 0) {
       try {
-        const volumes = await this.alexaApi.getAllDeviceVolumes();
-        const polledAt = new Date().toISOString();
-        for (const vol of volumes) {
-          // Only create snapshots for Echo devices we know about
-          const info = echoDeviceInfo.get(vol.dsn);
-          if (!info) continue;
-          allSnapshots.push({
-            // Use the same key the frontend uses for state lookup (applianceId || id)
-            deviceId: info.stateKey,
-            deviceName: info.name,
-            capabilities: [
-              {
-                namespace: 'Alexa.Speaker',
-                name: 'volume',
-                value: vol.speakerVolume,
-                timeOfSample: polledAt,
-              },
-              {
-                namespace: 'Alexa.Speaker',
-                name: 'muted',
-                value: vol.speakerMuted,
-                timeOfSample: polledAt,
-              },
-            ],
-            polledAt,
-          });
-        }
+        allSnapshots.push(...await this.fetchEchoVolumes(echoDeviceInfo));
       } catch {
         // Volume fetch is best-effort — don't fail the whole poll
       }
@@ -727,11 +1599,9 @@ export class AlexaAgentTool {
 
     // Persist all snapshots
     if (allSnapshots.length > 0) {
-      await this.deviceStateStore.insertBatch(allSnapshots);
+      await this.storeSnapshots(allSnapshots, 'PERIODIC_POLL');
     }
 
-    this.lastPollAllTime = Date.now();
-
     await this.eventLogger.logCustomEvent({
       eventType: 'AgentPollAllStates',
       namespace: 'AlexaAgentTool',
@@ -743,6 +1613,45 @@ export class AlexaAgentTool {
     return { states: allSnapshots, polledCount: allSnapshots.length, errorCount };
   }
 
+  /**
+   * Volume snapshots for Echo devices (serial → name and state key).
+   * The phoenix/state API doesn't return Alexa.Speaker for Echo devices,
+   * so the dedicated volume API is the only way to get real volume levels.
+   */
+  private async fetchEchoVolumes(
+    echoDeviceInfo: Map<string, { name: string; stateKey: string }>,
+  ): Promise<DeviceStateSnapshot[]> {
+    const volumes = await this.alexaApi.getAllDeviceVolumes();
+    const polledAt = new Date().toISOString();
+    const snapshots: DeviceStateSnapshot[] = [];
+    for (const vol of volumes) {
+      // Only create snapshots for Echo devices we know about
+      const info = echoDeviceInfo.get(vol.dsn);
+      if (!info) continue;
+      snapshots.push({
+        // Use the same key the frontend uses for state lookup (applianceId || id)
+        deviceId: info.stateKey,
+        deviceName: info.name,
+        capabilities: [
+          {
+            namespace: 'Alexa.Speaker',
+            name: 'volume',
+            value: vol.speakerVolume,
+            timeOfSample: polledAt,
+          },
+          {
+            namespace: 'Alexa.Speaker',
+            name: 'muted',
+            value: vol.speakerMuted,
+            timeOfSample: polledAt,
+          },
+        ],
+        polledAt,
+      });
+    }
+    return snapshots;
+  }
+
   private async getCachedStates(): Promise<GetCachedStatesResult> {
     const states = await this.deviceStateStore.getAllLatest();
     // Find the most recent polledAt across all snapshots
@@ -772,7 +1681,7 @@ export class AlexaAgentTool {
 
     // Persist records
     if (result.records.length > 0) {
-      await this.activityStore.insertBatch(result.records);
+      await this.activityStore.insertBatch(await this.withDeviceNames(result.records, (r) => r.deviceSerial));
     }
 
     await this.eventLogger.logCustomEvent({
@@ -796,9 +1705,11 @@ export class AlexaAgentTool {
     endTime?: string,
     limit?: number,
     offset?: number,
+    deviceName?: string,
   ): Promise<QueryStateHistoryResult> {
     const result = await this.deviceStateStore.query({
       deviceId,
+      deviceName,
       startTime,
       endTime,
       limit,
@@ -808,12 +1719,30 @@ export class AlexaAgentTool {
     return { snapshots: result.snapshots, totalCount: result.totalCount };
   }
 
+  /** min / max / avg / last of a numeric capability per time bucket. */
+  private async queryStateAggregates(action: QueryStateAggregatesAction): Promise<QueryStateAggregatesResult> {
+    return this.stateAggregator.query({
+      deviceId: action.deviceId,
+      deviceName: action.deviceName,
+      namespace: action.namespace,
+      name: action.name,
+      instance: action.instance,
+      bucket: action.bucket,
+      startTime: action.startTime,
+      endTime: action.endTime,
+    });
+  }
+
   // -----------------------------------------------------------------------
   // Push listener actions
   // -----------------------------------------------------------------------
 
-  private async startPushListener(): Promise<StartPushListenerResult> {
-    if (this.pushClient?.isConnected()) {
+  /**
+   * Connect the push listener.  `restart` replaces a connected client,
+   * e.g. to pick up a new cookie.
+   */
+  private async startPushListener(restart = false): Promise<StartPushListenerResult> {
+    if (this.pushClient?.isConnected() && !restart) {
       return {
         status: 'already_connected',
         connectionId: this.pushClient.getConnectionId() ?? 'unknown',
@@ -838,6 +1767,8 @@ export class AlexaAgentTool {
     this.pushClient = new AlexaPushClient({
       cookie: creds.cookie,
       region,
+      gatewayUrl: this.config.pushGatewayUrl || undefined,
+      recorder: this.config.pushCapturePath ? new PushCaptureRecorder(this.config.pushCapturePath) : undefined,
       onEvent: (event) => this.handlePushEvent(event),
       onStateChange: (state) => {
         this.eventLogger.logCustomEvent({
@@ -899,6 +1830,7 @@ export class AlexaAgentTool {
     const result = await this.pushEventStore.query({
       command: action.command,
       deviceSerial: action.deviceSerial,
+      deviceName: action.deviceName,
       startTime: action.startTime,
       endTime: action.endTime,
       processed: action.processed,
@@ -909,20 +1841,89 @@ export class AlexaAgentTool {
     return { events: result.events, totalCount: result.totalCount };
   }
 
+  /**
+   * Write device names into stored snapshots, activity records and
+   * push events that were stored without one.  Refreshes the directory
+   * first when asked to, or when it is still empty.
+   */
+  private async backfillDeviceNames(refresh?: boolean): Promise<BackfillDeviceNamesResult> {
+    await this.deviceDirectory.load().catch(() => {});
+    if (refresh || this.deviceDirectory.size === 0) {
+      await this.deviceDirectory.refresh();
+    }
+
+    const names = this.deviceDirectory.names();
+    const result: BackfillDeviceNamesResult = {
+      snapshots: await this.deviceStateStore.fillDeviceNames(names),
+      activities: await this.activityStore.fillDeviceNames(names),
+      pushEvents: await this.pushEventStore.fillDeviceNames(names),
+      directorySize: this.deviceDirectory.size,
+    };
+
+    await this.eventLogger.logCustomEvent({
+      eventType: 'AgentBackfillDeviceNames',
+      namespace: 'AlexaAgentTool',
+      userId: this.userId,
+      payload: { ...result },
+      tags: ['agent_action', 'device_directory'],
+    });
+
+    return result;
+  }
+
+  private async getConnectivityReport(
+    action: import('../types/agent').GetConnectivityReportAction,
+  ): Promise<GetConnectivityReportResult> {
+    return this.connectivity.report({
+      deviceId: action.deviceId,
+      startTime: action.startTime,
+      endTime: action.endTime,
+    });
+  }
+
+  /** Database file size and row counts, with the retention policy and last run. */
+  private getStorageStats(): GetStorageStatsResult {
+    return {
+      backend: this.sqlite ? 'sqlite' : 'memory',
+      database: this.sqlite?.stats() ?? null,
+      retention: this.retention.getStatus(),
+    };
+  }
+
+  private async getNowPlaying(deviceSerial?: string): Promise<GetNowPlayingResult> {
+    return { nowPlaying: await this.mediaSessions.getNowPlaying(deviceSerial) };
+  }
+
+  private async queryMediaSessions(
+    action: import('../types/agent').QueryMediaSessionsAction,
+  ): Promise<QueryMediaSessionsResult> {
+    return this.mediaSessions.querySessions({
+      deviceSerial: action.deviceSerial,
+      deviceName: action.deviceName,
+      startTime: action.startTime,
+      endTime: action.endTime,
+      open: action.open,
+      limit: action.limit,
+      offset: action.offset,
+    });
+  }
+
   /**
    * Handle an incoming push event from the WebSocket client.
-   * Normalizes and stores the event, logs it, and (for PUSH_ACTIVITY)
-   * triggers an activity history fetch.
+   * Normalizes and stores the event, logs it, evaluates device-event
+   * routine triggers, and runs it through the processing pipeline.
    */
   private async handlePushEvent(event: PushEvent): Promise<void> {
     const id = `pe-${event.command}-${event.timestamp}-${event.deviceSerial ?? 'unknown'}`;
 
+    await this.deviceDirectory.load().catch(() => {});
     const stored: StoredPushEvent = {
       id,
       timestamp: new Date(event.timestamp).toISOString(),
       command: event.command,
       deviceSerial: event.deviceSerial,
       deviceType: event.deviceType,
+      deviceName: this.deviceDirectory.resolveName(event.deviceSerial),
       payload: event.payload,
       processed: false,
     };
@@ -941,6 +1942,158 @@ export class AlexaAgentTool {
         tags: ['push_event', event.command],
       });
     } catch {}
+
+    try {
+      await this.rulesEngine.observePushEvent(event);
+    } catch {}
+
+    await this.pushProcessor.process(stored);
+  }
+
+  /**
+   * Push handler for events that carry device state (volume, mute,
+   * connectivity): stores it as a snapshot on top of the device's
+   * latest one, so the snapshot stays complete.
+   */
+  private async storePushState(event: StoredPushEvent): Promise<void> {
+    const observations = pushEventToObservations({
+      command: event.command,
+      timestamp: Date.parse(event.timestamp),
+      payload: event.payload,
+      deviceSerial: event.deviceSerial,
+      deviceType: event.deviceType,
+    });
+    if (observations.length === 0) return;
+
+    // Stored under the same key as polled Echo snapshots (applianceId || serial)
+    await this.deviceDirectory.load().catch(() => {});
+    const serial = observations[0].endpointId;
+    const deviceId = this.deviceDirectory.applianceIdForSerial(serial) ?? serial;
+    const latest = await this.deviceStateStore.getLatest(deviceId);
+    const capabilities = new Map(
+      (latest && !latest.error ? latest.capabilities : []).map((cap) => [propertyKey(cap), cap]),
+    );
+    for (const o of observations) {
+      capabilities.set(propertyKey(o), { namespace: o.namespace, name: o.name, value: o.value, timeOfSample: o.timestamp });
+    }
+
+    await this.storeSnapshots([{
+      deviceId,
+      deviceName: event.deviceName ?? latest?.deviceName,
+      capabilities: [...capabilities.values()],
+      polledAt: event.timestamp,
+    }], 'PHYSICAL_INTERACTION');
+  }
+
+  /**
+   * Push handler for PUSH_DOPPLER_CONNECTION_CHANGE: records the
+   * transition, then stores the connectivity state.
+   */
+  private async storePushConnectivity(event: StoredPushEvent): Promise<void> {
+    const state = (event.payload as PushConnectionChangePayload).dopplerConnectionState;
+    if (event.deviceSerial && state) {
+      const status: ConnectivityStatus = state === 'ONLINE' ? 'ONLINE' : 'OFFLINE';
+      await this.connectivity.record(event.deviceSerial, status, 'push', event.timestamp, event.deviceName);
+    }
+    await this.storePushState(event);
+  }
+
+  /**
+   * Push handler for PUSH_ACTIVITY: fetches the activity history around
+   * the event and stores it.  Throws (leaving the event to be retried)
+   * while the matching record is not available yet; a record that never
+   * shows up leaves the event failed once its attempts run out.
+   */
+  private async fetchPushActivity(event: StoredPushEvent): Promise<void> {
+    const entryId = (event.payload as PushActivityPayload).key?.entryId;
+    if (entryId && await this.activityStore.getById(entryId)) return;
+
+    await this.ensureCookieLoaded();
+    const at = Date.parse(event.timestamp);
+    const { records } = await this.alexaApi.getActivityHistory({
+      startTimestamp: at - PUSH_ACTIVITY_WINDOW_MS,
+      endTimestamp: at + PUSH_ACTIVITY_WINDOW_MS,
+    });
+    if (records.length > 0) {
+      await this.activityStore.insertBatch(await this.withDeviceNames(records, (r) => r.deviceSerial));
+    }
+
+    const matched = entryId
+      ? records.some((r) => r.id === entryId)
+      : records.some((r) => !event.deviceSerial || r.deviceSerial === event.deviceSerial);
+    if (!matched) {
+      throw new Error(`Activity record ${entryId ?? `for ${event.deviceSerial}`} not available yet`);
+    }
+  }
+
+  /**
+   * Feed a freshly fetched device list to the device directory, the
+   * connectivity tracker and the poll scheduler.
+   */
+  private async observeAccountDevices(devices: AccountDevice[]): Promise<void> {
+    this.pollScheduler.setDevices(devices);
+    await this.deviceDirectory.update(devices).catch(() => {});
+    await this.connectivity.observeDevices(devices).catch(() => {});
+  }
+
+  /**
+   * Fill in missing device names from the device directory.
+   */
+  private async withDeviceNames<T extends { deviceName?: string }>(
+    rows: T[],
+    idOf: (row: T) => string | undefined,
+  ): Promise<T[]> {
+    await this.deviceDirectory.load().catch(() => {});
+    return rows.map((row) => {
+      if (row.deviceName) return row;
+      const deviceName = this.deviceDirectory.resolveName(idOf(row));
+      return deviceName ? { ...row, deviceName } : row;
+    });
+  }
+
+  /** Alert that the cookie needs replacing soon (CookieExpiring) or now (CookieInvalid). */
+  private logCookieAlert(eventType: 'CookieExpiring' | 'CookieInvalid', status: CookieStatus): void {
+    this.eventLogger.logCustomEvent({
+      eventType,
+      namespace: 'CookieHealthMonitor',
+      userId: this.userId,
+      payload: {
+        valid: status.valid,
+        storedAt: status.storedAt,
+        lastValidatedAt: status.lastValidatedAt,
+        estimatedExpiry: status.estimatedExpiry,
+        expirySource: status.expirySource,
+        consecutiveAuthFailures: status.consecutiveAuthFailures,
+      },
+      tags: ['auth', eventType === 'CookieExpiring' ? 'cookie_expiring' : 'cookie_invalid'],
+    }).catch(() => {});
+  }
+
+  /**
+   * Hand cookies exchanged by the session manager (already stored) to
+   * the API client, the health monitor and the push listener.  An open
+   * push connection keeps running and reconnects with the new cookie;
+   * a stopped or given-up one is restarted.
+   */
+  private async applyRotatedCookie(credentials: AlexaCookieCredentials): Promise<void> {
+    this.alexaApi.setCredentials(credentials);
+    this.cookieHealth.credentialsUpdated(this.alexaApi.getCredentials()!, null);
+
+    let pushListener: 'updated' | 'restarted' | 'none' = 'none';
+    if (this.pushClient && this.pushClient.getState() !== 'disconnected') {
+      this.pushClient.setCookie(credentials.cookie);
+      pushListener = 'updated';
+    } else if (await this.pushSupervisor.cookieUpdated().catch(() => false)) {
+      pushListener = 'restarted';
+    }
+
+    this.eventLogger.logCustomEvent({
+      eventType: 'CookieRotated',
+      namespace: 'CookieSessionManager',
+      userId: this.userId,
+      payload: { storedAt: credentials.storedAt, expiresAt: credentials.expiresAt, hasCSRF: !!credentials.csrf, pushListener },
+      tags: ['auth', 'cookie_rotated'],
+    }).catch(() => {});
   }
 
   /**
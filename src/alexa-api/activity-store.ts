@@ -13,6 +13,7 @@ import type { ActivityRecord } from './alexa-api-types';
 
 export interface ActivityQuery {
   deviceSerial?: string;
+  deviceName?: string;  // case-insensitive exact match
   startTime?: string;   // ISO-8601
   endTime?: string;     // ISO-8601
   searchText?: string;  // text search in utterance/response
@@ -35,6 +36,8 @@ export interface ActivityStore {
   query(query: ActivityQuery): Promise<ActivityQueryResult>;
   getById(id: string): Promise<ActivityRecord | null>;
   prune(olderThan: string): Promise<number>;
+  /** Set names (keyed by device serial) on records that have none; returns rows updated. */
+  fillDeviceNames(names: Record<string, string>): Promise<number>;
 }
 
 // ---------------------------------------------------------------------------
@@ -71,6 +74,10 @@ export class InMemoryActivityStore implements ActivityStore {
     if (query.deviceSerial) {
       filtered = filtered.filter((r) => r.deviceSerial === query.deviceSerial);
     }
+    if (query.deviceName) {
+      const name = query.deviceName.toLowerCase();
+      filtered = filtered.filter((r) => r.deviceName?.toLowerCase() === name);
+    }
     if (query.startTime) {
       filtered = filtered.filter((r) => r.timestamp >= query.startTime!);
     }
@@ -102,4 +109,15 @@ export class InMemoryActivityStore implements ActivityStore {
     this.records = this.records.filter((r) => r.timestamp >= olderThan);
     return before - this.records.length;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    let updated = 0;
+    for (const r of this.records) {
+      if (!r.deviceName && r.deviceSerial && names[r.deviceSerial]) {
+        r.deviceName = names[r.deviceSerial];
+        updated++;
+      }
+    }
+    return updated;
+  }
 }
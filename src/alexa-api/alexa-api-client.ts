@@ -24,6 +24,16 @@ import type {
   RangeCapabilityConfig,
 } from './alexa-api-types';
 import { ALEXA_API_BASE_URLS } from './alexa-api-types';
+import {
+  DEFAULT_REQUEST_POLICY,
+  ENDPOINT_FAMILIES,
+  RETRYABLE_STATUSES,
+  TokenBucket,
+  endpointFamily,
+  parseRetryAfter,
+  retryDelay,
+} from './request-policy';
+import type { AlexaRequestPolicy, EndpointFamily, RateLimit, RequestFamilyMetrics } from './request-policy';
 
 // ---------------------------------------------------------------------------
 // GraphQL query for all smart home endpoints (the modern Alexa app approach)
@@ -87,13 +97,57 @@ interface HttpResponse {
   headers: Record<string, string | string[] | undefined>;
 }
 
+/** Auth outcomes of the client's requests since the credentials were set. */
+export interface AlexaApiAuthStats {
+  /** 401/403 responses and redirects to the sign-in page */
+  authFailures: number;
+  /** Auth failures since the last successful (2xx) response */
+  consecutiveAuthFailures: number;
+  lastAuthFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+export interface AlexaApiClientOptions {
+  /** Overrides of DEFAULT_REQUEST_POLICY; rate limits merge per family */
+  policy?: Partial<Omit<AlexaRequestPolicy, 'rateLimits'>> & {
+    rateLimits?: Partial<Record<EndpointFamily, RateLimit>>;
+  };
+}
+
+/** A request that got no complete response within the policy's timeout. */
+class RequestTimeoutError extends Error {}
+
+interface RequestOptions {
+  baseUrl?: string;
+  /** Safe to send twice (default: GET only) */
+  idempotent?: boolean;
+  /** Override the policy's retry count */
+  maxRetries?: number;
+}
+
 export class AlexaApiClient {
   private baseUrl: string;
   private credentials: AlexaCookieCredentials | null = null;
   private cachedCustomerId: string | null = null;
+  private authStats: AlexaApiAuthStats = { authFailures: 0, consecutiveAuthFailures: 0 };
+  private policy: AlexaRequestPolicy;
+  private buckets = new Map<EndpointFamily, TokenBucket>();
+  private metrics = new Map<EndpointFamily, RequestFamilyMetrics & { latencyTotalMs: number; responses: number }>();
 
-  constructor(region: AlexaApiRegion = 'NA') {
+  constructor(region: AlexaApiRegion = 'NA', options: AlexaApiClientOptions = {}) {
     this.baseUrl = ALEXA_API_BASE_URLS[region];
+    this.policy = {
+      ...DEFAULT_REQUEST_POLICY,
+      ...options.policy,
+      rateLimits: { ...DEFAULT_REQUEST_POLICY.rateLimits, ...options.policy?.rateLimits },
+    };
+    for (const family of ENDPOINT_FAMILIES) {
+      this.buckets.set(family, new TokenBucket(this.policy.rateLimits[family]));
+      this.metrics.set(family, {
+        requests: 0, retries: 0, failures: 0, timeouts: 0, throttled: 0,
+        rateLimitWaitMs: 0, avgLatencyMs: 0, latencyTotalMs: 0, responses: 0,
+      });
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -103,6 +157,7 @@ export class AlexaApiClient {
   setCredentials(credentials: AlexaCookieCredentials): void {
     this.credentials = credentials;
     this.cachedCustomerId = null; // Reset on credential change
+    this.authStats = { authFailures: 0, consecutiveAuthFailures: 0 };
 
     // Auto-extract CSRF from the cookie string if not explicitly set
     if (!credentials.csrf) {
@@ -121,6 +176,23 @@ export class AlexaApiClient {
     return this.credentials !== null && this.credentials.cookie.length > 0;
   }
 
+  getAuthStats(): AlexaApiAuthStats {
+    return { ...this.authStats };
+  }
+
+  getRequestPolicy(): AlexaRequestPolicy {
+    return { ...this.policy, rateLimits: { ...this.policy.rateLimits } };
+  }
+
+  /** Request counts, retries, throttling and latency per endpoint family. */
+  getRequestMetrics(): Record<EndpointFamily, RequestFamilyMetrics> {
+    const result = {} as Record<EndpointFamily, RequestFamilyMetrics>;
+    for (const [family, { latencyTotalMs, responses, ...metrics }] of this.metrics) {
+      result[family] = { ...metrics, avgLatencyMs: responses > 0 ? Math.round(latencyTotalMs / responses) : 0 };
+    }
+    return result;
+  }
+
   /**
    * Fetch the Amazon customer ID for the authenticated account.
    * Caches the result so subsequent calls don't make additional requests.
@@ -162,7 +234,7 @@ export class AlexaApiClient {
   async getSmartHomeEndpoints(): Promise<GraphQLEndpointItem[]> {
     this.requireCredentials();
     const body = JSON.stringify({ query: ENDPOINTS_GRAPHQL_QUERY });
-    const response = await this.request('POST', '/nexus/v1/graphql', body);
+    const response = await this.request('POST', '/nexus/v1/graphql', body, { idempotent: true });
     const data = this.parseJsonResponse(response);
     return data?.data?.endpoints?.items ?? [];
   }
@@ -540,7 +612,7 @@ export class AlexaApiClient {
     }));
 
     const body = JSON.stringify({ stateRequests });
-    const response = await this.request('POST', '/api/phoenix/state', body);
+    const response = await this.request('POST', '/api/phoenix/state', body, { idempotent: true });
     const data = this.parseJsonResponse(response) as PhoenixStateResponse;
 
     const polledAt = new Date().toISOString();
@@ -667,7 +739,7 @@ export class AlexaApiClient {
       'POST',
       '/alexa-privacy/apd/rvh/customer-history-records-v2',
       body,
-      { baseUrl: 'https://www.amazon.com' },
+      { baseUrl: 'https://www.amazon.com', idempotent: true },
     );
 
     // The privacy endpoint on www.amazon.com may return HTML instead of JSON
@@ -731,19 +803,31 @@ export class AlexaApiClient {
    * Verify the cookie is still valid by hitting a lightweight endpoint.
    */
   async validateCookie(): Promise<boolean> {
+    return (await this.checkCookie()) === true;
+  }
+
+  /**
+   * Like validateCookie(), but tells a rejected cookie (false) apart
+   * from not knowing (null): Amazon unreachable, throttling, server
+   * errors, or any other answer than a success or an auth rejection.
+   */
+  async checkCookie(): Promise<boolean | null> {
     if (!this.credentials?.cookie) return false;
 
     try {
-      // Try bootstrap first, fall back to devices endpoint
-      const response = await this.request('GET', '/api/bootstrap');
+      // Try bootstrap first, fall back to devices endpoint.  A probe:
+      // no retries, the caller checks again later.
+      const response = await this.request('GET', '/api/bootstrap', undefined, { maxRetries: 0 });
       if (response.statusCode >= 200 && response.statusCode < 300) return true;
+      if (isUnavailable(response)) return null;
 
       // Bootstrap can redirect or 4xx even with valid cookies;
       // try the devices endpoint as a secondary check.
-      const fallback = await this.request('GET', '/api/devices/device');
-      return fallback.statusCode >= 200 && fallback.statusCode < 300;
+      const fallback = await this.request('GET', '/api/devices/device', undefined, { maxRetries: 0 });
+      if (fallback.statusCode >= 200 && fallback.statusCode < 300) return true;
+      return isAuthRejection(fallback) ? false : null;
     } catch {
-      return false;
+      return null;
     }
   }
 
@@ -954,15 +1038,95 @@ export class AlexaApiClient {
     }
   }
 
+  private recordAuthOutcome(response: HttpResponse): void {
+    const now = new Date().toISOString();
+    if (isAuthRejection(response)) {
+      this.authStats.authFailures++;
+      this.authStats.consecutiveAuthFailures++;
+      this.authStats.lastAuthFailureAt = now;
+    } else if (response.statusCode >= 200 && response.statusCode < 300) {
+      this.authStats.consecutiveAuthFailures = 0;
+      this.authStats.lastSuccessAt = now;
+    }
+  }
+
+  /**
+   * Send a request under the request policy: wait for a rate limit slot
+   * of the path's endpoint family, and retry idempotent requests on
+   * network errors, timeouts and retryable statuses.  A `Retry-After`
+   * pauses the whole family.
+   */
+  private async request(
+    method: string,
+    path: string,
+    body?: string,
+    opts: RequestOptions = {},
+  ): Promise<HttpResponse> {
+    const family = endpointFamily(path);
+    const metrics = this.metrics.get(family)!;
+    const idempotent = opts.idempotent ?? method === 'GET';
+    const maxRetries = idempotent ? opts.maxRetries ?? this.policy.maxRetries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(family);
+      if (attempt > 0) metrics.retries++;
+      metrics.requests++;
+      metrics.lastRequestAt = new Date().toISOString();
+
+      const started = Date.now();
+      let response: HttpResponse;
+      try {
+        response = await this.send(method, path, body, opts.baseUrl);
+      } catch (err) {
+        metrics.failures++;
+        if (err instanceof RequestTimeoutError) metrics.timeouts++;
+        if (attempt >= maxRetries) throw err;
+        await sleep(retryDelay(this.policy, attempt + 1));
+        continue;
+      }
+
+      metrics.responses++;
+      metrics.latencyTotalMs += Date.now() - started;
+      metrics.lastStatus = response.statusCode;
+      if (!RETRYABLE_STATUSES.has(response.statusCode)) return response;
+
+      if (response.statusCode === 429 || response.statusCode === 503) metrics.throttled++;
+      const retryAfter = parseRetryAfter(response.headers['retry-after']);
+      if (retryAfter !== null) {
+        this.buckets.get(family)!.pauseUntil(Date.now() + retryAfter);
+      }
+      if (attempt >= maxRetries) return response;
+      // With Retry-After, waitForSlot() holds the retry back
+      if (retryAfter === null) await sleep(retryDelay(this.policy, attempt + 1));
+    }
+  }
+
+  /** Take a rate limit slot, waiting for it unless that takes too long. */
+  private async waitForSlot(family: EndpointFamily): Promise<void> {
+    const bucket = this.buckets.get(family)!;
+    const waitMs = bucket.take();
+    if (waitMs > this.policy.maxQueueWaitMs) {
+      bucket.giveBack();
+      throw new Error(
+        `Alexa API rate limited: ${family} requests are held back for ` +
+        `${Math.ceil(waitMs / 1000)} more seconds.`,
+      );
+    }
+    if (waitMs > 0) {
+      this.metrics.get(family)!.rateLimitWaitMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+
   /** Low-level HTTPS request, mirroring the pattern in LwaOAuthClient. */
-  private request(
+  private send(
     method: string,
     path: string,
     body?: string,
-    opts?: { baseUrl?: string },
+    baseUrl?: string,
   ): Promise<HttpResponse> {
     return new Promise((resolve, reject) => {
-      const url = new URL(path, opts?.baseUrl ?? this.baseUrl);
+      const url = new URL(path, baseUrl ?? this.baseUrl);
 
       // The /nexus/v1/graphql endpoint requires a mobile-app User-Agent
       const isGraphQL = path.startsWith('/nexus/');
@@ -973,7 +1137,7 @@ export class AlexaApiClient {
       // When making cross-domain requests (e.g. www.amazon.com for activity
       // history), Origin/Referer must match the target host or Amazon rejects
       // the request with a CSRF / 403 error.
-      const effectiveBase = opts?.baseUrl ?? this.baseUrl;
+      const effectiveBase = baseUrl ?? this.baseUrl;
 
       const headers: Record<string, string> = {
         Cookie: this.credentials!.cookie,
@@ -987,7 +1151,7 @@ export class AlexaApiClient {
       // CSRF handling depends on the target domain:
       // - alexa.amazon.com uses a custom 'csrf' header
       // - www.amazon.com uses the 'anti-csrftoken-a2z' cookie value as a header
-      const isCrossDomain = opts?.baseUrl && !opts.baseUrl.includes('alexa.amazon');
+      const isCrossDomain = baseUrl && !baseUrl.includes('alexa.amazon');
       if (isCrossDomain) {
         // Extract anti-csrftoken-a2z from the cookie string for www.amazon.com
         const csrfMatch = this.credentials!.cookie.match(
@@ -1017,16 +1181,34 @@ export class AlexaApiClient {
           let data = '';
           res.on('data', (chunk: string) => (data += chunk));
           res.on('end', () => {
-            resolve({
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            const response: HttpResponse = {
               statusCode: res.statusCode ?? 500,
               data,
               headers: res.headers as Record<string, string | string[] | undefined>,
-            });
+            };
+            this.recordAuthOutcome(response);
+            resolve(response);
           });
         },
       );
 
-      req.on('error', reject);
+      let settled = false;
+      req.on('error', (err: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        reject(err);
+      });
+
+      const timer = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        req.destroy();
+        reject(new RequestTimeoutError(`Alexa API request timed out after ${this.policy.timeoutMs} ms: ${method} ${url.pathname}`));
+      }, this.policy.timeoutMs);
 
       if (body) {
         req.write(body);
@@ -1036,3 +1218,19 @@ export class AlexaApiClient {
     });
   }
 }
+
+/** 401/403, or a redirect to the sign-in page: the cookie was not accepted. */
+function isAuthRejection(response: HttpResponse): boolean {
+  const location = String(response.headers.location ?? '');
+  return response.statusCode === 401 || response.statusCode === 403 ||
+    (response.statusCode >= 300 && response.statusCode < 400 && /signin/i.test(location));
+}
+
+/** Throttled or failing on Amazon's side; says nothing about the cookie. */
+function isUnavailable(response: HttpResponse): boolean {
+  return response.statusCode === 429 || response.statusCode >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
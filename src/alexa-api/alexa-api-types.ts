@@ -34,6 +34,20 @@ export interface AlexaCookieCredentials {
   expiresAt?: string;
 }
 
+/**
+ * An Amazon device refresh token (`Atnr|...`), as issued when a device
+ * is registered with the account.  Exchanged for fresh cookies.
+ */
+export interface AlexaRefreshToken {
+  refreshToken: string;
+  /** When this token was stored (ISO-8601) */
+  storedAt: string;
+  /** Last successful cookie exchange */
+  lastRefreshedAt?: string;
+  /** Error of the last exchange, cleared by a successful one */
+  lastError?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Raw API response shapes
 // ---------------------------------------------------------------------------
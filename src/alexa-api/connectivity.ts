@@ -0,0 +1,258 @@
+/**
+ * Device connectivity history.
+ *
+ * Records every online/offline transition of a device, from
+ * PUSH_DOPPLER_CONNECTION_CHANGE (Echo devices, real-time) and from the
+ * `online` flag of each device list fetch (all devices, point-in-time).
+ * Only changes are stored: a device reported ONLINE twice has one
+ * transition.  Reports compute uptime, outage count and the longest
+ * outage over a time window from that history.
+ */
+
+import type { AccountDevice } from './alexa-api-types';
+
+const DEFAULT_REPORT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type ConnectivityStatus = 'ONLINE' | 'OFFLINE';
+
+/** Where a transition was observed */
+export type ConnectivitySource = 'push' | 'device_list';
+
+export interface ConnectivityTransition {
+  deviceId: string;
+  deviceName?: string;
+  status: ConnectivityStatus;
+  source: ConnectivitySource;
+  at: string; // ISO-8601
+}
+
+export interface ConnectivityQuery {
+  deviceId?: string;
+  startTime?: string; // ISO-8601
+  endTime?: string;   // ISO-8601
+}
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+export interface ConnectivityStore {
+  insert(transition: ConnectivityTransition): Promise<void>;
+  /** Latest transition per device, optionally only those before `before` */
+  latest(before?: string): Promise<ConnectivityTransition[]>;
+  /** Transitions in the range, oldest first */
+  query(query: ConnectivityQuery): Promise<ConnectivityTransition[]>;
+  /** Delete transitions before `olderThan`, keeping each device's latest */
+  prune(olderThan: string): Promise<number>;
+}
+
+/**
+ * In-memory connectivity store for development and testing.
+ */
+export class InMemoryConnectivityStore implements ConnectivityStore {
+  private transitions: ConnectivityTransition[] = [];
+
+  async insert(transition: ConnectivityTransition): Promise<void> {
+    this.transitions.push({ ...transition });
+    this.transitions.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  async latest(before?: string): Promise<ConnectivityTransition[]> {
+    const latest = new Map<string, ConnectivityTransition>();
+    for (const t of this.transitions) {
+      if (before && t.at >= before) break;
+      latest.set(t.deviceId, t);
+    }
+    return [...latest.values()].map((t) => ({ ...t }));
+  }
+
+  async query(query: ConnectivityQuery): Promise<ConnectivityTransition[]> {
+    return this.transitions
+      .filter((t) => !query.deviceId || t.deviceId === query.deviceId)
+      .filter((t) => !query.startTime || t.at >= query.startTime)
+      .filter((t) => !query.endTime || t.at <= query.endTime)
+      .map((t) => ({ ...t }));
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    const latest = new Map(this.transitions.map((t) => [t.deviceId, t]));
+    const before = this.transitions.length;
+    this.transitions = this.transitions.filter((t) => t.at >= olderThan || latest.get(t.deviceId) === t);
+    return before - this.transitions.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Report types
+// ---------------------------------------------------------------------------
+
+export interface DeviceConnectivity {
+  deviceId: string;
+  deviceName?: string;
+  /** Status at the end of the window */
+  status: ConnectivityStatus;
+  /** Online share of the observed part of the window, 0-100 (2 decimals) */
+  uptimePercent: number;
+  /** Offline periods overlapping the window */
+  outageCount: number;
+  /** Longest offline period within the window */
+  longestOutageMs: number;
+  /** Part of the window with a known status */
+  observedMs: number;
+}
+
+export interface ConnectivityReport {
+  startTime: string;
+  endTime: string;
+  devices: DeviceConnectivity[];
+}
+
+// ---------------------------------------------------------------------------
+// Tracker
+// ---------------------------------------------------------------------------
+
+export interface ConnectivityTrackerOptions {
+  /** Called for each change of a device whose previous status was known */
+  onTransition?: (transition: ConnectivityTransition, previous: ConnectivityTransition) => void;
+}
+
+export class ConnectivityTracker {
+  private store: ConnectivityStore;
+  private options: ConnectivityTrackerOptions;
+  private current = new Map<string, ConnectivityTransition>();
+  private loading: Promise<void> | null = null;
+
+  constructor(store: ConnectivityStore, options: ConnectivityTrackerOptions = {}) {
+    this.store = store;
+    this.options = options;
+  }
+
+  /**
+   * Record a device's status.  Returns the stored transition, or null
+   * if the status did not change (or the observation is older than the
+   * device's latest one).
+   */
+  async record(
+    deviceId: string,
+    status: ConnectivityStatus,
+    source: ConnectivitySource,
+    at: string,
+    deviceName?: string,
+  ): Promise<ConnectivityTransition | null> {
+    await this.load();
+    const previous = this.current.get(deviceId);
+    if (previous && (previous.status === status || previous.at > at)) return null;
+
+    const name = deviceName ?? previous?.deviceName;
+    const transition: ConnectivityTransition = {
+      deviceId,
+      ...(name ? { deviceName: name } : {}),
+      status,
+      source,
+      at,
+    };
+    this.current.set(deviceId, transition);
+    await this.store.insert(transition);
+    if (previous) this.options.onTransition?.(transition, previous);
+    return transition;
+  }
+
+  /** Record the `online` flag of every device in a fetched device list. */
+  async observeDevices(devices: AccountDevice[], at = new Date().toISOString()): Promise<ConnectivityTransition[]> {
+    const transitions: ConnectivityTransition[] = [];
+    for (const d of devices) {
+      if (d.source === 'group') continue;
+      const t = await this.record(d.id, d.online ? 'ONLINE' : 'OFFLINE', 'device_list', at, d.name);
+      if (t) transitions.push(t);
+    }
+    return transitions;
+  }
+
+  /** Last known status of a device. */
+  async getStatus(deviceId: string): Promise<ConnectivityTransition | null> {
+    await this.load();
+    const t = this.current.get(deviceId);
+    return t ? { ...t } : null;
+  }
+
+  /** Delete transitions before `olderThan`; current statuses are kept.  Returns how many. */
+  prune(olderThan: string): Promise<number> {
+    return this.store.prune(olderThan);
+  }
+
+  /**
+   * Uptime per device over [startTime, endTime] (default: the last 24
+   * hours).  Time before a device's first transition is unknown and
+   * left out of its uptime.
+   */
+  async report(query: ConnectivityQuery = {}): Promise<ConnectivityReport> {
+    const end = query.endTime ? Date.parse(query.endTime) : Date.now();
+    const start = query.startTime ? Date.parse(query.startTime) : end - DEFAULT_REPORT_WINDOW_MS;
+    const startTime = new Date(start).toISOString();
+    const endTime = new Date(end).toISOString();
+
+    const before = (await this.store.latest(startTime))
+      .filter((t) => !query.deviceId || t.deviceId === query.deviceId);
+    const within = await this.store.query({ deviceId: query.deviceId, startTime, endTime });
+
+    const byDevice = new Map<string, ConnectivityTransition[]>();
+    for (const t of [...before, ...within]) {
+      const list = byDevice.get(t.deviceId) ?? [];
+      list.push(t);
+      byDevice.set(t.deviceId, list);
+    }
+
+    const devices = [...byDevice.values()]
+      .map((transitions) => summarize(transitions, start, end))
+      .sort((a, b) => a.uptimePercent - b.uptimePercent || a.deviceId.localeCompare(b.deviceId));
+    return { startTime, endTime, devices };
+  }
+
+  /** Load each device's stored status (once; a failed load is retried on the next call). */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.latest().then((latest) => {
+        for (const t of latest) {
+          if (!this.current.has(t.deviceId)) this.current.set(t.deviceId, t);
+        }
+      }, (err) => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+}
+
+/** Fold one device's transitions (oldest first) into its window summary. */
+function summarize(transitions: ConnectivityTransition[], start: number, end: number): DeviceConnectivity {
+  let onlineMs = 0;
+  let offlineMs = 0;
+  let outageCount = 0;
+  let longestOutageMs = 0;
+
+  transitions.forEach((t, i) => {
+    const from = Math.max(Date.parse(t.at), start);
+    const to = i + 1 < transitions.length ? Date.parse(transitions[i + 1].at) : end;
+    const duration = Math.max(0, to - from);
+    if (t.status === 'ONLINE') {
+      onlineMs += duration;
+    } else {
+      offlineMs += duration;
+      outageCount++;
+      longestOutageMs = Math.max(longestOutageMs, duration);
+    }
+  });
+
+  const last = transitions[transitions.length - 1];
+  const observedMs = onlineMs + offlineMs;
+  return {
+    deviceId: last.deviceId,
+    ...(last.deviceName ? { deviceName: last.deviceName } : {}),
+    status: last.status,
+    uptimePercent: observedMs > 0 ? Math.round((onlineMs / observedMs) * 10_000) / 100 : 100,
+    outageCount,
+    longestOutageMs,
+    observedMs,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Cookie health monitoring.
+ *
+ * Validates the stored Alexa cookie on a schedule, estimates when it
+ * expires, and watches the auth failures (401/403, sign-in redirects)
+ * of AlexaApiClient requests, so an expired cookie is noticed before
+ * polls start failing.
+ *
+ * The expiry estimate is the earliest of: the credentials' `expiresAt`,
+ * `Expires` / `Max-Age` attributes left in a pasted Set-Cookie string,
+ * and Amazon's `session-id-time` cookie (epoch seconds).  With none of
+ * those it assumes a fixed lifetime from `storedAt`.
+ *
+ * `onExpiring` and `onInvalid` fire once each time the cookie enters
+ * that state; storing a new cookie re-arms them.
+ */
+
+import type { AlexaApiClient } from './alexa-api-client';
+import type { AlexaCookieCredentials } from './alexa-api-types';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_CHECK_INTERVAL_MS = 5 * 60_000;
+const DEFAULT_VALIDATE_INTERVAL_MS = 60 * 60_000;
+const DEFAULT_EXPIRING_WITHIN_MS = 3 * 24 * 60 * 60_000;
+const DEFAULT_ASSUMED_LIFETIME_MS = 14 * 24 * 60 * 60_000;
+const DEFAULT_AUTH_FAILURE_THRESHOLD = 3;
+
+export type CookieExpirySource = 'stored' | 'attribute' | 'session-id-time' | 'assumed';
+
+export interface CookieExpiryEstimate {
+  expiresAt: string; // ISO-8601
+  source: CookieExpirySource;
+}
+
+/**
+ * - `missing`: no cookie stored
+ * - `unknown`: not validated yet, or Amazon was unreachable
+ * - `valid`: last validation passed
+ * - `expiring`: valid, but the estimated expiry is near
+ * - `invalid`: validation failed, or requests keep failing auth
+ */
+export type CookieHealthState = 'missing' | 'unknown' | 'valid' | 'expiring' | 'invalid';
+
+export interface CookieStatus {
+  hasCookie: boolean;
+  state: CookieHealthState;
+  /** Result of the last validation (null = never validated or unreachable) */
+  valid: boolean | null;
+  storedAt?: string;
+  /** Time since the cookie was stored */
+  ageMs?: number;
+  lastValidatedAt?: string;
+  estimatedExpiry?: string;
+  expirySource?: CookieExpirySource;
+  /** Auth failures of API requests since the cookie was set */
+  authFailures: number;
+  consecutiveAuthFailures: number;
+  lastAuthFailureAt?: string;
+}
+
+export interface CookieHealthMonitorOptions {
+  /** Current credentials (loading them from storage if needed), or null */
+  loadCredentials: () => Promise<AlexaCookieCredentials | null>;
+  /** Time between validation requests (default 1 hour) */
+  validateIntervalMs?: number;
+  /** Estimated expiry closer than this counts as expiring (default 3 days) */
+  expiringWithinMs?: number;
+  /** Lifetime assumed when nothing in the cookie says (default 14 days) */
+  assumedLifetimeMs?: number;
+  /** Consecutive request auth failures that mark the cookie invalid (default 3) */
+  authFailureThreshold?: number;
+  onExpiring?: (status: CookieStatus) => void;
+  onInvalid?: (status: CookieStatus) => void;
+}
+
+/** Estimate when a cookie expires. */
+export function estimateCookieExpiry(
+  credentials: AlexaCookieCredentials,
+  assumedLifetimeMs = DEFAULT_ASSUMED_LIFETIME_MS,
+): CookieExpiryEstimate {
+  const candidates: Array<{ at: number; source: CookieExpirySource }> = [];
+  const storedAt = Date.parse(credentials.storedAt);
+
+  if (credentials.expiresAt) {
+    candidates.push({ at: Date.parse(credentials.expiresAt), source: 'stored' });
+  }
+  for (const match of credentials.cookie.matchAll(/(?:^|;)\s*expires=([^;]+)/gi)) {
+    candidates.push({ at: Date.parse(match[1]), source: 'attribute' });
+  }
+  for (const match of credentials.cookie.matchAll(/(?:^|;)\s*max-age=(\d+)/gi)) {
+    candidates.push({ at: storedAt + parseInt(match[1], 10) * 1000, source: 'attribute' });
+  }
+  const sessionTime = credentials.cookie.match(/(?:^|;)\s*session-id-time=(\d+)l?/);
+  if (sessionTime) {
+    candidates.push({ at: parseInt(sessionTime[1], 10) * 1000, source: 'session-id-time' });
+  }
+
+  const earliest = candidates
+    .filter((c) => Number.isFinite(c.at))
+    .sort((a, b) => a.at - b.at)[0]
+    ?? { at: storedAt + assumedLifetimeMs, source: 'assumed' as const };
+  return { expiresAt: new Date(earliest.at).toISOString(), source: earliest.source };
+}
+
+export class CookieHealthMonitor {
+  private client: AlexaApiClient;
+  private options: CookieHealthMonitorOptions;
+  private task = new PeriodicTask(() => this.check());
+
+  private credentials: AlexaCookieCredentials | null = null;
+  private valid: boolean | null = null;
+  private lastValidatedAt: number | null = null;
+  /** Request auth failures counted when the cookie was last validated */
+  private authFailuresAtValidation = 0;
+  private lastAlert: 'expiring' | 'invalid' | null = null;
+
+  constructor(client: AlexaApiClient, options: CookieHealthMonitorOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /** Check now, then every `intervalMs`.  Resolves with the first status. */
+  async start(intervalMs = DEFAULT_CHECK_INTERVAL_MS): Promise<CookieStatus> {
+    this.task.start(intervalMs);
+    return this.check();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  /**
+   * Refresh the status: validate the cookie when the last validation
+   * is older than the validate interval, or when requests have failed
+   * auth since.  Fires the alert callbacks on state changes.
+   */
+  async check(now = Date.now()): Promise<CookieStatus> {
+    const credentials = await this.options.loadCredentials();
+    if (credentials?.cookie !== this.credentials?.cookie) this.reset(credentials);
+
+    if (this.credentials) {
+      const failedSince = this.client.getAuthStats().authFailures > this.authFailuresAtValidation;
+      const due = this.lastValidatedAt === null ||
+        now - this.lastValidatedAt >= (this.options.validateIntervalMs ?? DEFAULT_VALIDATE_INTERVAL_MS);
+      if (due || failedSince) {
+        this.recordValidation(await this.client.checkCookie(), now);
+      }
+    }
+
+    const status = this.getStatus(now);
+    this.alert(status);
+    return status;
+  }
+
+  /**
+   * A new cookie was stored and checked (see AlexaApiClient.checkCookie).
+   * Resets the status and re-arms the alerts.
+   */
+  credentialsUpdated(credentials: AlexaCookieCredentials, valid: boolean | null, now = Date.now()): CookieStatus {
+    this.reset(credentials);
+    this.recordValidation(valid, now);
+    const status = this.getStatus(now);
+    this.alert(status);
+    return status;
+  }
+
+  getStatus(now = Date.now()): CookieStatus {
+    const stats = this.client.getAuthStats();
+    const base = {
+      authFailures: stats.authFailures,
+      consecutiveAuthFailures: stats.consecutiveAuthFailures,
+      ...(stats.lastAuthFailureAt ? { lastAuthFailureAt: stats.lastAuthFailureAt } : {}),
+    };
+    if (!this.credentials) {
+      return { hasCookie: false, state: 'missing', valid: null, ...base };
+    }
+
+    const expiry = estimateCookieExpiry(this.credentials, this.options.assumedLifetimeMs);
+    const threshold = this.options.authFailureThreshold ?? DEFAULT_AUTH_FAILURE_THRESHOLD;
+    const expiringWithin = this.options.expiringWithinMs ?? DEFAULT_EXPIRING_WITHIN_MS;
+
+    let state: CookieHealthState;
+    if (this.valid === false || stats.consecutiveAuthFailures >= threshold) {
+      state = 'invalid';
+    } else if (this.valid === null) {
+      state = 'unknown';
+    } else if (Date.parse(expiry.expiresAt) - now <= expiringWithin) {
+      state = 'expiring';
+    } else {
+      state = 'valid';
+    }
+
+    return {
+      hasCookie: true,
+      state,
+      valid: this.valid,
+      storedAt: this.credentials.storedAt,
+      ageMs: now - Date.parse(this.credentials.storedAt),
+      ...(this.lastValidatedAt !== null ? { lastValidatedAt: new Date(this.lastValidatedAt).toISOString() } : {}),
+      estimatedExpiry: expiry.expiresAt,
+      expirySource: expiry.source,
+      ...base,
+    };
+  }
+
+  private reset(credentials: AlexaCookieCredentials | null): void {
+    this.credentials = credentials;
+    this.valid = null;
+    this.lastValidatedAt = null;
+    this.authFailuresAtValidation = 0;
+    this.lastAlert = null;
+  }
+
+  private recordValidation(valid: boolean | null, now: number): void {
+    // Unreachable: keep the previous verdict, retry at the next check
+    if (valid === null) return;
+    this.valid = valid;
+    this.lastValidatedAt = now;
+    this.authFailuresAtValidation = this.client.getAuthStats().authFailures;
+  }
+
+  private alert(status: CookieStatus): void {
+    if (status.state === 'invalid' && this.lastAlert !== 'invalid') {
+      this.lastAlert = 'invalid';
+      this.options.onInvalid?.(status);
+    } else if (status.state === 'expiring' && this.lastAlert === null) {
+      this.lastAlert = 'expiring';
+      this.options.onExpiring?.(status);
+    } else if (status.state === 'valid') {
+      this.lastAlert = null;
+    }
+  }
+}
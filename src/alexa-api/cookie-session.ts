@@ -0,0 +1,327 @@
+/**
+ * Refresh-token cookie sessions.
+ *
+ * A pasted cookie lasts a couple of weeks.  An Amazon device refresh
+ * token (`Atnr|...`, as registered by the Alexa app or by other Alexa
+ * remote libraries) does not expire that way: it can be exchanged for
+ * a fresh set of Amazon cookies at any time.
+ *
+ * CookieSessionManager stores the token, exchanges it at
+ * `/ap/exchangetoken/cookies`, fetches the `csrf` cookie from the
+ * Alexa site with the result, and writes the new credentials to the
+ * CookieStore — on demand, and on a schedule once the current cookie
+ * nears its estimated expiry.  `onRotated` hands the new credentials
+ * to the API and push clients.
+ *
+ * Both endpoints can be pointed at a local stand-in with `exchangeUrl`
+ * and `alexaUrl`.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { estimateCookieExpiry } from './cookie-health';
+import { ALEXA_API_BASE_URLS } from './alexa-api-types';
+import type { AlexaApiRegion, AlexaCookieCredentials } from './alexa-api-types';
+import type { CookieStore, RefreshTokenStore } from './cookie-store';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 60_000;
+const DEFAULT_REFRESH_BEFORE_EXPIRY_MS = 2 * 24 * 60 * 60_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const USER_AGENT = 'AmazonWebView/Amazon Alexa/2.2.556530.0/iOS/16.6/iPhone';
+
+const AMAZON_DOMAINS: Record<AlexaApiRegion, string> = {
+  NA: 'amazon.com',
+  EU: 'amazon.co.uk',
+  FE: 'amazon.co.jp',
+};
+
+/** Alexa site pages that set the csrf cookie, tried in order */
+const CSRF_PATHS = ['/api/language', '/spa/index.html', '/templates/oobe/d-device-picker.handlebars'];
+
+export type CookieSessionCheck =
+  /** No refresh token stored */
+  | 'idle'
+  /** The current cookie is not due for rotation */
+  | 'ok'
+  /** New cookies were exchanged and stored */
+  | 'rotated'
+  /** The exchange failed; retried at the next check */
+  | 'failed';
+
+export interface CookieSessionStatus {
+  hasRefreshToken: boolean;
+  storedAt?: string;
+  lastRefreshedAt?: string;
+  lastError?: string;
+  /** When the current cookie is due for rotation */
+  nextRefreshAt?: string;
+}
+
+export interface CookieSessionOptions {
+  userId: string;
+  region?: AlexaApiRegion;
+  /** Token exchange endpoint (default https://www.amazon.<tld>/ap/exchangetoken/cookies) */
+  exchangeUrl?: string;
+  /** Alexa site the csrf cookie is fetched from (default: the region's) */
+  alexaUrl?: string;
+  /** Rotate this long before the cookie's estimated expiry (default 2 days) */
+  refreshBeforeExpiryMs?: number;
+  /** Lifetime assumed when the cookie carries no expiry (see estimateCookieExpiry) */
+  assumedLifetimeMs?: number;
+  /** New credentials were stored */
+  onRotated?: (credentials: AlexaCookieCredentials) => void | Promise<void>;
+  /** A scheduled or requested exchange failed */
+  onError?: (error: Error) => void;
+}
+
+interface HttpResponse {
+  statusCode: number;
+  data: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/** One cookie of an exchange response */
+interface ExchangedCookie {
+  Name: string;
+  Value: string;
+  Expires?: string;
+}
+
+/** Body of the token exchange response, on success or failure */
+interface TokenExchangeResponse {
+  response?: {
+    tokens?: { cookies?: Record<string, ExchangedCookie[]> };
+    error?: { message?: string };
+  };
+  error_description?: string;
+}
+
+export class CookieSessionManager {
+  private tokenStore: RefreshTokenStore;
+  private cookieStore: CookieStore;
+  private options: CookieSessionOptions;
+  private domain: string;
+  private exchangeUrl: string;
+  private alexaUrl: string;
+  private task = new PeriodicTask(() => this.check());
+  private refreshing: Promise<AlexaCookieCredentials> | null = null;
+
+  constructor(tokenStore: RefreshTokenStore, cookieStore: CookieStore, options: CookieSessionOptions) {
+    const region = options.region ?? 'NA';
+    this.tokenStore = tokenStore;
+    this.cookieStore = cookieStore;
+    this.options = options;
+    this.domain = AMAZON_DOMAINS[region];
+    this.exchangeUrl = options.exchangeUrl || `https://www.${this.domain}/ap/exchangetoken/cookies`;
+    this.alexaUrl = options.alexaUrl || ALEXA_API_BASE_URLS[region];
+  }
+
+  /** Check now, then every `intervalMs`.  Resolves with the first check. */
+  async start(intervalMs = DEFAULT_CHECK_INTERVAL_MS): Promise<CookieSessionCheck> {
+    this.task.start(intervalMs);
+    return this.check();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  /**
+   * Exchange a new refresh token and, when that works, store it along
+   * with the cookies it yields.  A rejected token is not stored.
+   */
+  async setRefreshToken(refreshToken: string, now = Date.now()): Promise<AlexaCookieCredentials> {
+    const token = refreshToken.trim();
+    const credentials = await this.exchange(token, now);
+    await this.tokenStore.set(this.options.userId, {
+      refreshToken: token,
+      storedAt: credentials.storedAt,
+      lastRefreshedAt: credentials.storedAt,
+    });
+    await this.store(credentials);
+    return credentials;
+  }
+
+  async hasRefreshToken(): Promise<boolean> {
+    return (await this.tokenStore.get(this.options.userId)) !== null;
+  }
+
+  /** Rotate the cookie if it is missing or due.  Errors go to `onError`. */
+  async check(now = Date.now()): Promise<CookieSessionCheck> {
+    if (!(await this.hasRefreshToken())) return 'idle';
+
+    const credentials = await this.cookieStore.get(this.options.userId);
+    if (credentials && now < this.rotationDue(credentials)) return 'ok';
+
+    try {
+      await this.refresh(now);
+      return 'rotated';
+    } catch {
+      return 'failed';
+    }
+  }
+
+  /** Exchange the stored token for new cookies now.  Concurrent calls share the exchange. */
+  refresh(now = Date.now()): Promise<AlexaCookieCredentials> {
+    if (!this.refreshing) {
+      this.refreshing = this.rotate(now).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  async getStatus(): Promise<CookieSessionStatus> {
+    const token = await this.tokenStore.get(this.options.userId);
+    if (!token) return { hasRefreshToken: false };
+
+    const credentials = await this.cookieStore.get(this.options.userId);
+    return {
+      hasRefreshToken: true,
+      storedAt: token.storedAt,
+      ...(token.lastRefreshedAt ? { lastRefreshedAt: token.lastRefreshedAt } : {}),
+      ...(token.lastError ? { lastError: token.lastError } : {}),
+      ...(credentials ? { nextRefreshAt: new Date(this.rotationDue(credentials)).toISOString() } : {}),
+    };
+  }
+
+  private async rotate(now: number): Promise<AlexaCookieCredentials> {
+    const token = await this.tokenStore.get(this.options.userId);
+    if (!token) {
+      throw new Error('No Amazon refresh token stored. Use the set_alexa_refresh_token action first.');
+    }
+
+    let credentials: AlexaCookieCredentials;
+    try {
+      credentials = await this.exchange(token.refreshToken, now);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      await this.tokenStore.set(this.options.userId, { ...token, lastError: error.message });
+      this.options.onError?.(error);
+      throw error;
+    }
+
+    await this.tokenStore.set(this.options.userId, {
+      refreshToken: token.refreshToken,
+      storedAt: token.storedAt,
+      lastRefreshedAt: credentials.storedAt,
+    });
+    await this.store(credentials);
+    return credentials;
+  }
+
+  private async store(credentials: AlexaCookieCredentials): Promise<void> {
+    await this.cookieStore.set(this.options.userId, credentials);
+    await this.options.onRotated?.(credentials);
+  }
+
+  private rotationDue(credentials: AlexaCookieCredentials): number {
+    const expiry = estimateCookieExpiry(credentials, this.options.assumedLifetimeMs);
+    return Date.parse(expiry.expiresAt) - (this.options.refreshBeforeExpiryMs ?? DEFAULT_REFRESH_BEFORE_EXPIRY_MS);
+  }
+
+  // -----------------------------------------------------------------------
+  // Exchange
+  // -----------------------------------------------------------------------
+
+  private async exchange(refreshToken: string, now: number): Promise<AlexaCookieCredentials> {
+    const body = new URLSearchParams({
+      app_name: 'Amazon Alexa',
+      requested_token_type: 'auth_cookies',
+      domain: `www.${this.domain}`,
+      source_token_type: 'refresh_token',
+      source_token: refreshToken,
+    }).toString();
+
+    const response = await httpRequest(this.exchangeUrl, 'POST', {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'x-amzn-identity-auth-domain': `api.${this.domain}`,
+    }, body);
+
+    let data: TokenExchangeResponse | null;
+    try {
+      data = JSON.parse(response.data) as TokenExchangeResponse;
+    } catch {
+      data = null;
+    }
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      const detail = data?.response?.error?.message ?? data?.error_description ?? `HTTP ${response.statusCode}`;
+      throw new Error(`Refresh token exchange failed: ${detail}`);
+    }
+
+    const cookies = Object.values(data?.response?.tokens?.cookies ?? {}).flat();
+    const jar = new Map<string, string>();
+    const expiries: number[] = [];
+    for (const cookie of cookies) {
+      if (!cookie?.Name) continue;
+      jar.set(cookie.Name, String(cookie.Value ?? '').replace(/^"|"$/g, ''));
+      const expires = Date.parse(cookie.Expires ?? '');
+      if (Number.isFinite(expires)) expiries.push(expires);
+    }
+    if (jar.size === 0) {
+      throw new Error('Refresh token exchange returned no cookies');
+    }
+
+    const cookie = [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+    const csrf = await this.fetchCsrf(cookie);
+    return {
+      cookie: csrf ? `${cookie}; csrf=${csrf}` : cookie,
+      ...(csrf ? { csrf } : {}),
+      storedAt: new Date(now).toISOString(),
+      ...(expiries.length > 0 ? { expiresAt: new Date(Math.min(...expiries)).toISOString() } : {}),
+    };
+  }
+
+  /** The csrf cookie the Alexa site sets for the new session, if any. */
+  private async fetchCsrf(cookie: string): Promise<string | undefined> {
+    for (const path of CSRF_PATHS) {
+      try {
+        const response = await httpRequest(new URL(path, this.alexaUrl).toString(), 'GET', { Cookie: cookie });
+        for (const header of response.headers['set-cookie'] ?? []) {
+          const match = header.match(/^csrf=([^;]+)/);
+          if (match) return match[1];
+        }
+      } catch {
+        // Try the next page
+      }
+    }
+    return undefined;
+  }
+}
+
+function httpRequest(
+  url: string,
+  method: string,
+  headers: Record<string, string>,
+  body?: string,
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = target.protocol === 'http:' ? http.request : https.request;
+    const req = request(target, {
+      method,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept-Language': 'en-US',
+        ...headers,
+        ...(body ? { 'Content-Length': String(Buffer.byteLength(body)) } : {}),
+      },
+    }, (res) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (data += chunk));
+      res.on('end', () => resolve({ statusCode: res.statusCode ?? 500, data, headers: res.headers }));
+    });
+
+    req.setTimeout(REQUEST_TIMEOUT_MS, () => req.destroy(new Error(`Request to ${target.host} timed out`)));
+    req.on('error', reject);
+    if (body) req.write(body);
+    req.end();
+  });
+}
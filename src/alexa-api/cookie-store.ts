@@ -5,7 +5,7 @@
  * instead of OAuth tokens.
  */
 
-import type { AlexaCookieCredentials } from './alexa-api-types';
+import type { AlexaCookieCredentials, AlexaRefreshToken } from './alexa-api-types';
 
 export interface CookieStore {
   get(userId: string): Promise<AlexaCookieCredentials | null>;
@@ -31,3 +31,32 @@ export class InMemoryCookieStore implements CookieStore {
     this.store.delete(userId);
   }
 }
+
+/**
+ * Storage for the refresh token the cookie session manager exchanges
+ * for fresh cookies.
+ */
+export interface RefreshTokenStore {
+  get(userId: string): Promise<AlexaRefreshToken | null>;
+  set(userId: string, token: AlexaRefreshToken): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory refresh token store for development and testing.
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private store = new Map<string, AlexaRefreshToken>();
+
+  async get(userId: string): Promise<AlexaRefreshToken | null> {
+    return this.store.get(userId) ?? null;
+  }
+
+  async set(userId: string, token: AlexaRefreshToken): Promise<void> {
+    this.store.set(userId, token);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.store.delete(userId);
+  }
+}
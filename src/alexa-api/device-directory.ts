@@ -0,0 +1,183 @@
+/**
+ * Device directory — maps the IDs Alexa uses in different places to
+ * one device and its name.
+ *
+ * Push events and activity records only carry an Echo serial number,
+ * state snapshots an applianceId or endpointId.  The directory is fed
+ * from `getAllDevices()`, persisted so names survive a restart without
+ * a network call, and refreshed on a schedule so renames are picked up.
+ */
+
+import type { AccountDevice } from './alexa-api-types';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export interface DeviceDirectoryEntry {
+  /** AccountDevice.id (serial number for Echo devices, endpointId otherwise) */
+  id: string;
+  name: string;
+  source: AccountDevice['source'];
+  serialNumber?: string;
+  endpointId?: string;
+  applianceId?: string;
+  entityId?: string;
+  updatedAt: string; // ISO-8601
+}
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+export interface DeviceDirectoryStore {
+  list(): Promise<DeviceDirectoryEntry[]>;
+  /** Replace the whole directory with a fresh device list */
+  replaceAll(entries: DeviceDirectoryEntry[]): Promise<void>;
+}
+
+/**
+ * In-memory device directory store for development and testing.
+ */
+export class InMemoryDeviceDirectoryStore implements DeviceDirectoryStore {
+  private entries: DeviceDirectoryEntry[] = [];
+
+  async list(): Promise<DeviceDirectoryEntry[]> {
+    return this.entries.map((e) => ({ ...e }));
+  }
+
+  async replaceAll(entries: DeviceDirectoryEntry[]): Promise<void> {
+    this.entries = entries.map((e) => ({ ...e }));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Directory
+// ---------------------------------------------------------------------------
+
+export interface DeviceDirectoryOptions {
+  /** Fetches the account's devices (normally `AlexaApiClient.getAllDevices`) */
+  fetchDevices: () => Promise<AccountDevice[]>;
+  /** Called when a scheduled refresh fails */
+  onError?: (error: Error) => void;
+}
+
+export class DeviceDirectory {
+  private store: DeviceDirectoryStore;
+  private options: DeviceDirectoryOptions;
+  private entries: DeviceDirectoryEntry[] = [];
+  /** Every known ID (serial, endpointId, applianceId, entityId) → entry */
+  private byId = new Map<string, DeviceDirectoryEntry>();
+  private loading: Promise<void> | null = null;
+  private task = new PeriodicTask(() => this.refresh(), (error) => this.options.onError?.(error));
+
+  constructor(store: DeviceDirectoryStore, options: DeviceDirectoryOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  /** Load the persisted directory (once; a failed load is retried on the next call). */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.list().then((entries) => {
+        // A refresh that finished first has newer data
+        if (this.entries.length === 0) this.index(entries);
+      }, (err) => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  /** Fetch the device list and replace the directory.  Returns its size. */
+  async refresh(): Promise<number> {
+    await this.update(await this.options.fetchDevices());
+    return this.entries.length;
+  }
+
+  /** Replace the directory from a device list fetched elsewhere. */
+  async update(devices: AccountDevice[]): Promise<void> {
+    const now = new Date().toISOString();
+    const entries = devices.filter((d) => d.name).map((d) => toEntry(d, now));
+    await this.store.replaceAll(entries);
+    this.index(entries);
+  }
+
+  /**
+   * Load the persisted directory, then refresh now and every
+   * `intervalMs` (default 6 hours).  If the first refresh fails the
+   * persisted directory stays in use.
+   */
+  async start(intervalMs = DEFAULT_REFRESH_INTERVAL_MS): Promise<number> {
+    await this.load();
+    this.task.start(intervalMs);
+    return this.refresh();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  list(): DeviceDirectoryEntry[] {
+    return this.entries.map((e) => ({ ...e }));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Name of the device with this serial, endpointId, applianceId or entityId. */
+  resolveName(id: string | undefined): string | undefined {
+    return id ? this.byId.get(id)?.name : undefined;
+  }
+
+  applianceIdForSerial(serial: string): string | undefined {
+    return this.entries.find((e) => e.serialNumber === serial)?.applianceId;
+  }
+
+  applianceIdForEndpoint(endpointId: string): string | undefined {
+    return this.entries.find((e) => e.endpointId === endpointId || e.id === endpointId)?.applianceId;
+  }
+
+  /** endpointId of the device with this serial, applianceId or entityId. */
+  endpointIdFor(id: string): string | undefined {
+    return this.byId.get(id)?.endpointId;
+  }
+
+  /** Every known ID → device name, for backfilling stored rows. */
+  names(): Record<string, string> {
+    const names: Record<string, string> = {};
+    for (const [id, entry] of this.byId) names[id] = entry.name;
+    return names;
+  }
+
+  private index(entries: DeviceDirectoryEntry[]): void {
+    this.entries = entries;
+    this.byId.clear();
+    for (const e of entries) {
+      for (const id of [e.id, e.serialNumber, e.endpointId, e.applianceId, e.entityId]) {
+        if (id && !this.byId.has(id)) this.byId.set(id, e);
+      }
+    }
+  }
+}
+
+function toEntry(device: AccountDevice, updatedAt: string): DeviceDirectoryEntry {
+  // An Echo that also appears as a GraphQL endpoint keeps that
+  // endpoint's record in `raw`
+  const rawId = device.raw?.id;
+  const endpointId = device.source === 'smart_home'
+    ? device.id
+    : typeof rawId === 'string' && rawId !== device.id ? rawId : undefined;
+
+  return {
+    id: device.id,
+    name: device.name,
+    source: device.source,
+    ...(device.source === 'echo' ? { serialNumber: device.id } : {}),
+    ...(endpointId ? { endpointId } : {}),
+    ...(device.applianceId ? { applianceId: device.applianceId } : {}),
+    ...(device.entityId ? { entityId: device.entityId } : {}),
+    updatedAt,
+  };
+}
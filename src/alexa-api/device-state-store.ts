@@ -3,9 +3,14 @@
  *
  * Mirrors the CookieStore / EventStore pattern — an interface plus
  * a lightweight in-memory implementation for dev and testing.
+ *
+ * Stores may keep snapshots as they come, or (SqliteChangeDeviceStateStore)
+ * as per-property change records plus periodic keyframes, rebuilding
+ * snapshots on read.  The helpers at the end of this file compute and
+ * apply those changes.
  */
 
-import type { DeviceStateSnapshot } from './alexa-api-types';
+import type { DeviceStateSnapshot, ParsedCapabilityState } from './alexa-api-types';
 
 // ---------------------------------------------------------------------------
 // Query types
@@ -13,6 +18,7 @@ import type { DeviceStateSnapshot } from './alexa-api-types';
 
 export interface DeviceStateQuery {
   deviceId?: string;
+  deviceName?: string;  // case-insensitive exact match
   startTime?: string; // ISO-8601
   endTime?: string;   // ISO-8601
   limit?: number;
@@ -24,18 +30,39 @@ export interface DeviceStateQueryResult {
   totalCount: number;
 }
 
+/**
+ * One property value change, as kept by change-based storage.  A
+ * snapshot error is recorded as the property `error` with namespace ''.
+ */
+export interface StatePropertyChange {
+  deviceId: string;
+  deviceName?: string;
+  namespace: string;
+  name: string;
+  instance?: string;
+  /** New value; undefined once the property is no longer reported */
+  value?: unknown;
+  timeOfSample?: string;
+  changedAt: string; // ISO-8601 (the snapshot's polledAt)
+  /** What stored the snapshot (a ChangeCause), when known */
+  cause?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Store interface
 // ---------------------------------------------------------------------------
 
 export interface DeviceStateStore {
   insert(snapshot: DeviceStateSnapshot): Promise<void>;
-  insertBatch(snapshots: DeviceStateSnapshot[]): Promise<void>;
+  /** `cause` (a ChangeCause) is recorded by stores that keep changes */
+  insertBatch(snapshots: DeviceStateSnapshot[], cause?: string): Promise<void>;
   query(query: DeviceStateQuery): Promise<DeviceStateQueryResult>;
   getLatest(deviceId: string): Promise<DeviceStateSnapshot | null>;
   /** Return the most recent snapshot for every device_id in the store. */
   getAllLatest(): Promise<DeviceStateSnapshot[]>;
   prune(olderThan: string): Promise<number>;
+  /** Set names (keyed by device ID) on snapshots that have none; returns rows updated. */
+  fillDeviceNames(names: Record<string, string>): Promise<number>;
 }
 
 // ---------------------------------------------------------------------------
@@ -69,6 +96,10 @@ export class InMemoryDeviceStateStore implements DeviceStateStore {
     if (query.deviceId) {
       filtered = filtered.filter((s) => s.deviceId === query.deviceId);
     }
+    if (query.deviceName) {
+      const name = query.deviceName.toLowerCase();
+      filtered = filtered.filter((s) => s.deviceName?.toLowerCase() === name);
+    }
     if (query.startTime) {
       filtered = filtered.filter((s) => s.polledAt >= query.startTime!);
     }
@@ -103,4 +134,96 @@ export class InMemoryDeviceStateStore implements DeviceStateStore {
     this.snapshots = this.snapshots.filter((s) => s.polledAt >= olderThan);
     return before - this.snapshots.length;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    let updated = 0;
+    for (const s of this.snapshots) {
+      if (!s.deviceName && names[s.deviceId]) {
+        s.deviceName = names[s.deviceId];
+        updated++;
+      }
+    }
+    return updated;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Change records
+// ---------------------------------------------------------------------------
+
+/** State a change-based store keeps per device: last good values and error */
+export interface DeviceStateValues {
+  capabilities: ParsedCapabilityState[];
+  error?: string;
+}
+
+function capabilityKey(cap: { namespace: string; name: string; instance?: string }): string {
+  return `${cap.namespace}|${cap.name}|${cap.instance ?? ''}`;
+}
+
+/**
+ * The changes that take `previous` to `snapshot`.  An error snapshot
+ * changes only the error: the last good values are kept, so a device
+ * coming back records only what actually differs.
+ */
+export function diffDeviceState(
+  previous: DeviceStateValues,
+  snapshot: DeviceStateSnapshot,
+  cause?: string,
+): StatePropertyChange[] {
+  const base = {
+    deviceId: snapshot.deviceId,
+    ...(snapshot.deviceName ? { deviceName: snapshot.deviceName } : {}),
+    changedAt: snapshot.polledAt,
+    ...(cause ? { cause } : {}),
+  };
+  const changes: StatePropertyChange[] = [];
+  if ((snapshot.error ?? undefined) !== (previous.error ?? undefined)) {
+    changes.push({ ...base, namespace: '', name: 'error', ...(snapshot.error ? { value: snapshot.error } : {}) });
+  }
+  if (snapshot.error) return changes;
+
+  const before = new Map(previous.capabilities.map((cap) => [capabilityKey(cap), cap]));
+  const after = new Set<string>();
+  for (const cap of snapshot.capabilities) {
+    const key = capabilityKey(cap);
+    after.add(key);
+    const old = before.get(key);
+    if (old && JSON.stringify(old.value) === JSON.stringify(cap.value)) continue;
+    changes.push({
+      ...base,
+      namespace: cap.namespace,
+      name: cap.name,
+      ...(cap.instance ? { instance: cap.instance } : {}),
+      value: cap.value,
+      ...(cap.timeOfSample ? { timeOfSample: cap.timeOfSample } : {}),
+    });
+  }
+  for (const [key, cap] of before) {
+    if (after.has(key)) continue;
+    changes.push({ ...base, namespace: cap.namespace, name: cap.name, ...(cap.instance ? { instance: cap.instance } : {}) });
+  }
+  return changes;
+}
+
+/** Apply changes, in order, to a device's state. */
+export function applyStateChanges(state: DeviceStateValues, changes: StatePropertyChange[]): DeviceStateValues {
+  const capabilities = new Map(state.capabilities.map((cap) => [capabilityKey(cap), cap]));
+  let error = state.error;
+  for (const change of changes) {
+    if (change.namespace === '' && change.name === 'error') {
+      error = change.value === undefined ? undefined : String(change.value);
+    } else if (change.value === undefined) {
+      capabilities.delete(capabilityKey(change));
+    } else {
+      capabilities.set(capabilityKey(change), {
+        namespace: change.namespace,
+        name: change.name,
+        ...(change.instance ? { instance: change.instance } : {}),
+        value: change.value,
+        ...(change.timeOfSample ? { timeOfSample: change.timeOfSample } : {}),
+      });
+    }
+  }
+  return { capabilities: [...capabilities.values()], ...(error ? { error } : {}) };
 }
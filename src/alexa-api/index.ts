@@ -1,15 +1,82 @@
 export { AlexaApiClient } from './alexa-api-client';
-export { InMemoryCookieStore } from './cookie-store';
-export type { CookieStore } from './cookie-store';
-export { InMemoryDeviceStateStore } from './device-state-store';
-export type { DeviceStateStore, DeviceStateQuery, DeviceStateQueryResult } from './device-state-store';
+export type { AlexaApiAuthStats, AlexaApiClientOptions } from './alexa-api-client';
+export { DEFAULT_REQUEST_POLICY, TokenBucket, endpointFamily, parseRetryAfter, retryDelay } from './request-policy';
+export type { AlexaRequestPolicy, EndpointFamily, RateLimit, RequestFamilyMetrics } from './request-policy';
+export { PollScheduler, DEFAULT_POLL_POLICY, POLL_CATEGORIES, pollCategory, mergePollPolicy } from './poll-scheduler';
+export type {
+  PollCategory,
+  PollCategoryPolicy,
+  PollPolicy,
+  PollPolicyUpdate,
+  PollSchedulerOptions,
+  PollSchedulerStatus,
+  PolledDeviceStatus,
+  PollTickResult,
+} from './poll-scheduler';
+export { InMemoryCookieStore, InMemoryRefreshTokenStore } from './cookie-store';
+export type { CookieStore, RefreshTokenStore } from './cookie-store';
+export { CookieSessionManager } from './cookie-session';
+export type { CookieSessionOptions, CookieSessionStatus, CookieSessionCheck } from './cookie-session';
+export { CookieHealthMonitor, estimateCookieExpiry } from './cookie-health';
+export type {
+  CookieStatus,
+  CookieHealthState,
+  CookieExpiryEstimate,
+  CookieExpirySource,
+  CookieHealthMonitorOptions,
+} from './cookie-health';
+export { InMemoryDeviceStateStore, diffDeviceState, applyStateChanges } from './device-state-store';
+export type { DeviceStateStore, DeviceStateQuery, DeviceStateQueryResult, DeviceStateValues, StatePropertyChange } from './device-state-store';
+export { StateAggregator, InMemoryStateRollupStore, aggregateSamples, numericValue, STATE_AGGREGATE_BUCKETS, STATE_AGGREGATE_BUCKET_MS } from './state-aggregates';
+export type {
+  StateRollupStore,
+  StateRollup,
+  StateRollupWatermark,
+  StateSeries,
+  StateSample,
+  StateAggregateBucket,
+  StateAggregatePoint,
+  StateAggregateQuery,
+  StateAggregateResult,
+  StateAggregatorOptions,
+  StateRollupResult,
+} from './state-aggregates';
 export { InMemoryActivityStore } from './activity-store';
 export type { ActivityStore, ActivityQuery, ActivityQueryResult } from './activity-store';
 export { InMemoryPushEventStore } from './push-event-store';
 export type { PushEventStore, PushEventQuery, PushEventQueryResult } from './push-event-store';
+export { PushEventProcessor } from './push-event-processor';
+export { PushListenerSupervisor } from './push-supervisor';
+export type { PushSupervisorOptions, PushSupervisorCheck, PushRestartReason } from './push-supervisor';
+export { DeviceDirectory, InMemoryDeviceDirectoryStore } from './device-directory';
+export type { DeviceDirectoryStore, DeviceDirectoryEntry, DeviceDirectoryOptions } from './device-directory';
+export { MediaSessionTracker, InMemoryMediaSessionStore, MEDIA_PUSH_COMMANDS } from './media-sessions';
+export type {
+  MediaSessionStore,
+  MediaSession,
+  MediaSessionQuery,
+  MediaSessionQueryResult,
+  MediaSessionTrackerOptions,
+  MediaSessionEndReason,
+  MediaPlayerState,
+  NowPlaying,
+} from './media-sessions';
+export { ConnectivityTracker, InMemoryConnectivityStore } from './connectivity';
+export type {
+  ConnectivityStore,
+  ConnectivityTransition,
+  ConnectivityQuery,
+  ConnectivityStatus,
+  ConnectivitySource,
+  ConnectivityReport,
+  DeviceConnectivity,
+  ConnectivityTrackerOptions,
+} from './connectivity';
+export type { PushEventHandler, PushEventHandlers, PushEventProcessorOptions, PushEventDrainResult } from './push-event-processor';
 export type {
   AlexaApiRegion,
   AlexaCookieCredentials,
+  AlexaRefreshToken,
   AccountDevice,
   AccountDeviceCommand,
   RawSmartHomeEntity,
@@ -32,5 +99,8 @@ export type {
   PushConnectionChangePayload,
   PushAudioPlayerStatePayload,
   PushVolumeChangePayload,
+  PushMediaChangePayload,
+  PushMediaProgressPayload,
+  PushMediaQueueChangePayload,
 } from './push-event-types';
 export { ALEXA_PUSH_WS_HOSTS, FABE } from './push-event-types';
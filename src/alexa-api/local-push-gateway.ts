@@ -0,0 +1,339 @@
+/**
+ * LocalPushGateway — a local stand-in for Amazon's push gateway.
+ *
+ * Speaks the server side of the push channel to a connecting
+ * AlexaPushClient (pointed at it with `gatewayUrl`): WebSocket upgrade,
+ * TUNE negotiation, ACK for the INI handshake, PON for each PIN.  Once
+ * the client sends REGISTER_CONNECTION it replays the GWM push messages
+ * of a capture (see push-capture.ts) with their recorded spacing, byte
+ * for byte, and `sendEvent()` pushes synthetic events.
+ *
+ * Faults for the client's recovery paths are switched with
+ * `configure()`: withhold the ACK (init timeout), stop answering PINs
+ * (pong timeout), reject upgrades, or close/drop open connections.
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import type { AddressInfo, Socket } from 'net';
+import { FABE } from './push-event-types';
+import {
+  encodeNumber,
+  computeChecksum,
+  encodeWebSocketFrame,
+  WebSocketFrameParser,
+  FABEParser,
+  generateUUID,
+} from './push-protocol';
+import type { CapturedFrame } from './push-capture';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-5AB5DC175B18';
+
+export interface LocalPushGatewayBehavior {
+  /** Protocol offered in the server TUNE (default 'A:H') */
+  protocolName: 'A:H' | 'A:F';
+  /** ACK the client's INI (default true; false leaves the client to its init timeout) */
+  completeHandshake: boolean;
+  /** Answer PIN heartbeats with PON (default true; false triggers the client's pong timeout) */
+  answerPings: boolean;
+  /** Reject WebSocket upgrades with this HTTP status (default: accept) */
+  rejectUpgrade?: number;
+}
+
+export interface LocalPushGatewayOptions extends Partial<LocalPushGatewayBehavior> {
+  /** Frames replayed to every connection once it registers */
+  capture?: CapturedFrame[];
+  /** Replay pace: 1 = as recorded, 10 = ten times faster, 0 = no delays (default 1) */
+  replaySpeed?: number;
+}
+
+export interface LocalPushGatewayStats {
+  /** WebSocket upgrades accepted */
+  connections: number;
+  /** Connections currently open */
+  openConnections: number;
+  /** REGISTER_CONNECTION messages received */
+  registrations: number;
+  /** PIN heartbeats received */
+  pings: number;
+  /** Push messages sent (replayed and synthetic) */
+  messagesSent: number;
+  /** Cookie header of the last upgrade request */
+  lastCookie?: string;
+}
+
+interface GatewayConnection {
+  socket: Socket;
+  parser: WebSocketFrameParser;
+  registered: boolean;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+export class LocalPushGateway {
+  private server: http.Server;
+  private behavior: LocalPushGatewayBehavior;
+  private capture: CapturedFrame[];
+  private replaySpeed: number;
+  private connections = new Set<GatewayConnection>();
+  private fabeParser = new FABEParser();
+  private messageId = Math.floor(1e6 * Math.random());
+  private stats: LocalPushGatewayStats = {
+    connections: 0, openConnections: 0, registrations: 0, pings: 0, messagesSent: 0,
+  };
+
+  constructor(options: LocalPushGatewayOptions = {}) {
+    this.behavior = {
+      protocolName: options.protocolName ?? 'A:H',
+      completeHandshake: options.completeHandshake ?? true,
+      answerPings: options.answerPings ?? true,
+      rejectUpgrade: options.rejectUpgrade,
+    };
+    this.capture = (options.capture ?? []).filter(isPushMessageFrame);
+    this.replaySpeed = options.replaySpeed ?? 1;
+
+    this.server = http.createServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' });
+      res.end('WebSocket upgrade required');
+    });
+    this.server.on('upgrade', (req: http.IncomingMessage, socket: Socket, head: Buffer) => {
+      this.handleUpgrade(req, socket, head);
+    });
+  }
+
+  /** Start listening; resolves with the URL to pass as `gatewayUrl`. */
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const address = this.server.address() as AddressInfo;
+        resolve(`ws://${host}:${address.port}`);
+      });
+    });
+  }
+
+  /** Drop every connection and stop listening. */
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Change fault behavior; applies to messages received from now on. */
+  configure(behavior: Partial<LocalPushGatewayBehavior>): void {
+    this.behavior = { ...this.behavior, ...behavior };
+  }
+
+  getStats(): LocalPushGatewayStats {
+    return { ...this.stats, openConnections: this.connections.size };
+  }
+
+  /** Push an event to every registered connection.  Returns how many got it. */
+  sendEvent(command: string, payload: Record<string, unknown> = {}): number {
+    const message = encodePushMessage(this.nextMessageId(), command, payload);
+    let sent = 0;
+    for (const conn of this.connections) {
+      if (!conn.registered) continue;
+      this.send(conn, message);
+      this.stats.messagesSent++;
+      sent++;
+    }
+    return sent;
+  }
+
+  /** Close every connection with a WebSocket close frame. */
+  closeConnections(code = 1000, reason = ''): void {
+    const body = Buffer.alloc(2 + Buffer.byteLength(reason));
+    body.writeUInt16BE(code, 0);
+    body.write(reason, 2);
+    for (const conn of [...this.connections]) {
+      this.send(conn, body, 0x08);
+      conn.socket.end();
+      this.forget(conn);
+    }
+  }
+
+  /** Destroy every connection without a close frame (a network drop). */
+  dropConnections(): void {
+    for (const conn of [...this.connections]) {
+      conn.socket.destroy();
+      this.forget(conn);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Connection handling
+  // -----------------------------------------------------------------------
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Socket, head: Buffer): void {
+    const key = req.headers['sec-websocket-key'];
+    this.stats.lastCookie = req.headers.cookie;
+    if (this.behavior.rejectUpgrade || typeof key !== 'string') {
+      const status = this.behavior.rejectUpgrade ?? 400;
+      socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status] ?? 'Error'}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+      return;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+
+    const conn: GatewayConnection = {
+      socket,
+      parser: new WebSocketFrameParser((opcode, payload) => this.handleFrame(conn, opcode, payload)),
+      registered: false,
+      timers: [],
+    };
+    this.connections.add(conn);
+    this.stats.connections++;
+
+    socket.on('data', (data: Buffer) => conn.parser.feed(data));
+    socket.on('close', () => this.forget(conn));
+    socket.on('error', () => this.forget(conn));
+    if (head.length > 0) conn.parser.feed(head);
+  }
+
+  private handleFrame(conn: GatewayConnection, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case 0x01:
+      case 0x02:
+        this.handleMessage(conn, payload);
+        break;
+      case 0x08:
+        conn.socket.end();
+        this.forget(conn);
+        break;
+      case 0x09:
+        this.send(conn, payload, 0x0A);
+        break;
+    }
+  }
+
+  private handleMessage(conn: GatewayConnection, data: Buffer): void {
+    const message = this.fabeParser.parse(data);
+
+    if (message.service === 'TUNE') {
+      // The client's opening TUNE carries no JSON; its reply to ours does
+      if (!message.content.protocolName) this.send(conn, encodeTune(this.behavior.protocolName));
+      return;
+    }
+    if (message.service !== 'FABE') return;
+
+    if (message.channel === FABE.GW_HANDSHAKE_CHANNEL && message.content.messageType === 'INI') {
+      if (this.behavior.completeHandshake) this.send(conn, encodeAck(this.nextMessageId()));
+    } else if (message.channel === FABE.GW_CHANNEL && message.content.payload?.command === 'REGISTER_CONNECTION') {
+      this.stats.registrations++;
+      if (!conn.registered) {
+        conn.registered = true;
+        this.startReplay(conn);
+      }
+    } else if (message.channel === FABE.CHANNEL_FOR_HEARTBEAT) {
+      this.stats.pings++;
+      if (this.behavior.answerPings) this.send(conn, encodePong(this.nextMessageId()));
+    }
+  }
+
+  private startReplay(conn: GatewayConnection): void {
+    if (this.capture.length === 0) return;
+    const first = this.capture[0].at;
+    for (const frame of this.capture) {
+      const delay = this.replaySpeed > 0 ? (frame.at - first) / this.replaySpeed : 0;
+      const timer = setTimeout(() => {
+        if (!this.connections.has(conn)) return;
+        this.send(conn, Buffer.from(frame.data, 'base64'), frame.opcode);
+        this.stats.messagesSent++;
+      }, delay);
+      conn.timers.push(timer);
+    }
+  }
+
+  private send(conn: GatewayConnection, payload: Buffer, opcode = 0x02): void {
+    if (conn.socket.destroyed) return;
+    conn.socket.write(encodeWebSocketFrame(payload, opcode, false));
+  }
+
+  private forget(conn: GatewayConnection): void {
+    for (const timer of conn.timers) clearTimeout(timer);
+    conn.timers = [];
+    this.connections.delete(conn);
+  }
+
+  private nextMessageId(): number {
+    return ++this.messageId;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Server-side FABE encoding
+// ---------------------------------------------------------------------------
+
+/** Captured frames worth replaying: GWM push messages on the gateway channel. */
+function isPushMessageFrame(frame: CapturedFrame): boolean {
+  const message = new FABEParser().parse(Buffer.from(frame.data, 'base64'));
+  return message.service === 'FABE' &&
+    message.channel === FABE.GW_CHANNEL &&
+    message.content.messageType === 'GWM';
+}
+
+function encodeTune(protocolName: string): Buffer {
+  const json = JSON.stringify({
+    protocolName,
+    parameters: {
+      'AlphaProtocolHandler.receiveWindowSize': '16',
+      'AlphaProtocolHandler.maxFragmentSize': '16000',
+    },
+  });
+  const buffer = Buffer.from(`0x00000000 ${encodeNumber(22 + json.length + 4)} ${json}TUNE`, 'ascii');
+  Buffer.from(encodeNumber(computeChecksum(buffer, 0, 11))).copy(buffer, 0);
+  return buffer;
+}
+
+/** A FABE MSG with the layout FABEParser expects; checksum at byte 39. */
+function encodeFabeMessage(channel: number, messageId: number, content: Buffer): Buffer {
+  const header = `MSG ${encodeNumber(channel)} ${encodeNumber(messageId)} f 0x00000001 0x00000000 `;
+  const length = header.length + 11 + content.length + 4;
+  const buffer = Buffer.concat([
+    Buffer.from(header + encodeNumber(length) + ' ', 'ascii'),
+    content,
+    Buffer.from('FABE', 'ascii'),
+  ]);
+  Buffer.from(encodeNumber(computeChecksum(buffer, 39, 50))).copy(buffer, 39);
+  return buffer;
+}
+
+function encodeAck(messageId: number): Buffer {
+  const now = Date.now();
+  const uuid = generateUUID();
+  const content = `ACK ${encodeNumber(3)} 1.0 ${encodeNumber(uuid.length)} ${uuid} ` +
+    `${encodeNumber(1)} ${encodeNumber(now, 16)} ${encodeNumber(now, 16)} `;
+  return encodeFabeMessage(FABE.GW_HANDSHAKE_CHANNEL, messageId, Buffer.from(content, 'ascii'));
+}
+
+function encodePong(messageId: number): Buffer {
+  const text = 'Regular';
+  const body = Buffer.alloc(3 + 4 + 8 + 4 + 2 * text.length);
+  body.write('PON', 0, 'ascii');
+  const now = Date.now();
+  body.writeUInt32BE(Math.floor(now / 0x100000000), 7);
+  body.writeUInt32BE(now >>> 0, 11);
+  body.writeUInt32BE(text.length, 15);
+  for (let i = 0; i < text.length; i++) body.writeUInt16BE(text.charCodeAt(i), 19 + i * 2);
+  return encodeFabeMessage(FABE.CHANNEL_FOR_HEARTBEAT, messageId, body);
+}
+
+/**
+ * A GWM push message as Amazon sends it: the event JSON carries its
+ * payload as a nested JSON string.
+ */
+export function encodePushMessage(messageId: number, command: string, payload: Record<string, unknown>): Buffer {
+  const destination = 'urn:tcomm-endpoint:device:deviceType:0:deviceSerialNumber:0';
+  const source = 'urn:tcomm-endpoint:service:serviceName:DeeWebsiteMessagingService';
+  const idData = `${source} ${JSON.stringify({ command, payload: JSON.stringify(payload) })}`;
+  const content = `GWM MSG ${encodeNumber(FABE.DEE_WEBSITE_MESSAGING)} ` +
+    `${encodeNumber(destination.length)} ${destination} ` +
+    `${encodeNumber(Buffer.byteLength(idData))} ${idData}`;
+  return encodeFabeMessage(FABE.GW_CHANNEL, messageId, Buffer.from(content, 'utf8'));
+}
@@ -0,0 +1,349 @@
+/**
+ * Media session tracking from push media events.
+ *
+ * Rebuilds a "now playing" state per Echo from PUSH_AUDIO_PLAYER_STATE,
+ * PUSH_MEDIA_CHANGE, PUSH_MEDIA_PROGRESS_CHANGE and
+ * PUSH_MEDIA_QUEUE_CHANGE, and records listening sessions:
+ *
+ * - A session starts when the player reports PLAYING.
+ * - FINISHED, IDLE or an error end it.  Playback that resumes within
+ *   `resumeGraceMs` (a track change, a short pause) reopens it.
+ * - A session that sees no event for `idleTimeoutMs` (left paused,
+ *   device went offline) is closed at its last event.
+ */
+
+import type {
+  StoredPushEvent,
+  PushAudioPlayerStatePayload,
+  PushMediaChangePayload,
+  PushMediaProgressPayload,
+  PushMediaQueueChangePayload,
+} from './push-event-types';
+
+const DEFAULT_RESUME_GRACE_MS = 2 * 60 * 1000;
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export type MediaPlayerState = 'PLAYING' | 'INTERRUPTED' | 'FINISHED' | 'IDLE';
+
+export type MediaSessionEndReason = 'FINISHED' | 'IDLE' | 'ERROR' | 'TIMEOUT';
+
+export const MEDIA_PUSH_COMMANDS = [
+  'PUSH_AUDIO_PLAYER_STATE',
+  'PUSH_MEDIA_CHANGE',
+  'PUSH_MEDIA_PROGRESS_CHANGE',
+  'PUSH_MEDIA_QUEUE_CHANGE',
+] as const;
+
+/** Current player state of one Echo. */
+export interface NowPlaying {
+  deviceSerial: string;
+  deviceName?: string;
+  playerState?: MediaPlayerState;
+  mediaReferenceId?: string;
+  /** Position and length as reported by the device */
+  mediaProgress?: number;
+  mediaLength?: number;
+  /** When the position was reported */
+  progressUpdatedAt?: string;
+  /** Last queue change (e.g. 'SHUFFLE', 'LOOP') */
+  queueChangeType?: string;
+  playBackOrder?: string;
+  loopMode?: string;
+  /** Player error from the last PUSH_AUDIO_PLAYER_STATE */
+  error?: string;
+  updatedAt: string; // ISO-8601
+}
+
+/** One listening session on one Echo. */
+export interface MediaSession {
+  id: string;
+  deviceSerial: string;
+  deviceName?: string;
+  startedAt: string; // ISO-8601
+  /** Unset while the session is open */
+  endedAt?: string;
+  endReason?: MediaSessionEndReason;
+  lastEventAt: string;
+  /** Items played during the session, in order */
+  mediaReferenceIds: string[];
+}
+
+export interface MediaSessionQuery {
+  deviceSerial?: string;
+  deviceName?: string;  // case-insensitive exact match
+  startTime?: string;   // ISO-8601, sessions that started at or after
+  endTime?: string;     // ISO-8601, sessions that started at or before
+  /** true: open sessions only, false: ended sessions only */
+  open?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MediaSessionQueryResult {
+  sessions: MediaSession[];
+  totalCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+export interface MediaSessionStore {
+  getNowPlaying(deviceSerial: string): Promise<NowPlaying | null>;
+  listNowPlaying(): Promise<NowPlaying[]>;
+  saveNowPlaying(state: NowPlaying): Promise<void>;
+  /** Insert or replace a session by id */
+  saveSession(session: MediaSession): Promise<void>;
+  /** Most recently started session for a device, open or not */
+  getLatestSession(deviceSerial: string): Promise<MediaSession | null>;
+  querySessions(query: MediaSessionQuery): Promise<MediaSessionQueryResult>;
+  /** Delete sessions whose last event is before `olderThan` */
+  prune(olderThan: string): Promise<number>;
+}
+
+/**
+ * In-memory media session store for development and testing.
+ */
+export class InMemoryMediaSessionStore implements MediaSessionStore {
+  private nowPlaying = new Map<string, NowPlaying>();
+  private sessions: MediaSession[] = [];
+
+  async getNowPlaying(deviceSerial: string): Promise<NowPlaying | null> {
+    const state = this.nowPlaying.get(deviceSerial);
+    return state ? { ...state } : null;
+  }
+
+  async listNowPlaying(): Promise<NowPlaying[]> {
+    return [...this.nowPlaying.values()]
+      .map((s) => ({ ...s }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async saveNowPlaying(state: NowPlaying): Promise<void> {
+    this.nowPlaying.set(state.deviceSerial, { ...state });
+  }
+
+  async saveSession(session: MediaSession): Promise<void> {
+    const copy = { ...session, mediaReferenceIds: [...session.mediaReferenceIds] };
+    const index = this.sessions.findIndex((s) => s.id === session.id);
+    if (index >= 0) this.sessions[index] = copy;
+    else this.sessions.push(copy);
+  }
+
+  async getLatestSession(deviceSerial: string): Promise<MediaSession | null> {
+    const latest = this.sessions
+      .filter((s) => s.deviceSerial === deviceSerial)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+    return latest ? { ...latest, mediaReferenceIds: [...latest.mediaReferenceIds] } : null;
+  }
+
+  async querySessions(query: MediaSessionQuery): Promise<MediaSessionQueryResult> {
+    let filtered = this.sessions;
+
+    if (query.deviceSerial) {
+      filtered = filtered.filter((s) => s.deviceSerial === query.deviceSerial);
+    }
+    if (query.deviceName) {
+      const name = query.deviceName.toLowerCase();
+      filtered = filtered.filter((s) => s.deviceName?.toLowerCase() === name);
+    }
+    if (query.startTime) {
+      filtered = filtered.filter((s) => s.startedAt >= query.startTime!);
+    }
+    if (query.endTime) {
+      filtered = filtered.filter((s) => s.startedAt <= query.endTime!);
+    }
+    if (query.open !== undefined) {
+      filtered = filtered.filter((s) => !s.endedAt === query.open);
+    }
+
+    const sorted = [...filtered].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+
+    return {
+      sessions: sorted.slice(offset, offset + limit).map((s) => ({ ...s, mediaReferenceIds: [...s.mediaReferenceIds] })),
+      totalCount: filtered.length,
+    };
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    const before = this.sessions.length;
+    this.sessions = this.sessions.filter((s) => s.lastEventAt >= olderThan);
+    return before - this.sessions.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tracker
+// ---------------------------------------------------------------------------
+
+export interface MediaSessionTrackerOptions {
+  /** Playback resuming within this long after it ended continues the session (default 2 minutes) */
+  resumeGraceMs?: number;
+  /** An open session with no events for this long is closed (default 30 minutes) */
+  idleTimeoutMs?: number;
+}
+
+export class MediaSessionTracker {
+  private store: MediaSessionStore;
+  private options: MediaSessionTrackerOptions;
+  /** Per-device chain so events for one Echo are applied in order */
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(store: MediaSessionStore, options: MediaSessionTrackerOptions = {}) {
+    this.store = store;
+    this.options = options;
+  }
+
+  /**
+   * Apply a media push event to the device's now-playing state and
+   * session.  Other commands, events without a serial, and events
+   * older than the current state are ignored.
+   */
+  apply(event: StoredPushEvent): Promise<void> {
+    const serial = event.deviceSerial;
+    if (!serial || !(MEDIA_PUSH_COMMANDS as readonly string[]).includes(event.command)) {
+      return Promise.resolve();
+    }
+
+    const previous = this.pending.get(serial) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(() => this.applyInOrder(serial, event));
+    this.pending.set(serial, next);
+    return next.finally(() => {
+      if (this.pending.get(serial) === next) this.pending.delete(serial);
+    });
+  }
+
+  async getNowPlaying(deviceSerial?: string): Promise<NowPlaying[]> {
+    if (!deviceSerial) return this.store.listNowPlaying();
+    const state = await this.store.getNowPlaying(deviceSerial);
+    return state ? [state] : [];
+  }
+
+  /**
+   * Query sessions.  Open sessions past the idle timeout are closed
+   * first, so `open: true` only returns sessions that may still be live.
+   */
+  async querySessions(query: MediaSessionQuery, now = Date.now()): Promise<MediaSessionQueryResult> {
+    await this.closeIdleSessions(now);
+    return this.store.querySessions(query);
+  }
+
+  /** Delete sessions whose last event is before `olderThan`.  Returns how many. */
+  prune(olderThan: string): Promise<number> {
+    return this.store.prune(olderThan);
+  }
+
+  /** Close open sessions whose last event is older than the idle timeout.  Returns how many. */
+  async closeIdleSessions(now = Date.now()): Promise<number> {
+    const { sessions } = await this.store.querySessions({ open: true, limit: Number.MAX_SAFE_INTEGER });
+    let closed = 0;
+    for (const session of sessions) {
+      if (now - Date.parse(session.lastEventAt) > this.idleTimeoutMs) {
+        await this.store.saveSession({ ...session, endedAt: session.lastEventAt, endReason: 'TIMEOUT' });
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  private get idleTimeoutMs(): number {
+    return this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  private async applyInOrder(serial: string, event: StoredPushEvent): Promise<void> {
+    const current = await this.store.getNowPlaying(serial);
+    if (current && current.updatedAt > event.timestamp) return;
+
+    const state: NowPlaying = {
+      ...(current ?? { deviceSerial: serial }),
+      deviceName: event.deviceName ?? current?.deviceName,
+      updatedAt: event.timestamp,
+    };
+    let endReason: MediaSessionEndReason | undefined;
+
+    switch (event.command) {
+      case 'PUSH_AUDIO_PLAYER_STATE': {
+        const p = event.payload as PushAudioPlayerStatePayload;
+        if (p.audioPlayerState) state.playerState = p.audioPlayerState;
+        if (p.mediaReferenceId) this.setMedia(state, p.mediaReferenceId);
+        state.error = p.error ? (p.errorMessage ?? p.error) : undefined;
+        if (state.error) endReason = 'ERROR';
+        else if (p.audioPlayerState === 'FINISHED' || p.audioPlayerState === 'IDLE') endReason = p.audioPlayerState;
+        break;
+      }
+      case 'PUSH_MEDIA_CHANGE': {
+        const p = event.payload as PushMediaChangePayload;
+        if (p.mediaReferenceId) this.setMedia(state, p.mediaReferenceId);
+        break;
+      }
+      case 'PUSH_MEDIA_PROGRESS_CHANGE': {
+        const p = event.payload as PushMediaProgressPayload;
+        if (p.mediaReferenceId) this.setMedia(state, p.mediaReferenceId);
+        if (p.progress?.mediaProgress !== undefined) state.mediaProgress = p.progress.mediaProgress;
+        if (p.progress?.mediaLength !== undefined) state.mediaLength = p.progress.mediaLength;
+        state.progressUpdatedAt = event.timestamp;
+        break;
+      }
+      case 'PUSH_MEDIA_QUEUE_CHANGE': {
+        const p = event.payload as PushMediaQueueChangePayload;
+        if (p.changeType) state.queueChangeType = p.changeType;
+        if (p.playBackOrder) state.playBackOrder = p.playBackOrder;
+        if (p.loopMode) state.loopMode = p.loopMode;
+        break;
+      }
+    }
+
+    await this.store.saveNowPlaying(state);
+    await this.updateSession(state, event.timestamp, endReason);
+  }
+
+  /** A new item resets the position, which belonged to the previous one. */
+  private setMedia(state: NowPlaying, mediaReferenceId: string): void {
+    if (state.mediaReferenceId === mediaReferenceId) return;
+    state.mediaReferenceId = mediaReferenceId;
+    delete state.mediaProgress;
+    delete state.mediaLength;
+    delete state.progressUpdatedAt;
+  }
+
+  private async updateSession(state: NowPlaying, at: string, endReason?: MediaSessionEndReason): Promise<void> {
+    const atMs = Date.parse(at);
+    const latest = await this.store.getLatestSession(state.deviceSerial);
+    let session = latest && !latest.endedAt ? latest : null;
+
+    if (session && atMs - Date.parse(session.lastEventAt) > this.idleTimeoutMs) {
+      await this.store.saveSession({ ...session, endedAt: session.lastEventAt, endReason: 'TIMEOUT' });
+      session = null;
+    }
+
+    if (!session && state.playerState === 'PLAYING' && !endReason) {
+      const resumeGraceMs = this.options.resumeGraceMs ?? DEFAULT_RESUME_GRACE_MS;
+      if (latest?.endedAt && latest.endReason !== 'TIMEOUT' && atMs - Date.parse(latest.endedAt) <= resumeGraceMs) {
+        session = { ...latest, endedAt: undefined, endReason: undefined };
+      } else {
+        session = {
+          id: `ms-${state.deviceSerial}-${atMs}`,
+          deviceSerial: state.deviceSerial,
+          startedAt: at,
+          lastEventAt: at,
+          mediaReferenceIds: [],
+        };
+      }
+    }
+    if (!session) return;
+
+    session.lastEventAt = at;
+    session.deviceName = state.deviceName ?? session.deviceName;
+    const ids = session.mediaReferenceIds;
+    if (state.mediaReferenceId && ids[ids.length - 1] !== state.mediaReferenceId) {
+      ids.push(state.mediaReferenceId);
+    }
+    if (endReason) {
+      session.endedAt = at;
+      session.endReason = endReason;
+    }
+    await this.store.saveSession(session);
+  }
+}
@@ -0,0 +1,493 @@
+/**
+ * Per-device state polling.
+ *
+ * Instead of polling every device on one timer, each device gets its
+ * own interval from the policy of its category: sensors (temperature,
+ * air quality, contact, motion) often, controllable devices (lights,
+ * plugs, locks) less often, devices without readable state (scenes,
+ * cameras, doorbells) rarely.  Echo volumes come from one separate
+ * request for all Echos.
+ *
+ * Intervals adapt: a poll that sees a value change halves the device's
+ * interval, one that sees the same values stretches it by half, both
+ * within the category's bounds.  A failed poll, or one that returns no
+ * state for the device, counts as unchanged, so unreachable devices
+ * drift to the category maximum.
+ *
+ * Devices whose state arrived by push recently are skipped.  Due
+ * smart home devices are batched into phoenix/state requests, at most
+ * `maxBatchesPerTick` per tick (normally the phoenix burst allowance
+ * of the request policy), most overdue first; the rest wait for the
+ * next tick.
+ */
+
+import type { AccountDevice, DeviceStateSnapshot } from './alexa-api-types';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_TICK_MS = 30_000;
+const DEFAULT_DEVICE_REFRESH_MS = 60 * 60_000;
+const MINUTE = 60_000;
+
+export type PollCategory = 'sensor' | 'controllable' | 'static' | 'echo';
+
+export const POLL_CATEGORIES: PollCategory[] = ['sensor', 'controllable', 'static', 'echo'];
+
+export interface PollCategoryPolicy {
+  /** Interval a device starts at */
+  intervalMs: number;
+  /** Bounds of the adapted interval */
+  minIntervalMs: number;
+  maxIntervalMs: number;
+}
+
+export interface PollPolicy {
+  categories: Record<PollCategory, PollCategoryPolicy>;
+  /** Interval factor after a poll that saw a change */
+  changedFactor: number;
+  /** Interval factor after a poll that saw the same values */
+  unchangedFactor: number;
+  /** Skip devices whose push-derived state is younger than this */
+  pushFreshMs: number;
+  /** Devices per phoenix/state request */
+  batchSize: number;
+}
+
+/** A policy edit: any subset of fields, per category too */
+export interface PollPolicyUpdate extends Partial<Omit<PollPolicy, 'categories'>> {
+  categories?: Partial<Record<PollCategory, Partial<PollCategoryPolicy>>>;
+}
+
+export const DEFAULT_POLL_POLICY: PollPolicy = {
+  categories: {
+    sensor: { intervalMs: 2 * MINUTE, minIntervalMs: MINUTE, maxIntervalMs: 10 * MINUTE },
+    controllable: { intervalMs: 10 * MINUTE, minIntervalMs: 2 * MINUTE, maxIntervalMs: 30 * MINUTE },
+    static: { intervalMs: 6 * 60 * MINUTE, minIntervalMs: 60 * MINUTE, maxIntervalMs: 24 * 60 * MINUTE },
+    echo: { intervalMs: 15 * MINUTE, minIntervalMs: 5 * MINUTE, maxIntervalMs: 60 * MINUTE },
+  },
+  changedFactor: 0.5,
+  unchangedFactor: 1.5,
+  pushFreshMs: 15 * MINUTE,
+  batchSize: 50,
+};
+
+export interface PolledDeviceStatus {
+  /** Key the device's snapshots are stored under */
+  deviceId: string;
+  name: string;
+  category: PollCategory;
+  /** Current (adapted) interval */
+  intervalMs: number;
+  lastPolledAt?: string;
+  lastPushAt?: string;
+  nextPollAt: string;
+  /** Polls in a row that saw the same values */
+  unchangedPolls: number;
+}
+
+export interface PollTickResult {
+  /** Snapshots returned by the polls of this tick */
+  polledCount: number;
+  errorCount: number;
+  batches: number;
+  /** Due, but skipped for recent push state */
+  skippedCount: number;
+  /** Due, but left for the next tick by the batch limit */
+  deferredCount: number;
+}
+
+export interface PollSchedulerStatus {
+  running: boolean;
+  tickMs: number;
+  lastTickAt?: string;
+  lastDeviceRefreshAt?: string;
+  policy: PollPolicy;
+  devices: PolledDeviceStatus[];
+}
+
+export interface PollSchedulerOptions {
+  /** The account's devices (normally `AlexaApiClient.getAllDevices`) */
+  listDevices: () => Promise<AccountDevice[]>;
+  /** Poll and store smart home states by applianceId */
+  pollStates: (applianceIds: string[], names: Map<string, string>) => Promise<DeviceStateSnapshot[]>;
+  /** Poll and store Echo volumes; snapshots keyed by applianceId or serial */
+  pollEchoVolumes: (devices: AccountDevice[]) => Promise<DeviceStateSnapshot[]>;
+  /** Ticks are skipped while this resolves false */
+  hasCookie?: () => Promise<boolean>;
+  policy?: PollPolicyUpdate;
+  /** phoenix/state requests per tick (default 2) */
+  maxBatchesPerTick?: number;
+  /** Time between device list refreshes (default 1 hour) */
+  deviceRefreshMs?: number;
+  /** A tick polled something */
+  onPoll?: (result: PollTickResult) => void;
+  onError?: (error: Error) => void;
+}
+
+interface ScheduledDevice {
+  device: AccountDevice;
+  category: PollCategory;
+  intervalMs: number;
+  lastPolledAt: number | null;
+  lastPushAt: number | null;
+  /** Time of the last snapshot seen, poll or push */
+  lastSeenAt: number | null;
+  /** Values of the last snapshot seen, for change detection */
+  fingerprint: string | null;
+  unchangedPolls: number;
+}
+
+/** Alexa interfaces that report sensor readings */
+const SENSOR_INTERFACES = new Set([
+  'Alexa.TemperatureSensor',
+  'Alexa.ContactSensor',
+  'Alexa.MotionSensor',
+  'Alexa.AirQualityMonitor',
+]);
+
+/** Alexa interfaces with readable state */
+const STATEFUL_INTERFACES = new Set([
+  'Alexa.PowerController',
+  'Alexa.BrightnessController',
+  'Alexa.ColorController',
+  'Alexa.ColorTemperatureController',
+  'Alexa.PercentageController',
+  'Alexa.PowerLevelController',
+  'Alexa.RangeController',
+  'Alexa.ModeController',
+  'Alexa.ToggleController',
+  'Alexa.LockController',
+  'Alexa.ThermostatController',
+  'Alexa.Speaker',
+]);
+
+/**
+ * The polling category of a device, or null when it cannot be polled
+ * (groups, and smart home devices without an applianceId).
+ */
+export function pollCategory(device: AccountDevice): PollCategory | null {
+  if (device.source === 'echo') return 'echo';
+  if (device.source !== 'smart_home' || !device.applianceId) return null;
+
+  const airQuality = device.rangeCapabilities?.some((r) => r.friendlyName?.startsWith('Alexa.AirQuality'));
+  if (
+    airQuality ||
+    /SENSOR|AIR_QUALITY/.test(device.deviceType) ||
+    device.interfaces.some((i) => SENSOR_INTERFACES.has(i))
+  ) {
+    return 'sensor';
+  }
+  return device.interfaces.some((i) => STATEFUL_INTERFACES.has(i)) ? 'controllable' : 'static';
+}
+
+/** Merge a policy edit, rejecting values that make no sense. */
+export function mergePollPolicy(policy: PollPolicy, update: PollPolicyUpdate): PollPolicy {
+  const merged: PollPolicy = {
+    ...policy,
+    ...pickDefined(update, ['changedFactor', 'unchangedFactor', 'pushFreshMs', 'batchSize']),
+    categories: { ...policy.categories },
+  };
+
+  for (const [category, edit] of Object.entries(update.categories ?? {}) as Array<[string, Partial<PollCategoryPolicy>]>) {
+    if (!POLL_CATEGORIES.includes(category as PollCategory)) {
+      throw new Error(`Unknown poll category "${category}"`);
+    }
+    const current = policy.categories[category as PollCategory];
+    const next = { ...current, ...pickDefined(edit, ['intervalMs', 'minIntervalMs', 'maxIntervalMs']) };
+    // A new interval alone widens the bounds to include it
+    if (edit.intervalMs !== undefined && edit.minIntervalMs === undefined) {
+      next.minIntervalMs = Math.min(next.minIntervalMs, next.intervalMs);
+    }
+    if (edit.intervalMs !== undefined && edit.maxIntervalMs === undefined) {
+      next.maxIntervalMs = Math.max(next.maxIntervalMs, next.intervalMs);
+    }
+    for (const [field, value] of Object.entries(next)) {
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`${category}.${field} must be a positive number`);
+      }
+    }
+    if (next.minIntervalMs > next.intervalMs || next.intervalMs > next.maxIntervalMs) {
+      throw new Error(`${category} interval must lie between minIntervalMs and maxIntervalMs`);
+    }
+    merged.categories[category as PollCategory] = next;
+  }
+
+  if (!(merged.changedFactor > 0 && merged.changedFactor <= 1)) {
+    throw new Error('changedFactor must be in (0, 1]');
+  }
+  if (!(merged.unchangedFactor >= 1)) {
+    throw new Error('unchangedFactor must be at least 1');
+  }
+  if (!(merged.pushFreshMs >= 0)) {
+    throw new Error('pushFreshMs must not be negative');
+  }
+  if (!(Number.isInteger(merged.batchSize) && merged.batchSize > 0)) {
+    throw new Error('batchSize must be a positive integer');
+  }
+  return merged;
+}
+
+export class PollScheduler {
+  private options: PollSchedulerOptions;
+  private policy: PollPolicy;
+  private devices = new Map<string, ScheduledDevice>();
+  private task = new PeriodicTask(() => this.tick());
+  private tickMs = DEFAULT_TICK_MS;
+  private ticking: Promise<PollTickResult> | null = null;
+  private lastTickAt: number | null = null;
+  private lastDeviceRefreshAt: number | null = null;
+
+  constructor(options: PollSchedulerOptions) {
+    this.options = options;
+    this.policy = mergePollPolicy(DEFAULT_POLL_POLICY, options.policy ?? {});
+  }
+
+  /** Tick now, then every `tickMs`.  Resolves with the first tick. */
+  async start(tickMs = DEFAULT_TICK_MS): Promise<PollTickResult> {
+    if (this.task.start(tickMs)) this.tickMs = tickMs;
+    return this.tick();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  getPolicy(): PollPolicy {
+    return structuredClone(this.policy);
+  }
+
+  /**
+   * Edit the policy.  Devices whose category interval changed restart
+   * from the new interval; the others keep their adapted one.
+   */
+  setPolicy(update: PollPolicyUpdate): PollPolicy {
+    const previous = this.policy;
+    this.policy = mergePollPolicy(previous, update);
+    for (const entry of this.devices.values()) {
+      const before = previous.categories[entry.category];
+      const after = this.policy.categories[entry.category];
+      entry.intervalMs = after.intervalMs !== before.intervalMs
+        ? after.intervalMs
+        : clamp(entry.intervalMs, after.minIntervalMs, after.maxIntervalMs);
+    }
+    return this.getPolicy();
+  }
+
+  /** Schedule these devices, keeping what is known about ones already scheduled. */
+  setDevices(devices: AccountDevice[], now = Date.now()): void {
+    const next = new Map<string, ScheduledDevice>();
+    for (const device of devices) {
+      const category = pollCategory(device);
+      if (!category) continue;
+      const key = stateKey(device);
+      const known = this.devices.get(key);
+      next.set(key, known && known.category === category
+        ? { ...known, device }
+        : {
+          device,
+          category,
+          intervalMs: this.policy.categories[category].intervalMs,
+          lastPolledAt: known?.lastPolledAt ?? null,
+          lastPushAt: known?.lastPushAt ?? null,
+          lastSeenAt: known?.lastSeenAt ?? null,
+          fingerprint: known?.fingerprint ?? null,
+          unchangedPolls: 0,
+        });
+    }
+    this.devices = next;
+    this.lastDeviceRefreshAt = now;
+  }
+
+  /**
+   * Note stored snapshots, from any poll or from push.  Polls adapt the
+   * device's interval; push state defers its next poll.  Snapshots not
+   * newer than the last one seen for the device are ignored, so each is
+   * counted once however many paths report it.
+   */
+  observe(snapshots: DeviceStateSnapshot[], source: 'poll' | 'push'): void {
+    for (const snapshot of snapshots) {
+      const entry = this.devices.get(snapshot.deviceId);
+      const at = Date.parse(snapshot.polledAt);
+      if (!entry || !Number.isFinite(at) || (entry.lastSeenAt !== null && at <= entry.lastSeenAt)) continue;
+      entry.lastSeenAt = at;
+
+      const fingerprint = snapshot.error ? null : fingerprintOf(snapshot);
+      if (source === 'push') {
+        entry.lastPushAt = at;
+        if (fingerprint) entry.fingerprint = fingerprint;
+        continue;
+      }
+
+      entry.lastPolledAt = at;
+      const bounds = this.policy.categories[entry.category];
+      const changed = fingerprint !== null && entry.fingerprint !== null && fingerprint !== entry.fingerprint;
+      if (changed) {
+        entry.intervalMs = Math.max(bounds.minIntervalMs, Math.round(entry.intervalMs * this.policy.changedFactor));
+        entry.unchangedPolls = 0;
+      } else if (entry.fingerprint !== null || snapshot.error) {
+        entry.intervalMs = Math.min(bounds.maxIntervalMs, Math.round(entry.intervalMs * this.policy.unchangedFactor));
+        entry.unchangedPolls++;
+      }
+      if (fingerprint) entry.fingerprint = fingerprint;
+    }
+  }
+
+  /** Poll the devices that are due.  Concurrent calls share one tick. */
+  tick(now = Date.now()): Promise<PollTickResult> {
+    if (!this.ticking) {
+      this.ticking = this.runTick(now).finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  getStatus(): PollSchedulerStatus {
+    const devices = [...this.devices.entries()]
+      .map(([deviceId, entry]): PolledDeviceStatus => ({
+        deviceId,
+        name: entry.device.name,
+        category: entry.category,
+        intervalMs: entry.intervalMs,
+        ...(entry.lastPolledAt !== null ? { lastPolledAt: new Date(entry.lastPolledAt).toISOString() } : {}),
+        ...(entry.lastPushAt !== null ? { lastPushAt: new Date(entry.lastPushAt).toISOString() } : {}),
+        nextPollAt: new Date(this.dueAt(entry)).toISOString(),
+        unchangedPolls: entry.unchangedPolls,
+      }))
+      .sort((a, b) => a.nextPollAt.localeCompare(b.nextPollAt));
+    return {
+      running: this.isRunning(),
+      tickMs: this.tickMs,
+      ...(this.lastTickAt !== null ? { lastTickAt: new Date(this.lastTickAt).toISOString() } : {}),
+      ...(this.lastDeviceRefreshAt !== null ? { lastDeviceRefreshAt: new Date(this.lastDeviceRefreshAt).toISOString() } : {}),
+      policy: this.getPolicy(),
+      devices,
+    };
+  }
+
+  private async runTick(now: number): Promise<PollTickResult> {
+    const result: PollTickResult = { polledCount: 0, errorCount: 0, batches: 0, skippedCount: 0, deferredCount: 0 };
+    if (this.options.hasCookie && !(await this.options.hasCookie())) return result;
+    this.lastTickAt = now;
+
+    const refreshMs = this.options.deviceRefreshMs ?? DEFAULT_DEVICE_REFRESH_MS;
+    if (this.lastDeviceRefreshAt === null || now - this.lastDeviceRefreshAt >= refreshMs) {
+      try {
+        this.setDevices(await this.options.listDevices(), now);
+      } catch (err) {
+        this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+        if (this.devices.size === 0) return result;
+      }
+    }
+
+    const due: Array<[string, ScheduledDevice]> = [];
+    for (const [key, entry] of this.devices) {
+      if (now < this.pollDueAt(entry)) continue;
+      if (now < this.dueAt(entry)) {
+        result.skippedCount++;
+      } else {
+        due.push([key, entry]);
+      }
+    }
+    due.sort(([, a], [, b]) => this.dueAt(a) - this.dueAt(b));
+
+    const smartHome = due.filter(([, entry]) => entry.category !== 'echo');
+    const echos = due.filter(([, entry]) => entry.category === 'echo');
+    const limit = (this.options.maxBatchesPerTick ?? 2) * this.policy.batchSize;
+    result.deferredCount = Math.max(0, smartHome.length - limit);
+
+    const snapshots: DeviceStateSnapshot[] = [];
+    const polled = smartHome.slice(0, limit);
+    for (let i = 0; i < polled.length; i += this.policy.batchSize) {
+      const batch = polled.slice(i, i + this.policy.batchSize);
+      const names = new Map(batch.map(([key, entry]) => [key, entry.device.name]));
+      result.batches++;
+      try {
+        const states = await this.options.pollStates([...names.keys()], names);
+        snapshots.push(...states);
+        // Devices phoenix/state leaves out (TargetApplianceNotFoundException)
+        this.markOmitted(batch, states, now);
+      } catch (err) {
+        this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+        // Retried at a longer interval, like an unreachable device
+        const polledAt = new Date(now).toISOString();
+        snapshots.push(...batch.map(([key, entry]) => ({
+          deviceId: key,
+          deviceName: entry.device.name,
+          capabilities: [],
+          polledAt,
+          error: 'Batch request failed',
+        })));
+      }
+    }
+
+    if (echos.length > 0) {
+      try {
+        const volumes = await this.options.pollEchoVolumes(echos.map(([, entry]) => entry.device));
+        snapshots.push(...volumes);
+        this.markOmitted(echos, volumes, now);
+      } catch (err) {
+        this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+
+    this.observe(snapshots, 'poll');
+    result.polledCount = snapshots.length;
+    result.errorCount = snapshots.filter((s) => s.error).length;
+    if (result.polledCount > 0) this.options.onPoll?.(result);
+    return result;
+  }
+
+  /**
+   * Devices a poll asked for but got no snapshot of still count as
+   * polled, unchanged, so they are not asked for again every tick.
+   */
+  private markOmitted(requested: Array<[string, ScheduledDevice]>, snapshots: DeviceStateSnapshot[], now: number): void {
+    const returned = new Set(snapshots.map((s) => s.deviceId));
+    for (const [key, entry] of requested) {
+      if (returned.has(key)) continue;
+      const bounds = this.policy.categories[entry.category];
+      entry.lastPolledAt = now;
+      entry.intervalMs = Math.min(bounds.maxIntervalMs, Math.round(entry.intervalMs * this.policy.unchangedFactor));
+      entry.unchangedPolls++;
+    }
+  }
+
+  /** When the device's interval has passed since its last poll */
+  private pollDueAt(entry: ScheduledDevice): number {
+    return entry.lastPolledAt === null ? 0 : entry.lastPolledAt + entry.intervalMs;
+  }
+
+  /** When the device is next polled: interval passed and push state stale */
+  private dueAt(entry: ScheduledDevice): number {
+    const pushStaleAt = entry.lastPushAt === null ? 0 : entry.lastPushAt + this.policy.pushFreshMs;
+    return Math.max(this.pollDueAt(entry), pushStaleAt);
+  }
+}
+
+/** Key a device's snapshots are stored under (see pollAllStates) */
+function stateKey(device: AccountDevice): string {
+  return device.source === 'echo' ? device.applianceId || device.id : device.applianceId!;
+}
+
+/** The snapshot's values, without sample times */
+function fingerprintOf(snapshot: DeviceStateSnapshot): string {
+  return JSON.stringify(snapshot.capabilities
+    .map((cap) => [`${cap.namespace}.${cap.name}:${cap.instance ?? ''}`, cap.value] as const)
+    .sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function pickDefined<T extends object, K extends keyof T>(source: T, keys: K[]): Partial<Pick<T, K>> {
+  const picked: Partial<Pick<T, K>> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) picked[key] = source[key];
+  }
+  return picked;
+}
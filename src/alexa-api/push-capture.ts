@@ -0,0 +1,66 @@
+/**
+ * Push channel captures — raw inbound WebSocket frames with their
+ * arrival times, for replaying real gateway traffic through
+ * LocalPushGateway in protocol regression tests.
+ *
+ * A capture file is JSON Lines, one frame per line:
+ *
+ *   {"at":1767261600123,"opcode":2,"data":"<base64 payload>"}
+ */
+
+import * as fs from 'fs';
+
+export interface CapturedFrame {
+  /** Arrival time (ms since epoch) */
+  at: number;
+  /** WebSocket opcode (1 text, 2 binary, 8 close, ...) */
+  opcode: number;
+  /** Frame payload, base64 */
+  data: string;
+}
+
+/** Receives every inbound frame of an AlexaPushClient connection. */
+export interface PushFrameRecorder {
+  record(opcode: number, payload: Buffer): void;
+}
+
+/**
+ * Appends frames to a capture file.  Writes are synchronous so a
+ * capture is complete up to the last frame even if the process dies.
+ */
+export class PushCaptureRecorder implements PushFrameRecorder {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  record(opcode: number, payload: Buffer): void {
+    const frame: CapturedFrame = { at: Date.now(), opcode, data: payload.toString('base64') };
+    fs.appendFileSync(this.path, JSON.stringify(frame) + '\n');
+  }
+}
+
+/** Parse capture file contents.  Blank lines are skipped. */
+export function parsePushCapture(text: string): CapturedFrame[] {
+  return text
+    .split('\n')
+    .map((line, i) => ({ line: line.trim(), lineNo: i + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNo }) => {
+      let frame: Partial<CapturedFrame>;
+      try {
+        frame = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid push capture: line ${lineNo} is not JSON`);
+      }
+      if (typeof frame.at !== 'number' || typeof frame.opcode !== 'number' || typeof frame.data !== 'string') {
+        throw new Error(`Invalid push capture: line ${lineNo} needs numeric "at" and "opcode" and a base64 "data"`);
+      }
+      return { at: frame.at, opcode: frame.opcode, data: frame.data };
+    });
+}
+
+export function readPushCapture(path: string): CapturedFrame[] {
+  return parsePushCapture(fs.readFileSync(path, 'utf8'));
+}
@@ -12,6 +12,17 @@ import * as https from 'https';
 import * as http from 'http';
 import * as crypto from 'crypto';
 import { ALEXA_PUSH_WS_HOSTS, FABE } from './push-event-types';
+import {
+  generateUUID,
+  extractUbid,
+  encodeWebSocketFrame,
+  createUpgradeKey,
+  WebSocketFrameParser,
+  FABEEncoder,
+  FABEParser,
+} from './push-protocol';
+import type { ParsedMessage } from './push-protocol';
+import type { PushFrameRecorder } from './push-capture';
 import type { PushEvent, PushEventCommand } from './push-event-types';
 import type { AlexaApiRegion } from './alexa-api-types';
 
@@ -30,544 +41,128 @@ export interface PushClientOptions {
   onStateChange?: (state: PushClientState) => void;
   /** Optional callback for errors */
   onError?: (error: Error) => void;
+  /**
+   * Gateway to connect to instead of Amazon's (e.g. a LocalPushGateway
+   * at `ws://127.0.0.1:4300`)
+   */
+  gatewayUrl?: string;
+  /** Receives every inbound frame, e.g. a PushCaptureRecorder */
+  recorder?: PushFrameRecorder;
+  /** Heartbeat and handshake timing overrides */
+  timing?: Partial<PushClientTiming>;
+  /** Reconnect backoff and circuit-breaker overrides */
+  reconnect?: Partial<PushReconnectPolicy>;
 }
 
-export type PushClientState =
-  | 'disconnected'
-  | 'connecting'
-  | 'handshaking'
-  | 'connected'
-  | 'reconnecting';
-
-interface ParsedMessage {
-  service: string;       // 'FABE' | 'TUNE'
-  messageType?: string;  // 'MSG' | 'ACK' | 'GWM' | ...
-  channel?: number;
-  messageId?: number;
-  content: Record<string, any>;
-}
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function encodeNumber(val: number, hexLen = 8): string {
-  let s = val.toString(16);
-  while (s.length < hexLen) s = '0' + s;
-  return '0x' + s;
-}
-
-function generateUUID(): string {
-  const template = 'rrrrrrrr-rrrr-4rrr-srrr-rrrrrrrrrrrr';
-  const chars: string[] = [];
-  for (let i = 0; i < 36; i++) {
-    const c = template.charAt(i);
-    if (c === 'r' || c === 's') {
-      let d = Math.floor(16 * Math.random());
-      if (c === 's') d = (d & 3) | 8;
-      chars.push(d.toString(16));
-    } else {
-      chars.push(c);
-    }
-  }
-  return chars.join('');
-}
-
-/**
- * Convert a potentially negative JS number to unsigned 32-bit.
- * For positive values > 2^32, preserves the full value (needed for carry extraction).
- */
-function toUnsigned(value: number): number {
-  if (value < 0) return 0xFFFFFFFF + value + 1;
-  return value;
+export interface PushClientTiming {
+  /** Interval between PIN heartbeats (default 3 minutes) */
+  pingIntervalMs: number;
+  /** How long to wait for a PON before reconnecting (default 30s) */
+  pongTimeoutMs: number;
+  /** How long the handshake may take before reconnecting (default 30s) */
+  initTimeoutMs: number;
 }
 
 /**
- * Unsigned right-shift via repeated division (avoids JS `>>>` 32-bit truncation).
- * Preserves values > 2^32 so carry bits are not lost.
+ * Reconnect backoff: attempt n waits initialDelayMs · multiplier^(n-1),
+ * capped at maxDelayMs, minus a random share of up to `jitter` so a
+ * fleet of clients does not reconnect in lockstep.
  */
-function shiftRight(value: number, bits: number): number {
-  let v = toUnsigned(value);
-  while (bits > 0 && v !== 0) {
-    v = Math.floor(v / 2);
-    bits--;
-  }
-  return v;
-}
-
-/**
- * Compute the FABE protocol checksum.
- *
- * Accumulates bytes in big-endian 32-bit words with carry folding.
- * The exclusion window [excludeStart, excludeEnd) is skipped — this
- * is used to zero-out the checksum placeholder field while hashing.
- *
- * Port of alexa-remote2's `computeChecksum()`.
- */
-function computeChecksum(buffer: Buffer, excludeStart: number, excludeEnd: number): number {
-  const bytes = new Uint8Array(buffer);
-  let sum = 0;
-  let carry = 0;
-
-  for (let i = 0; i < bytes.length; i++) {
-    if (i >= excludeStart && i < excludeEnd) {
-      i = excludeEnd - 1;
-      continue;
-    }
-
-    const shiftAmount = ((i & 3) ^ 3) << 3;
-    sum += toUnsigned(bytes[i] << shiftAmount);
-    carry += shiftRight(sum, 32);
-    sum = toUnsigned(sum & 0xFFFFFFFF);
-  }
-
-  while (carry) {
-    sum += carry;
-    carry = shiftRight(sum, 32);
-    sum &= 0xFFFFFFFF;
-  }
-
-  return toUnsigned(sum);
+export interface PushReconnectPolicy {
+  /** Delay before the first retry (default 10s) */
+  initialDelayMs: number;
+  /** Upper bound for any delay (default 60s) */
+  maxDelayMs: number;
+  /** Growth per consecutive failure (default 2) */
+  multiplier: number;
+  /** Random share taken off each delay, 0-1 (default 0.2) */
+  jitter: number;
+  /** Consecutive failures before giving up (default 100) */
+  maxRetries: number;
+  /**
+   * Consecutive auth-type failures (HTTP 401/403 on upgrade, close code
+   * 4001) before giving up and flagging the cookie as likely expired
+   * (default 3)
+   */
+  authFailureThreshold: number;
 }
 
-function readHex(data: Buffer, index: number, length: number): number {
-  let str = data.toString('ascii', index, index + length);
-  if (str.startsWith('0x')) str = str.substring(2);
-  return parseInt(str, 16);
+export interface PushDisconnectInfo {
+  code: number;
+  reason: string;
+  at: string; // ISO-8601
 }
 
-function readString(data: Buffer, index: number, length: number): string {
-  return data.toString('ascii', index, index + length);
+export interface PushClientHealth {
+  state: PushClientState;
+  connected: boolean;
+  connectionId: string | null;
+  /** When the current connection completed its handshake */
+  connectedSince: string | null;
+  /** Age of the current connection (0 when not connected) */
+  uptimeMs: number;
+  /** Reconnect attempts over the client's lifetime */
+  reconnectCount: number;
+  /** Failed attempts since the last successful connection */
+  consecutiveFailures: number;
+  /** When the pending reconnect attempt fires */
+  nextReconnectAt: string | null;
+  lastDisconnect: PushDisconnectInfo | null;
+  eventCount: number;
+  lastEventTime: string | null;
+  /** Last PON from the gateway */
+  lastHeartbeatTime: string | null;
+  /** Events received over the last minute */
+  eventsPerMinute: number;
+  /** Consecutive auth-type failures */
+  authFailures: number;
+  /** The circuit breaker gave up: re-import the cookie, then connect again */
+  cookieLikelyExpired: boolean;
 }
 
-function extractUbid(cookie: string): string | null {
-  const match = cookie.match(/ubid-[a-z]+=([^;]+)/);
-  return match ? match[1] : null;
-}
+export type PushClientState =
+  | 'disconnected'
+  | 'connecting'
+  | 'handshaking'
+  | 'connected'
+  | 'reconnecting';
 
 // ---------------------------------------------------------------------------
-// WebSocket Frame Helpers (RFC 6455)
+// AlexaPushClient
 // ---------------------------------------------------------------------------
 
-function encodeWebSocketFrame(payload: Buffer, opcode = 0x02): Buffer {
-  const len = payload.length;
-  let headerLen: number;
-
-  if (len < 126) {
-    headerLen = 6; // 2 base + 4 mask
-  } else if (len < 65536) {
-    headerLen = 8; // 2 base + 2 ext + 4 mask
-  } else {
-    headerLen = 14; // 2 base + 8 ext + 4 mask
-  }
-
-  const frame = Buffer.alloc(headerLen + len);
-  // FIN + opcode
-  frame[0] = 0x80 | opcode;
-
-  let offset: number;
-  if (len < 126) {
-    frame[1] = 0x80 | len; // mask bit set
-    offset = 2;
-  } else if (len < 65536) {
-    frame[1] = 0x80 | 126;
-    frame.writeUInt16BE(len, 2);
-    offset = 4;
-  } else {
-    frame[1] = 0x80 | 127;
-    // write 8-byte length (high 4 bytes = 0 for our sizes)
-    frame.writeUInt32BE(0, 2);
-    frame.writeUInt32BE(len, 6);
-    offset = 10;
-  }
-
-  // 4-byte random mask key (client MUST mask)
-  const mask = crypto.randomBytes(4);
-  mask.copy(frame, offset);
-  offset += 4;
-
-  // Masked payload
-  for (let i = 0; i < len; i++) {
-    frame[offset + i] = payload[i] ^ mask[i & 3];
-  }
-
-  return frame;
+const DEFAULT_TIMING: PushClientTiming = {
+  pingIntervalMs: 180_000,  // 3 minutes
+  pongTimeoutMs: 30_000,
+  initTimeoutMs: 30_000,
+};
+const DEFAULT_RECONNECT_POLICY: PushReconnectPolicy = {
+  initialDelayMs: 10_000,
+  maxDelayMs: 60_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxRetries: 100,
+  authFailureThreshold: 3,
+};
+const EVENT_RATE_WINDOW_MS = 60_000;
+
+/** Delay before reconnect attempt `attempt` (1-based) under `policy`. */
+export function reconnectDelay(policy: PushReconnectPolicy, attempt: number, random = Math.random): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1));
+  return Math.round(base * (1 - policy.jitter * random()));
 }
 
-function createUpgradeKey(): { key: string; expected: string } {
-  const keyBytes = crypto.randomBytes(16);
-  const key = keyBytes.toString('base64');
-  const accept = crypto
-    .createHash('sha1')
-    .update(key + '258EAFA5-E914-47DA-95CA-5AB5DC175B18')
-    .digest('base64');
-  return { key, expected: accept };
-}
-
-// ---------------------------------------------------------------------------
-// WebSocket Frame Parser (stateful, reassembles fragmented frames)
-// ---------------------------------------------------------------------------
-
-class WebSocketFrameParser {
-  private buffer = Buffer.alloc(0);
-  private onFrame: (opcode: number, payload: Buffer) => void;
-
-  constructor(onFrame: (opcode: number, payload: Buffer) => void) {
-    this.onFrame = onFrame;
-  }
-
-  feed(data: Buffer): void {
-    this.buffer = Buffer.concat([this.buffer, data]);
-    this.drain();
-  }
-
-  private drain(): void {
-    while (this.buffer.length >= 2) {
-      const b0 = this.buffer[0];
-      const b1 = this.buffer[1];
-      // const fin = (b0 & 0x80) !== 0;
-      const opcode = b0 & 0x0F;
-      const masked = (b1 & 0x80) !== 0;
-      let payloadLen = b1 & 0x7F;
-      let offset = 2;
-
-      if (payloadLen === 126) {
-        if (this.buffer.length < 4) return; // need more data
-        payloadLen = this.buffer.readUInt16BE(2);
-        offset = 4;
-      } else if (payloadLen === 127) {
-        if (this.buffer.length < 10) return;
-        // High 32 bits should be 0 for reasonable sizes
-        payloadLen = this.buffer.readUInt32BE(6);
-        offset = 10;
-      }
-
-      if (masked) offset += 4; // server shouldn't mask, but handle it
-
-      const totalFrameLen = offset + payloadLen;
-      if (this.buffer.length < totalFrameLen) return; // need more data
-
-      let payload = this.buffer.subarray(offset, offset + payloadLen);
-      if (masked) {
-        const maskKey = this.buffer.subarray(offset - 4, offset);
-        payload = Buffer.from(payload);
-        for (let i = 0; i < payload.length; i++) {
-          payload[i] ^= maskKey[i & 3];
-        }
-      }
-
-      this.buffer = this.buffer.subarray(totalFrameLen);
-      this.onFrame(opcode, Buffer.from(payload));
-    }
-  }
-
-  clear(): void {
-    this.buffer = Buffer.alloc(0);
+/** An upgrade answered with a plain HTTP response. */
+class PushUpgradeError extends Error {
+  constructor(message: string, readonly statusCode: number | undefined) {
+    super(message);
   }
 }
 
-// ---------------------------------------------------------------------------
-// FABE Protocol Encoder
-// ---------------------------------------------------------------------------
-
-class FABEEncoder {
-  private messageId: number;
-
-  constructor() {
-    this.messageId = Math.floor(1e9 * Math.random());
-  }
-
-  getMessageId(): number {
-    return this.messageId;
-  }
-
-  /** Initial TUNE message for A:H protocol */
-  encodeInitTune(): Buffer {
-    return Buffer.from('0x99d4f71a 0x0000001d A:HTUNE');
-  }
-
-  /** Responding TUNE for A:H protocol */
-  encodeTuneResponseAH(): Buffer {
-    return Buffer.from(
-      '0xa6f6a951 0x0000009c {"protocolName":"A:H","parameters":{"AlphaProtocolHandler.receiveWindowSize":"16","AlphaProtocolHandler.maxFragmentSize":"16000"}}TUNE',
-    );
-  }
-
-  /** Responding TUNE for A:F protocol */
-  encodeTuneResponseAF(): Buffer {
-    return Buffer.from(
-      '0xfe88bc52 0x0000009c {"protocolName":"A:F","parameters":{"AlphaProtocolHandler.receiveWindowSize":"16","AlphaProtocolHandler.maxFragmentSize":"16000"}}TUNE',
-    );
-  }
-
-  /** INI handshake on channel 0x361 (A:H only) */
-  encodeHandshake(): Buffer {
-    this.messageId++;
-
-    let msg = 'MSG 0x00000361 ';
-    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
-    const checksumStart = msg.length; // 39
-    msg += '0x00000000 ';
-    const checksumEnd = msg.length;   // 50
-    msg += '0x0000009b ';
-    msg += 'INI 0x00000003 1.0 0x00000024 ';
-    msg += generateUUID();
-    msg += ' ';
-    msg += encodeNumber(Date.now(), 16);
-    msg += ' END FABE';
-
-    const buffer = Buffer.from(msg, 'ascii');
-    const checksum = computeChecksum(buffer, checksumStart, checksumEnd);
-    Buffer.from(encodeNumber(checksum)).copy(buffer, 39);
-    return buffer;
-  }
-
-  /** REGISTER_CONNECTION on channel 0x362 (A:H format) */
-  encodeRegisterAH(): Buffer {
-    this.messageId++;
-
-    let msg = 'MSG 0x00000362 ';
-    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
-    const checksumStart = msg.length;
-    msg += '0x00000000 ';
-    const checksumEnd = msg.length;
-    msg += '0x00000109 ';
-    msg += 'GWM MSG 0x0000b479 0x0000003b ';
-    msg += 'urn:tcomm-endpoint:device:deviceType:0:deviceSerialNumber:0 ';
-    msg += '0x00000041 ';
-    msg += 'urn:tcomm-endpoint:service:serviceName:DeeWebsiteMessagingService ';
-    msg += '{"command":"REGISTER_CONNECTION"}FABE';
-
-    const buffer = Buffer.from(msg, 'ascii');
-    const checksum = computeChecksum(buffer, checksumStart, checksumEnd);
-    Buffer.from(encodeNumber(checksum)).copy(buffer, 39);
-    return buffer;
-  }
-
-  /** PIN heartbeat on channel 0x65 (A:H format) */
-  encodePingAH(): Buffer {
-    this.messageId++;
-
-    let msg = 'MSG 0x00000065 ';
-    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
-    const checksumStart = msg.length;
-    msg += '0x00000000 ';
-    const checksumEnd = msg.length;
-    msg += '0x00000062 ';
-
-    const headerBuf = Buffer.from(msg, 'ascii');
-
-    // Build PIN payload: "PIN" + 4-byte flag + 8-byte timestamp + 4-byte len + UTF-16BE "Regular"
-    const payload = 'Regular';
-    const payloadSize = 3 + 4 + 8 + 4 + (2 * payload.length); // 33 bytes
-    const pinBuf = Buffer.alloc(payloadSize);
-    let offset = 0;
-
-    pinBuf.write('PIN', offset, 'ascii');
-    offset += 3;
-
-    pinBuf.writeUInt32BE(0, offset);
-    offset += 4;
-
-    // Write 8-byte timestamp (ms since epoch, big-endian)
-    const now = Date.now();
-    pinBuf.writeUInt32BE(Math.floor(now / 0x100000000), offset);
-    pinBuf.writeUInt32BE(now >>> 0, offset + 4);
-    offset += 8;
-
-    pinBuf.writeUInt32BE(payload.length, offset);
-    offset += 4;
-
-    // UTF-16BE "Regular"
-    for (let i = 0; i < payload.length; i++) {
-      pinBuf[offset + i * 2] = 0;
-      pinBuf[offset + i * 2 + 1] = payload.charCodeAt(i);
-    }
-
-    const fabe = Buffer.from('FABE', 'ascii');
-
-    // Total frame: 0x62 = 98 bytes. headerBuf.length should cover "MSG ... 0x00000062 "
-    const frame = Buffer.alloc(headerBuf.length + payloadSize + fabe.length);
-    headerBuf.copy(frame, 0);
-    pinBuf.copy(frame, headerBuf.length);
-    fabe.copy(frame, headerBuf.length + payloadSize);
-
-    const checksum = computeChecksum(frame, checksumStart, checksumEnd);
-    Buffer.from(encodeNumber(checksum)).copy(frame, 39);
-    return frame;
-  }
-}
-
-// ---------------------------------------------------------------------------
-// FABE Protocol Parser
-// ---------------------------------------------------------------------------
-
-class FABEParser {
-  /**
-   * Parse a raw FABE message buffer (A:H text-based format).
-   */
-  parse(data: Buffer): ParsedMessage {
-    const service = data.toString('ascii', data.length - 4, data.length);
-    const message: ParsedMessage = { service, content: {} };
-
-    if (service === 'TUNE') {
-      return this.parseTune(data, message);
-    }
-    if (service === 'FABE') {
-      return this.parseFabe(data, message);
-    }
-
-    return message;
-  }
-
-  private parseTune(data: Buffer, message: ParsedMessage): ParsedMessage {
-    try {
-      let idx = 0;
-      // Skip checksum: "0xNNNNNNNN "
-      idx += 11;
-      // Skip content length: "0xNNNNNNNN "
-      idx += 11;
-      // Remaining is JSON content until "TUNE"
-      const jsonStr = data.toString('ascii', idx, data.length - 4);
-      if (jsonStr.startsWith('{')) {
-        try { message.content = JSON.parse(jsonStr); } catch {}
-      }
-    } catch {}
-    return message;
-  }
-
-  private parseFabe(data: Buffer, message: ParsedMessage): ParsedMessage {
-    try {
-      let idx = 0;
-      message.messageType = readString(data, idx, 3);
-      idx += 4; // "MSG "
-
-      message.channel = readHex(data, idx, 10);
-      idx += 11;
-
-      message.messageId = readHex(data, idx, 10);
-      idx += 11;
-
-      // Skip flag + space
-      idx += 2; // "f "
-
-      // Skip seq
-      idx += 11;
-      // Skip checksum
-      idx += 11;
-      // Skip content length
-      idx += 11;
-
-      // Now at content start
-      const contentType = readString(data, idx, 3);
-      message.content.messageType = contentType;
-      idx += 4; // type + space
-
-      if (message.channel === FABE.GW_HANDSHAKE_CHANNEL) {
-        this.parseHandshakeContent(data, idx, message);
-      } else if (message.channel === FABE.GW_CHANNEL) {
-        this.parseGWContent(data, idx, message);
-      } else if (message.channel === FABE.CHANNEL_FOR_HEARTBEAT) {
-        // PON response — store raw payload
-        message.content.payloadData = data.subarray(idx, data.length - 4);
-      }
-    } catch {}
-
-    return message;
-  }
-
-  private parseHandshakeContent(data: Buffer, idx: number, message: ParsedMessage): void {
-    if (message.content.messageType === 'ACK') {
-      try {
-        let length = readHex(data, idx, 10);
-        idx += 11;
-        message.content.protocolVersion = readString(data, idx, length);
-        idx += length + 1;
-
-        length = readHex(data, idx, 10);
-        idx += 11;
-        message.content.connectionUUID = readString(data, idx, length);
-        idx += length + 1;
-
-        message.content.established = readHex(data, idx, 10);
-        idx += 11;
-        message.content.timestampINI = readHex(data, idx, 18);
-        idx += 19;
-        message.content.timestampACK = readHex(data, idx, 18);
-      } catch {}
-    }
-  }
-
-  private parseGWContent(data: Buffer, idx: number, message: ParsedMessage): void {
-    if (message.content.messageType === 'GWM') {
-      try {
-        // Sub-message type (MSG)
-        message.content.subMessageType = readString(data, idx, 3);
-        idx += 4;
-
-        // Sub-channel
-        message.content.channel = readHex(data, idx, 10);
-        idx += 11;
-
-        if (message.content.channel === FABE.DEE_WEBSITE_MESSAGING) {
-          // Destination URN
-          let length = readHex(data, idx, 10);
-          idx += 11;
-          message.content.destinationIdentityUrn = readString(data, idx, length);
-          idx += length + 1;
-
-          // Source URN + payload
-          length = readHex(data, idx, 10);
-          idx += 11;
-          const idData = readString(data, idx, length);
-          idx += length + 1;
-
-          // idData = "urn:...  {json}" separated by space
-          const spaceIdx = idData.indexOf(' ');
-          if (spaceIdx !== -1) {
-            message.content.deviceIdentityUrn = idData.substring(0, spaceIdx);
-            message.content.payload = idData.substring(spaceIdx + 1);
-          } else {
-            message.content.deviceIdentityUrn = idData;
-          }
-
-          // Fallback: read remaining data before FABE
-          if (!message.content.payload) {
-            message.content.payload = readString(data, idx, data.length - 4 - idx);
-          }
-
-          // Double-nested JSON parsing
-          if (typeof message.content.payload === 'string' &&
-              message.content.payload.startsWith('{')) {
-            try {
-              message.content.payload = JSON.parse(message.content.payload);
-              if (message.content.payload?.payload &&
-                  typeof message.content.payload.payload === 'string') {
-                try {
-                  message.content.payload.payload = JSON.parse(
-                    message.content.payload.payload,
-                  );
-                } catch {}
-              }
-            } catch {}
-          }
-        }
-      } catch {}
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// AlexaPushClient
-// ---------------------------------------------------------------------------
-
-const PING_INTERVAL_MS = 180_000;  // 3 minutes
-const PONG_TIMEOUT_MS = 30_000;
-const INIT_TIMEOUT_MS = 30_000;
-const MAX_RETRIES = 100;
-
 export class AlexaPushClient {
   private opts: PushClientOptions;
+  private timing: PushClientTiming;
+  private policy: PushReconnectPolicy;
   private socket: import('net').Socket | null = null;
   private frameParser: WebSocketFrameParser | null = null;
   private fabeEncoder = new FABEEncoder();
@@ -584,11 +179,22 @@ export class AlexaPushClient {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   private lastEventTime: number | null = null;
+  private lastHeartbeatTime: number | null = null;
   private eventCount = 0;
+  private recentEvents: number[] = [];
   private connectionId: string | null = null;
 
+  private connectedSince: number | null = null;
+  private reconnectCount = 0;
+  private nextReconnectAt: number | null = null;
+  private lastDisconnect: PushDisconnectInfo | null = null;
+  private authFailures = 0;
+  private cookieLikelyExpired = false;
+
   constructor(opts: PushClientOptions) {
     this.opts = opts;
+    this.timing = { ...DEFAULT_TIMING, ...opts.timing };
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...opts.reconnect };
   }
 
   // -----------------------------------------------------------------------
@@ -599,6 +205,15 @@ export class AlexaPushClient {
     if (this.state === 'connected' || this.state === 'connecting' || this.state === 'handshaking') {
       return;
     }
+    if (this.state === 'disconnected') {
+      // A fresh start (e.g. after re-importing the cookie) resets the breaker
+      this.authFailures = 0;
+      this.cookieLikelyExpired = false;
+    }
+    await this.attempt();
+  }
+
+  private async attempt(): Promise<void> {
     this.setState('connecting');
     this.connectionId = generateUUID();
     this.msgCounter = 0;
@@ -608,7 +223,8 @@ export class AlexaPushClient {
       await this.openWebSocket();
     } catch (err) {
       this.emitError(err instanceof Error ? err : new Error(String(err)));
-      this.scheduleReconnect();
+      const status = err instanceof PushUpgradeError ? err.statusCode : undefined;
+      this.scheduleReconnect(status === 401 || status === 403);
     }
   }
 
@@ -635,9 +251,19 @@ export class AlexaPushClient {
 
     this.frameParser?.clear();
     this.frameParser = null;
+    this.connectedSince = null;
+    this.nextReconnectAt = null;
     this.setState('disconnected');
   }
 
+  /**
+   * Use a new cookie (e.g. after a rotation) from the next connection
+   * on.  An open connection is kept: its session is already established.
+   */
+  setCookie(cookie: string): void {
+    this.opts = { ...this.opts, cookie };
+  }
+
   isConnected(): boolean {
     return this.state === 'connected';
   }
@@ -658,13 +284,61 @@ export class AlexaPushClient {
     return this.eventCount;
   }
 
+  /**
+   * Latest sign of life on the current connection: an event, a PON, or
+   * the handshake completing.  Null when not connected.
+   */
+  getLastActivityTime(): number | null {
+    if (this.connectedSince === null) return null;
+    return Math.max(this.connectedSince, this.lastEventTime ?? 0, this.lastHeartbeatTime ?? 0);
+  }
+
+  /**
+   * Drop the current connection and connect again right away, e.g.
+   * when a connection has gone silent without closing.
+   */
+  reconnect(reason = 'forced reconnect'): void {
+    if (this.state === 'disconnected') return;
+    this.cleanupTimers();
+    this.closeSocket();
+    this.lastDisconnect = { code: 4003, reason, at: new Date().toISOString() };
+    this.reconnectCount++;
+    this.attempt().catch((err) => {
+      this.emitError(err instanceof Error ? err : new Error(String(err)));
+    });
+  }
+
+  getHealth(now = Date.now()): PushClientHealth {
+    this.pruneRecentEvents(now);
+    return {
+      state: this.state,
+      connected: this.state === 'connected',
+      connectionId: this.connectionId,
+      connectedSince: this.connectedSince ? new Date(this.connectedSince).toISOString() : null,
+      uptimeMs: this.connectedSince ? now - this.connectedSince : 0,
+      reconnectCount: this.reconnectCount,
+      consecutiveFailures: this.retryCount,
+      nextReconnectAt: this.nextReconnectAt ? new Date(this.nextReconnectAt).toISOString() : null,
+      lastDisconnect: this.lastDisconnect ? { ...this.lastDisconnect } : null,
+      eventCount: this.eventCount,
+      lastEventTime: this.lastEventTime ? new Date(this.lastEventTime).toISOString() : null,
+      lastHeartbeatTime: this.lastHeartbeatTime ? new Date(this.lastHeartbeatTime).toISOString() : null,
+      eventsPerMinute: this.recentEvents.length,
+      authFailures: this.authFailures,
+      cookieLikelyExpired: this.cookieLikelyExpired,
+    };
+  }
+
   // -----------------------------------------------------------------------
   // WebSocket Connection
   // -----------------------------------------------------------------------
 
   private openWebSocket(): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      const host = ALEXA_PUSH_WS_HOSTS[this.opts.region] ?? ALEXA_PUSH_WS_HOSTS.NA;
+      const gateway = this.opts.gatewayUrl ? new URL(this.opts.gatewayUrl) : null;
+      const secure = gateway ? gateway.protocol === 'wss:' || gateway.protocol === 'https:' : true;
+      const host = gateway?.hostname ?? ALEXA_PUSH_WS_HOSTS[this.opts.region] ?? ALEXA_PUSH_WS_HOSTS.NA;
+      const port = gateway?.port ? parseInt(gateway.port, 10) : secure ? 443 : 80;
       const ubid = extractUbid(this.opts.cookie) ?? 'unknown';
       const serial = `${ubid}-${Date.now()}`;
       const path = `/?x-amz-device-type=${FABE.DEVICE_TYPE}&x-amz-device-serial=${serial}`;
@@ -679,13 +353,13 @@ export class AlexaPushClient {
 
       const reqOpts: https.RequestOptions = {
         hostname: host,
-        port: 443,
+        port,
         path,
         method: 'GET',
         headers: {
           'Connection': 'Upgrade',
           'Upgrade': 'websocket',
-          'Host': host,
+          'Host': gateway?.host ?? host,
           'Origin': origin,
           'Pragma': 'no-cache',
           'Cache-Control': 'no-cache',
@@ -695,7 +369,7 @@ export class AlexaPushClient {
         },
       };
 
-      const req = https.request(reqOpts);
+      const req = secure ? https.request(reqOpts) : http.request(reqOpts);
 
       let settled = false;
 
@@ -716,7 +390,7 @@ export class AlexaPushClient {
             this.emitError(new Error('Push connection init timeout'));
             this.handleDisconnect(4000, 'init timeout');
           }
-        }, INIT_TIMEOUT_MS);
+        }, this.timing.initTimeoutMs);
 
         // Send initial TUNE
         this.sendRaw(this.fabeEncoder.encodeInitTune());
@@ -730,9 +404,10 @@ export class AlexaPushClient {
         let body = '';
         res.on('data', (chunk: Buffer) => { body += chunk.toString(); });
         res.on('end', () => {
-          reject(new Error(
+          reject(new PushUpgradeError(
             `WebSocket upgrade rejected: HTTP ${res.statusCode} ${res.statusMessage}` +
             (body ? ` — ${body.substring(0, 200)}` : ''),
+            res.statusCode,
           ));
         });
       });
@@ -757,6 +432,9 @@ export class AlexaPushClient {
 
   private setupSocket(initialData: Buffer): void {
     this.frameParser = new WebSocketFrameParser((opcode, payload) => {
+      try {
+        this.opts.recorder?.record(opcode, payload);
+      } catch {}
       this.handleWebSocketFrame(opcode, payload);
     });
 
@@ -896,6 +574,8 @@ export class AlexaPushClient {
 
     this.lastEventTime = Date.now();
     this.eventCount++;
+    this.recentEvents.push(this.lastEventTime);
+    this.pruneRecentEvents(this.lastEventTime);
 
     try {
       this.opts.onEvent(event);
@@ -908,6 +588,7 @@ export class AlexaPushClient {
 
   private handleHeartbeatMessage(message: ParsedMessage): void {
     // PON received — connection is alive
+    this.lastHeartbeatTime = Date.now();
     if (this.pongTimer) {
       clearTimeout(this.pongTimer);
       this.pongTimer = null;
@@ -920,6 +601,8 @@ export class AlexaPushClient {
         this.initTimer = null;
       }
       this.retryCount = 0;
+      this.authFailures = 0;
+      this.connectedSince = Date.now();
       this.setState('connected');
     }
   }
@@ -934,10 +617,11 @@ export class AlexaPushClient {
       this.sendPing();
     }, 100);
 
-    // Then every 180s
+    // Then every 180s (replacing the timer of a handshake that was cut short)
+    if (this.pingTimer) clearInterval(this.pingTimer);
     this.pingTimer = setInterval(() => {
       this.sendPing();
-    }, PING_INTERVAL_MS);
+    }, this.timing.pingIntervalMs);
   }
 
   private sendPing(): void {
@@ -950,7 +634,7 @@ export class AlexaPushClient {
     this.pongTimer = setTimeout(() => {
       this.emitError(new Error('Push heartbeat pong timeout'));
       this.handleDisconnect(4002, 'pong timeout');
-    }, PONG_TIMEOUT_MS);
+    }, this.timing.pongTimeoutMs);
   }
 
   // -----------------------------------------------------------------------
@@ -969,46 +653,77 @@ export class AlexaPushClient {
 
   private handleDisconnect(code: number, reason: string): void {
     this.cleanupTimers();
+    this.closeSocket();
+    this.lastDisconnect = { code, reason, at: new Date().toISOString() };
 
-    if (this.socket) {
-      this.socket.removeAllListeners();
-      this.socket.destroy();
-      this.socket = null;
-    }
-
-    this.frameParser?.clear();
-    this.frameParser = null;
-
-    // Check for permanent failure (invalid cookie)
+    // The gateway names the cookie outright: no point retrying
     if (code === 4001 && reason.startsWith('before - Could not find any')) {
-      this.setState('disconnected');
-      this.emitError(new Error('Push connection rejected: invalid cookie'));
+      this.authFailures++;
+      this.openCircuit('Push connection rejected: invalid cookie');
       return;
     }
 
     // If we were already disconnected (user called disconnect()), don't reconnect
     if (this.state === 'disconnected') return;
 
-    this.scheduleReconnect();
+    this.scheduleReconnect(code === 4001);
   }
 
-  private scheduleReconnect(): void {
-    if (this.retryCount >= MAX_RETRIES) {
+  private scheduleReconnect(authFailure = false): void {
+    this.authFailures = authFailure ? this.authFailures + 1 : 0;
+    if (this.authFailures >= this.policy.authFailureThreshold) {
+      this.openCircuit(
+        `Push connection rejected ${this.authFailures} times in a row: cookie likely expired`,
+      );
+      return;
+    }
+    if (this.retryCount >= this.policy.maxRetries) {
       this.setState('disconnected');
-      this.emitError(new Error(`Push connection failed after ${MAX_RETRIES} retries`));
+      this.emitError(new Error(`Push connection failed after ${this.policy.maxRetries} retries`));
       return;
     }
 
     this.retryCount++;
-    const delaySec = Math.min(60, (this.retryCount * 5) + 5);
+    this.reconnectCount++;
+    const delayMs = reconnectDelay(this.policy, this.retryCount);
+    this.nextReconnectAt = Date.now() + delayMs;
     this.setState('reconnecting');
 
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
-      this.connect().catch((err) => {
+      this.nextReconnectAt = null;
+      this.attempt().catch((err) => {
         this.emitError(err instanceof Error ? err : new Error(String(err)));
       });
-    }, delaySec * 1000);
+    }, delayMs);
+  }
+
+  private closeSocket(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.destroy();
+      this.socket = null;
+    }
+
+    this.frameParser?.clear();
+    this.frameParser = null;
+    this.connectedSince = null;
+  }
+
+  /** Circuit breaker: stop retrying until connect() is called again. */
+  private openCircuit(message: string): void {
+    this.cleanupTimers();
+    this.nextReconnectAt = null;
+    this.cookieLikelyExpired = true;
+    this.setState('disconnected');
+    this.emitError(new Error(message));
+  }
+
+  private pruneRecentEvents(now: number): void {
+    const cutoff = now - EVENT_RATE_WINDOW_MS;
+    let drop = 0;
+    while (drop < this.recentEvents.length && this.recentEvents[drop] <= cutoff) drop++;
+    if (drop > 0) this.recentEvents.splice(0, drop);
   }
 
   // -----------------------------------------------------------------------
@@ -0,0 +1,111 @@
+/**
+ * Push event processing pipeline.
+ *
+ * Every stored push event is dispatched to the handler registered for
+ * its command (one handler per PushEventCommand).  When the handler
+ * finishes the event is marked `processed`; a handler that throws
+ * leaves it unprocessed so it can be retried.  Commands without a
+ * handler carry nothing to derive and are marked processed directly.
+ *
+ * The background worker (`start()`) replays unprocessed events — on
+ * start, which covers events received before a restart, and then on an
+ * interval for events whose handler failed.  Failed attempts are
+ * counted in the store, so they survive a restart; after `maxAttempts`
+ * the event is marked failed and no longer replayed.
+ */
+
+import type { PushEventStore } from './push-event-store';
+import type { PushEventCommand, StoredPushEvent } from './push-event-types';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INTERVAL_MS = 60_000;
+const DEFAULT_BATCH_SIZE = 500;
+
+export type PushEventHandler = (event: StoredPushEvent) => Promise<void>;
+
+export type PushEventHandlers = Partial<Record<PushEventCommand, PushEventHandler>>;
+
+export interface PushEventProcessorOptions {
+  /** Attempts per event before the worker gives up on it (default 5) */
+  maxAttempts?: number;
+  /** Unprocessed events replayed per worker pass (default 500) */
+  batchSize?: number;
+  /** Called when a handler throws; `gaveUp` when that was the last attempt */
+  onError?: (event: StoredPushEvent, error: Error, gaveUp: boolean) => void;
+}
+
+export interface PushEventDrainResult {
+  processed: number;
+  failed: number;
+}
+
+export class PushEventProcessor {
+  private store: PushEventStore;
+  private handlers: PushEventHandlers;
+  private options: PushEventProcessorOptions;
+  private inFlight = new Set<string>();
+  private task = new PeriodicTask(() => this.drain());
+
+  constructor(store: PushEventStore, handlers: PushEventHandlers, options: PushEventProcessorOptions = {}) {
+    this.store = store;
+    this.handlers = handlers;
+    this.options = options;
+  }
+
+  /**
+   * Run the event's handler and mark it processed.  Returns false if
+   * the handler failed (or the event is already being processed).
+   */
+  async process(event: StoredPushEvent): Promise<boolean> {
+    if (event.processed) return true;
+    if (this.inFlight.has(event.id)) return false;
+
+    this.inFlight.add(event.id);
+    try {
+      const handler = this.handlers[event.command as PushEventCommand];
+      if (handler) await handler(event);
+      await this.store.markProcessed(event.id);
+      return true;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+      const attempts = await this.store.recordFailure(event.id, error.message, maxAttempts).catch(() => 0);
+      this.options.onError?.(event, error, attempts >= maxAttempts);
+      return false;
+    } finally {
+      this.inFlight.delete(event.id);
+    }
+  }
+
+  /**
+   * Process stored events that are still unprocessed, oldest first,
+   * skipping those that already used up their attempts.
+   */
+  async drain(): Promise<PushEventDrainResult> {
+    const pending = await this.store.listPending(this.options.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    const result: PushEventDrainResult = { processed: 0, failed: 0 };
+    for (const event of pending) {
+      if (await this.process(event)) result.processed++;
+      else result.failed++;
+    }
+    return result;
+  }
+
+  /**
+   * Start the background worker: drain now, then every `intervalMs`.
+   */
+  async start(intervalMs = DEFAULT_INTERVAL_MS): Promise<PushEventDrainResult> {
+    this.task.start(intervalMs);
+    return this.drain();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+}
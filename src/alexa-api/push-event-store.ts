@@ -14,6 +14,7 @@ import type { StoredPushEvent } from './push-event-types';
 export interface PushEventQuery {
   command?: string;
   deviceSerial?: string;
+  deviceName?: string;  // case-insensitive exact match
   startTime?: string;   // ISO-8601
   endTime?: string;     // ISO-8601
   processed?: boolean;
@@ -36,7 +37,16 @@ export interface PushEventStore {
   query(query: PushEventQuery): Promise<PushEventQueryResult>;
   getById(id: string): Promise<StoredPushEvent | null>;
   markProcessed(id: string): Promise<void>;
+  /** Unprocessed events that have not failed, oldest first. */
+  listPending(limit: number): Promise<StoredPushEvent[]>;
+  /**
+   * Count a failed handler attempt, marking the event failed once it
+   * reaches `maxAttempts`.  Returns the event's attempt count.
+   */
+  recordFailure(id: string, error: string, maxAttempts: number): Promise<number>;
   prune(olderThan: string): Promise<number>;
+  /** Set names (keyed by device serial) on events that have none; returns rows updated. */
+  fillDeviceNames(names: Record<string, string>): Promise<number>;
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +86,10 @@ export class InMemoryPushEventStore implements PushEventStore {
     if (query.deviceSerial) {
       filtered = filtered.filter((e) => e.deviceSerial === query.deviceSerial);
     }
+    if (query.deviceName) {
+      const name = query.deviceName.toLowerCase();
+      filtered = filtered.filter((e) => e.deviceName?.toLowerCase() === name);
+    }
     if (query.startTime) {
       filtered = filtered.filter((e) => e.timestamp >= query.startTime!);
     }
@@ -104,9 +118,36 @@ export class InMemoryPushEventStore implements PushEventStore {
     }
   }
 
+  async listPending(limit: number): Promise<StoredPushEvent[]> {
+    return this.events
+      .filter((e) => !e.processed && !e.failed)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(0, limit);
+  }
+
+  async recordFailure(id: string, error: string, maxAttempts: number): Promise<number> {
+    const event = this.events.find((e) => e.id === id);
+    if (!event) return 0;
+    event.attempts = (event.attempts ?? 0) + 1;
+    event.error = error;
+    if (event.attempts >= maxAttempts) event.failed = true;
+    return event.attempts;
+  }
+
   async prune(olderThan: string): Promise<number> {
     const before = this.events.length;
     this.events = this.events.filter((e) => e.timestamp >= olderThan);
     return before - this.events.length;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    let updated = 0;
+    for (const e of this.events) {
+      if (!e.deviceName && e.deviceSerial && names[e.deviceSerial]) {
+        e.deviceName = names[e.deviceSerial];
+        updated++;
+      }
+    }
+    return updated;
+  }
 }
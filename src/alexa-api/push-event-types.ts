@@ -154,6 +154,12 @@ export interface StoredPushEvent {
   deviceName?: string;
   payload: Record<string, unknown>;
   processed: boolean;
+  /** Handler attempts that failed */
+  attempts?: number;
+  /** Set once the handler has failed too often; the event is not retried */
+  failed?: boolean;
+  /** Message of the last handler failure */
+  error?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,545 @@
+/**
+ * Wire protocol of Amazon's push gateway: RFC 6455 WebSocket framing
+ * and the FABE message format carried inside it (TUNE negotiation, INI
+ * handshake, REGISTER_CONNECTION, PIN/PON heartbeats and GWM push
+ * messages).
+ *
+ * Used by AlexaPushClient, and by LocalPushGateway to play the server
+ * side in tests.
+ */
+
+import * as crypto from 'crypto';
+import { FABE } from './push-event-types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ParsedMessage {
+  service: string;       // 'FABE' | 'TUNE'
+  messageType?: string;  // 'MSG' | 'ACK' | 'GWM' | ...
+  channel?: number;
+  messageId?: number;
+  content: Record<string, any>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function encodeNumber(val: number, hexLen = 8): string {
+  let s = val.toString(16);
+  while (s.length < hexLen) s = '0' + s;
+  return '0x' + s;
+}
+
+export function generateUUID(): string {
+  const template = 'rrrrrrrr-rrrr-4rrr-srrr-rrrrrrrrrrrr';
+  const chars: string[] = [];
+  for (let i = 0; i < 36; i++) {
+    const c = template.charAt(i);
+    if (c === 'r' || c === 's') {
+      let d = Math.floor(16 * Math.random());
+      if (c === 's') d = (d & 3) | 8;
+      chars.push(d.toString(16));
+    } else {
+      chars.push(c);
+    }
+  }
+  return chars.join('');
+}
+
+/**
+ * Convert a potentially negative JS number to unsigned 32-bit.
+ * For positive values > 2^32, preserves the full value (needed for carry extraction).
+ */
+function toUnsigned(value: number): number {
+  if (value < 0) return 0xFFFFFFFF + value + 1;
+  return value;
+}
+
+/**
+ * Unsigned right-shift via repeated division (avoids JS `>>>` 32-bit truncation).
+ * Preserves values > 2^32 so carry bits are not lost.
+ */
+function shiftRight(value: number, bits: number): number {
+  let v = toUnsigned(value);
+  while (bits > 0 && v !== 0) {
+    v = Math.floor(v / 2);
+    bits--;
+  }
+  return v;
+}
+
+/**
+ * Compute the FABE protocol checksum.
+ *
+ * Accumulates bytes in big-endian 32-bit words with carry folding.
+ * The exclusion window [excludeStart, excludeEnd) is skipped — this
+ * is used to zero-out the checksum placeholder field while hashing.
+ *
+ * Port of alexa-remote2's `computeChecksum()`.
+ */
+export function computeChecksum(buffer: Buffer, excludeStart: number, excludeEnd: number): number {
+  const bytes = new Uint8Array(buffer);
+  let sum = 0;
+  let carry = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (i >= excludeStart && i < excludeEnd) {
+      i = excludeEnd - 1;
+      continue;
+    }
+
+    const shiftAmount = ((i & 3) ^ 3) << 3;
+    sum += toUnsigned(bytes[i] << shiftAmount);
+    carry += shiftRight(sum, 32);
+    sum = toUnsigned(sum & 0xFFFFFFFF);
+  }
+
+  while (carry) {
+    sum += carry;
+    carry = shiftRight(sum, 32);
+    sum &= 0xFFFFFFFF;
+  }
+
+  return toUnsigned(sum);
+}
+
+export function readHex(data: Buffer, index: number, length: number): number {
+  let str = data.toString('ascii', index, index + length);
+  if (str.startsWith('0x')) str = str.substring(2);
+  return parseInt(str, 16);
+}
+
+export function readString(data: Buffer, index: number, length: number): string {
+  return data.toString('ascii', index, index + length);
+}
+
+export function extractUbid(cookie: string): string | null {
+  const match = cookie.match(/ubid-[a-z]+=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket Frame Helpers (RFC 6455)
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode a single-fragment frame.  Clients must mask their frames;
+ * servers (the local push gateway) must not.
+ */
+export function encodeWebSocketFrame(payload: Buffer, opcode = 0x02, masked = true): Buffer {
+  const len = payload.length;
+  const maskLen = masked ? 4 : 0;
+  let headerLen: number;
+
+  if (len < 126) {
+    headerLen = 2 + maskLen;
+  } else if (len < 65536) {
+    headerLen = 4 + maskLen; // 2 base + 2 ext
+  } else {
+    headerLen = 10 + maskLen; // 2 base + 8 ext
+  }
+
+  const frame = Buffer.alloc(headerLen + len);
+  // FIN + opcode
+  frame[0] = 0x80 | opcode;
+
+  const maskBit = masked ? 0x80 : 0;
+  let offset: number;
+  if (len < 126) {
+    frame[1] = maskBit | len;
+    offset = 2;
+  } else if (len < 65536) {
+    frame[1] = maskBit | 126;
+    frame.writeUInt16BE(len, 2);
+    offset = 4;
+  } else {
+    frame[1] = maskBit | 127;
+    // write 8-byte length (high 4 bytes = 0 for our sizes)
+    frame.writeUInt32BE(0, 2);
+    frame.writeUInt32BE(len, 6);
+    offset = 10;
+  }
+
+  if (!masked) {
+    payload.copy(frame, offset);
+    return frame;
+  }
+
+  // 4-byte random mask key
+  const mask = crypto.randomBytes(4);
+  mask.copy(frame, offset);
+  offset += 4;
+
+  // Masked payload
+  for (let i = 0; i < len; i++) {
+    frame[offset + i] = payload[i] ^ mask[i & 3];
+  }
+
+  return frame;
+}
+
+export function createUpgradeKey(): { key: string; expected: string } {
+  const keyBytes = crypto.randomBytes(16);
+  const key = keyBytes.toString('base64');
+  const accept = crypto
+    .createHash('sha1')
+    .update(key + '258EAFA5-E914-47DA-95CA-5AB5DC175B18')
+    .digest('base64');
+  return { key, expected: accept };
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket Frame Parser (stateful, reassembles fragmented frames)
+// ---------------------------------------------------------------------------
+
+export class WebSocketFrameParser {
+  private buffer = Buffer.alloc(0);
+  private onFrame: (opcode: number, payload: Buffer) => void;
+
+  constructor(onFrame: (opcode: number, payload: Buffer) => void) {
+    this.onFrame = onFrame;
+  }
+
+  feed(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.buffer.length >= 2) {
+      const b0 = this.buffer[0];
+      const b1 = this.buffer[1];
+      // const fin = (b0 & 0x80) !== 0;
+      const opcode = b0 & 0x0F;
+      const masked = (b1 & 0x80) !== 0;
+      let payloadLen = b1 & 0x7F;
+      let offset = 2;
+
+      if (payloadLen === 126) {
+        if (this.buffer.length < 4) return; // need more data
+        payloadLen = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (payloadLen === 127) {
+        if (this.buffer.length < 10) return;
+        // High 32 bits should be 0 for reasonable sizes
+        payloadLen = this.buffer.readUInt32BE(6);
+        offset = 10;
+      }
+
+      if (masked) offset += 4; // server shouldn't mask, but handle it
+
+      const totalFrameLen = offset + payloadLen;
+      if (this.buffer.length < totalFrameLen) return; // need more data
+
+      let payload = this.buffer.subarray(offset, offset + payloadLen);
+      if (masked) {
+        const maskKey = this.buffer.subarray(offset - 4, offset);
+        payload = Buffer.from(payload);
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= maskKey[i & 3];
+        }
+      }
+
+      this.buffer = this.buffer.subarray(totalFrameLen);
+      this.onFrame(opcode, Buffer.from(payload));
+    }
+  }
+
+  clear(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FABE Protocol Encoder
+// ---------------------------------------------------------------------------
+
+export class FABEEncoder {
+  private messageId: number;
+
+  constructor() {
+    this.messageId = Math.floor(1e9 * Math.random());
+  }
+
+  getMessageId(): number {
+    return this.messageId;
+  }
+
+  /** Initial TUNE message for A:H protocol */
+  encodeInitTune(): Buffer {
+    return Buffer.from('0x99d4f71a 0x0000001d A:HTUNE');
+  }
+
+  /** Responding TUNE for A:H protocol */
+  encodeTuneResponseAH(): Buffer {
+    return Buffer.from(
+      '0xa6f6a951 0x0000009c {"protocolName":"A:H","parameters":{"AlphaProtocolHandler.receiveWindowSize":"16","AlphaProtocolHandler.maxFragmentSize":"16000"}}TUNE',
+    );
+  }
+
+  /** Responding TUNE for A:F protocol */
+  encodeTuneResponseAF(): Buffer {
+    return Buffer.from(
+      '0xfe88bc52 0x0000009c {"protocolName":"A:F","parameters":{"AlphaProtocolHandler.receiveWindowSize":"16","AlphaProtocolHandler.maxFragmentSize":"16000"}}TUNE',
+    );
+  }
+
+  /** INI handshake on channel 0x361 (A:H only) */
+  encodeHandshake(): Buffer {
+    this.messageId++;
+
+    let msg = 'MSG 0x00000361 ';
+    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
+    const checksumStart = msg.length; // 39
+    msg += '0x00000000 ';
+    const checksumEnd = msg.length;   // 50
+    msg += '0x0000009b ';
+    msg += 'INI 0x00000003 1.0 0x00000024 ';
+    msg += generateUUID();
+    msg += ' ';
+    msg += encodeNumber(Date.now(), 16);
+    msg += ' END FABE';
+
+    const buffer = Buffer.from(msg, 'ascii');
+    const checksum = computeChecksum(buffer, checksumStart, checksumEnd);
+    Buffer.from(encodeNumber(checksum)).copy(buffer, 39);
+    return buffer;
+  }
+
+  /** REGISTER_CONNECTION on channel 0x362 (A:H format) */
+  encodeRegisterAH(): Buffer {
+    this.messageId++;
+
+    let msg = 'MSG 0x00000362 ';
+    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
+    const checksumStart = msg.length;
+    msg += '0x00000000 ';
+    const checksumEnd = msg.length;
+    msg += '0x00000109 ';
+    msg += 'GWM MSG 0x0000b479 0x0000003b ';
+    msg += 'urn:tcomm-endpoint:device:deviceType:0:deviceSerialNumber:0 ';
+    msg += '0x00000041 ';
+    msg += 'urn:tcomm-endpoint:service:serviceName:DeeWebsiteMessagingService ';
+    msg += '{"command":"REGISTER_CONNECTION"}FABE';
+
+    const buffer = Buffer.from(msg, 'ascii');
+    const checksum = computeChecksum(buffer, checksumStart, checksumEnd);
+    Buffer.from(encodeNumber(checksum)).copy(buffer, 39);
+    return buffer;
+  }
+
+  /** PIN heartbeat on channel 0x65 (A:H format) */
+  encodePingAH(): Buffer {
+    this.messageId++;
+
+    let msg = 'MSG 0x00000065 ';
+    msg += encodeNumber(this.messageId) + ' f 0x00000001 ';
+    const checksumStart = msg.length;
+    msg += '0x00000000 ';
+    const checksumEnd = msg.length;
+    msg += '0x00000062 ';
+
+    const headerBuf = Buffer.from(msg, 'ascii');
+
+    // Build PIN payload: "PIN" + 4-byte flag + 8-byte timestamp + 4-byte len + UTF-16BE "Regular"
+    const payload = 'Regular';
+    const payloadSize = 3 + 4 + 8 + 4 + (2 * payload.length); // 33 bytes
+    const pinBuf = Buffer.alloc(payloadSize);
+    let offset = 0;
+
+    pinBuf.write('PIN', offset, 'ascii');
+    offset += 3;
+
+    pinBuf.writeUInt32BE(0, offset);
+    offset += 4;
+
+    // Write 8-byte timestamp (ms since epoch, big-endian)
+    const now = Date.now();
+    pinBuf.writeUInt32BE(Math.floor(now / 0x100000000), offset);
+    pinBuf.writeUInt32BE(now >>> 0, offset + 4);
+    offset += 8;
+
+    pinBuf.writeUInt32BE(payload.length, offset);
+    offset += 4;
+
+    // UTF-16BE "Regular"
+    for (let i = 0; i < payload.length; i++) {
+      pinBuf[offset + i * 2] = 0;
+      pinBuf[offset + i * 2 + 1] = payload.charCodeAt(i);
+    }
+
+    const fabe = Buffer.from('FABE', 'ascii');
+
+    // Total frame: 0x62 = 98 bytes. headerBuf.length should cover "MSG ... 0x00000062 "
+    const frame = Buffer.alloc(headerBuf.length + payloadSize + fabe.length);
+    headerBuf.copy(frame, 0);
+    pinBuf.copy(frame, headerBuf.length);
+    fabe.copy(frame, headerBuf.length + payloadSize);
+
+    const checksum = computeChecksum(frame, checksumStart, checksumEnd);
+    Buffer.from(encodeNumber(checksum)).copy(frame, 39);
+    return frame;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FABE Protocol Parser
+// ---------------------------------------------------------------------------
+
+export class FABEParser {
+  /**
+   * Parse a raw FABE message buffer (A:H text-based format).
+   */
+  parse(data: Buffer): ParsedMessage {
+    const service = data.toString('ascii', data.length - 4, data.length);
+    const message: ParsedMessage = { service, content: {} };
+
+    if (service === 'TUNE') {
+      return this.parseTune(data, message);
+    }
+    if (service === 'FABE') {
+      return this.parseFabe(data, message);
+    }
+
+    return message;
+  }
+
+  private parseTune(data: Buffer, message: ParsedMessage): ParsedMessage {
+    try {
+      let idx = 0;
+      // Skip checksum: "0xNNNNNNNN "
+      idx += 11;
+      // Skip content length: "0xNNNNNNNN "
+      idx += 11;
+      // Remaining is JSON content until "TUNE"
+      const jsonStr = data.toString('ascii', idx, data.length - 4);
+      if (jsonStr.startsWith('{')) {
+        try { message.content = JSON.parse(jsonStr); } catch {}
+      }
+    } catch {}
+    return message;
+  }
+
+  private parseFabe(data: Buffer, message: ParsedMessage): ParsedMessage {
+    try {
+      let idx = 0;
+      message.messageType = readString(data, idx, 3);
+      idx += 4; // "MSG "
+
+      message.channel = readHex(data, idx, 10);
+      idx += 11;
+
+      message.messageId = readHex(data, idx, 10);
+      idx += 11;
+
+      // Skip flag + space
+      idx += 2; // "f "
+
+      // Skip seq
+      idx += 11;
+      // Skip checksum
+      idx += 11;
+      // Skip content length
+      idx += 11;
+
+      // Now at content start
+      const contentType = readString(data, idx, 3);
+      message.content.messageType = contentType;
+      idx += 4; // type + space
+
+      if (message.channel === FABE.GW_HANDSHAKE_CHANNEL) {
+        this.parseHandshakeContent(data, idx, message);
+      } else if (message.channel === FABE.GW_CHANNEL) {
+        this.parseGWContent(data, idx, message);
+      } else if (message.channel === FABE.CHANNEL_FOR_HEARTBEAT) {
+        // PON response — store raw payload
+        message.content.payloadData = data.subarray(idx, data.length - 4);
+      }
+    } catch {}
+
+    return message;
+  }
+
+  private parseHandshakeContent(data: Buffer, idx: number, message: ParsedMessage): void {
+    if (message.content.messageType === 'ACK') {
+      try {
+        let length = readHex(data, idx, 10);
+        idx += 11;
+        message.content.protocolVersion = readString(data, idx, length);
+        idx += length + 1;
+
+        length = readHex(data, idx, 10);
+        idx += 11;
+        message.content.connectionUUID = readString(data, idx, length);
+        idx += length + 1;
+
+        message.content.established = readHex(data, idx, 10);
+        idx += 11;
+        message.content.timestampINI = readHex(data, idx, 18);
+        idx += 19;
+        message.content.timestampACK = readHex(data, idx, 18);
+      } catch {}
+    }
+  }
+
+  private parseGWContent(data: Buffer, idx: number, message: ParsedMessage): void {
+    if (message.content.messageType === 'GWM') {
+      try {
+        // Sub-message type (MSG)
+        message.content.subMessageType = readString(data, idx, 3);
+        idx += 4;
+
+        // Sub-channel
+        message.content.channel = readHex(data, idx, 10);
+        idx += 11;
+
+        if (message.content.channel === FABE.DEE_WEBSITE_MESSAGING) {
+          // Destination URN
+          let length = readHex(data, idx, 10);
+          idx += 11;
+          message.content.destinationIdentityUrn = readString(data, idx, length);
+          idx += length + 1;
+
+          // Source URN + payload
+          length = readHex(data, idx, 10);
+          idx += 11;
+          const idData = readString(data, idx, length);
+          idx += length + 1;
+
+          // idData = "urn:...  {json}" separated by space
+          const spaceIdx = idData.indexOf(' ');
+          if (spaceIdx !== -1) {
+            message.content.deviceIdentityUrn = idData.substring(0, spaceIdx);
+            message.content.payload = idData.substring(spaceIdx + 1);
+          } else {
+            message.content.deviceIdentityUrn = idData;
+          }
+
+          // Fallback: read remaining data before FABE
+          if (!message.content.payload) {
+            message.content.payload = readString(data, idx, data.length - 4 - idx);
+          }
+
+          // Double-nested JSON parsing
+          if (typeof message.content.payload === 'string' &&
+              message.content.payload.startsWith('{')) {
+            try {
+              message.content.payload = JSON.parse(message.content.payload);
+              if (message.content.payload?.payload &&
+                  typeof message.content.payload.payload === 'string') {
+                try {
+                  message.content.payload.payload = JSON.parse(
+                    message.content.payload.payload,
+                  );
+                } catch {}
+              }
+            } catch {}
+          }
+        }
+      } catch {}
+    }
+  }
+}
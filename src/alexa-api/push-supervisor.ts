@@ -0,0 +1,135 @@
+/**
+ * Push listener supervision.
+ *
+ * Keeps the push listener running without anyone clicking "connect":
+ * starts it at startup when a cookie is available, restarts it with
+ * the new cookie after a cookie update, starts it again when the client
+ * has given up reconnecting, and forces a reconnect when a connection
+ * that looks open has gone silent — no event and no PON for
+ * `stallTimeoutMs`.
+ *
+ * A client whose circuit breaker flagged the cookie as likely expired
+ * is left alone until the cookie is updated.
+ */
+
+import type { AlexaPushClient } from './push-client';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const DEFAULT_CHECK_INTERVAL_MS = 60_000;
+const DEFAULT_STALL_TIMEOUT_MS = 10 * 60_000;
+
+export type PushRestartReason = 'startup' | 'cookie_updated' | 'gave_up';
+
+export type PushSupervisorCheck =
+  /** Supervision is off, or there is nothing to connect with */
+  | 'idle'
+  /** The listener is connected or recovering by itself */
+  | 'ok'
+  /** A silent connection was reconnected */
+  | 'stalled'
+  /** The listener was (re)started */
+  | 'restarted';
+
+export interface PushSupervisorOptions {
+  /** The current push client, or null when none was started */
+  getClient: () => AlexaPushClient | null;
+  /** Start the listener, replacing any current client */
+  startListener: () => Promise<void>;
+  /** Whether a cookie is available to connect with */
+  hasCookie: () => Promise<boolean>;
+  /** Supervise from the start (default true); see `enabled` */
+  enabled?: boolean;
+  /** Silence on an open connection before forcing a reconnect (default 10 minutes) */
+  stallTimeoutMs?: number;
+  onRestart?: (reason: PushRestartReason) => void;
+  onStall?: (idleMs: number) => void;
+  onError?: (error: Error) => void;
+}
+
+export class PushListenerSupervisor {
+  /**
+   * Whether the listener should be running.  Set by starting or
+   * stopping the listener by hand; a stopped listener stays stopped.
+   */
+  enabled: boolean;
+
+  private options: PushSupervisorOptions;
+  private stallTimeoutMs: number;
+  private task = new PeriodicTask(() => this.check());
+  private checking: Promise<PushSupervisorCheck> | null = null;
+
+  constructor(options: PushSupervisorOptions) {
+    this.options = options;
+    this.enabled = options.enabled ?? true;
+    this.stallTimeoutMs = options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+  }
+
+  /**
+   * Start supervising: connect now if enabled and a cookie is
+   * available, then check every `intervalMs`.  Resolves with the
+   * startup check.
+   */
+  async start(intervalMs = DEFAULT_CHECK_INTERVAL_MS): Promise<PushSupervisorCheck> {
+    this.task.start(intervalMs);
+    return this.check(Date.now(), 'startup');
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  /**
+   * Restart the listener with a newly stored cookie — when supervising,
+   * or when a listener was started by hand.
+   */
+  async cookieUpdated(): Promise<boolean> {
+    if (!this.enabled || (!this.task.isRunning() && !this.options.getClient())) return false;
+    await this.restart('cookie_updated');
+    return true;
+  }
+
+  /** One supervision pass.  Concurrent calls share the pass in flight. */
+  check(now = Date.now(), reason: PushRestartReason = 'gave_up'): Promise<PushSupervisorCheck> {
+    if (!this.checking) {
+      this.checking = this.runCheck(now, reason).finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  private async runCheck(now: number, reason: PushRestartReason): Promise<PushSupervisorCheck> {
+    if (!this.enabled) return 'idle';
+
+    const client = this.options.getClient();
+    if (!client || client.getState() === 'disconnected') {
+      if (client?.getHealth(now).cookieLikelyExpired) return 'idle';
+      if (!(await this.options.hasCookie())) return 'idle';
+      await this.restart(reason);
+      return 'restarted';
+    }
+
+    const lastActivity = client.getLastActivityTime();
+    if (lastActivity !== null && now - lastActivity >= this.stallTimeoutMs) {
+      this.options.onStall?.(now - lastActivity);
+      client.reconnect('stalled');
+      return 'stalled';
+    }
+    return 'ok';
+  }
+
+  private async restart(reason: PushRestartReason): Promise<void> {
+    try {
+      await this.options.startListener();
+      this.options.onRestart?.(reason);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.options.onError?.(error);
+      throw error;
+    }
+  }
+}
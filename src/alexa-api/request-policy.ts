@@ -0,0 +1,142 @@
+/**
+ * Request policy for the Alexa account API.
+ *
+ * Amazon throttles the unofficial endpoints per service, so requests
+ * are grouped into endpoint families, each with its own token bucket:
+ * a burst allowance refilled at a steady rate.  Requests beyond the
+ * allowance wait their turn instead of failing.
+ *
+ * A 429/503 with `Retry-After` pauses the whole family until then.
+ * Idempotent requests (GETs, and POSTs that only read) are retried
+ * with exponential backoff on network errors, timeouts and 429/502/
+ * 503/504; commands are never retried.
+ */
+
+export type EndpointFamily = 'phoenix' | 'behaviors' | 'graphql' | 'privacy' | 'default';
+
+export const ENDPOINT_FAMILIES: EndpointFamily[] = ['phoenix', 'behaviors', 'graphql', 'privacy', 'default'];
+
+export interface RateLimit {
+  /** Requests that may be sent back to back */
+  burst: number;
+  /** Steady rate the allowance refills at */
+  perSecond: number;
+}
+
+export interface AlexaRequestPolicy {
+  /** Time allowed for one request, response body included */
+  timeoutMs: number;
+  /** Retries of an idempotent request */
+  maxRetries: number;
+  /** First retry delay; doubles per retry, with ±20% jitter */
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Longest wait for a rate limit slot before failing instead */
+  maxQueueWaitMs: number;
+  rateLimits: Record<EndpointFamily, RateLimit>;
+}
+
+export const DEFAULT_REQUEST_POLICY: AlexaRequestPolicy = {
+  timeoutMs: 15_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1_000,
+  retryMaxDelayMs: 30_000,
+  maxQueueWaitMs: 60_000,
+  rateLimits: {
+    phoenix: { burst: 5, perSecond: 2 },
+    behaviors: { burst: 5, perSecond: 2 },
+    graphql: { burst: 2, perSecond: 0.5 },
+    privacy: { burst: 2, perSecond: 0.2 },
+    default: { burst: 10, perSecond: 5 },
+  },
+};
+
+/** Statuses worth retrying: throttled, or a gateway in trouble */
+export const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export interface RequestFamilyMetrics {
+  /** Requests sent, retries included */
+  requests: number;
+  retries: number;
+  /** Network errors and timeouts */
+  failures: number;
+  timeouts: number;
+  /** 429 and 503 responses */
+  throttled: number;
+  /** Time spent waiting for a rate limit slot */
+  rateLimitWaitMs: number;
+  /** Mean time to a response, over requests that got one */
+  avgLatencyMs: number;
+  lastStatus?: number;
+  lastRequestAt?: string;
+}
+
+/** Which family a request path belongs to. */
+export function endpointFamily(path: string): EndpointFamily {
+  if (path.startsWith('/api/phoenix')) return 'phoenix';
+  if (path.startsWith('/api/behaviors')) return 'behaviors';
+  if (path.startsWith('/nexus/')) return 'graphql';
+  if (path.startsWith('/alexa-privacy/')) return 'privacy';
+  return 'default';
+}
+
+/**
+ * Milliseconds a `Retry-After` header asks to wait (delta-seconds or an
+ * HTTP date), or null when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now = Date.now()): number | null {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return null;
+  if (/^\s*\d+\s*$/.test(header)) return parseInt(header, 10) * 1000;
+  const at = Date.parse(header);
+  return Number.isFinite(at) ? Math.max(0, at - now) : null;
+}
+
+/** Backoff before retry `attempt` (1-based). */
+export function retryDelay(policy: AlexaRequestPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.retryMaxDelayMs, policy.retryBaseDelayMs * 2 ** (attempt - 1));
+  return Math.round(base * (0.8 + 0.4 * random()));
+}
+
+export class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  /** Refill time of `tokens`; in the future while paused */
+  private updatedAt: number;
+
+  constructor(limit: RateLimit, now = Date.now()) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token, returning how long to wait until it is yours (0 = now).
+   * Tokens can be owed, so callers that wait are served in order.
+   */
+  take(now = Date.now()): number {
+    this.refill(now);
+    this.tokens -= 1;
+    const paused = Math.max(0, this.updatedAt - now);
+    return this.tokens >= 0 ? paused : paused + Math.ceil((-this.tokens / this.limit.perSecond) * 1000);
+  }
+
+  /** Return a token taken but not used. */
+  giveBack(): void {
+    this.tokens = Math.min(this.limit.burst, this.tokens + 1);
+  }
+
+  /** Hand out nothing before `until` (a Retry-After), then one token. */
+  pauseUntil(until: number, now = Date.now()): void {
+    this.refill(now);
+    if (until <= this.updatedAt) return;
+    this.tokens = Math.min(this.tokens, 1);
+    this.updatedAt = until;
+  }
+
+  private refill(now: number): void {
+    if (now <= this.updatedAt) return;
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.perSecond);
+    this.updatedAt = now;
+  }
+}
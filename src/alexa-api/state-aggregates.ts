@@ -0,0 +1,533 @@
+/**
+ * Downsampled device state history.
+ *
+ * Aggregates one numeric capability of a device (a RangeController
+ * instance such as PM2.5 or humidity, TemperatureSensor.temperature,
+ * an Echo's volume) into buckets of 5 minutes, 1 hour or 1 day: min,
+ * max, time-weighted average and last value per bucket.
+ *
+ * The value a device held when a bucket starts counts towards that
+ * bucket, and a bucket without readings repeats the previous value
+ * (with count 0) up to the last time the device was seen.  Change-based
+ * state storage, which records nothing while a value holds, therefore
+ * charts the same as a snapshot per poll.
+ *
+ * StateAggregator rolls complete buckets up into a StateRollupStore on
+ * a schedule, recording the span rolled up as a watermark.  Queries
+ * read rollups within that span and aggregate only the remainder from
+ * raw state history, so month-long ranges stay cheap.
+ */
+
+import type { DeviceStateSnapshot } from './alexa-api-types';
+import type { DeviceStateStore } from './device-state-store';
+import { PeriodicTask } from '../utils/periodic-task';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+export type StateAggregateBucket = '5m' | '1h' | '1d';
+
+export const STATE_AGGREGATE_BUCKETS: StateAggregateBucket[] = ['5m', '1h', '1d'];
+
+export const STATE_AGGREGATE_BUCKET_MS: Record<StateAggregateBucket, number> = {
+  '5m': 5 * MINUTE,
+  '1h': 60 * MINUTE,
+  '1d': DAY,
+};
+
+/** Range a query covers when it gives no start time */
+const DEFAULT_RANGE_MS: Record<StateAggregateBucket, number> = {
+  '5m': DAY,
+  '1h': 7 * DAY,
+  '1d': 90 * DAY,
+};
+
+const DEFAULT_ROLLUP_INTERVAL_MS = 5 * MINUTE;
+const DEFAULT_BACKFILL_MS = 31 * DAY;
+/** Raw history one rollup step reads; a multiple of every bucket */
+const ROLLUP_CHUNK_MS = DAY;
+const PAGE_SIZE = 1000;
+
+/** One numeric capability of one device */
+export interface StateSeries {
+  deviceId: string;
+  namespace: string;
+  name: string;
+  instance?: string;
+}
+
+export interface StateAggregatePoint {
+  bucketStart: string; // ISO-8601
+  min: number;
+  max: number;
+  /** Time-weighted over the bucket */
+  avg: number;
+  last: number;
+  /** Readings in the bucket; 0 = the previous value held throughout */
+  count: number;
+}
+
+export interface StateRollup extends StateSeries, StateAggregatePoint {
+  bucket: StateAggregateBucket;
+}
+
+export interface StateAggregateQuery {
+  deviceId?: string;
+  /** Device name (case-insensitive), when no deviceId is given */
+  deviceName?: string;
+  namespace: string;
+  name: string;
+  instance?: string;
+  /** Default 1h */
+  bucket?: StateAggregateBucket;
+  /** ISO-8601 (default: 1 day, 7 days or 90 days before endTime, by bucket) */
+  startTime?: string;
+  /** ISO-8601 (default: now) */
+  endTime?: string;
+}
+
+export interface StateAggregateResult extends StateSeries {
+  deviceName?: string;
+  bucket: StateAggregateBucket;
+  startTime: string;
+  endTime: string;
+  points: StateAggregatePoint[];
+  /** Points read from rollups rather than aggregated from raw history */
+  rolledUpCount: number;
+}
+
+export interface StateRollupResult {
+  rollupCount: number;
+  /** Rollup watermark per bucket after the run */
+  rolledUpTo: Partial<Record<StateAggregateBucket, string>>;
+}
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+/** The span of complete buckets rolled up so far */
+export interface StateRollupWatermark {
+  from: string; // ISO-8601
+  to: string;   // ISO-8601
+}
+
+export interface StateRollupStore {
+  /** Insert rollups, replacing any of the same series, bucket and start */
+  upsert(rollups: StateRollup[]): Promise<void>;
+  /** Rollups of a series starting in [startTime, endTime), oldest first */
+  query(series: StateSeries, bucket: StateAggregateBucket, startTime: string, endTime: string): Promise<StateRollup[]>;
+  /** Span rolled up so far, or null before the first rollup */
+  getWatermark(bucket: StateAggregateBucket): Promise<StateRollupWatermark | null>;
+  setWatermark(bucket: StateAggregateBucket, watermark: StateRollupWatermark): Promise<void>;
+  /** Remove rollups starting before `olderThan`, of one bucket or all; returns the count */
+  prune(olderThan: string, bucket?: StateAggregateBucket): Promise<number>;
+}
+
+/**
+ * In-memory rollup store for development and testing.
+ */
+export class InMemoryStateRollupStore implements StateRollupStore {
+  private rollups = new Map<string, StateRollup>();
+  private watermarks = new Map<StateAggregateBucket, StateRollupWatermark>();
+
+  async upsert(rollups: StateRollup[]): Promise<void> {
+    for (const r of rollups) {
+      this.rollups.set(`${seriesKey(r)}|${r.bucket}|${r.bucketStart}`, { ...r });
+    }
+  }
+
+  async query(series: StateSeries, bucket: StateAggregateBucket, startTime: string, endTime: string): Promise<StateRollup[]> {
+    const key = seriesKey(series);
+    return [...this.rollups.values()]
+      .filter((r) => r.bucket === bucket && seriesKey(r) === key)
+      .filter((r) => r.bucketStart >= startTime && r.bucketStart < endTime)
+      .sort((a, b) => a.bucketStart.localeCompare(b.bucketStart))
+      .map((r) => ({ ...r }));
+  }
+
+  async getWatermark(bucket: StateAggregateBucket): Promise<StateRollupWatermark | null> {
+    const watermark = this.watermarks.get(bucket);
+    return watermark ? { ...watermark } : null;
+  }
+
+  async setWatermark(bucket: StateAggregateBucket, watermark: StateRollupWatermark): Promise<void> {
+    this.watermarks.set(bucket, { ...watermark });
+  }
+
+  async prune(olderThan: string, bucket?: StateAggregateBucket): Promise<number> {
+    let removed = 0;
+    for (const [key, r] of this.rollups) {
+      if (r.bucketStart < olderThan && (!bucket || r.bucket === bucket)) {
+        this.rollups.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** A reading of a series, in ms since the epoch */
+export interface StateSample {
+  at: number;
+  value: number;
+}
+
+/**
+ * A capability value as a number: numbers, numeric strings, and
+ * `{ value }` objects such as temperatures.  Null for anything else.
+ */
+export function numericValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  if (value && typeof value === 'object' && 'value' in value) {
+    return numericValue((value as { value: unknown }).value);
+  }
+  return null;
+}
+
+/**
+ * Aggregate samples (oldest first, all within the range) into the
+ * buckets from `startMs` to `endMs`.  `carried` is the value held at
+ * `startMs`.  Buckets before the first value are left out, as are
+ * buckets without samples that start after `untilMs` (the device was
+ * not seen since).
+ */
+export function aggregateSamples(
+  samples: StateSample[],
+  bucket: StateAggregateBucket,
+  startMs: number,
+  endMs: number,
+  carried: number | null = null,
+  untilMs = endMs,
+): StateAggregatePoint[] {
+  const size = STATE_AGGREGATE_BUCKET_MS[bucket];
+  const points: StateAggregatePoint[] = [];
+  let held = carried;
+  let i = 0;
+  for (let t = floorTo(startMs, size); t < endMs; t += size) {
+    const bucketEnd = Math.min(t + size, endMs);
+    // The value held coming in counts unless a reading replaces it right away
+    const values: number[] = held === null || samples[i]?.at <= t ? [] : [held];
+    let weighted = 0;
+    let duration = 0;
+    let from = t;
+    let count = 0;
+    for (; i < samples.length && samples[i].at < bucketEnd; i++) {
+      const sample = samples[i];
+      if (held !== null) {
+        weighted += held * (sample.at - from);
+        duration += sample.at - from;
+      }
+      values.push(sample.value);
+      held = sample.value;
+      from = sample.at;
+      count++;
+    }
+    if (held === null || (count === 0 && t > untilMs)) continue;
+    weighted += held * (bucketEnd - from);
+    duration += bucketEnd - from;
+
+    points.push({
+      bucketStart: new Date(t).toISOString(),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      avg: duration > 0 ? weighted / duration : held,
+      last: held,
+      count,
+    });
+  }
+  return points;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregator
+// ---------------------------------------------------------------------------
+
+export interface StateAggregatorOptions {
+  /** Buckets rolled up on the schedule (default all) */
+  buckets?: StateAggregateBucket[];
+  /** How far back the first rollup of a bucket reaches (default 31 days) */
+  backfillMs?: number;
+  /** A scheduled or requested rollup finished */
+  onRollup?: (result: StateRollupResult) => void;
+  onError?: (error: Error) => void;
+}
+
+export class StateAggregator {
+  private states: DeviceStateStore;
+  private rollups: StateRollupStore;
+  private options: StateAggregatorOptions;
+  private task = new PeriodicTask(() => this.rollup());
+  private rolling: Promise<StateRollupResult> | null = null;
+
+  constructor(states: DeviceStateStore, rollups: StateRollupStore, options: StateAggregatorOptions = {}) {
+    this.states = states;
+    this.rollups = rollups;
+    this.options = options;
+  }
+
+  /** Roll up now, then every `intervalMs`.  Resolves with the first rollup. */
+  async start(intervalMs = DEFAULT_ROLLUP_INTERVAL_MS): Promise<StateRollupResult> {
+    this.task.start(intervalMs);
+    return this.rollup();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  async query(query: StateAggregateQuery, now = Date.now()): Promise<StateAggregateResult> {
+    const bucket = query.bucket ?? '1h';
+    const size = STATE_AGGREGATE_BUCKET_MS[bucket];
+    if (!size) {
+      throw new Error(`Unknown bucket "${bucket}" (expected ${STATE_AGGREGATE_BUCKETS.join(', ')})`);
+    }
+    if (!query.namespace || !query.name) {
+      throw new Error('namespace and name are required');
+    }
+    const latest = await this.findDevice(query);
+    const series: StateSeries = {
+      deviceId: latest.deviceId,
+      namespace: query.namespace,
+      name: query.name,
+      ...(query.instance ? { instance: query.instance } : {}),
+    };
+
+    const endMs = query.endTime ? parseTime(query.endTime, 'endTime') : now;
+    const startMs = floorTo(query.startTime ? parseTime(query.startTime, 'startTime') : endMs - DEFAULT_RANGE_MS[bucket], size);
+    if (startMs >= endMs) {
+      throw new Error('startTime must be before endTime');
+    }
+
+    // Buckets in the rolled-up span come from rollups; those before it
+    // (older than the backfill) and after it come from raw history
+    const watermark = await this.rollups.getWatermark(bucket);
+    let rolledFrom = watermark ? Math.max(startMs, Date.parse(watermark.from)) : startMs;
+    let rolledTo = watermark ? Math.min(Date.parse(watermark.to), floorTo(endMs, size)) : startMs;
+    if (rolledTo <= rolledFrom) rolledFrom = rolledTo = startMs;
+
+    const key = seriesKey(series);
+    const untilMs = Date.parse(latest.polledAt);
+    const points: StateAggregatePoint[] = [];
+    /** Value held at the end of the points so far; undefined = look it up */
+    let carried: number | null | undefined;
+    const aggregateRaw = async (from: number, to: number) => {
+      if (to <= from) return;
+      const held = carried !== undefined ? carried : (await this.valuesBefore(series.deviceId, from)).get(key)?.value ?? null;
+      const samples = (await this.readSamples(from, to, series.deviceId)).get(key)?.samples ?? [];
+      const raw = aggregateSamples(samples, bucket, from, to, held, untilMs);
+      points.push(...raw);
+      carried = raw.length > 0 ? raw[raw.length - 1].last : held;
+    };
+
+    await aggregateRaw(startMs, rolledFrom);
+    const rolled = rolledTo > rolledFrom ? await this.rollups.query(series, bucket, iso(rolledFrom), iso(rolledTo)) : [];
+    points.push(...rolled.map(({ bucketStart, min, max, avg, last, count }) => ({ bucketStart, min, max, avg, last, count })));
+    if (rolledTo > rolledFrom) carried = rolled.length > 0 ? rolled[rolled.length - 1].last : undefined;
+    await aggregateRaw(rolledTo, endMs);
+
+    return {
+      ...series,
+      ...(latest.deviceName ? { deviceName: latest.deviceName } : {}),
+      bucket,
+      startTime: iso(startMs),
+      endTime: iso(endMs),
+      points,
+      rolledUpCount: rolled.length,
+    };
+  }
+
+  /**
+   * Roll up every complete bucket since the last run, for every numeric
+   * series.  Concurrent calls share the run.  Errors go to `onError`.
+   */
+  rollup(now = Date.now()): Promise<StateRollupResult> {
+    if (!this.rolling) {
+      this.rolling = this.rollUp(now).finally(() => {
+        this.rolling = null;
+      });
+    }
+    return this.rolling;
+  }
+
+  /**
+   * Remove `bucket` rollups that start before `olderThan`, moving the
+   * start of the watermark past them so that queries of the pruned range
+   * read whatever raw history is left.  Returns the rollups removed.
+   */
+  async prune(bucket: StateAggregateBucket, olderThan: string): Promise<number> {
+    const removed = await this.rollups.prune(olderThan, bucket);
+    const watermark = await this.rollups.getWatermark(bucket);
+    if (watermark) {
+      const size = STATE_AGGREGATE_BUCKET_MS[bucket];
+      const from = Math.min(Math.ceil(Date.parse(olderThan) / size) * size, Date.parse(watermark.to));
+      if (from > Date.parse(watermark.from)) {
+        await this.rollups.setWatermark(bucket, { from: iso(from), to: watermark.to });
+      }
+    }
+    return removed;
+  }
+
+  private async rollUp(now: number): Promise<StateRollupResult> {
+    const result: StateRollupResult = { rollupCount: 0, rolledUpTo: {} };
+    try {
+      const lastSeen = new Map((await this.states.getAllLatest()).map((s) => [s.deviceId, Date.parse(s.polledAt)]));
+
+      for (const bucket of this.options.buckets ?? STATE_AGGREGATE_BUCKETS) {
+        const size = STATE_AGGREGATE_BUCKET_MS[bucket];
+        const end = floorTo(now, size);
+        const watermark = await this.rollups.getWatermark(bucket);
+        let from = watermark ? Date.parse(watermark.to) : floorTo(now - (this.options.backfillMs ?? DEFAULT_BACKFILL_MS), size);
+        const rolledFrom = watermark?.from ?? iso(from);
+
+        let carried: Map<string, SeriesValue> | null = null;
+        while (from < end) {
+          const to = Math.min(end, from + Math.max(size, ROLLUP_CHUNK_MS));
+          if (!carried) {
+            carried = new Map();
+            for (const deviceId of lastSeen.keys()) {
+              for (const [key, value] of await this.valuesBefore(deviceId, from)) carried.set(key, value);
+            }
+          }
+
+          const rollups: StateRollup[] = [];
+          const samples = await this.readSamples(from, to);
+          for (const key of new Set([...carried.keys(), ...samples.keys()])) {
+            const series = samples.get(key)?.series ?? carried.get(key)!.series;
+            const points = aggregateSamples(
+              samples.get(key)?.samples ?? [], bucket, from, to,
+              carried.get(key)?.value ?? null, lastSeen.get(series.deviceId) ?? to,
+            );
+            if (points.length === 0) continue;
+            rollups.push(...points.map((p) => ({ ...series, bucket, ...p })));
+            carried.set(key, { series, value: points[points.length - 1].last });
+          }
+
+          await this.rollups.upsert(rollups);
+          await this.rollups.setWatermark(bucket, { from: rolledFrom, to: iso(to) });
+          result.rollupCount += rollups.length;
+          from = to;
+        }
+        result.rolledUpTo[bucket] = iso(from);
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.options.onError?.(error);
+      throw error;
+    }
+
+    this.options.onRollup?.(result);
+    return result;
+  }
+
+  /** Latest state of the device the query names. */
+  private async findDevice(query: StateAggregateQuery): Promise<DeviceStateSnapshot> {
+    if (query.deviceId) {
+      const latest = await this.states.getLatest(query.deviceId);
+      if (!latest) throw new Error(`No state history for device "${query.deviceId}"`);
+      return latest;
+    }
+    if (query.deviceName) {
+      const name = query.deviceName.toLowerCase();
+      const latest = (await this.states.getAllLatest()).find((s) => s.deviceName?.toLowerCase() === name);
+      if (!latest) throw new Error(`No state history for a device named "${query.deviceName}"`);
+      return latest;
+    }
+    throw new Error('deviceId or deviceName is required');
+  }
+
+  /** Numeric values of a device's last good snapshot before `atMs`. */
+  private async valuesBefore(deviceId: string, atMs: number): Promise<Map<string, SeriesValue>> {
+    const { snapshots } = await this.states.query({ deviceId, endTime: iso(atMs - 1), limit: 1 });
+    const values = new Map<string, SeriesValue>();
+    for (const [key, value] of numericValues(snapshots[0])) values.set(key, value);
+    return values;
+  }
+
+  /** Samples in [startMs, endMs) by series, oldest first; one device or all. */
+  private async readSamples(startMs: number, endMs: number, deviceId?: string): Promise<Map<string, SeriesSamples>> {
+    const snapshots: DeviceStateSnapshot[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.states.query({
+        ...(deviceId ? { deviceId } : {}),
+        startTime: iso(startMs),
+        endTime: iso(endMs),
+        limit: PAGE_SIZE,
+        offset,
+      });
+      snapshots.push(...page.snapshots);
+      if (page.snapshots.length < PAGE_SIZE) break;
+    }
+
+    const bySeries = new Map<string, SeriesSamples>();
+    for (const snapshot of snapshots.reverse()) {
+      const at = Date.parse(snapshot.polledAt);
+      if (at >= endMs) continue;
+      for (const [key, { series, value }] of numericValues(snapshot)) {
+        const entry = bySeries.get(key) ?? { series, samples: [] };
+        entry.samples.push({ at, value });
+        bySeries.set(key, entry);
+      }
+    }
+    for (const entry of bySeries.values()) entry.samples.sort((a, b) => a.at - b.at);
+    return bySeries;
+  }
+}
+
+interface SeriesValue {
+  series: StateSeries;
+  value: number;
+}
+
+interface SeriesSamples {
+  series: StateSeries;
+  samples: StateSample[];
+}
+
+/** Numeric capabilities of a snapshot by series key; none for an error snapshot. */
+function numericValues(snapshot: DeviceStateSnapshot | undefined): Map<string, SeriesValue> {
+  const values = new Map<string, SeriesValue>();
+  if (!snapshot || snapshot.error) return values;
+  for (const cap of snapshot.capabilities) {
+    const value = numericValue(cap.value);
+    if (value === null) continue;
+    const series: StateSeries = {
+      deviceId: snapshot.deviceId,
+      namespace: cap.namespace,
+      name: cap.name,
+      ...(cap.instance ? { instance: cap.instance } : {}),
+    };
+    values.set(seriesKey(series), { series, value });
+  }
+  return values;
+}
+
+function seriesKey(series: StateSeries): string {
+  return `${series.deviceId}|${series.namespace}|${series.name}|${series.instance ?? ''}`;
+}
+
+function floorTo(ms: number, size: number): number {
+  return Math.floor(ms / size) * size;
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function parseTime(value: string, field: string): number {
+  const ms = Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid ${field} "${value}"`);
+  return ms;
+}
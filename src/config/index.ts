@@ -20,28 +20,119 @@ export interface AlexaAgentConfig {
   storageBackend: 'memory' | 'sqlite';
   /** Path to SQLite database file (when storageBackend = 'sqlite') */
   sqlitePath: string;
+  /**
+   * How SQLite keeps device state history: 'changes' (one row per
+   * property value change, plus keyframes) or 'snapshots' (every poll)
+   */
+  stateStorageMode: 'changes' | 'snapshots';
+  /** Hours between full-state keyframes per device, in 'changes' mode */
+  stateKeyframeIntervalHours: number;
+  /** Minutes between state history rollups for aggregate queries (0 = disabled) */
+  stateRollupIntervalMinutes: number;
+  /** Hours between retention runs that prune old history (0 = disabled) */
+  retentionIntervalHours: number;
+  /** Days to keep logged events (0 = forever) */
+  retentionEventsDays: number;
+  /** Days to keep routine run records (0 = forever) */
+  retentionRoutineRunsDays: number;
+  /** Days to keep raw device state history (0 = forever) */
+  retentionDeviceStatesDays: number;
+  /** Days to keep voice activity records (0 = forever) */
+  retentionActivityDays: number;
+  /** Days to keep push events (0 = forever) */
+  retentionPushEventsDays: number;
+  /** Days to keep media sessions (0 = forever) */
+  retentionMediaSessionsDays: number;
+  /** Days to keep connectivity transitions (0 = forever) */
+  retentionConnectivityDays: number;
+  /** Days to keep 5-minute state rollups (0 = forever) */
+  retentionRollups5mDays: number;
+  /** Days to keep hourly state rollups (0 = forever) */
+  retentionRollups1hDays: number;
+  /** Days to keep daily state rollups (0 = forever) */
+  retentionRollups1dDays: number;
   /** Maximum events to retain in-memory (when storageBackend = 'memory') */
   maxInMemoryEvents: number;
   /** Port for the local webhook server that Lambda forwards to */
   localServerPort: number;
   /** Log level */
   logLevel: 'debug' | 'info' | 'warn' | 'error';
-  /** Auto-poll interval in minutes (0 = disabled). Polls all device states periodically. */
+  /**
+   * Auto-poll interval in minutes for controllable devices (0 = disabled).
+   * Other categories have their own; every interval adapts per device.
+   */
   autoPollIntervalMinutes: number;
+  /** Starting auto-poll interval of sensors (temperature, air quality, contact, motion), in minutes */
+  autoPollSensorIntervalMinutes: number;
+  /** Starting auto-poll interval of devices without readable state (scenes, cameras), in minutes */
+  autoPollStaticIntervalMinutes: number;
+  /** Minutes after push-derived state that auto-poll skips the device */
+  autoPollPushFreshMinutes: number;
+  /** JSON/YAML file of virtual devices served by the local skill handler ('' = none) */
+  virtualDevicesPath: string;
+  /** Record every inbound push frame to this capture file ('' = off) */
+  pushCapturePath: string;
+  /** Push gateway to connect to instead of Amazon's, e.g. a LocalPushGateway ('' = Amazon) */
+  pushGatewayUrl: string;
+  /** Start the push listener when the server starts (and keep it running) */
+  pushAutoStart: boolean;
+  /** Minutes without events or heartbeats before a push connection is reconnected */
+  pushStallTimeoutMinutes: number;
+  /** Timeout of one Alexa account API request, in milliseconds */
+  alexaApiTimeoutMs: number;
+  /** Retries of an idempotent Alexa account API request (network errors, timeouts, 429/502/503/504) */
+  alexaApiMaxRetries: number;
+  /** Refresh token exchange endpoint instead of Amazon's, e.g. a local stand-in ('' = Amazon) */
+  cookieExchangeUrl: string;
+  /** Alexa site the csrf cookie is fetched from after an exchange ('' = the region's) */
+  cookieCsrfUrl: string;
+  /** Hours before the cookie's estimated expiry that it is rotated (with a refresh token) */
+  cookieRefreshBeforeExpiryHours: number;
 }
 
 export function loadConfig(overrides: Partial<AlexaAgentConfig> = {}): AlexaAgentConfig {
-  return {
+  const config: AlexaAgentConfig = {
     clientId: process.env.ALEXA_CLIENT_ID ?? '',
     clientSecret: process.env.ALEXA_CLIENT_SECRET ?? '',
     region: (process.env.ALEXA_REGION as AlexaRegion) ?? 'NA',
     skillId: process.env.ALEXA_SKILL_ID ?? '',
     storageBackend: (process.env.STORAGE_BACKEND as 'memory' | 'sqlite') ?? 'sqlite',
     sqlitePath: process.env.SQLITE_PATH ?? './alexa-agent.db',
+    stateStorageMode: (process.env.STATE_STORAGE_MODE as 'changes' | 'snapshots') ?? 'changes',
+    stateKeyframeIntervalHours: parseInt(process.env.STATE_KEYFRAME_INTERVAL_HOURS ?? '24', 10),
+    stateRollupIntervalMinutes: parseInt(process.env.STATE_ROLLUP_INTERVAL_MINUTES ?? '5', 10),
+    retentionIntervalHours: parseInt(process.env.RETENTION_INTERVAL_HOURS ?? '6', 10),
+    retentionEventsDays: parseInt(process.env.RETENTION_EVENTS_DAYS ?? '90', 10),
+    retentionRoutineRunsDays: parseInt(process.env.RETENTION_ROUTINE_RUNS_DAYS ?? '90', 10),
+    retentionDeviceStatesDays: parseInt(process.env.RETENTION_DEVICE_STATES_DAYS ?? '30', 10),
+    retentionActivityDays: parseInt(process.env.RETENTION_ACTIVITY_DAYS ?? '90', 10),
+    retentionPushEventsDays: parseInt(process.env.RETENTION_PUSH_EVENTS_DAYS ?? '14', 10),
+    retentionMediaSessionsDays: parseInt(process.env.RETENTION_MEDIA_SESSIONS_DAYS ?? '90', 10),
+    retentionConnectivityDays: parseInt(process.env.RETENTION_CONNECTIVITY_DAYS ?? '90', 10),
+    retentionRollups5mDays: parseInt(process.env.RETENTION_ROLLUPS_5M_DAYS ?? '30', 10),
+    retentionRollups1hDays: parseInt(process.env.RETENTION_ROLLUPS_1H_DAYS ?? '365', 10),
+    retentionRollups1dDays: parseInt(process.env.RETENTION_ROLLUPS_1D_DAYS ?? '0', 10),
     maxInMemoryEvents: parseInt(process.env.MAX_MEMORY_EVENTS ?? '10000', 10),
     localServerPort: parseInt(process.env.LOCAL_SERVER_PORT ?? '3100', 10),
     logLevel: (process.env.LOG_LEVEL as AlexaAgentConfig['logLevel']) ?? 'info',
     autoPollIntervalMinutes: parseInt(process.env.AUTO_POLL_INTERVAL_MINUTES ?? '10', 10),
+    autoPollSensorIntervalMinutes: parseInt(process.env.AUTO_POLL_SENSOR_INTERVAL_MINUTES ?? '2', 10),
+    autoPollStaticIntervalMinutes: parseInt(process.env.AUTO_POLL_STATIC_INTERVAL_MINUTES ?? '360', 10),
+    autoPollPushFreshMinutes: parseInt(process.env.AUTO_POLL_PUSH_FRESH_MINUTES ?? '15', 10),
+    virtualDevicesPath: process.env.VIRTUAL_DEVICES_PATH ?? '',
+    pushCapturePath: process.env.PUSH_CAPTURE_PATH ?? '',
+    pushGatewayUrl: process.env.PUSH_GATEWAY_URL ?? '',
+    pushAutoStart: process.env.PUSH_AUTO_START !== 'false',
+    pushStallTimeoutMinutes: parseInt(process.env.PUSH_STALL_TIMEOUT_MINUTES ?? '10', 10),
+    alexaApiTimeoutMs: parseInt(process.env.ALEXA_API_TIMEOUT_MS ?? '15000', 10),
+    alexaApiMaxRetries: parseInt(process.env.ALEXA_API_MAX_RETRIES ?? '3', 10),
+    cookieExchangeUrl: process.env.COOKIE_EXCHANGE_URL ?? '',
+    cookieCsrfUrl: process.env.COOKIE_CSRF_URL ?? '',
+    cookieRefreshBeforeExpiryHours: parseInt(process.env.COOKIE_REFRESH_BEFORE_EXPIRY_HOURS ?? '48', 10),
     ...overrides,
   };
+  if (config.stateStorageMode !== 'changes' && config.stateStorageMode !== 'snapshots') {
+    throw new Error(`Unknown state storage mode "${config.stateStorageMode}"; STATE_STORAGE_MODE must be "changes" or "snapshots"`);
+  }
+  return config;
 }
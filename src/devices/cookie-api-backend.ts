@@ -0,0 +1,208 @@
+/**
+ * Device backend that drives real devices through the Alexa account
+ * (cookie) API.
+ *
+ * Smart Home endpoint IDs are not what the account API understands:
+ * commands target the device's `entityId` and state polls target its
+ * `legacyAppliance.applianceId`.  The backend keeps an
+ * endpointId → applianceId mapping — given up front, or resolved from
+ * the account's GraphQL endpoint list.  The list is fetched on first
+ * use and again once it is older than `endpointCacheTtlMs`, or when an
+ * endpoint is not on it (at most once a minute), so devices added or
+ * removed on the account are picked up.
+ *
+ * ReportState polls the device's current state (`/api/phoenix/state`).
+ * Account API failures come back as an ENDPOINT_UNREACHABLE
+ * ErrorResponse, never as a thrown error.
+ */
+
+import type { AlexaMessage, Color, Temperature, ThermostatMode } from '../types/alexa';
+import type { AlexaApiClient } from '../alexa-api/alexa-api-client';
+import type { AccountDeviceCommand, DeviceStateSnapshot } from '../alexa-api/alexa-api-types';
+import type { DeviceBackend } from './device-backend';
+import { buildDirectiveResponse, buildDirectiveError } from './device-backend';
+import { capabilityToPropertyState } from './device-state';
+
+const DEFAULT_ENDPOINT_CACHE_TTL_MS = 60 * 60_000;
+const MIN_REFETCH_INTERVAL_MS = 60_000;
+
+interface ApplianceTarget {
+  applianceId: string;
+  entityId: string;
+}
+
+export interface CookieApiDeviceBackendOptions {
+  /** How long the account's endpoint list is used before it is fetched again (default 1 hour) */
+  endpointCacheTtlMs?: number;
+}
+
+export class CookieApiDeviceBackend implements DeviceBackend {
+  readonly name = 'cookie_api';
+
+  /** Explicit endpointId → applianceId mapping */
+  private applianceIds: Map<string, string>;
+  /** Learned from the account: endpointId → applianceId, applianceId → entityId */
+  private endpointAppliances = new Map<string, string>();
+  private applianceEntities = new Map<string, string>();
+  private loadedAt: number | null = null;
+
+  /**
+   * @param api           Client with credentials loaded (or loaded before the first directive)
+   * @param applianceIds  Optional endpointId → applianceId mapping; unmapped endpoints
+   *                      are looked up in the account's endpoint list
+   */
+  constructor(
+    private api: AlexaApiClient,
+    applianceIds?: Record<string, string>,
+    private options: CookieApiDeviceBackendOptions = {},
+  ) {
+    this.applianceIds = new Map(Object.entries(applianceIds ?? {}));
+  }
+
+  /** Forget the account's endpoint list so it is fetched again. */
+  refresh(): void {
+    this.loadedAt = null;
+    this.endpointAppliances.clear();
+    this.applianceEntities.clear();
+  }
+
+  async handleDirective(message: AlexaMessage): Promise<AlexaMessage> {
+    const directive = message.directive;
+    const endpointId = directive?.endpoint?.endpointId;
+    if (!directive || !endpointId) {
+      return buildDirectiveError(message, 'INVALID_DIRECTIVE', 'Directive has no endpoint');
+    }
+
+    let target: ApplianceTarget | null;
+    try {
+      target = await this.resolve(endpointId);
+    } catch (err) {
+      return buildDirectiveError(message, 'ENDPOINT_UNREACHABLE', `Could not list the account's endpoints: ${(err as Error).message}`);
+    }
+    if (!target) {
+      return buildDirectiveError(
+        message,
+        'NO_SUCH_ENDPOINT',
+        `No appliance on the Alexa account matches endpoint ${endpointId}`,
+      );
+    }
+
+    const { namespace, name } = directive.header;
+    if (!(namespace === 'Alexa' && name === 'ReportState')) {
+      const command = directiveToCommand(namespace, name, directive.payload);
+      if (!command) {
+        return buildDirectiveError(
+          message,
+          'INVALID_DIRECTIVE',
+          `${namespace}.${name} is not supported by the Alexa account API`,
+        );
+      }
+      try {
+        await this.api.sendSmartHomeCommand({ entityId: target.entityId, command });
+      } catch (err) {
+        return buildDirectiveError(message, 'ENDPOINT_UNREACHABLE', (err as Error).message);
+      }
+      // The account API does not echo state back; callers follow up
+      // with ReportState for the resulting state.
+      return buildDirectiveResponse(message, []);
+    }
+
+    let snapshot: DeviceStateSnapshot | undefined;
+    try {
+      [snapshot] = await this.api.getDeviceStates([target.applianceId]);
+    } catch (err) {
+      return buildDirectiveError(message, 'ENDPOINT_UNREACHABLE', (err as Error).message);
+    }
+    if (!snapshot || snapshot.error) {
+      return buildDirectiveError(
+        message,
+        'ENDPOINT_UNREACHABLE',
+        snapshot?.error ?? `No state returned for appliance ${target.applianceId}`,
+      );
+    }
+
+    const properties = snapshot.capabilities.map((cap) => capabilityToPropertyState(cap, snapshot.polledAt));
+    return buildDirectiveResponse(message, properties);
+  }
+
+  /**
+   * Find the appliance for an endpoint.  Explicit mappings win; otherwise
+   * the endpoint is matched on its GraphQL endpointId/id, or taken to be
+   * an applianceId itself.
+   */
+  private async resolve(endpointId: string): Promise<ApplianceTarget | null> {
+    const ttl = this.options.endpointCacheTtlMs ?? DEFAULT_ENDPOINT_CACHE_TTL_MS;
+    if (this.loadedAt === null || Date.now() - this.loadedAt >= ttl) {
+      await this.load();
+    }
+
+    let applianceId = this.lookup(endpointId);
+    if (!applianceId && Date.now() - this.loadedAt! >= MIN_REFETCH_INTERVAL_MS) {
+      await this.load();
+      applianceId = this.lookup(endpointId);
+    }
+    if (!applianceId) return null;
+
+    return { applianceId, entityId: this.applianceEntities.get(applianceId) ?? applianceId };
+  }
+
+  private lookup(endpointId: string): string | undefined {
+    return this.applianceIds.get(endpointId)
+      ?? this.endpointAppliances.get(endpointId)
+      ?? (this.applianceEntities.has(endpointId) ? endpointId : undefined);
+  }
+
+  private async load(): Promise<void> {
+    const endpoints = await this.api.getSmartHomeEndpoints();
+    this.endpointAppliances.clear();
+    this.applianceEntities.clear();
+    for (const ep of endpoints) {
+      const appliance = ep.legacyAppliance;
+      if (!appliance?.applianceId) continue;
+      this.applianceEntities.set(appliance.applianceId, appliance.entityId ?? appliance.applianceId);
+      if (ep.endpointId) this.endpointAppliances.set(ep.endpointId, appliance.applianceId);
+      if (ep.id) this.endpointAppliances.set(ep.id, appliance.applianceId);
+    }
+    this.loadedAt = Date.now();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Translation helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Map a control directive to the account API command it corresponds to.
+ * Returns null for directives the account API cannot express.
+ */
+function directiveToCommand(
+  namespace: string,
+  name: string,
+  payload: Record<string, unknown>,
+): AccountDeviceCommand | null {
+  switch (`${namespace}.${name}`) {
+    case 'Alexa.PowerController.TurnOn':
+      return { action: 'turn_on' };
+    case 'Alexa.PowerController.TurnOff':
+      return { action: 'turn_off' };
+    case 'Alexa.BrightnessController.SetBrightness':
+      return { action: 'set_brightness', brightness: payload.brightness as number };
+    case 'Alexa.ColorController.SetColor':
+      return { action: 'set_color', color: payload.color as Color };
+    case 'Alexa.ColorTemperatureController.SetColorTemperature':
+      return {
+        action: 'set_color_temperature',
+        colorTemperatureInKelvin: payload.colorTemperatureInKelvin as number,
+      };
+    case 'Alexa.ThermostatController.SetTargetTemperature':
+      return {
+        action: 'set_thermostat',
+        targetSetpoint: payload.targetSetpoint as Temperature,
+        ...(payload.thermostatMode ? { mode: payload.thermostatMode as ThermostatMode } : {}),
+      };
+    case 'Alexa.Speaker.SetVolume':
+      return { action: 'set_volume', volume: payload.volume as number };
+    default:
+      return null;
+  }
+}
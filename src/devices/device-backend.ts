@@ -0,0 +1,93 @@
+/**
+ * Device backends — where Smart Home directives actually go.
+ *
+ * A backend receives a directive built by the DeviceController and
+ * answers with the message the device would send back: an
+ * `Alexa.Response` (control directives), a `StateReport` (ReportState)
+ * or an `ErrorResponse`.  A StateReport carries the endpoint's current
+ * properties in `context.properties` and is parsed with
+ * `DeviceController.parseStateReport`; a Response may carry them too.
+ *
+ * `handleDirective` has the same shape as the Lambda handler's
+ * `onDeviceDirective` callback, so a backend can be plugged in there too.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { AlexaMessage, AlexaPropertyState } from '../types/alexa';
+
+export interface DeviceBackend {
+  /** Short identifier, used in logs */
+  readonly name: string;
+  handleDirective(message: AlexaMessage): Promise<AlexaMessage>;
+}
+
+/** Error types from the Alexa.ErrorResponse interface that backends use. */
+export type DeviceErrorType =
+  | 'NO_SUCH_ENDPOINT'
+  | 'INVALID_DIRECTIVE'
+  | 'INVALID_VALUE'
+  | 'ENDPOINT_UNREACHABLE'
+  | 'INTERNAL_ERROR';
+
+// ---------------------------------------------------------------------------
+// Response builders
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the success response for a directive: a `StateReport` for
+ * ReportState, an `Alexa.Response` for everything else.
+ */
+export function buildDirectiveResponse(
+  message: AlexaMessage,
+  properties: AlexaPropertyState[],
+): AlexaMessage {
+  const directive = message.directive;
+  const name = directive?.header.name === 'ReportState' ? 'StateReport' : 'Response';
+
+  return {
+    event: {
+      header: {
+        namespace: 'Alexa',
+        name,
+        messageId: uuid(),
+        correlationToken: directive?.header.correlationToken,
+        payloadVersion: '3',
+      },
+      endpoint: directive?.endpoint,
+      payload: {},
+    },
+    context: { properties },
+  };
+}
+
+export function buildDirectiveError(
+  message: AlexaMessage,
+  type: DeviceErrorType,
+  errorMessage: string,
+): AlexaMessage {
+  const directive = message.directive;
+
+  return {
+    event: {
+      header: {
+        namespace: 'Alexa',
+        name: 'ErrorResponse',
+        messageId: uuid(),
+        correlationToken: directive?.header.correlationToken,
+        payloadVersion: '3',
+      },
+      endpoint: directive?.endpoint,
+      payload: { type, message: errorMessage },
+    },
+  };
+}
+
+/**
+ * If `response` is an ErrorResponse, return "TYPE: message"; otherwise null.
+ */
+export function describeErrorResponse(response: AlexaMessage): string | null {
+  const event = response.event;
+  if (!event || event.header.name !== 'ErrorResponse') return null;
+  const payload = event.payload as { type?: string; message?: string };
+  return `${payload.type ?? 'INTERNAL_ERROR'}: ${payload.message ?? 'unknown error'}`;
+}
@@ -10,9 +10,11 @@ import type { DiscoveredDevice, DisplayCategory } from '../types/alexa';
 
 export class DeviceRegistry {
   private devices = new Map<string, DiscoveredDevice>();
+  private loaded = false;
 
   /** Replace the entire device list (called after a Discover response). */
   setAll(devices: DiscoveredDevice[]): void {
+    this.loaded = true;
     this.devices.clear();
     for (const d of devices) {
       this.devices.set(d.endpointId, d);
@@ -46,6 +48,14 @@ export class DeviceRegistry {
     return this.devices.size;
   }
 
+  /**
+   * Whether a full device list was set since startup.  Until then the
+   * registry only holds devices upserted one by one.
+   */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
   /** Check whether a device with the given ID exists. */
   has(endpointId: string): boolean {
     return this.devices.has(endpointId);
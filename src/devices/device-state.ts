@@ -0,0 +1,114 @@
+/**
+ * Device state assembly — turns cached account-API snapshots and live
+ * ReportState answers into Alexa property states.
+ *
+ * Two ages matter for a property value:
+ * - `timeOfSample` is when the device measured it, so the sample age is
+ *   `now - timeOfSample`;
+ * - `uncertaintyInMilliseconds` is how long since the value was last
+ *   confirmed, i.e. since the snapshot holding it was polled.  A live
+ *   read is confirmed now; a cached one is as uncertain as it is old.
+ */
+
+import type { AlexaPropertyState, DiscoveredDevice } from '../types/alexa';
+import type { ParsedCapabilityState } from '../alexa-api/alexa-api-types';
+
+/** How `get_device_state` obtains state. */
+export type DeviceStateReadMode = 'cache_only' | 'live' | 'live_with_fallback';
+
+/** Where a property value came from. */
+export type DeviceStateSource = 'cache' | 'live';
+
+/** Freshness of one property in a device state read. */
+export interface DevicePropertyReading {
+  namespace: string;
+  name: string;
+  instance?: string;
+  source: DeviceStateSource;
+  /** Milliseconds since the device sampled the value */
+  sampleAgeMs: number;
+  uncertaintyInMilliseconds: number;
+}
+
+/**
+ * Convert a capability from a polled snapshot into an Alexa property
+ * state, as of `now`.
+ */
+export function capabilityToPropertyState(
+  cap: ParsedCapabilityState,
+  polledAt: string,
+  now: Date = new Date(),
+): AlexaPropertyState {
+  return {
+    namespace: cap.namespace,
+    name: cap.name,
+    ...(cap.instance ? { instance: cap.instance } : {}),
+    value: cap.value,
+    timeOfSample: cap.timeOfSample ?? polledAt,
+    uncertaintyInMilliseconds: Math.max(0, now.getTime() - Date.parse(polledAt)),
+  };
+}
+
+/** The inverse, for storing a live read as a snapshot. */
+export function propertyStateToCapability(property: AlexaPropertyState): ParsedCapabilityState {
+  return {
+    namespace: property.namespace,
+    name: property.name,
+    value: property.value,
+    timeOfSample: property.timeOfSample,
+    ...(property.instance ? { instance: property.instance } : {}),
+  };
+}
+
+export function propertyKey(property: { namespace: string; name: string; instance?: string }): string {
+  return property.instance
+    ? `${property.namespace}.${property.name}:${property.instance}`
+    : `${property.namespace}.${property.name}`;
+}
+
+/**
+ * Whether the device's discovery declares the property as proactively
+ * reported — only those may appear in a ChangeReport's changes.
+ */
+export function isProactivelyReported(
+  device: DiscoveredDevice,
+  property: { namespace: string; name: string; instance?: string },
+): boolean {
+  return device.capabilities.some((cap) =>
+    cap.interface === property.namespace &&
+    (cap.instance ?? undefined) === (property.instance ?? undefined) &&
+    cap.properties?.proactivelyReported === true &&
+    cap.properties.supported.some((s) => s.name === property.name));
+}
+
+/**
+ * Merge cached and live properties.  Live values replace cached values
+ * of the same property; cached properties the live report left out are
+ * kept.  Returns the merged properties and a reading per property.
+ */
+export function mergePropertyStates(
+  cached: AlexaPropertyState[],
+  live: AlexaPropertyState[],
+  now: Date = new Date(),
+): { properties: AlexaPropertyState[]; readings: DevicePropertyReading[] } {
+  const merged = new Map<string, { property: AlexaPropertyState; source: DeviceStateSource }>();
+  for (const property of cached) merged.set(propertyKey(property), { property, source: 'cache' });
+  for (const property of live) merged.set(propertyKey(property), { property, source: 'live' });
+
+  const properties: AlexaPropertyState[] = [];
+  const readings: DevicePropertyReading[] = [];
+  for (const { property, source } of merged.values()) {
+    properties.push(property);
+    const sampledAt = Date.parse(property.timeOfSample);
+    readings.push({
+      namespace: property.namespace,
+      name: property.name,
+      ...(property.instance ? { instance: property.instance } : {}),
+      source,
+      sampleAgeMs: Number.isNaN(sampledAt) ? 0 : Math.max(0, now.getTime() - sampledAt),
+      uncertaintyInMilliseconds: property.uncertaintyInMilliseconds,
+    });
+  }
+
+  return { properties, readings };
+}
@@ -0,0 +1,49 @@
+/**
+ * Storage for the endpoint set Alexa last acknowledged — the baseline
+ * discovery sync diffs against.  Persisting it keeps a restart from
+ * re-sending reports for endpoints Alexa already has.
+ */
+
+export interface AcknowledgedEndpoint {
+  endpointId: string;
+  /** Hash of the endpoint definition Alexa has */
+  fingerprint: string;
+  acknowledgedAt: string; // ISO-8601
+}
+
+export interface DiscoveryStateStore {
+  list(userId: string): Promise<AcknowledgedEndpoint[]>;
+  /** Insert or update acknowledged endpoints */
+  upsert(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void>;
+  remove(userId: string, endpointIds: string[]): Promise<void>;
+  /** Replace the whole acknowledged set (after a full Discover) */
+  replace(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void>;
+}
+
+/**
+ * In-memory discovery state store for development and testing.
+ */
+export class InMemoryDiscoveryStateStore implements DiscoveryStateStore {
+  private store = new Map<string, Map<string, AcknowledgedEndpoint>>();
+
+  async list(userId: string): Promise<AcknowledgedEndpoint[]> {
+    return [...(this.store.get(userId)?.values() ?? [])].map((e) => ({ ...e }));
+  }
+
+  async upsert(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void> {
+    const acknowledged = this.store.get(userId) ?? new Map<string, AcknowledgedEndpoint>();
+    for (const e of endpoints) acknowledged.set(e.endpointId, { ...e });
+    this.store.set(userId, acknowledged);
+  }
+
+  async remove(userId: string, endpointIds: string[]): Promise<void> {
+    const acknowledged = this.store.get(userId);
+    if (!acknowledged) return;
+    for (const id of endpointIds) acknowledged.delete(id);
+  }
+
+  async replace(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void> {
+    this.store.delete(userId);
+    await this.upsert(userId, endpoints);
+  }
+}
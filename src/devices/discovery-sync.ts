@@ -0,0 +1,188 @@
+/**
+ * Discovery sync — keeps Alexa's view of the skill's endpoints current
+ * without the user re-running "discover devices".
+ *
+ * The current endpoint set is diffed against the set Alexa last
+ * acknowledged (a full Discover, or an earlier sync):
+ * - new or changed endpoints go out in an AddOrUpdateReport;
+ * - endpoints that disappeared go out in a DeleteReport.
+ *
+ * Endpoints are compared by a fingerprint of their whole definition, so
+ * a renamed device or a new capability counts as a change.  Each report
+ * that the Event Gateway accepts is persisted straight away; a failed
+ * one is simply retried on the next sync.
+ *
+ * A source that has not loaded its endpoints yet, or that returns none
+ * while Alexa knows some, is not trusted: deleting everything Alexa
+ * knows is never what a sync means, so nothing is sent.
+ */
+
+import crypto from 'crypto';
+import type { DiscoveredDevice } from '../types/alexa';
+import type { AuthManager } from '../auth';
+import type { EventGatewayClient, EventLogger } from '../events';
+import type { DeviceRegistry } from './device-registry';
+import type { DiscoveryStateStore, AcknowledgedEndpoint } from './discovery-store';
+
+/** Alexa accepts at most 300 endpoints per discovery report */
+const MAX_ENDPOINTS_PER_REPORT = 300;
+
+export interface DiscoverySyncOptions {
+  userId: string;
+  /** The endpoint set the skill currently exposes; null while it is not known yet */
+  getEndpoints: () => Promise<DiscoveredDevice[] | null>;
+}
+
+export interface DiscoverySyncResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  /** True when the diff was computed but nothing was sent */
+  dryRun: boolean;
+}
+
+export class DiscoverySync {
+  private gateway: EventGatewayClient;
+  private auth: AuthManager;
+  private eventLogger: EventLogger;
+  private store: DiscoveryStateStore;
+  private registry: DeviceRegistry;
+  private options: DiscoverySyncOptions;
+
+  constructor(
+    gateway: EventGatewayClient,
+    auth: AuthManager,
+    eventLogger: EventLogger,
+    store: DiscoveryStateStore,
+    registry: DeviceRegistry,
+    options: DiscoverySyncOptions,
+  ) {
+    this.gateway = gateway;
+    this.auth = auth;
+    this.eventLogger = eventLogger;
+    this.store = store;
+    this.registry = registry;
+    this.options = options;
+  }
+
+  /**
+   * Report the difference between the current and the acknowledged
+   * endpoint sets to Alexa.  With `dryRun`, only computes the diff.
+   * Throws if a report is rejected; reports sent before it stay
+   * acknowledged.  Throws without sending anything when the endpoint
+   * set is not known yet, or is empty while Alexa knows endpoints.
+   */
+  async sync(dryRun = false): Promise<DiscoverySyncResult> {
+    const current = await this.options.getEndpoints();
+    if (!current) {
+      throw new Error('The skill\'s endpoints are not loaded yet; nothing was sent. Discover devices in the Alexa app first.');
+    }
+    const acknowledged = new Map(
+      (await this.store.list(this.options.userId)).map((e) => [e.endpointId, e]),
+    );
+    if (current.length === 0 && acknowledged.size > 0 && !dryRun) {
+      throw new Error(
+        `The endpoint source returned no endpoints; refusing to delete all ${acknowledged.size} endpoints Alexa knows`,
+      );
+    }
+
+    const added: DiscoveredDevice[] = [];
+    const updated: DiscoveredDevice[] = [];
+    let unchanged = 0;
+    for (const device of current) {
+      const previous = acknowledged.get(device.endpointId);
+      if (!previous) added.push(device);
+      else if (previous.fingerprint !== fingerprintEndpoint(device)) updated.push(device);
+      else unchanged++;
+    }
+
+    const currentIds = new Set(current.map((d) => d.endpointId));
+    const removed = [...acknowledged.keys()].filter((id) => !currentIds.has(id));
+
+    const result: DiscoverySyncResult = {
+      added: added.map((d) => d.endpointId),
+      updated: updated.map((d) => d.endpointId),
+      removed,
+      unchanged,
+      dryRun,
+    };
+    if (dryRun || (added.length === 0 && updated.length === 0 && removed.length === 0)) {
+      return result;
+    }
+
+    const accessToken = await this.auth.getAccessToken(this.options.userId);
+
+    for (const batch of chunk([...added, ...updated], MAX_ENDPOINTS_PER_REPORT)) {
+      await this.gateway.sendAddOrUpdateReport({ accessToken, endpoints: batch });
+      await this.store.upsert(this.options.userId, batch.map((d) => toAcknowledged(d)));
+      for (const device of batch) this.registry.upsert(device);
+      await this.log('AddOrUpdateReportSent', batch.map((d) => d.endpointId));
+    }
+
+    for (const batch of chunk(removed, MAX_ENDPOINTS_PER_REPORT)) {
+      await this.gateway.sendDeleteReport({ accessToken, endpointIds: batch });
+      await this.store.remove(this.options.userId, batch);
+      for (const endpointId of batch) this.registry.remove(endpointId);
+      await this.log('DeleteReportSent', batch);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a full Discover response as acknowledged — Alexa now knows
+   * exactly these endpoints.
+   */
+  async acknowledge(devices: DiscoveredDevice[]): Promise<void> {
+    await this.store.replace(this.options.userId, devices.map((d) => toAcknowledged(d)));
+  }
+
+  private async log(eventType: string, endpointIds: string[]): Promise<void> {
+    await this.eventLogger.logCustomEvent({
+      eventType,
+      namespace: 'DiscoverySync',
+      userId: this.options.userId,
+      payload: { endpointIds, count: endpointIds.length },
+      tags: ['discovery'],
+    }).catch(() => {});
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Hash of an endpoint definition, independent of object key order. */
+export function fingerprintEndpoint(device: DiscoveredDevice): string {
+  return crypto.createHash('sha1').update(canonicalJson(device)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toAcknowledged(device: DiscoveredDevice, now = new Date()): AcknowledgedEndpoint {
+  return {
+    endpointId: device.endpointId,
+    fingerprint: fingerprintEndpoint(device),
+    acknowledgedAt: now.toISOString(),
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
@@ -1,2 +1,16 @@
 export { DeviceRegistry } from './device-registry';
 export { DeviceController } from './device-controller';
+export { SimulatedDeviceBackend } from './simulated-backend';
+export { CookieApiDeviceBackend } from './cookie-api-backend';
+export { buildDirectiveResponse, buildDirectiveError, describeErrorResponse } from './device-backend';
+export type { DeviceBackend, DeviceErrorType } from './device-backend';
+export type { SimulatedProperty } from './simulated-backend';
+export type { CookieApiDeviceBackendOptions } from './cookie-api-backend';
+export { VirtualDeviceSimulator, loadVirtualDevices, parseVirtualDevices, VIRTUAL_CAPABILITIES } from './virtual-devices';
+export type { VirtualDeviceDefinition } from './virtual-devices';
+export { capabilityToPropertyState, propertyStateToCapability, mergePropertyStates, propertyKey, isProactivelyReported } from './device-state';
+export type { DeviceStateReadMode, DeviceStateSource, DevicePropertyReading } from './device-state';
+export { DiscoverySync, fingerprintEndpoint } from './discovery-sync';
+export type { DiscoverySyncOptions, DiscoverySyncResult } from './discovery-sync';
+export { InMemoryDiscoveryStateStore } from './discovery-store';
+export type { DiscoveryStateStore, AcknowledgedEndpoint } from './discovery-store';
@@ -0,0 +1,196 @@
+/**
+ * In-process simulated device backend.
+ *
+ * Keeps a property table per endpoint and applies control directives
+ * to it, answering like a well-behaved Smart Home device would.  Used
+ * in tests and for local development without real hardware.
+ */
+
+import type { AlexaMessage, AlexaPropertyState } from '../types/alexa';
+import type { DeviceBackend } from './device-backend';
+import { buildDirectiveResponse, buildDirectiveError } from './device-backend';
+
+/** A property value without sampling metadata. */
+export type SimulatedProperty = Pick<AlexaPropertyState, 'namespace' | 'name' | 'value'>;
+
+export class SimulatedDeviceBackend implements DeviceBackend {
+  readonly name = 'simulated';
+
+  /** endpointId → "namespace.name" → property */
+  private endpoints = new Map<string, Map<string, AlexaPropertyState>>();
+
+  /** Every directive received, oldest first */
+  readonly received: AlexaMessage[] = [];
+
+  constructor(endpoints?: Record<string, SimulatedProperty[]>) {
+    for (const [endpointId, properties] of Object.entries(endpoints ?? {})) {
+      this.addEndpoint(endpointId, properties);
+    }
+  }
+
+  addEndpoint(endpointId: string, properties: SimulatedProperty[] = []): void {
+    this.endpoints.set(endpointId, new Map());
+    for (const p of properties) {
+      this.setProperty(endpointId, p.namespace, p.name, p.value);
+    }
+  }
+
+  removeEndpoint(endpointId: string): boolean {
+    return this.endpoints.delete(endpointId);
+  }
+
+  hasEndpoint(endpointId: string): boolean {
+    return this.endpoints.has(endpointId);
+  }
+
+  /**
+   * Change a property as if the device had changed on its own
+   * (e.g. someone flipped the physical switch).
+   */
+  setProperty(endpointId: string, namespace: string, name: string, value: unknown): void {
+    const props = this.endpoints.get(endpointId);
+    if (!props) throw new Error(`Simulated endpoint ${endpointId} not found`);
+    props.set(`${namespace}.${name}`, {
+      namespace,
+      name,
+      value,
+      timeOfSample: new Date().toISOString(),
+      uncertaintyInMilliseconds: 0,
+    });
+  }
+
+  getProperties(endpointId: string): AlexaPropertyState[] {
+    return [...(this.endpoints.get(endpointId)?.values() ?? [])];
+  }
+
+  async handleDirective(message: AlexaMessage): Promise<AlexaMessage> {
+    this.received.push(message);
+
+    const directive = message.directive;
+    const endpointId = directive?.endpoint?.endpointId;
+    if (!directive || !endpointId) {
+      return buildDirectiveError(message, 'INVALID_DIRECTIVE', 'Directive has no endpoint');
+    }
+    if (!this.endpoints.has(endpointId)) {
+      return buildDirectiveError(message, 'NO_SUCH_ENDPOINT', `Endpoint ${endpointId} does not exist`);
+    }
+
+    const { namespace, name } = directive.header;
+    if (namespace === 'Alexa' && name === 'ReportState') {
+      return buildDirectiveResponse(message, this.getProperties(endpointId));
+    }
+
+    let changes: SimulatedProperty[] | null;
+    try {
+      changes = directiveToProperties(
+        namespace,
+        name,
+        directive.payload,
+        (propName) => this.endpoints.get(endpointId)!.get(`${namespace}.${propName}`)?.value,
+      );
+    } catch (err) {
+      return buildDirectiveError(message, 'INVALID_VALUE', (err as Error).message);
+    }
+    if (!changes) {
+      return buildDirectiveError(message, 'INVALID_DIRECTIVE', `Unsupported directive ${namespace}.${name}`);
+    }
+
+    for (const change of changes) {
+      this.setProperty(endpointId, change.namespace, change.name, change.value);
+    }
+
+    return buildDirectiveResponse(message, this.getProperties(endpointId));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Directive → property changes
+// ---------------------------------------------------------------------------
+
+/**
+ * Property changes a directive causes.  `current` reads the endpoint's
+ * current value of a property in the directive's namespace (for Adjust*
+ * directives).  Returns null for directives the simulator does not
+ * understand; throws for out-of-range values.
+ */
+function directiveToProperties(
+  namespace: string,
+  name: string,
+  payload: Record<string, unknown>,
+  current: (propName: string) => unknown,
+): SimulatedProperty[] | null {
+  const prop = (value: unknown, propName: string): SimulatedProperty => ({
+    namespace,
+    name: propName,
+    value,
+  });
+
+  switch (`${namespace}.${name}`) {
+    case 'Alexa.PowerController.TurnOn':
+      return [prop('ON', 'powerState')];
+    case 'Alexa.PowerController.TurnOff':
+      return [prop('OFF', 'powerState')];
+    case 'Alexa.BrightnessController.SetBrightness':
+      return [prop(percent(payload.brightness, 'brightness'), 'brightness')];
+    case 'Alexa.BrightnessController.AdjustBrightness':
+      return [prop(adjust(current('brightness'), payload.brightnessDelta, 'brightnessDelta'), 'brightness')];
+    case 'Alexa.ColorController.SetColor':
+      return [prop(payload.color, 'color')];
+    case 'Alexa.ColorTemperatureController.SetColorTemperature':
+      return [prop(payload.colorTemperatureInKelvin, 'colorTemperatureInKelvin')];
+    case 'Alexa.ThermostatController.SetTargetTemperature':
+      return [
+        prop(payload.targetSetpoint, 'targetSetpoint'),
+        // The directive carries { value: 'HEAT' }; the property is the bare mode
+        ...(payload.thermostatMode
+          ? [prop((payload.thermostatMode as { value: string }).value, 'thermostatMode')]
+          : []),
+      ];
+    case 'Alexa.ThermostatController.AdjustTargetTemperature': {
+      const setpoint = current('targetSetpoint') as { value: number; scale: string } | undefined;
+      const delta = payload.targetSetpointDelta as { value?: unknown } | undefined;
+      if (!setpoint || typeof delta?.value !== 'number') {
+        throw new Error('targetSetpointDelta requires a current targetSetpoint and a numeric value');
+      }
+      return [prop({ ...setpoint, value: setpoint.value + delta.value }, 'targetSetpoint')];
+    }
+    case 'Alexa.ThermostatController.SetThermostatMode':
+      return [prop((payload.thermostatMode as { value: string }).value, 'thermostatMode')];
+    case 'Alexa.LockController.Lock':
+      return [prop('LOCKED', 'lockState')];
+    case 'Alexa.LockController.Unlock':
+      return [prop('UNLOCKED', 'lockState')];
+    case 'Alexa.Speaker.SetVolume':
+      return [prop(percent(payload.volume, 'volume'), 'volume')];
+    case 'Alexa.Speaker.AdjustVolume':
+      return [prop(adjust(current('volume'), payload.volume, 'volume'), 'volume')];
+    case 'Alexa.Speaker.SetMute':
+      return [prop(Boolean(payload.mute), 'muted')];
+    case 'Alexa.PercentageController.SetPercentage':
+      return [prop(percent(payload.percentage, 'percentage'), 'percentage')];
+    case 'Alexa.PercentageController.AdjustPercentage':
+      return [prop(adjust(current('percentage'), payload.percentageDelta, 'percentageDelta'), 'percentage')];
+    case 'Alexa.SceneController.Activate':
+    case 'Alexa.SceneController.Deactivate':
+      // Scenes have no reportable properties
+      return [];
+    default:
+      return null;
+  }
+}
+
+function percent(value: unknown, field: string): number {
+  if (typeof value !== 'number' || value < 0 || value > 100) {
+    throw new Error(`${field} must be a number between 0 and 100`);
+  }
+  return value;
+}
+
+/** Apply a delta to a 0-100 value, clamping the result like devices do. */
+function adjust(value: unknown, delta: unknown, field: string): number {
+  if (typeof delta !== 'number') {
+    throw new Error(`${field} must be a number`);
+  }
+  const base = typeof value === 'number' ? value : 0;
+  return Math.min(100, Math.max(0, base + delta));
+}
@@ -0,0 +1,224 @@
+/**
+ * Virtual devices — a simulated smart home declared in a JSON or YAML
+ * file, so the Smart Home skill can be exercised end-to-end
+ * (Lambda → /directive → handler) without real hardware.
+ *
+ * Example file:
+ *
+ *   {
+ *     "devices": [
+ *       {
+ *         "endpointId": "virtual-lamp",
+ *         "friendlyName": "Desk Lamp",
+ *         "displayCategory": "LIGHT",
+ *         "capabilities": ["Alexa.PowerController", "Alexa.BrightnessController"],
+ *         "state": { "powerState": "ON", "brightness": 40 }
+ *       }
+ *     ]
+ *   }
+ *
+ * The simulator answers Discover with Alexa-shaped endpoints, keeps each
+ * device's state in a SimulatedDeviceBackend, and rejects directives for
+ * interfaces the device did not declare.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { AlexaMessage, DeviceCapability, DiscoveredDevice, DisplayCategory } from '../types/alexa';
+import type { DeviceBackend } from './device-backend';
+import { buildDirectiveError } from './device-backend';
+import { SimulatedDeviceBackend } from './simulated-backend';
+import type { SimulatedProperty } from './simulated-backend';
+
+export interface VirtualDeviceDefinition {
+  endpointId: string;
+  friendlyName: string;
+  displayCategory: DisplayCategory;
+  /** Alexa interfaces, e.g. "Alexa.PowerController" */
+  capabilities: string[];
+  description?: string;
+  manufacturerName?: string;
+  /** Initial property values by property name, e.g. { "powerState": "ON" } */
+  state?: Record<string, unknown>;
+}
+
+/**
+ * Reportable properties of each supported interface, with the value a
+ * new virtual device starts with.
+ */
+export const VIRTUAL_CAPABILITIES: Record<string, Record<string, unknown>> = {
+  'Alexa.PowerController': { powerState: 'OFF' },
+  'Alexa.BrightnessController': { brightness: 100 },
+  'Alexa.ColorController': { color: { hue: 0, saturation: 0, brightness: 1 } },
+  'Alexa.ColorTemperatureController': { colorTemperatureInKelvin: 2700 },
+  'Alexa.ThermostatController': {
+    targetSetpoint: { value: 20, scale: 'CELSIUS' },
+    thermostatMode: 'AUTO',
+  },
+  'Alexa.TemperatureSensor': { temperature: { value: 20, scale: 'CELSIUS' } },
+  'Alexa.LockController': { lockState: 'LOCKED' },
+  'Alexa.Speaker': { volume: 50, muted: false },
+  'Alexa.PercentageController': { percentage: 0 },
+  'Alexa.ContactSensor': { detectionState: 'NOT_DETECTED' },
+  'Alexa.MotionSensor': { detectionState: 'NOT_DETECTED' },
+  'Alexa.EndpointHealth': { connectivity: { value: 'OK' } },
+  'Alexa.SceneController': {},
+};
+
+const DISPLAY_CATEGORIES: DisplayCategory[] = [
+  'LIGHT', 'SMARTPLUG', 'SWITCH', 'THERMOSTAT', 'TEMPERATURE_SENSOR', 'LOCK',
+  'CAMERA', 'DOORBELL', 'SCENE_TRIGGER', 'ACTIVITY_TRIGGER', 'SPEAKER', 'TV',
+  'FAN', 'SECURITY_PANEL', 'CONTACT_SENSOR', 'MOTION_SENSOR', 'OTHER',
+];
+
+export class VirtualDeviceSimulator implements DeviceBackend {
+  readonly name = 'virtual';
+
+  private devices = new Map<string, VirtualDeviceDefinition>();
+  private backend = new SimulatedDeviceBackend();
+
+  constructor(definitions: VirtualDeviceDefinition[]) {
+    for (const def of definitions) {
+      if (this.devices.has(def.endpointId)) {
+        throw new Error(`Duplicate virtual device endpointId "${def.endpointId}"`);
+      }
+      this.devices.set(def.endpointId, def);
+      this.backend.addEndpoint(def.endpointId, initialProperties(def));
+    }
+  }
+
+  /** Endpoints for a Discover.Response. */
+  discover(): DiscoveredDevice[] {
+    return [...this.devices.values()].map(toDiscoveredDevice);
+  }
+
+  /** The state table, for inspecting or changing devices directly. */
+  getBackend(): SimulatedDeviceBackend {
+    return this.backend;
+  }
+
+  async handleDirective(message: AlexaMessage): Promise<AlexaMessage> {
+    const directive = message.directive;
+    const device = directive?.endpoint ? this.devices.get(directive.endpoint.endpointId) : undefined;
+
+    if (device && directive!.header.namespace !== 'Alexa'
+      && !device.capabilities.includes(directive!.header.namespace)) {
+      return buildDirectiveError(
+        message,
+        'INVALID_DIRECTIVE',
+        `${device.friendlyName} does not support ${directive!.header.namespace}`,
+      );
+    }
+
+    return this.backend.handleDirective(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Load a simulator from a `.json`, `.yaml` or `.yml` file.
+ */
+export function loadVirtualDevices(filePath: string): VirtualDeviceSimulator {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  let doc: unknown;
+  if (ext === '.yaml' || ext === '.yml') {
+    doc = yaml.load(text);
+  } else {
+    doc = JSON.parse(text);
+  }
+
+  return new VirtualDeviceSimulator(parseVirtualDevices(doc));
+}
+
+/**
+ * Validate a parsed device file (`{ devices: [...] }` or a bare array).
+ */
+export function parseVirtualDevices(doc: unknown): VirtualDeviceDefinition[] {
+  const list = Array.isArray(doc) ? doc : (doc as { devices?: unknown } | null)?.devices;
+  if (!Array.isArray(list)) {
+    throw new Error('Virtual device file must contain a "devices" array');
+  }
+
+  return list.map((raw, index) => {
+    const def = raw as Partial<VirtualDeviceDefinition>;
+    const where = `devices[${index}]`;
+
+    if (!def || typeof def.endpointId !== 'string' || !def.endpointId) {
+      throw new Error(`${where}: endpointId is required`);
+    }
+    if (typeof def.friendlyName !== 'string' || !def.friendlyName) {
+      throw new Error(`${where}: friendlyName is required`);
+    }
+    if (!def.displayCategory || !DISPLAY_CATEGORIES.includes(def.displayCategory)) {
+      throw new Error(`${where}: invalid displayCategory "${def.displayCategory}"`);
+    }
+    if (!Array.isArray(def.capabilities) || def.capabilities.length === 0) {
+      throw new Error(`${where}: capabilities must be a non-empty array`);
+    }
+    for (const cap of def.capabilities) {
+      if (!(cap in VIRTUAL_CAPABILITIES)) {
+        throw new Error(`${where}: unsupported capability "${cap}"`);
+      }
+    }
+    for (const propName of Object.keys(def.state ?? {})) {
+      if (!def.capabilities.some((cap) => propName in VIRTUAL_CAPABILITIES[cap])) {
+        throw new Error(`${where}: state "${propName}" is not a property of its capabilities`);
+      }
+    }
+
+    return def as VirtualDeviceDefinition;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function initialProperties(def: VirtualDeviceDefinition): SimulatedProperty[] {
+  const properties: SimulatedProperty[] = [];
+  for (const namespace of def.capabilities) {
+    for (const [name, defaultValue] of Object.entries(VIRTUAL_CAPABILITIES[namespace])) {
+      const value = def.state && name in def.state ? def.state[name] : defaultValue;
+      properties.push({ namespace, name, value });
+    }
+  }
+  return properties;
+}
+
+function toDiscoveredDevice(def: VirtualDeviceDefinition): DiscoveredDevice {
+  const capabilities: DeviceCapability[] = [
+    { type: 'AlexaInterface', interface: 'Alexa', version: '3' },
+    ...def.capabilities.map((namespace): DeviceCapability => {
+      const names = Object.keys(VIRTUAL_CAPABILITIES[namespace]);
+      return {
+        type: 'AlexaInterface',
+        interface: namespace,
+        version: '3',
+        ...(names.length > 0
+          ? {
+              properties: {
+                supported: names.map((name) => ({ name })),
+                proactivelyReported: true,
+                retrievable: true,
+              },
+            }
+          : {}),
+      };
+    }),
+  ];
+
+  return {
+    endpointId: def.endpointId,
+    manufacturerName: def.manufacturerName ?? 'Virtual Devices',
+    description: def.description ?? `Virtual ${def.displayCategory.toLowerCase().replace(/_/g, ' ')}`,
+    friendlyName: def.friendlyName,
+    displayCategories: [def.displayCategory],
+    capabilities,
+  };
+}
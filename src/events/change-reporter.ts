@@ -0,0 +1,285 @@
+/**
+ * Proactive ChangeReports — tells Alexa when a device's state changes
+ * outside of an Alexa directive.
+ *
+ * The reporter keeps the last known properties of every reportable
+ * endpoint.  Each new observation is diffed against them: changed
+ * properties go in the report's `change.properties`, the rest of the
+ * endpoint's state in `context.properties`.  Only properties the
+ * endpoint declares `proactivelyReported` count as changes; Alexa
+ * rejects reports of any other.
+ *
+ * A report that cannot be sent (no token, Event Gateway error) waits in
+ * an in-memory outbox and is retried with exponential backoff.  The
+ * outbox is deliberately not persisted: Alexa expects reports within
+ * seconds, so one that outlives a restart is stale.  A newer report for
+ * the same endpoint absorbs any pending one, so a late retry can never
+ * overwrite fresher state.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { AlexaPropertyState, ChangeCause } from '../types/alexa';
+import type { AuthManager } from '../auth';
+import type { EventGatewayClient } from './event-gateway-client';
+import type { EventLogger } from './event-logger';
+import { propertyKey } from '../devices/device-state';
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+const DEFAULT_MAX_OUTBOX_SIZE = 500;
+
+export interface ChangeReporterOptions {
+  userId: string;
+  /** Only endpoints Alexa discovered through the skill can be reported */
+  isReportable: (endpointId: string) => boolean;
+  /** Whether the endpoint declares the property proactively reported (default: all are) */
+  isProactivelyReported?: (endpointId: string, property: AlexaPropertyState) => boolean;
+  /** Stored state used as the baseline the first time an endpoint is seen */
+  getStoredState?: (endpointId: string) => Promise<AlexaPropertyState[] | null>;
+  /** Attempts before a report is dropped (default 6) */
+  maxAttempts?: number;
+  /** First retry delay; doubles per attempt (default 1s) */
+  baseDelayMs?: number;
+  /** Cap on the retry delay (default 60s) */
+  maxDelayMs?: number;
+  /** Pending reports kept at most; the oldest are dropped (default 500) */
+  maxOutboxSize?: number;
+}
+
+export interface PendingChangeReport {
+  id: string;
+  endpointId: string;
+  cause: ChangeCause;
+  changedProperties: AlexaPropertyState[];
+  contextProperties: AlexaPropertyState[];
+  attempts: number;
+  createdAt: string;       // ISO-8601
+  nextAttemptAt: string;   // ISO-8601
+  lastError?: string;
+}
+
+export class ChangeReporter {
+  private gateway: EventGatewayClient;
+  private auth: AuthManager;
+  private eventLogger: EventLogger;
+  private options: ChangeReporterOptions;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxOutboxSize: number;
+
+  /** endpointId → "namespace.name[:instance]" → property */
+  private known = new Map<string, Map<string, AlexaPropertyState>>();
+  private outbox: PendingChangeReport[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    gateway: EventGatewayClient,
+    auth: AuthManager,
+    eventLogger: EventLogger,
+    options: ChangeReporterOptions,
+  ) {
+    this.gateway = gateway;
+    this.auth = auth;
+    this.eventLogger = eventLogger;
+    this.options = options;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.maxOutboxSize = options.maxOutboxSize ?? DEFAULT_MAX_OUTBOX_SIZE;
+  }
+
+  /**
+   * Record an endpoint's state without reporting it — for state Alexa
+   * already knows, such as the context of a directive Response.
+   */
+  recordState(endpointId: string, properties: AlexaPropertyState[]): void {
+    const state = this.known.get(endpointId) ?? new Map<string, AlexaPropertyState>();
+    for (const p of properties) state.set(propertyKey(p), p);
+    this.known.set(endpointId, state);
+  }
+
+  /**
+   * Compare observed properties with the last known state and send a
+   * ChangeReport for whatever changed.  Resolves once the first attempt
+   * has been made (failures are queued, never thrown).
+   *
+   * On the first observation of an endpoint with no stored baseline a
+   * poll cannot tell what changed, so it only records the state; other
+   * causes report every observed property as changed.
+   */
+  async report(endpointId: string, properties: AlexaPropertyState[], cause: ChangeCause): Promise<void> {
+    if (properties.length === 0 || !this.options.isReportable(endpointId)) return;
+
+    let previous = this.known.get(endpointId);
+    if (!previous) {
+      const stored = await this.options.getStoredState?.(endpointId);
+      if (stored) {
+        previous = new Map(stored.map((p) => [propertyKey(p), p]));
+      }
+    }
+
+    const proactive = this.options.isProactivelyReported;
+    const changed = properties.filter((p) => {
+      if (proactive && !proactive(endpointId, p)) return false;
+      const before = previous?.get(propertyKey(p));
+      return !before || JSON.stringify(before.value) !== JSON.stringify(p.value);
+    });
+
+    const state = new Map(previous ?? []);
+    for (const p of properties) state.set(propertyKey(p), p);
+    this.known.set(endpointId, state);
+
+    if (changed.length === 0 || (!previous && cause === 'PERIODIC_POLL')) return;
+
+    const report = this.absorbPending({
+      id: uuid(),
+      endpointId,
+      cause,
+      changedProperties: changed,
+      contextProperties: [],
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: new Date().toISOString(),
+    }, state);
+
+    await this.deliver(report);
+  }
+
+  /** Reports waiting for a retry, soonest first. */
+  getOutbox(): PendingChangeReport[] {
+    return this.outbox.map((r) => ({ ...r }));
+  }
+
+  /**
+   * Retry every pending report now, regardless of its backoff.
+   */
+  async flush(): Promise<void> {
+    const due = this.outbox;
+    this.outbox = [];
+    this.disarm();
+    for (const report of due) {
+      await this.deliver(report);
+    }
+  }
+
+  /** Cancel the retry timer; pending reports stay in the outbox. */
+  stop(): void {
+    this.disarm();
+  }
+
+  // -----------------------------------------------------------------------
+  // Delivery
+  // -----------------------------------------------------------------------
+
+  private async deliver(report: PendingChangeReport): Promise<void> {
+    report.attempts++;
+    try {
+      const accessToken = await this.auth.getAccessToken(this.options.userId);
+      await this.gateway.sendChangeReport({
+        accessToken,
+        endpointId: report.endpointId,
+        changedProperties: report.changedProperties,
+        contextProperties: report.contextProperties,
+        cause: report.cause,
+      });
+    } catch (err) {
+      report.lastError = err instanceof Error ? err.message : String(err);
+      this.retryLater(report);
+      return;
+    }
+
+    await this.log('ChangeReportSent', report).catch(() => {});
+  }
+
+  private retryLater(report: PendingChangeReport): void {
+    if (report.attempts >= this.maxAttempts) {
+      this.log('ChangeReportDropped', report).catch(() => {});
+      return;
+    }
+
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (report.attempts - 1));
+    report.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+    this.outbox.push(report);
+    this.outbox.sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+    while (this.outbox.length > this.maxOutboxSize) {
+      const oldest = this.outbox.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+      this.outbox.splice(this.outbox.indexOf(oldest), 1);
+      this.log('ChangeReportDropped', oldest).catch(() => {});
+    }
+    this.arm();
+  }
+
+  /**
+   * Fold pending reports for the same endpoint into a new one: their
+   * changed properties are reported again with current values.
+   */
+  private absorbPending(
+    report: PendingChangeReport,
+    state: Map<string, AlexaPropertyState>,
+  ): PendingChangeReport {
+    const changedKeys = new Set(report.changedProperties.map(propertyKey));
+    this.outbox = this.outbox.filter((pending) => {
+      if (pending.endpointId !== report.endpointId) return true;
+      for (const p of pending.changedProperties) changedKeys.add(propertyKey(p));
+      return false;
+    });
+    if (this.outbox.length === 0) this.disarm();
+
+    const changedProperties: AlexaPropertyState[] = [];
+    const contextProperties: AlexaPropertyState[] = [];
+    for (const [key, p] of state) {
+      (changedKeys.has(key) ? changedProperties : contextProperties).push(p);
+    }
+    return { ...report, changedProperties, contextProperties };
+  }
+
+  private arm(): void {
+    this.disarm();
+    const next = this.outbox[0];
+    if (!next) return;
+
+    const delay = Math.max(0, Date.parse(next.nextAttemptAt) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.retryDue().catch(() => {});
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private disarm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async retryDue(): Promise<void> {
+    const now = Date.now();
+    const due = this.outbox.filter((r) => Date.parse(r.nextAttemptAt) <= now);
+    this.outbox = this.outbox.filter((r) => Date.parse(r.nextAttemptAt) > now);
+    for (const report of due) {
+      await this.deliver(report);
+    }
+    this.arm();
+  }
+
+  private log(eventType: string, report: PendingChangeReport): Promise<unknown> {
+    return this.eventLogger.logCustomEvent({
+      eventType,
+      namespace: 'ChangeReporter',
+      endpointId: report.endpointId,
+      userId: this.options.userId,
+      cause: report.cause,
+      payload: {
+        reportId: report.id,
+        changed: report.changedProperties.map(propertyKey),
+        attempts: report.attempts,
+        ...(report.lastError ? { error: report.lastError } : {}),
+      },
+      tags: ['change_report'],
+    });
+  }
+}
@@ -101,7 +101,7 @@ export class EventLogger {
         endpointId,
         userId,
         cause,
-        payload: { name: prop.name, value: prop.value },
+        payload: { name: prop.name, value: prop.value, ...(prop.instance ? { instance: prop.instance } : {}) },
         tags: ['state_change'],
       };
       await this.store.insert(event);
@@ -1,5 +1,7 @@
 export { EventLogger } from './event-logger';
 export { EventGatewayClient } from './event-gateway-client';
+export { ChangeReporter } from './change-reporter';
+export type { ChangeReporterOptions, PendingChangeReport } from './change-reporter';
 export { InMemoryEventStore } from './event-store';
 export type { EventStore, StoredEvent, EventQuery, EventQueryResult } from './event-store';
 export type { EventListener } from './event-logger';
@@ -14,10 +14,11 @@ export { AlexaAgentTool } from './agent';
 export { AuthManager, LwaOAuthClient, InMemoryTokenStore } from './auth';
 export type { TokenStore, TokenPair } from './auth';
 
-export { DeviceRegistry, DeviceController } from './devices';
+export { DeviceRegistry, DeviceController, SimulatedDeviceBackend, CookieApiDeviceBackend, VirtualDeviceSimulator, loadVirtualDevices, DiscoverySync, InMemoryDiscoveryStateStore } from './devices';
+export type { DeviceBackend, DeviceErrorType, SimulatedProperty, VirtualDeviceDefinition, DiscoveryStateStore, AcknowledgedEndpoint, DiscoverySyncResult } from './devices';
 
-export { RoutineManager, InMemoryRoutineStore } from './routines';
-export type { RoutineStore, StoredRoutine } from './routines';
+export { RoutineManager, InMemoryRoutineStore, RoutineScheduler, parseCron, nextFireTime, nextFireTimes, RoutineRulesEngine, pushEventToObservations, RoutineExecutor, evaluateCondition, InMemoryRoutineRunStore } from './routines';
+export type { RoutineStore, StoredRoutine, RoutineSchedulerOptions, CronSchedule, RoutineRulesEngineOptions, PropertyObservation, RoutineExecutorHooks, RoutineRunStore, RoutineRun, RoutineRunSource, RoutineRunStatus, RoutineRunQuery } from './routines';
 
 export { EventLogger, EventGatewayClient, InMemoryEventStore } from './events';
 export type { EventStore, StoredEvent, EventQuery, EventQueryResult, EventListener } from './events';
@@ -25,19 +26,42 @@ export type { EventStore, StoredEvent, EventQuery, EventQueryResult, EventListen
 export { createHandler } from './lambda';
 export type { LambdaContext } from './lambda';
 
-export { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteDeviceStateStore, SqliteActivityStore, SqlitePushEventStore } from './storage';
+export { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteRefreshTokenStore, SqliteDeviceStateStore, SqliteChangeDeviceStateStore, SqliteActivityStore, SqlitePushEventStore, SqliteRoutineRunStore, SqliteDiscoveryStateStore, SqliteDeviceDirectoryStore, SqliteMediaSessionStore, SqliteConnectivityStore, SqliteStateRollupStore } from './storage';
+export type { SqliteChangeDeviceStateStoreOptions, SqliteStorageStats } from './storage';
+export { RetentionManager, DEFAULT_RETENTION_POLICY, RETENTION_TARGETS, mergeRetentionPolicy } from './storage';
+export type { RetentionTarget, RetentionPolicy, RetentionPruner, RetentionManagerOptions, RetentionRunResult, RetentionStatus, RetentionVacuumResult } from './storage';
+export { runMigrations, assertSchemaSupported, schemaVersion, SQLITE_MIGRATIONS, SQLITE_SCHEMA_VERSION } from './storage';
+export type { SqliteMigration, SqliteMigrationResult } from './storage';
 
 // Unofficial Alexa API
-export { AlexaApiClient, InMemoryCookieStore, InMemoryDeviceStateStore, InMemoryActivityStore, InMemoryPushEventStore } from './alexa-api';
-export { AlexaPushClient } from './alexa-api/push-client';
-export type { PushClientOptions, PushClientState } from './alexa-api/push-client';
+export { AlexaApiClient, DEFAULT_REQUEST_POLICY, TokenBucket, endpointFamily, parseRetryAfter, PollScheduler, DEFAULT_POLL_POLICY, pollCategory, InMemoryCookieStore, InMemoryRefreshTokenStore, CookieSessionManager, CookieHealthMonitor, estimateCookieExpiry, InMemoryDeviceStateStore, diffDeviceState, applyStateChanges, StateAggregator, InMemoryStateRollupStore, aggregateSamples, numericValue, InMemoryActivityStore, InMemoryPushEventStore, PushEventProcessor, PushListenerSupervisor, DeviceDirectory, InMemoryDeviceDirectoryStore, MediaSessionTracker, InMemoryMediaSessionStore, ConnectivityTracker, InMemoryConnectivityStore } from './alexa-api';
+export { AlexaPushClient, reconnectDelay } from './alexa-api/push-client';
+export type {
+  PushClientOptions, PushClientState, PushClientTiming, PushReconnectPolicy, PushClientHealth, PushDisconnectInfo,
+} from './alexa-api/push-client';
+export { PushCaptureRecorder, parsePushCapture, readPushCapture } from './alexa-api/push-capture';
+export type { CapturedFrame, PushFrameRecorder } from './alexa-api/push-capture';
+export { LocalPushGateway, encodePushMessage } from './alexa-api/local-push-gateway';
+export type { LocalPushGatewayOptions, LocalPushGatewayBehavior, LocalPushGatewayStats } from './alexa-api/local-push-gateway';
 export { ALEXA_PUSH_WS_HOSTS, FABE } from './alexa-api/push-event-types';
 export type {
-  CookieStore, AlexaCookieCredentials, AccountDevice, AccountDeviceCommand, AlexaApiRegion,
-  DeviceStateStore, DeviceStateQuery, DeviceStateQueryResult,
+  CookieStore, AlexaCookieCredentials, AccountDevice, AccountDeviceCommand, AlexaApiRegion, AlexaApiAuthStats,
+  AlexaApiClientOptions, AlexaRequestPolicy, EndpointFamily, RateLimit, RequestFamilyMetrics,
+  PollCategory, PollCategoryPolicy, PollPolicy, PollPolicyUpdate, PollSchedulerOptions, PollSchedulerStatus, PolledDeviceStatus, PollTickResult,
+  RefreshTokenStore, AlexaRefreshToken, CookieSessionOptions, CookieSessionStatus, CookieSessionCheck,
+  CookieStatus, CookieHealthState, CookieExpiryEstimate, CookieExpirySource, CookieHealthMonitorOptions,
+  DeviceStateStore, DeviceStateQuery, DeviceStateQueryResult, DeviceStateValues, StatePropertyChange,
+  StateRollupStore, StateRollup, StateRollupWatermark, StateSeries, StateSample, StateAggregateBucket, StateAggregatePoint, StateAggregateQuery, StateAggregateResult, StateAggregatorOptions, StateRollupResult,
   ActivityStore, ActivityQuery, ActivityQueryResult,
   PushEventStore, PushEventQuery, PushEventQueryResult,
   PushEventCommand, PushEvent, StoredPushEvent,
+  PushEventHandler, PushEventHandlers, PushEventProcessorOptions, PushEventDrainResult,
+  PushSupervisorOptions, PushSupervisorCheck, PushRestartReason,
+  DeviceDirectoryStore, DeviceDirectoryEntry, DeviceDirectoryOptions,
+  MediaSessionStore, MediaSession, MediaSessionQuery, MediaSessionQueryResult, NowPlaying, MediaPlayerState,
+  MediaSessionEndReason, MediaSessionTrackerOptions,
+  ConnectivityStore, ConnectivityTransition, ConnectivityQuery, ConnectivityStatus, ConnectivitySource,
+  ConnectivityReport, DeviceConnectivity, ConnectivityTrackerOptions,
   ParsedCapabilityState, DeviceStateSnapshot, ActivityRecord,
 } from './alexa-api';
 
@@ -75,22 +99,67 @@ export type {
   DeviceCommand,
   RoutineDefinition,
   RoutineTrigger,
+  DeviceEventOperator,
   RoutineActionStep,
+  RoutineCondition,
+  RoutineStepOptions,
+  DeviceCommandStep,
+  SpeakStep,
+  ControlAccountDeviceStep,
+  WaitUntilStep,
+  IfStep,
+  ParallelStep,
+  RunRoutineStep,
+  RoutineExecutionReport,
+  RoutineStepReport,
+  RoutineStepStatus,
+  TriggerRoutineResult,
   RoutineSummary,
+  GetRoutineAction,
+  UpdateRoutineAction,
+  SetRoutineEnabledAction,
+  DuplicateRoutineAction,
+  GetRoutineResult,
+  UpdateRoutineResult,
+  SetRoutineEnabledResult,
+  DuplicateRoutineResult,
+  GetRoutineScheduleAction,
+  GetRoutineScheduleResult,
+  RoutineScheduleEntry,
+  GetRoutineRunsAction,
+  GetRoutineRunAction,
+  GetRoutineRunsResult,
+  GetRoutineRunResult,
+  SyncDiscoveryAction,
+  SyncDiscoveryResult,
   SetAlexaCookieAction,
+  SetAlexaRefreshTokenAction,
   ListAllDevicesAction,
   ControlAccountDeviceAction,
   SetAlexaCookieResult,
+  SetAlexaRefreshTokenResult,
   ListAllDevicesResult,
   ControlAccountDeviceResult,
   PollDeviceStateAction,
   PollAllStatesAction,
   GetActivityHistoryAction,
   QueryStateHistoryAction,
+  QueryStateAggregatesAction,
   PollDeviceStateResult,
   PollAllStatesResult,
   GetActivityHistoryResult,
   QueryStateHistoryResult,
+  QueryStateAggregatesResult,
+  BackfillDeviceNamesAction,
+  BackfillDeviceNamesResult,
+  GetNowPlayingAction,
+  GetNowPlayingResult,
+  QueryMediaSessionsAction,
+  QueryMediaSessionsResult,
+  GetConnectivityReportAction,
+  GetConnectivityReportResult,
+  GetStorageStatsAction,
+  GetStorageStatsResult,
   StartPushListenerAction,
   StopPushListenerAction,
   QueryPushEventsAction,
@@ -0,0 +1,125 @@
+/**
+ * Property matching and comparison shared by device-event triggers and
+ * routine step conditions.
+ */
+
+import type { DeviceEventOperator, RoutineCondition } from '../types/agent';
+import type { DeviceStateSnapshot } from '../alexa-api/alexa-api-types';
+
+export const DEVICE_EVENT_OPERATORS: DeviceEventOperator[] = [
+  'equals', 'not_equals', '>', '>=', '<', '<=', 'between', 'changed',
+];
+
+/**
+ * A `property` may name the property (`powerState`), the qualified
+ * property (`Alexa.PowerController.powerState`), or a controller
+ * instance (`Humidity`, `Alexa.RangeController.Humidity`).
+ */
+export function matchesProperty(
+  property: string,
+  cap: { namespace: string; name: string; instance?: string },
+): boolean {
+  if (property === cap.name || property === `${cap.namespace}.${cap.name}`) return true;
+  if (cap.instance && (property === cap.instance || property === `${cap.namespace}.${cap.instance}`)) return true;
+  return false;
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Unwrap `{ value, scale }` style values to a number where possible. */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  if (value && typeof value === 'object' && 'value' in value) {
+    return toNumber((value as { value: unknown }).value);
+  }
+  return null;
+}
+
+/**
+ * Compare an observed value with an expected one.  `changed` needs a
+ * prior value and is handled by the caller; it never matches here.
+ */
+export function compareValues(operator: DeviceEventOperator, observed: unknown, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals':
+    case 'not_equals': {
+      let equal = sameValue(observed, expected);
+      // Let `value: 'ON'` match a wrapped `{ value: 'ON' }`
+      if (!equal && observed && typeof observed === 'object' && 'value' in observed
+          && (expected === null || typeof expected !== 'object')) {
+        equal = sameValue((observed as { value: unknown }).value, expected);
+      }
+      return operator === 'equals' ? equal : !equal;
+    }
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const o = toNumber(observed);
+      const e = toNumber(expected);
+      if (o === null || e === null) return false;
+      if (operator === '>') return o > e;
+      if (operator === '>=') return o >= e;
+      if (operator === '<') return o < e;
+      return o <= e;
+    }
+    case 'between': {
+      const o = toNumber(observed);
+      if (o === null || !Array.isArray(expected) || expected.length !== 2) return false;
+      const [lo, hi] = expected.map(toNumber);
+      return lo !== null && hi !== null && o >= lo && o <= hi;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Throw if `value` can't be compared with `operator`.
+ */
+export function validateComparison(operator: DeviceEventOperator, value: unknown): void {
+  if (!DEVICE_EVENT_OPERATORS.includes(operator)) {
+    throw new Error(`Invalid device_event operator "${operator}"`);
+  }
+  if (['>', '>=', '<', '<='].includes(operator) && typeof value !== 'number') {
+    throw new Error(`Operator "${operator}" requires a numeric value`);
+  }
+  if (operator === 'between' && !(Array.isArray(value) && value.length === 2
+      && value.every((v) => typeof v === 'number'))) {
+    throw new Error('Operator "between" requires value: [low, high]');
+  }
+}
+
+/**
+ * Evaluate a condition against device state.  A property that is
+ * missing from the device's snapshot (or a device with no snapshot)
+ * never matches.
+ */
+export async function evaluateCondition(
+  condition: RoutineCondition,
+  getState: (endpointId: string) => Promise<DeviceStateSnapshot | null>,
+): Promise<boolean> {
+  if ('all' in condition) {
+    for (const c of condition.all) {
+      if (!(await evaluateCondition(c, getState))) return false;
+    }
+    return true;
+  }
+  if ('any' in condition) {
+    for (const c of condition.any) {
+      if (await evaluateCondition(c, getState)) return true;
+    }
+    return false;
+  }
+  if ('not' in condition) {
+    return !(await evaluateCondition(condition.not, getState));
+  }
+
+  const snapshot = await getState(condition.endpointId);
+  const cap = snapshot?.capabilities.find((c) => matchesProperty(condition.property, c));
+  if (!cap) return false;
+  return compareValues(condition.operator ?? 'equals', cap.value, condition.value);
+}
@@ -0,0 +1,332 @@
+/**
+ * Cron expression parser and next-fire-time calculator.
+ *
+ * Supports the common Unix format plus a few extensions:
+ * - 5 fields (`min hour dom month dow`) — seconds default to 0
+ * - 6 fields (`sec min hour dom month dow`)
+ * - Lists, ranges, steps and names (`MON-FRI`, `JAN,JUL`, `0-59/15`)
+ * - Macros (`@daily`, `@hourly`, `@weekly`, `@monthly`, `@yearly`)
+ * - An optional `CRON_TZ=<IANA zone>` or `TZ=<IANA zone>` prefix
+ *
+ * Times are evaluated against the wall clock of the given timezone
+ * (UTC when none is set).  Wall-clock times skipped by a DST jump are
+ * not fired; repeated ones fire once.
+ */
+
+export interface CronSchedule {
+  /** The original expression, as passed to parseCron() */
+  expression: string;
+  /** IANA timezone the expression is evaluated in */
+  timezone: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field was restricted (not `*`) */
+  domRestricted: boolean;
+  /** Whether the day-of-week field was restricted (not `*`) */
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** Upper bound on search steps so impossible schedules (e.g. Feb 30) terminate. */
+const MAX_SEARCH_STEPS = 100_000;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset applied to name indexes (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: Record<'second' | 'minute' | 'hour' | 'dom' | 'month' | 'dow', FieldSpec> = {
+  second: { name: 'second', min: 0, max: 59 },
+  minute: { name: 'minute', min: 0, max: 59 },
+  hour: { name: 'hour', min: 0, max: 23 },
+  dom: { name: 'day-of-month', min: 1, max: 31 },
+  month: { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as an alias for Sunday and folded to 0 after parsing
+  dow: { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a cron expression.  Throws with a descriptive message when the
+ * expression or timezone is invalid.
+ *
+ * @param timezone Explicit timezone; a `CRON_TZ=`/`TZ=` prefix in the
+ *                 expression takes priority.
+ */
+export function parseCron(expression: string, timezone?: string): CronSchedule {
+  let expr = expression.trim();
+  let tz = timezone ?? 'UTC';
+
+  const tzMatch = /^(?:CRON_TZ|TZ)=(\S+)\s+(.*)$/.exec(expr);
+  if (tzMatch) {
+    tz = tzMatch[1];
+    expr = tzMatch[2].trim();
+  }
+  assertValidTimezone(tz);
+
+  if (expr.startsWith('@')) {
+    const macro = MACROS[expr.toLowerCase()];
+    if (!macro) throw new Error(`Invalid cron expression "${expression}": unknown macro ${expr}`);
+    expr = macro;
+  }
+
+  const parts = expr.split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 or 6 fields, got ${parts.length}`,
+    );
+  }
+  if (parts.length === 5) parts.unshift('0');
+
+  const [sec, min, hour, dom, month, dow] = parts;
+  try {
+    const daysOfWeek = parseField(dow, FIELDS.dow);
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      expression,
+      timezone: tz,
+      seconds: parseField(sec, FIELDS.second),
+      minutes: parseField(min, FIELDS.minute),
+      hours: parseField(hour, FIELDS.hour),
+      daysOfMonth: parseField(dom, FIELDS.dom),
+      months: parseField(month, FIELDS.month),
+      daysOfWeek,
+      domRestricted: !isWildcard(dom),
+      dowRestricted: !isWildcard(dow),
+    };
+  } catch (err) {
+    throw new Error(`Invalid cron expression "${expression}": ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Check whether an expression parses, without throwing.
+ */
+export function isValidCron(expression: string, timezone?: string): boolean {
+  try {
+    parseCron(expression, timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw new Error(`bad ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      step = Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`bad step "${stepPart}" in ${spec.name} field`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (isWildcard(rangePart)) {
+      start = spec.min;
+      end = spec.name === 'day-of-week' ? 6 : spec.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = parseValue(a, spec);
+      end = parseValue(b, spec);
+      if (end < start) {
+        throw new Error(`range ${rangePart} is reversed in ${spec.name} field`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  if (spec.names) {
+    const idx = spec.names.indexOf(raw.toUpperCase());
+    if (idx >= 0) return idx + (spec.nameOffset ?? 0);
+  }
+  const n = Number(raw);
+  if (raw === '' || !Number.isInteger(n) || n < spec.min || n > spec.max) {
+    throw new Error(`value "${raw}" out of range for ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return n;
+}
+
+function assertValidTimezone(tz: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+  } catch {
+    throw new Error(`Invalid timezone "${tz}"`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Next-fire computation
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute the next fire time strictly after `after`.
+ * Returns null when no matching time exists (e.g. `0 0 30 2 *`).
+ */
+export function nextFireTime(schedule: CronSchedule, after: Date): Date | null {
+  // Work in "wall-clock" space: a Date whose UTC fields hold the local
+  // time in the schedule's timezone.  Start at the next whole second.
+  const startMs = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+  const wall = new Date(toWallClock(startMs, schedule.timezone));
+
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!schedule.seconds.has(wall.getUTCSeconds())) {
+      wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(wall.getTime(), schedule.timezone);
+    if (instant !== null && instant >= startMs) {
+      return new Date(instant);
+    }
+    // Skipped by a DST gap, or an earlier occurrence of a repeated hour
+    wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Compute the next `count` fire times after `after`.
+ */
+export function nextFireTimes(schedule: CronSchedule, after: Date, count: number): Date[] {
+  const result: Date[] = [];
+  let cursor = after;
+  while (result.length < count) {
+    const next = nextFireTime(schedule, cursor);
+    if (!next) break;
+    result.push(next);
+    cursor = next;
+  }
+  return result;
+}
+
+/**
+ * Standard cron day semantics: when both day-of-month and day-of-week
+ * are restricted, a day matches if EITHER matches.
+ */
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(wall.getUTCDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return domMatch || dowMatch;
+  if (schedule.domRestricted) return domMatch;
+  if (schedule.dowRestricted) return dowMatch;
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Timezone helpers
+// ---------------------------------------------------------------------------
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(tz: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(tz, fmt);
+  }
+  return fmt;
+}
+
+/** Convert a UTC instant to wall-clock milliseconds in `tz`. */
+function toWallClock(instantMs: number, tz: string): number {
+  if (tz === 'UTC') return instantMs;
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(tz).formatToParts(new Date(instantMs))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Convert wall-clock milliseconds in `tz` back to a UTC instant.
+ * Returns null if that wall-clock time does not exist (DST gap).
+ * For repeated times (DST overlap) the earlier instant is returned.
+ */
+function fromWallClock(wallMs: number, tz: string): number | null {
+  if (tz === 'UTC') return wallMs;
+
+  const offsetAt = (instant: number) => toWallClock(instant, tz) - instant;
+  // Try both offsets around the target; prefer the earlier instant.
+  const candidates = new Set([
+    wallMs - offsetAt(wallMs - 12 * 3600_000),
+    wallMs - offsetAt(wallMs + 12 * 3600_000),
+  ]);
+  const valid = Array.from(candidates)
+    .filter((instant) => toWallClock(instant, tz) === wallMs)
+    .sort((a, b) => a - b);
+  return valid[0] ?? null;
+}
@@ -1,3 +1,21 @@
 export { RoutineManager } from './routine-manager';
 export { InMemoryRoutineStore, toSummary } from './routine-store';
 export type { RoutineStore, StoredRoutine } from './routine-store';
+export { RoutineScheduler } from './routine-scheduler';
+export type { RoutineSchedulerOptions } from './routine-scheduler';
+export { parseCron, isValidCron, nextFireTime, nextFireTimes } from './cron';
+export type { CronSchedule } from './cron';
+export { RoutineRulesEngine, pushEventToObservations } from './rules-engine';
+export type { RoutineRulesEngineOptions, PropertyObservation } from './rules-engine';
+export { RoutineExecutor, MAX_ROUTINE_DEPTH } from './routine-executor';
+export type { RoutineExecutorHooks } from './routine-executor';
+export { evaluateCondition } from './conditions';
+export { InMemoryRoutineRunStore } from './routine-run-store';
+export type {
+  RoutineRunStore,
+  RoutineRun,
+  RoutineRunSource,
+  RoutineRunStatus,
+  RoutineRunQuery,
+  RoutineRunQueryResult,
+} from './routine-run-store';
@@ -0,0 +1,190 @@
+/**
+ * Routine executor — runs a routine's action steps and reports the
+ * outcome of each one.
+ *
+ * Steps run in order.  A failing step stops the routine unless it sets
+ * `continueOnError`; the steps after it are reported as `skipped`.
+ * Device I/O goes through the hooks so the executor stays independent
+ * of the Smart Home and account API clients.
+ */
+
+import type {
+  DeviceCommand,
+  RoutineActionStep,
+  ControlAccountDeviceStep,
+  RoutineExecutionReport,
+  RoutineStepReport,
+} from '../types/agent';
+import type { DeviceStateSnapshot } from '../alexa-api/alexa-api-types';
+import type { StoredRoutine } from './routine-store';
+import { evaluateCondition } from './conditions';
+
+/** Maximum `run_routine` nesting depth. */
+export const MAX_ROUTINE_DEPTH = 5;
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+
+export interface RoutineExecutorHooks {
+  controlDevice(endpointId: string, command: DeviceCommand): Promise<void>;
+  controlAccountDevice(step: ControlAccountDeviceStep): Promise<void>;
+  speak(deviceId: string, deviceType: string, text: string): Promise<void>;
+  /**
+   * Latest state for a device.  `live` is set while waiting on a
+   * condition, where a fresh read is preferred over the cache.
+   */
+  getState(endpointId: string, live: boolean): Promise<DeviceStateSnapshot | null>;
+  /** Look up a routine for `run_routine`. */
+  getRoutine(routineId: string): Promise<StoredRoutine | null>;
+}
+
+class WaitTimeoutError extends Error {}
+
+export class RoutineExecutor {
+  private hooks: RoutineExecutorHooks;
+
+  constructor(hooks: RoutineExecutorHooks) {
+    this.hooks = hooks;
+  }
+
+  /**
+   * Run every step of a routine.  Never throws; failures are recorded
+   * in the report.
+   */
+  async run(routine: StoredRoutine): Promise<RoutineExecutionReport> {
+    const startedAt = new Date();
+    const { reports, error } = await this.runSequence(routine.actions, [routine.id]);
+    const finishedAt = new Date();
+
+    return {
+      routineId: routine.id,
+      name: routine.name,
+      status: error ? 'failed' : 'succeeded',
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      steps: reports,
+      error,
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal
+  // -----------------------------------------------------------------------
+
+  /**
+   * Run steps in order.  `stack` holds the IDs of the routines being
+   * executed, outermost first, to catch `run_routine` cycles.
+   */
+  private async runSequence(
+    steps: RoutineActionStep[],
+    stack: string[],
+  ): Promise<{ reports: RoutineStepReport[]; error?: string }> {
+    const reports: RoutineStepReport[] = [];
+    let error: string | undefined;
+
+    for (let i = 0; i < steps.length; i++) {
+      if (error) {
+        reports.push({ index: i, type: steps[i].type, status: 'skipped', durationMs: 0 });
+        continue;
+      }
+      const report = await this.runStep(steps[i], i, stack);
+      reports.push(report);
+      if (report.error && !steps[i].continueOnError) {
+        error = report.error;
+      }
+    }
+
+    return { reports, error };
+  }
+
+  private async runStep(step: RoutineActionStep, index: number, stack: string[]): Promise<RoutineStepReport> {
+    if (step.delaySeconds) {
+      await sleep(step.delaySeconds * 1000);
+    }
+
+    const started = Date.now();
+    const report: RoutineStepReport = {
+      index,
+      type: step.type,
+      status: 'succeeded',
+      startedAt: new Date(started).toISOString(),
+      durationMs: 0,
+    };
+
+    try {
+      switch (step.type) {
+        case 'device_command':
+          await this.hooks.controlDevice(step.endpointId, step.command);
+          break;
+        case 'speak':
+          await this.hooks.speak(step.deviceId, step.deviceType, step.text);
+          break;
+        case 'control_account_device':
+          await this.hooks.controlAccountDevice(step);
+          break;
+        case 'wait_until':
+          await this.waitUntil(step);
+          break;
+        case 'if': {
+          const matched = await evaluateCondition(step.condition, (id) => this.hooks.getState(id, false));
+          report.branch = matched ? 'then' : 'else';
+          const result = await this.runSequence((matched ? step.then : step.else) ?? [], stack);
+          report.steps = result.reports;
+          if (result.error) throw new Error(result.error);
+          break;
+        }
+        case 'parallel': {
+          const results = await Promise.all(step.steps.map((s, i) => this.runStep(s, i, stack)));
+          report.steps = results;
+          const failed = results.find((r) => r.error && !step.steps[r.index].continueOnError);
+          if (failed) throw new Error(failed.error);
+          break;
+        }
+        case 'run_routine': {
+          if (stack.includes(step.routineId)) {
+            throw new Error(`Routine ${step.routineId} is already running (cycle: ${[...stack, step.routineId].join(' -> ')})`);
+          }
+          if (stack.length >= MAX_ROUTINE_DEPTH) {
+            throw new Error(`Routine nesting exceeds ${MAX_ROUTINE_DEPTH} levels`);
+          }
+          const nested = await this.hooks.getRoutine(step.routineId);
+          if (!nested) throw new Error(`Routine ${step.routineId} not found`);
+          if (!nested.enabled) throw new Error(`Routine ${step.routineId} is disabled`);
+          const result = await this.runSequence(nested.actions, [...stack, nested.id]);
+          report.steps = result.reports;
+          if (result.error) throw new Error(result.error);
+          break;
+        }
+        default: {
+          const _exhaustive: never = step;
+          throw new Error(`Unknown step type: ${(_exhaustive as RoutineActionStep).type}`);
+        }
+      }
+    } catch (err) {
+      report.status = err instanceof WaitTimeoutError ? 'timed_out' : 'failed';
+      report.error = err instanceof Error ? err.message : String(err);
+    }
+
+    report.durationMs = Date.now() - started;
+    return report;
+  }
+
+  private async waitUntil(step: Extract<RoutineActionStep, { type: 'wait_until' }>): Promise<void> {
+    const deadline = Date.now() + step.timeoutSeconds * 1000;
+    const intervalMs = (step.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000;
+    const getState = (id: string) => this.hooks.getState(id, true);
+
+    for (;;) {
+      if (await evaluateCondition(step.condition, getState)) return;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new WaitTimeoutError(`Condition not met within ${step.timeoutSeconds}s`);
+      }
+      await sleep(Math.min(intervalMs, remaining));
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -13,9 +13,17 @@
 import https from 'https';
 import { v4 as uuid } from 'uuid';
 import type { AlexaAgentConfig } from '../config';
-import type { RoutineDefinition, RoutineSummary } from '../types/agent';
+import type {
+  RoutineDefinition,
+  RoutineSummary,
+  RoutineTrigger,
+  RoutineActionStep,
+  RoutineCondition,
+} from '../types/agent';
 import type { StoredRoutine, RoutineStore } from './routine-store';
 import { InMemoryRoutineStore, toSummary } from './routine-store';
+import { parseCron } from './cron';
+import { validateComparison } from './conditions';
 
 export class RoutineManager {
   private store: RoutineStore;
@@ -30,6 +38,8 @@ export class RoutineManager {
    * Create a new routine definition and persist it.
    */
   async createRoutine(definition: RoutineDefinition): Promise<string> {
+    await this.validateDefinition(definition);
+
     const id = uuid();
     const routine: StoredRoutine = {
       id,
@@ -43,6 +53,58 @@ export class RoutineManager {
     return id;
   }
 
+  /**
+   * Patch a routine's definition in place, keeping its ID, enabled
+   * flag and `lastTriggered`.  The patched definition is validated as
+   * a whole before anything is written.
+   */
+  async updateRoutine(routineId: string, updates: Partial<RoutineDefinition>): Promise<StoredRoutine> {
+    const existing = await this.store.get(routineId);
+    if (!existing) throw new Error(`Routine ${routineId} not found`);
+
+    const definition: RoutineDefinition = {
+      name: updates.name ?? existing.name,
+      trigger: updates.trigger ?? existing.trigger,
+      actions: updates.actions ?? existing.actions,
+    };
+    await this.validateDefinition(definition, routineId);
+
+    await this.store.update(routineId, definition);
+    return { ...existing, ...definition };
+  }
+
+  /**
+   * Enable or disable (pause) a routine.
+   */
+  async setRoutineEnabled(routineId: string, enabled: boolean): Promise<StoredRoutine> {
+    const existing = await this.store.get(routineId);
+    if (!existing) throw new Error(`Routine ${routineId} not found`);
+
+    await this.store.update(routineId, { enabled });
+    return { ...existing, enabled };
+  }
+
+  /**
+   * Copy a routine under a new ID.  The copy keeps the source's
+   * enabled flag but has no run history.
+   */
+  async duplicateRoutine(routineId: string, name?: string): Promise<StoredRoutine> {
+    const source = await this.store.get(routineId);
+    if (!source) throw new Error(`Routine ${routineId} not found`);
+
+    const copy: StoredRoutine = {
+      id: uuid(),
+      name: name ?? `${source.name} (copy)`,
+      trigger: JSON.parse(JSON.stringify(source.trigger)),
+      actions: JSON.parse(JSON.stringify(source.actions)),
+      enabled: source.enabled,
+      createdAt: new Date().toISOString(),
+    };
+    await this.validateDefinition(copy);
+    await this.store.create(copy);
+    return copy;
+  }
+
   /**
    * List all routines.
    */
@@ -51,15 +113,23 @@ export class RoutineManager {
     return all.map(toSummary);
   }
 
+  /**
+   * List all routines with their full definitions.
+   */
+  async listStoredRoutines(): Promise<StoredRoutine[]> {
+    return this.store.list();
+  }
+
   /**
    * Trigger a routine by ID.
    *
    * If the routine has a custom trigger, we fire it through the
-   * Alexa Routines Trigger API.  Otherwise we return the action
-   * list so the caller can execute the device commands.
+   * Alexa Routines Trigger API.  Otherwise we return the routine
+   * and its action list so the caller can execute the steps.
    */
   async triggerRoutine(routineId: string, accessToken?: string): Promise<{
     triggered: boolean;
+    routine?: StoredRoutine;
     actionsToExecute?: StoredRoutine['actions'];
   }> {
     const routine = await this.store.get(routineId);
@@ -77,13 +147,20 @@ export class RoutineManager {
     }
 
     // For non-custom triggers, return actions so caller can execute them
-    return { triggered: true, actionsToExecute: routine.actions };
+    return { triggered: true, routine, actionsToExecute: routine.actions };
   }
 
   /**
-   * Delete a routine.
+   * Delete a routine.  Refuses while another routine still runs it
+   * through a `run_routine` step.
    */
   async deleteRoutine(routineId: string): Promise<boolean> {
+    const callers = (await this.store.list())
+      .filter((r) => r.id !== routineId && nestedRoutineIds(r.actions).includes(routineId));
+    if (callers.length > 0) {
+      const names = callers.map((r) => `"${r.name}" (${r.id})`).join(', ');
+      throw new Error(`Routine ${routineId} is still run by ${names}; remove those run_routine steps first`);
+    }
     return this.store.delete(routineId);
   }
 
@@ -94,6 +171,36 @@ export class RoutineManager {
     return this.store.get(routineId);
   }
 
+  // -----------------------------------------------------------------------
+  // Validation
+  // -----------------------------------------------------------------------
+
+  /**
+   * Reject definitions that could never run.  `routineId` is the
+   * routine being updated, which may not run itself, directly or
+   * through the routines it runs.
+   */
+  private async validateDefinition(definition: RoutineDefinition, routineId?: string): Promise<void> {
+    if (typeof definition.name !== 'string' || !definition.name.trim()) {
+      throw new Error('Routine name is required');
+    }
+    validateTrigger(definition.trigger);
+    validateSteps(definition.actions, 'actions');
+    for (const nestedId of nestedRoutineIds(definition.actions)) {
+      if (nestedId === routineId) {
+        throw new Error(`run_routine cannot reference the routine itself (${nestedId})`);
+      }
+      if (!(await this.store.get(nestedId))) {
+        throw new Error(`run_routine references unknown routine ${nestedId}`);
+      }
+    }
+    if (routineId) {
+      const routines = new Map((await this.store.list()).map((r) => [r.id, r]));
+      const cycle = findCycle(routineId, definition.actions, routines);
+      if (cycle) throw new Error(`run_routine creates a cycle: ${cycle.join(' → ')}`);
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Alexa Custom Trigger API
   // -----------------------------------------------------------------------
@@ -142,3 +249,135 @@ export class RoutineManager {
     });
   }
 }
+
+/**
+ * Reject triggers the scheduler or rules engine could never fire.
+ */
+function validateTrigger(trigger: RoutineTrigger): void {
+  if (trigger.type === 'schedule') {
+    // Throws with a descriptive message if the cron or timezone is invalid
+    parseCron(trigger.cron, trigger.timezone);
+    return;
+  }
+  if (trigger.type === 'device_event') {
+    validateComparison(trigger.operator ?? 'equals', trigger.value);
+    if (trigger.debounceSeconds !== undefined && !(trigger.debounceSeconds >= 0)) {
+      throw new Error('debounceSeconds must be a non-negative number');
+    }
+  }
+}
+
+/**
+ * Reject steps the executor can't run.  `path` locates the step in
+ * error messages, e.g. `actions[2].then[0]`.
+ */
+function validateSteps(steps: RoutineActionStep[], path: string): void {
+  if (!Array.isArray(steps)) throw new Error(`${path} must be an array of steps`);
+
+  steps.forEach((step, i) => {
+    const at = `${path}[${i}]`;
+    if (step.delaySeconds !== undefined && !(step.delaySeconds >= 0)) {
+      throw new Error(`${at}: delaySeconds must be a non-negative number`);
+    }
+
+    switch (step.type) {
+      case 'device_command':
+        if (!step.endpointId || !step.command?.action) {
+          throw new Error(`${at}: device_command requires endpointId and command`);
+        }
+        break;
+      case 'speak':
+        if (!step.deviceId || !step.deviceType || !step.text) {
+          throw new Error(`${at}: speak requires deviceId, deviceType and text`);
+        }
+        break;
+      case 'control_account_device':
+        if (!step.deviceId || !step.deviceType || !step.command?.action) {
+          throw new Error(`${at}: control_account_device requires deviceId, deviceType and command`);
+        }
+        break;
+      case 'wait_until':
+        validateCondition(step.condition, `${at}.condition`);
+        if (!(step.timeoutSeconds > 0)) {
+          throw new Error(`${at}: wait_until requires a positive timeoutSeconds`);
+        }
+        if (step.pollIntervalSeconds !== undefined && !(step.pollIntervalSeconds > 0)) {
+          throw new Error(`${at}: pollIntervalSeconds must be positive`);
+        }
+        break;
+      case 'if':
+        validateCondition(step.condition, `${at}.condition`);
+        validateSteps(step.then, `${at}.then`);
+        if (step.else !== undefined) validateSteps(step.else, `${at}.else`);
+        break;
+      case 'parallel':
+        validateSteps(step.steps, `${at}.steps`);
+        break;
+      case 'run_routine':
+        if (!step.routineId) throw new Error(`${at}: run_routine requires routineId`);
+        break;
+      default:
+        throw new Error(`${at}: unknown step type "${(step as { type?: string }).type}"`);
+    }
+  });
+}
+
+function validateCondition(condition: RoutineCondition, path: string): void {
+  if (!condition || typeof condition !== 'object') throw new Error(`${path} is required`);
+
+  if ('all' in condition || 'any' in condition) {
+    const list = 'all' in condition ? condition.all : condition.any;
+    if (!Array.isArray(list) || list.length === 0) {
+      throw new Error(`${path}: all/any requires a non-empty list of conditions`);
+    }
+    list.forEach((c, i) => validateCondition(c, `${path}[${i}]`));
+    return;
+  }
+  if ('not' in condition) {
+    validateCondition(condition.not, `${path}.not`);
+    return;
+  }
+
+  if (!condition.endpointId || !condition.property) {
+    throw new Error(`${path}: condition requires endpointId and property`);
+  }
+  const operator = condition.operator ?? 'equals';
+  if (operator === 'changed') {
+    throw new Error(`${path}: operator "changed" is only valid in device_event triggers`);
+  }
+  try {
+    validateComparison(operator, condition.value);
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`);
+  }
+}
+
+function nestedRoutineIds(steps: RoutineActionStep[]): string[] {
+  const ids: string[] = [];
+  for (const step of steps) {
+    if (step.type === 'run_routine') ids.push(step.routineId);
+    else if (step.type === 'if') ids.push(...nestedRoutineIds([...step.then, ...(step.else ?? [])]));
+    else if (step.type === 'parallel') ids.push(...nestedRoutineIds(step.steps));
+  }
+  return ids;
+}
+
+/**
+ * Follow `run_routine` steps from `steps` through the stored routines;
+ * returns the chain of IDs that leads back to `startId`, if any.
+ */
+function findCycle(startId: string, steps: RoutineActionStep[], routines: Map<string, StoredRoutine>): string[] | null {
+  const visited = new Set<string>();
+  const walk = (ids: string[], chain: string[]): string[] | null => {
+    for (const id of ids) {
+      if (id === startId) return [...chain, id];
+      if (visited.has(id)) continue;
+      visited.add(id);
+      const routine = routines.get(id);
+      const found = routine ? walk(nestedRoutineIds(routine.actions), [...chain, id]) : null;
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(nestedRoutineIds(steps), [startId]);
+}
@@ -0,0 +1,136 @@
+/**
+ * Routine run history.
+ *
+ * Every time a routine is triggered a run is recorded: where the
+ * trigger came from, when it started and finished, and the report of
+ * each executed step.  A run is inserted as `running` before any step
+ * executes, so a crash mid-routine still leaves a trace; on the next
+ * start those runs are closed as `interrupted`.
+ */
+
+import type { RoutineStepReport } from '../types/agent';
+
+/** What caused a routine to run. */
+export type RoutineRunSource = 'manual' | 'schedule' | 'device_event';
+
+export type RoutineRunStatus = 'running' | 'succeeded' | 'failed' | 'interrupted';
+
+export interface RoutineRun {
+  id: string;
+  routineId: string;
+  routineName: string;
+  source: RoutineRunSource;
+  status: RoutineRunStatus;
+  startedAt: string;     // ISO-8601
+  finishedAt?: string;   // ISO-8601
+  durationMs?: number;
+  steps: RoutineStepReport[];
+  /** Error that stopped the run */
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Query types
+// ---------------------------------------------------------------------------
+
+export interface RoutineRunQuery {
+  routineId?: string;
+  status?: RoutineRunStatus;
+  source?: RoutineRunSource;
+  startTime?: string;   // ISO-8601
+  endTime?: string;     // ISO-8601
+  limit?: number;
+  offset?: number;
+}
+
+export interface RoutineRunQueryResult {
+  runs: RoutineRun[];
+  totalCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+export interface RoutineRunStore {
+  insert(run: RoutineRun): Promise<void>;
+  update(runId: string, updates: Partial<RoutineRun>): Promise<void>;
+  get(runId: string): Promise<RoutineRun | null>;
+  /** Newest first */
+  query(query: RoutineRunQuery): Promise<RoutineRunQueryResult>;
+  /** Close every `running` run as `interrupted`; returns how many */
+  interruptRunning(finishedAt: string, error: string): Promise<number>;
+  prune(olderThan: string): Promise<number>;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory implementation
+// ---------------------------------------------------------------------------
+
+export class InMemoryRoutineRunStore implements RoutineRunStore {
+  private runs: RoutineRun[] = [];
+  private maxRuns: number;
+
+  constructor(maxRuns = 10_000) {
+    this.maxRuns = maxRuns;
+  }
+
+  async insert(run: RoutineRun): Promise<void> {
+    this.runs.unshift(run);
+    if (this.runs.length > this.maxRuns) {
+      this.runs.length = this.maxRuns;
+    }
+  }
+
+  async update(runId: string, updates: Partial<RoutineRun>): Promise<void> {
+    const index = this.runs.findIndex((r) => r.id === runId);
+    if (index === -1) throw new Error(`Routine run ${runId} not found`);
+    this.runs[index] = { ...this.runs[index], ...updates };
+  }
+
+  async get(runId: string): Promise<RoutineRun | null> {
+    return this.runs.find((r) => r.id === runId) ?? null;
+  }
+
+  async query(query: RoutineRunQuery): Promise<RoutineRunQueryResult> {
+    let filtered = this.runs;
+
+    if (query.routineId) {
+      filtered = filtered.filter((r) => r.routineId === query.routineId);
+    }
+    if (query.status) {
+      filtered = filtered.filter((r) => r.status === query.status);
+    }
+    if (query.source) {
+      filtered = filtered.filter((r) => r.source === query.source);
+    }
+    if (query.startTime) {
+      filtered = filtered.filter((r) => r.startedAt >= query.startTime!);
+    }
+    if (query.endTime) {
+      filtered = filtered.filter((r) => r.startedAt <= query.endTime!);
+    }
+
+    const totalCount = filtered.length;
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+
+    return { runs: filtered.slice(offset, offset + limit), totalCount };
+  }
+
+  async interruptRunning(finishedAt: string, error: string): Promise<number> {
+    let count = 0;
+    this.runs = this.runs.map((r) => {
+      if (r.status !== 'running') return r;
+      count++;
+      return { ...r, status: 'interrupted', finishedAt, error };
+    });
+    return count;
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    const before = this.runs.length;
+    this.runs = this.runs.filter((r) => r.startedAt >= olderThan);
+    return before - this.runs.length;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Routine scheduler — fires routines with `schedule` triggers.
+ *
+ * Keeps one timer per enabled scheduled routine, armed for the next
+ * cron fire time.  On start, the next run of each routine is computed
+ * from its stored `lastTriggered`, so a run that was due while the
+ * process was down is caught up once (instead of being lost or
+ * replayed for every missed slot).
+ *
+ * Execution itself is delegated to the `onFire` callback, which lets
+ * the agent tool run the routine's action steps with its own device
+ * backends and logging.
+ */
+
+import type { RoutineManager } from './routine-manager';
+import type { StoredRoutine } from './routine-store';
+import type { CronSchedule } from './cron';
+import { parseCron, nextFireTime, nextFireTimes } from './cron';
+
+/** setTimeout() cannot wait longer than this (~24.8 days). */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface RoutineSchedulerOptions {
+  /** Called when a scheduled routine is due. */
+  onFire: (routine: StoredRoutine, scheduledFor: Date) => Promise<void>;
+  /** Called when a routine fails to fire or has an invalid schedule. */
+  onError?: (routineId: string, error: Error) => void;
+  /**
+   * Whether to fire once on start for a run missed while the process
+   * was down (default: true).
+   */
+  catchUpMissed?: boolean;
+}
+
+interface ScheduleEntry {
+  routineId: string;
+  schedule: CronSchedule;
+  nextRun: Date;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class RoutineScheduler {
+  private routines: RoutineManager;
+  private options: RoutineSchedulerOptions;
+  private entries = new Map<string, ScheduleEntry>();
+  private inFlight = new Set<string>();
+  private running = false;
+
+  constructor(routines: RoutineManager, options: RoutineSchedulerOptions) {
+    this.routines = routines;
+    this.options = options;
+  }
+
+  /**
+   * Load all scheduled routines and arm their timers.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const all = await this.routines.listStoredRoutines();
+    for (const routine of all) {
+      this.arm(routine, true);
+    }
+  }
+
+  /**
+   * Cancel all timers.  Runs already in progress are not interrupted.
+   */
+  stop(): void {
+    this.running = false;
+    for (const entry of this.entries.values()) {
+      if (entry.timer) clearTimeout(entry.timer);
+    }
+    this.entries.clear();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Re-read a routine from the store and re-arm (or disarm) its timer.
+   * Call after a routine is created, updated or deleted.
+   */
+  async refresh(routineId: string): Promise<void> {
+    if (!this.running) return;
+    this.disarm(routineId);
+    const routine = await this.routines.getRoutine(routineId);
+    if (routine) this.arm(routine, false);
+  }
+
+  /**
+   * Get the next fire time of an armed routine.
+   */
+  getNextRun(routineId: string): Date | null {
+    return this.entries.get(routineId)?.nextRun ?? null;
+  }
+
+  /**
+   * Compute the upcoming fire times for a routine's schedule trigger,
+   * independent of whether the scheduler is running.
+   */
+  static upcomingRuns(routine: StoredRoutine, count: number, after = new Date()): Date[] {
+    if (routine.trigger.type !== 'schedule') return [];
+    const schedule = parseCron(routine.trigger.cron, routine.trigger.timezone);
+    return nextFireTimes(schedule, after, count);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal
+  // -----------------------------------------------------------------------
+
+  private arm(routine: StoredRoutine, onStart: boolean): void {
+    if (!routine.enabled || routine.trigger.type !== 'schedule') return;
+
+    let schedule: CronSchedule;
+    try {
+      schedule = parseCron(routine.trigger.cron, routine.trigger.timezone);
+    } catch (err) {
+      this.options.onError?.(routine.id, err as Error);
+      return;
+    }
+
+    const now = new Date();
+    // On start, resume from the last run so a slot missed while the
+    // process was down is detected.  Otherwise schedule from now.
+    const base = onStart && routine.lastTriggered && this.options.catchUpMissed !== false
+      ? new Date(routine.lastTriggered)
+      : now;
+    const next = nextFireTime(schedule, base);
+    if (!next) return;
+
+    const entry: ScheduleEntry = { routineId: routine.id, schedule, nextRun: next, timer: null };
+    this.entries.set(routine.id, entry);
+    this.setTimer(entry);
+  }
+
+  private disarm(routineId: string): void {
+    const entry = this.entries.get(routineId);
+    if (entry?.timer) clearTimeout(entry.timer);
+    this.entries.delete(routineId);
+  }
+
+  private setTimer(entry: ScheduleEntry): void {
+    const delay = Math.max(0, entry.nextRun.getTime() - Date.now());
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      if (entry.nextRun.getTime() > Date.now()) {
+        // Woke early (long delays are clamped) — wait again
+        this.setTimer(entry);
+        return;
+      }
+      this.fire(entry).catch(() => {});
+    }, Math.min(delay, MAX_TIMER_MS));
+  }
+
+  private async fire(entry: ScheduleEntry): Promise<void> {
+    const scheduledFor = entry.nextRun;
+
+    // Arm the following run before executing so a slow routine
+    // doesn't delay its own next slot.
+    if (this.entries.get(entry.routineId) === entry) {
+      const next = nextFireTime(entry.schedule, new Date(Math.max(Date.now(), scheduledFor.getTime())));
+      if (next) {
+        entry.nextRun = next;
+        this.setTimer(entry);
+      } else {
+        this.entries.delete(entry.routineId);
+      }
+    }
+
+    // Skip overlapping runs of the same routine
+    if (this.inFlight.has(entry.routineId)) return;
+
+    const routine = await this.routines.getRoutine(entry.routineId);
+    if (!routine || !routine.enabled) {
+      this.disarm(entry.routineId);
+      return;
+    }
+
+    this.inFlight.add(entry.routineId);
+    try {
+      await this.options.onFire(routine, scheduledFor);
+    } catch (err) {
+      this.options.onError?.(entry.routineId, err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      this.inFlight.delete(entry.routineId);
+    }
+  }
+}
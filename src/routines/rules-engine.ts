@@ -0,0 +1,288 @@
+/**
+ * Routine rules engine — evaluates `device_event` triggers.
+ *
+ * Observes device properties from three sources:
+ * 1. `PropertyChange` events recorded by the EventLogger
+ * 2. Push events from the WebSocket listener
+ * 3. State snapshots from polling
+ *
+ * Triggers are edge-triggered: a routine fires when its condition goes
+ * from not-matching to matching, not on every observation that still
+ * matches.  The first poll of a property only establishes a baseline;
+ * event sources (change reports, push events) are transitions by
+ * nature, so an unknown prior value counts as not-matching for them.
+ *
+ * Sources name a device differently: snapshots by applianceId, push
+ * events by Echo serial.  Trigger and observation IDs are both passed
+ * through `resolveDeviceId` before they are compared.
+ */
+
+import type { RoutineTrigger } from '../types/agent';
+import type { EventLogger } from '../events/event-logger';
+import type { StoredEvent } from '../events/event-store';
+import type { DeviceStateSnapshot } from '../alexa-api/alexa-api-types';
+import type { PushEvent } from '../alexa-api/push-event-types';
+import type { RoutineManager } from './routine-manager';
+import type { StoredRoutine } from './routine-store';
+import { matchesProperty, sameValue, compareValues } from './conditions';
+
+type DeviceEventTrigger = Extract<RoutineTrigger, { type: 'device_event' }>;
+
+/** A single observed property value. */
+export interface PropertyObservation {
+  endpointId: string;
+  namespace: string;
+  name: string;
+  instance?: string;
+  value: unknown;
+  /** 'poll' for state snapshots, 'event' for change reports and push events */
+  source: 'poll' | 'event';
+  /** ISO-8601 */
+  timestamp: string;
+}
+
+export interface RoutineRulesEngineOptions {
+  /** Called when a routine's trigger fires. */
+  onFire: (routine: StoredRoutine, observation: PropertyObservation) => Promise<void>;
+  /** Called when a fired routine fails. */
+  onError?: (routineId: string, error: Error) => void;
+  /** User ID attached to logged RoutineTriggered events */
+  userId?: string;
+  /** Maps any of a device's IDs to one key for that device (default: unchanged) */
+  resolveDeviceId?: (id: string) => string;
+}
+
+interface TriggerState {
+  /** Last observed value (for `changed`) */
+  lastValue?: unknown;
+  /** Whether the condition matched on the last observation */
+  matched?: boolean;
+  /** Epoch ms of the last firing (for debounce) */
+  lastFiredAt?: number;
+}
+
+export class RoutineRulesEngine {
+  private routines: RoutineManager;
+  private eventLogger: EventLogger;
+  private options: RoutineRulesEngineOptions;
+  private active: StoredRoutine[] = [];
+  private states = new Map<string, TriggerState>();
+  private streamId: string | null = null;
+
+  constructor(routines: RoutineManager, eventLogger: EventLogger, options: RoutineRulesEngineOptions) {
+    this.routines = routines;
+    this.eventLogger = eventLogger;
+    this.options = options;
+  }
+
+  /**
+   * Load device-event routines and subscribe to PropertyChange events.
+   */
+  async start(): Promise<void> {
+    if (this.streamId) return;
+    await this.load();
+    this.streamId = this.eventLogger.subscribe((event) => this.onLoggedEvent(event));
+  }
+
+  stop(): void {
+    if (this.streamId) {
+      this.eventLogger.unsubscribe(this.streamId);
+      this.streamId = null;
+    }
+    this.active = [];
+    this.states.clear();
+  }
+
+  isRunning(): boolean {
+    return this.streamId !== null;
+  }
+
+  /**
+   * Reload the set of enabled device-event routines.  Call after a
+   * routine is created, updated or deleted.  Edge state for routines
+   * that still exist is kept.
+   */
+  async refresh(): Promise<void> {
+    if (!this.streamId) return;
+    await this.load();
+  }
+
+  /**
+   * Evaluate the capabilities of freshly polled state snapshots.
+   */
+  async observeSnapshots(snapshots: DeviceStateSnapshot[]): Promise<void> {
+    const observations: PropertyObservation[] = [];
+    for (const s of snapshots) {
+      if (s.error) continue;
+      for (const cap of s.capabilities) {
+        observations.push({
+          endpointId: s.deviceId,
+          namespace: cap.namespace,
+          name: cap.name,
+          instance: cap.instance,
+          value: cap.value,
+          source: 'poll',
+          timestamp: cap.timeOfSample ?? s.polledAt,
+        });
+      }
+    }
+    await this.observeAll(observations);
+  }
+
+  /**
+   * Evaluate the properties carried by a push event.
+   */
+  async observePushEvent(event: PushEvent): Promise<void> {
+    await this.observeAll(pushEventToObservations(event));
+  }
+
+  /**
+   * Evaluate a single observation against every active trigger.
+   */
+  async observe(observation: PropertyObservation): Promise<void> {
+    await this.observeAll([observation]);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal
+  // -----------------------------------------------------------------------
+
+  private async load(): Promise<void> {
+    const all = await this.routines.listStoredRoutines();
+    this.active = all.filter((r) => r.enabled && r.trigger.type === 'device_event');
+    const ids = new Set(this.active.map((r) => r.id));
+    for (const key of this.states.keys()) {
+      if (!ids.has(key.split('|')[0])) this.states.delete(key);
+    }
+  }
+
+  private onLoggedEvent(event: StoredEvent): void {
+    if (event.eventType !== 'PropertyChange' || !event.endpointId) return;
+    const name = event.payload.name;
+    if (typeof name !== 'string') return;
+    this.observe({
+      endpointId: event.endpointId,
+      namespace: event.namespace,
+      name,
+      instance: typeof event.payload.instance === 'string' ? event.payload.instance : undefined,
+      value: event.payload.value,
+      source: 'event',
+      timestamp: event.timestamp,
+    }).catch(() => {});
+  }
+
+  private async observeAll(observations: PropertyObservation[]): Promise<void> {
+    if (!this.streamId || this.active.length === 0) return;
+    const resolve = this.options.resolveDeviceId ?? ((id: string) => id);
+
+    for (const obs of observations) {
+      const deviceId = resolve(obs.endpointId);
+      for (const routine of this.active) {
+        const trigger = routine.trigger as DeviceEventTrigger;
+        if (resolve(trigger.endpointId) !== deviceId || !matchesProperty(trigger.property, obs)) continue;
+
+        if (this.evaluate(routine, trigger, obs)) {
+          await this.fire(routine, trigger, obs);
+        }
+      }
+    }
+  }
+
+  /**
+   * Update edge state for one routine/observation pair and decide
+   * whether it should fire.
+   */
+  private evaluate(routine: StoredRoutine, trigger: DeviceEventTrigger, obs: PropertyObservation): boolean {
+    const key = `${routine.id}|${obs.namespace}|${obs.name}|${obs.instance ?? ''}`;
+    const state = this.states.get(key) ?? {};
+    this.states.set(key, state);
+
+    const hasPrior = 'lastValue' in state;
+    const prior = state.lastValue;
+    state.lastValue = obs.value;
+
+    const operator = trigger.operator ?? 'equals';
+    if (operator === 'changed') {
+      if (!hasPrior) return obs.source === 'event';
+      return !sameValue(prior, obs.value);
+    }
+
+    const matched = compareValues(operator, obs.value, trigger.value);
+    const wasMatched = state.matched ?? (obs.source === 'poll' && !hasPrior ? matched : false);
+    state.matched = matched;
+    return matched && !wasMatched;
+  }
+
+  private async fire(routine: StoredRoutine, trigger: DeviceEventTrigger, obs: PropertyObservation): Promise<void> {
+    const key = `${routine.id}|${obs.namespace}|${obs.name}|${obs.instance ?? ''}`;
+    const state = this.states.get(key)!;
+    const now = Date.now();
+    const debounceMs = (trigger.debounceSeconds ?? 0) * 1000;
+    if (state.lastFiredAt !== undefined && now - state.lastFiredAt < debounceMs) return;
+    state.lastFiredAt = now;
+
+    try {
+      await this.eventLogger.logCustomEvent({
+        eventType: 'RoutineTriggered',
+        namespace: 'RoutineRulesEngine',
+        endpointId: obs.endpointId,
+        userId: this.options.userId,
+        cause: 'RULE_TRIGGER',
+        payload: {
+          routineId: routine.id,
+          name: routine.name,
+          property: trigger.property,
+          operator: trigger.operator ?? 'equals',
+          value: obs.value,
+          source: obs.source,
+        },
+        tags: ['routines', 'device_event'],
+      });
+    } catch {
+      // Logging failures must not stop the routine
+    }
+
+    // Run in the background so a slow routine doesn't hold up the poll
+    // or push handler that produced the observation.
+    this.options.onFire(routine, obs).catch((err) => {
+      this.options.onError?.(routine.id, err instanceof Error ? err : new Error(String(err)));
+    });
+  }
+}
+
+/**
+ * Derive property observations from a push event.  Only commands that
+ * carry device state are mapped; others produce no observations.
+ */
+export function pushEventToObservations(event: PushEvent): PropertyObservation[] {
+  if (!event.deviceSerial) return [];
+  const timestamp = new Date(event.timestamp).toISOString();
+  const base = { endpointId: event.deviceSerial, source: 'event' as const, timestamp };
+  const p = event.payload;
+
+  switch (event.command) {
+    case 'PUSH_VOLUME_CHANGE': {
+      const obs: PropertyObservation[] = [];
+      if (typeof p.volumeSetting === 'number') {
+        obs.push({ ...base, namespace: 'Alexa.Speaker', name: 'volume', value: p.volumeSetting });
+      }
+      if (typeof p.isMuted === 'boolean') {
+        obs.push({ ...base, namespace: 'Alexa.Speaker', name: 'muted', value: p.isMuted });
+      }
+      return obs;
+    }
+    case 'PUSH_DOPPLER_CONNECTION_CHANGE':
+      if (typeof p.dopplerConnectionState !== 'string') return [];
+      return [{
+        ...base,
+        namespace: 'Alexa.EndpointHealth',
+        name: 'connectivity',
+        value: p.dopplerConnectionState === 'ONLINE' ? 'OK' : 'UNREACHABLE',
+      }];
+    case 'PUSH_AUDIO_PLAYER_STATE':
+      if (typeof p.audioPlayerState !== 'string') return [];
+      return [{ ...base, namespace: 'Alexa.PlaybackStateReporter', name: 'playbackState', value: p.audioPlayerState }];
+    default:
+      return [];
+  }
+}
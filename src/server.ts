@@ -15,10 +15,26 @@ import fs from 'fs';
 import path from 'path';
 import { loadConfig } from './config';
 import { AlexaAgentTool } from './agent';
+import { loadVirtualDevices } from './devices';
 import type { AlexaMessage } from './types/alexa';
+import type { PushClientHealth } from './alexa-api/push-client';
+import type { PollPolicyUpdate } from './alexa-api/poll-scheduler';
+import type { StateAggregateBucket } from './alexa-api/state-aggregates';
 
 const config = loadConfig();
-const tool = new AlexaAgentTool({ config, userId: 'local-user' });
+
+// Optional simulated smart home behind the skill (VIRTUAL_DEVICES_PATH)
+const virtualDevices = config.virtualDevicesPath
+  ? loadVirtualDevices(config.virtualDevicesPath)
+  : null;
+
+const tool = new AlexaAgentTool({
+  config,
+  userId: 'local-user',
+  ...(virtualDevices
+    ? { deviceBackend: virtualDevices, discoverySource: async () => virtualDevices.discover() }
+    : {}),
+});
 
 // Import the Lambda handler factory so we can run the same logic locally
 import { createHandler } from './lambda';
@@ -29,6 +45,26 @@ const handler = createHandler({
   deviceRegistry: tool.getDeviceRegistry(),
   deviceController: tool.getDeviceController(),
   eventLogger: tool.getEventLogger(),
+  ...(virtualDevices
+    ? {
+        onDeviceDirective: async (message: AlexaMessage) => {
+          const response = await virtualDevices.handleDirective(message);
+          // Alexa already knows the state it just set; only later
+          // changes need a ChangeReport
+          const endpointId = message.directive?.endpoint?.endpointId;
+          if (endpointId && response.context?.properties) {
+            tool.getChangeReporter().recordState(endpointId, response.context.properties);
+          }
+          return response;
+        },
+        onDiscover: async () => {
+          const devices = virtualDevices.discover();
+          // A full Discover is the new baseline for sync_discovery
+          await tool.getDiscoverySync().acknowledge(devices);
+          return devices;
+        },
+      }
+    : {}),
 });
 
 // ---------------------------------------------------------------------------
@@ -73,39 +109,34 @@ function serveStaticFile(reqUrl: string, res: http.ServerResponse): boolean {
 }
 
 // ---------------------------------------------------------------------------
-// Auto-poll timer
+// Auto-poll (per-device poll scheduler)
 // ---------------------------------------------------------------------------
 
-let autoPollTimer: ReturnType<typeof setInterval> | null = null;
-let autoPollIntervalMs = config.autoPollIntervalMinutes * 60 * 1000;
-
-function startAutoPoll(intervalMs?: number): void {
-  stopAutoPoll();
-  const ms = intervalMs ?? autoPollIntervalMs;
-  if (ms <= 0) return;
-  autoPollIntervalMs = ms;
-  autoPollTimer = setInterval(async () => {
-    try {
-      console.log(`  Auto-poll: polling all states...`);
-      const result = await tool.execute({ type: 'poll_all_states' });
-      if (result.success) {
-        const d = result.data as { polledCount: number; errorCount: number };
-        console.log(`  Auto-poll: ${d.polledCount} devices (${d.errorCount} unreachable)`);
-        broadcastSSE('auto-poll', { polledCount: d.polledCount, errorCount: d.errorCount, timestamp: new Date().toISOString() });
-      } else {
-        console.log(`  Auto-poll: ${result.error}`);
-      }
-    } catch (err) {
-      console.log(`  Auto-poll: failed — ${err instanceof Error ? err.message : String(err)}`);
+function startAutoPoll(): void {
+  tool.getPollScheduler().start().then((result) => {
+    if (result.polledCount > 0) {
+      console.log(`  Auto-poll: ${result.polledCount} devices (${result.errorCount} unreachable)`);
     }
-  }, ms);
+  }).catch((err) => {
+    console.log(`  Auto-poll: failed — ${err instanceof Error ? err.message : String(err)}`);
+  });
 }
 
 function stopAutoPoll(): void {
-  if (autoPollTimer) {
-    clearInterval(autoPollTimer);
-    autoPollTimer = null;
-  }
+  tool.getPollScheduler().stop();
+}
+
+/** Auto-poll state, as served by /auto-poll. */
+function autoPollStatus() {
+  const status = tool.getPollScheduler().getStatus();
+  // Legacy fields: the controllable-device interval the toggle shows
+  const intervalMs = status.policy.categories.controllable.intervalMs;
+  return {
+    enabled: status.running,
+    intervalMs,
+    intervalMinutes: Math.round(intervalMs / 60000),
+    ...status,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -128,24 +159,24 @@ function broadcastSSE(event: string, data: unknown): void {
 // Subscribe to all events from the EventLogger and forward to SSE clients
 tool.getEventLogger().subscribe((event) => {
   broadcastSSE('event', event);
+  if (event.eventType === 'ScheduledPoll') {
+    const { polledCount, errorCount } = event.payload as { polledCount: number; errorCount: number };
+    broadcastSSE('auto-poll', { polledCount, errorCount, timestamp: event.timestamp });
+  }
 });
 
+/** Push listener health, as served by /push-status and the SSE heartbeat. */
+function pushStatus(): PushClientHealth | Pick<PushClientHealth, 'connected' | 'state' | 'connectionId' | 'lastEventTime' | 'eventCount'> {
+  const pushClient = tool.getPushClient();
+  return pushClient
+    ? pushClient.getHealth()
+    : { connected: false, state: 'disconnected', connectionId: null, lastEventTime: null, eventCount: 0 };
+}
+
 // Periodic push-status heartbeat for SSE clients
 setInterval(() => {
   if (sseClients.size === 0) return;
-  const pushClient = tool.getPushClient();
-  const status = pushClient
-    ? {
-        connected: pushClient.isConnected(),
-        state: pushClient.getState(),
-        connectionId: pushClient.getConnectionId(),
-        lastEventTime: pushClient.getLastEventTime()
-          ? new Date(pushClient.getLastEventTime()!).toISOString()
-          : null,
-        eventCount: pushClient.getEventCount(),
-      }
-    : { connected: false, state: 'disconnected', connectionId: null, lastEventTime: null, eventCount: 0 };
-  broadcastSSE('push-status', status);
+  broadcastSSE('push-status', pushStatus());
 }, 5000);
 
 // ---------------------------------------------------------------------------
@@ -162,31 +193,30 @@ const server = http.createServer(async (req, res) => {
 
   // Cookie status (unofficial API auth)
   if (req.method === 'GET' && req.url === '/cookie-status') {
-    const hasCookie = tool.getAlexaApiClient().hasValidCredentials();
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ hasCookie }));
+    res.end(JSON.stringify({
+      ...tool.getCookieHealthMonitor().getStatus(),
+      refresh: await tool.getCookieSessionManager().getStatus(),
+    }));
     return;
   }
 
   // Push listener status
   if (req.method === 'GET' && req.url === '/push-status') {
-    const pushClient = tool.getPushClient();
-    const status = pushClient
-      ? {
-          connected: pushClient.isConnected(),
-          state: pushClient.getState(),
-          connectionId: pushClient.getConnectionId(),
-          lastEventTime: pushClient.getLastEventTime()
-            ? new Date(pushClient.getLastEventTime()!).toISOString()
-            : null,
-          eventCount: pushClient.getEventCount(),
-        }
-      : { connected: false, state: 'disconnected', connectionId: null, lastEventTime: null, eventCount: 0 };
+    const status = pushStatus();
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(status));
     return;
   }
 
+  // Account API request metrics and rate limits, per endpoint family
+  if (req.method === 'GET' && req.url === '/request-metrics') {
+    const alexaApi = tool.getAlexaApiClient();
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ metrics: alexaApi.getRequestMetrics(), policy: alexaApi.getRequestPolicy() }));
+    return;
+  }
+
   // Browser-based cookie extraction page
   if (req.method === 'GET' && req.url === '/extract-cookie') {
     res.writeHead(200, { 'Content-Type': 'text/html' });
@@ -248,14 +278,10 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
-  // Auto-poll status & control
+  // Auto-poll status & control (per-category policy and per-device schedule)
   if (req.method === 'GET' && req.url === '/auto-poll') {
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({
-      enabled: autoPollTimer !== null,
-      intervalMs: autoPollIntervalMs,
-      intervalMinutes: Math.round(autoPollIntervalMs / 60000),
-    }));
+    res.end(JSON.stringify(autoPollStatus()));
     return;
   }
 
@@ -263,25 +289,33 @@ const server = http.createServer(async (req, res) => {
     let body = '';
     req.on('data', (chunk) => (body += chunk));
     req.on('end', () => {
+      let parsed: { enabled?: boolean; intervalMinutes?: number; policy?: PollPolicyUpdate };
       try {
-        const { enabled, intervalMinutes } = JSON.parse(body);
+        parsed = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+        return;
+      }
+      try {
+        const { enabled, intervalMinutes, policy } = parsed;
+        const scheduler = tool.getPollScheduler();
+        if (policy) {
+          scheduler.setPolicy(policy);
+        }
         if (typeof intervalMinutes === 'number' && intervalMinutes > 0) {
-          autoPollIntervalMs = intervalMinutes * 60 * 1000;
+          scheduler.setPolicy({ categories: { controllable: { intervalMs: intervalMinutes * 60 * 1000 } } });
         }
         if (enabled === false) {
           stopAutoPoll();
-        } else if (enabled === true) {
-          startAutoPoll(autoPollIntervalMs);
+        } else if (enabled === true && !scheduler.isRunning()) {
+          startAutoPoll();
         }
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          enabled: autoPollTimer !== null,
-          intervalMs: autoPollIntervalMs,
-          intervalMinutes: Math.round(autoPollIntervalMs / 60000),
-        }));
+        res.end(JSON.stringify(autoPollStatus()));
       } catch (err) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
       }
     });
     return;
@@ -310,6 +344,40 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Downsampled history of one numeric capability — used by the frontend for long-range charts
+  if (req.method === 'GET' && req.url?.startsWith('/state-aggregates')) {
+    const url = new URL(req.url, `http://localhost:${port}`);
+    const param = (name: string) => url.searchParams.get(name) || undefined;
+
+    try {
+      const result = await tool.execute({
+        type: 'query_state_aggregates',
+        deviceId: param('deviceId'),
+        deviceName: param('deviceName'),
+        namespace: param('namespace') ?? '',
+        name: param('name') ?? '',
+        instance: param('instance'),
+        bucket: param('bucket') as StateAggregateBucket | undefined,
+        startTime: param('startTime'),
+        endTime: param('endTime'),
+      });
+      res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result.success ? result.data : { error: result.error }));
+    } catch (err) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+    }
+    return;
+  }
+
+  // Database size, row counts and retention status
+  if (req.method === 'GET' && req.url === '/storage-stats') {
+    const result = await tool.execute({ type: 'get_storage_stats' });
+    res.writeHead(result.success ? 200 : 500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.success ? result.data : { error: result.error }));
+    return;
+  }
+
   // Static file serving (frontend)
   if (req.method === 'GET' && req.url) {
     if (serveStaticFile(req.url, res)) return;
@@ -444,29 +512,79 @@ const port = config.localServerPort;
 server.listen(port, () => {
   console.log(`Alexa Agent Tool server running on http://localhost:${port}`);
   console.log(`  Storage: ${config.storageBackend}${config.storageBackend === 'sqlite' ? ` (${config.sqlitePath})` : ''}`);
+  if (virtualDevices) {
+    console.log(`  Virtual devices: ${virtualDevices.discover().length} from ${config.virtualDevicesPath}`);
+  }
   console.log(`  Endpoints:`);
   console.log(`    GET  /              — web frontend`);
   console.log(`    GET  /events/stream — SSE real-time event stream`);
   console.log(`    POST /directive     — receives forwarded Alexa directives`);
   console.log(`    POST /action        — receives agent tool actions`);
   console.log(`    GET  /health        — health check`);
-  console.log(`    GET  /cookie-status — unofficial API cookie status`);
+  console.log(`    GET  /cookie-status — cookie validity, age, estimated expiry and refresh token status`);
   console.log(`    GET  /push-status   — push listener connection status`);
+  console.log(`    GET  /request-metrics — account API request metrics and rate limits`);
+  console.log(`    GET  /auto-poll     — poll scheduler policy and per-device schedule (POST to edit)`);
+  console.log(`    GET  /state-aggregates — min/max/avg/last of a numeric capability per 5m, 1h or 1d bucket`);
+  console.log(`    GET  /storage-stats — database size, row counts and retention status`);
   console.log(`    GET  /extract-cookie — browser-based cookie extraction page`);
 
   // Auto-start push listener if a cookie is already stored,
   // then auto-poll device states in the background so the frontend
   // can render cached states immediately on first page load.
   (async () => {
+    // With a refresh token stored, exchange it for fresh cookies when
+    // the current ones are missing or near expiry, then keep rotating
     try {
-      const result = await tool.execute({ type: 'start_push_listener' });
-      if (result.success) {
-        console.log(`  Push listener: connected`);
-      } else {
-        console.log(`  Push listener: ${result.error}`);
-      }
+      const check = await tool.getCookieSessionManager().start();
+      const status = check === 'idle' ? 'off (no refresh token)'
+        : check === 'ok' ? 'cookie current'
+        : check === 'rotated' ? 'cookie rotated'
+        : 'exchange failed, retrying hourly';
+      console.log(`  Cookie refresh: ${status}`);
+    } catch (err) {
+      console.log(`  Cookie refresh: failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Load device names before push events start arriving; the
+    // refresh needs a cookie, the persisted directory does not
+    try {
+      const size = await tool.getDeviceDirectory().start();
+      console.log(`  Device directory: ${size} devices`);
+    } catch (err) {
+      const size = tool.getDeviceDirectory().size;
+      console.log(`  Device directory: ${size} devices (refresh failed — ${err instanceof Error ? err.message : String(err)})`);
+    }
+
+    // Validate the cookie now and on a schedule; expiring and
+    // invalid cookies raise CookieExpiring / CookieInvalid events
+    try {
+      const cookie = await tool.getCookieHealthMonitor().start();
+      console.log(`  Cookie health: ${cookie.state}${cookie.estimatedExpiry ? ` (expires ~${cookie.estimatedExpiry}, ${cookie.expirySource})` : ''}`);
+    } catch (err) {
+      console.log(`  Cookie health: check failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Connect the push listener when a cookie is stored (unless
+    // PUSH_AUTO_START=false), then keep it connected: restarts after
+    // cookie updates, reconnects stalled connections
+    try {
+      const check = await tool.getPushSupervisor().start();
+      const status = check === 'restarted' ? 'connected'
+        : config.pushAutoStart ? 'not started (no cookie configured)'
+        : 'auto-start disabled';
+      console.log(`  Push listener: ${status}, supervised`);
+    } catch (err) {
+      console.log(`  Push listener: failed — ${err instanceof Error ? err.message : String(err)}, supervised`);
+    }
+
+    // Replay push events a previous run left unprocessed, then keep
+    // retrying failed ones in the background
+    try {
+      const drained = await tool.getPushEventProcessor().start();
+      console.log(`  Push event worker: started (${drained.processed} replayed, ${drained.failed} failed)`);
     } catch (err) {
-      console.log(`  Push listener: not started (no cookie configured)`);
+      console.log(`  Push event worker: failed — ${err instanceof Error ? err.message : String(err)}`);
     }
 
     // Background poll — runs after push listener setup so we don't
@@ -485,10 +603,49 @@ server.listen(port, () => {
       console.log(`  Background poll: failed — ${err instanceof Error ? err.message : String(err)}`);
     }
 
-    // Start auto-poll timer (continues polling at the configured interval)
+    // Arm cron timers for routines with schedule triggers
+    try {
+      await tool.getRoutineScheduler().start();
+      console.log(`  Routine scheduler: started`);
+    } catch (err) {
+      console.log(`  Routine scheduler: failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Evaluate device_event routine triggers against events, pushes and polls
+    try {
+      await tool.getRoutineRulesEngine().start();
+      console.log(`  Routine rules engine: started`);
+    } catch (err) {
+      console.log(`  Routine rules engine: failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Keep state history rolled up so aggregate queries stay fast;
+    // the first run backfills the last month
+    if (config.stateRollupIntervalMinutes > 0) {
+      try {
+        const rollup = await tool.getStateAggregator().start(config.stateRollupIntervalMinutes * 60_000);
+        console.log(`  State rollups: every ${config.stateRollupIntervalMinutes}m (${rollup.rollupCount} buckets rolled up)`);
+      } catch (err) {
+        console.log(`  State rollups: failed — ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // Prune history past its retention period, then vacuum
+    if (config.retentionIntervalHours > 0) {
+      try {
+        const retention = await tool.getRetentionManager().start(config.retentionIntervalHours * 60 * 60_000);
+        console.log(`  Retention: every ${config.retentionIntervalHours}h (${retention.removedCount} rows pruned)`);
+      } catch (err) {
+        console.log(`  Retention: failed — ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // Start the poll scheduler (each device at its own, adapting interval)
     if (config.autoPollIntervalMinutes > 0) {
       startAutoPoll();
-      console.log(`  Auto-poll: every ${config.autoPollIntervalMinutes} minutes`);
+      const { categories } = tool.getPollScheduler().getPolicy();
+      console.log(`  Auto-poll: sensors every ${categories.sensor.intervalMs / 60000}m, ` +
+        `devices every ${categories.controllable.intervalMs / 60000}m, adapting per device`);
     }
   })();
 });
@@ -1 +1,6 @@
-export { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteDeviceStateStore, SqliteActivityStore, SqlitePushEventStore } from './sqlite';
+export { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteRefreshTokenStore, SqliteDeviceStateStore, SqliteChangeDeviceStateStore, SqliteActivityStore, SqlitePushEventStore, SqliteRoutineRunStore, SqliteDiscoveryStateStore, SqliteDeviceDirectoryStore, SqliteMediaSessionStore, SqliteConnectivityStore, SqliteStateRollupStore } from './sqlite';
+export type { SqliteChangeDeviceStateStoreOptions, SqliteStorageStats } from './sqlite';
+export { RetentionManager, DEFAULT_RETENTION_POLICY, RETENTION_TARGETS, mergeRetentionPolicy } from './retention';
+export type { RetentionTarget, RetentionPolicy, RetentionPruner, RetentionManagerOptions, RetentionRunResult, RetentionStatus, RetentionVacuumResult } from './retention';
+export { runMigrations, assertSchemaSupported, schemaVersion, SQLITE_MIGRATIONS, SQLITE_SCHEMA_VERSION } from './migrations';
+export type { SqliteMigration, SqliteMigrationResult } from './migrations';
@@ -0,0 +1,409 @@
+/**
+ * Versioned SQLite schema migrations.
+ *
+ * The schema version lives in the database header (`PRAGMA
+ * user_version`).  Opening a database applies every migration above its
+ * version, oldest first, each in its own transaction together with the
+ * version bump: a failing migration leaves the database at the version
+ * before it.  A database whose version is newer than the last migration
+ * here was written by a later release and is refused rather than
+ * guessed at.
+ *
+ * Databases from before versioning are at version 0 with most tables
+ * already in place; the baseline only creates what they lack.
+ *
+ * A released migration is never edited.  To change the schema, append a
+ * migration with the next version number.
+ */
+
+import type Database from 'better-sqlite3';
+import { diffDeviceState, applyStateChanges } from '../alexa-api/device-state-store';
+import type { DeviceStateValues } from '../alexa-api/device-state-store';
+import type { DeviceStateSnapshot } from '../alexa-api/alexa-api-types';
+
+export interface SqliteMigration {
+  /** Schema version the migration brings the database to */
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface SqliteMigrationResult {
+  /** Version found when the database was opened */
+  from: number;
+  to: number;
+  /** Versions applied, oldest first */
+  applied: number[];
+}
+
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Baseline schema',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        endpoint_id TEXT,
+        user_id TEXT,
+        cause TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        tags TEXT NOT NULL DEFAULT '[]'
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_events_endpoint ON events(endpoint_id);
+      CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
+      CREATE INDEX IF NOT EXISTS idx_events_user ON events(user_id);
+
+      CREATE TABLE IF NOT EXISTS routines (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        trigger_def TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_triggered TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS routine_runs (
+        id TEXT PRIMARY KEY,
+        routine_id TEXT NOT NULL,
+        routine_name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        steps TEXT NOT NULL DEFAULT '[]',
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_routine_runs_routine ON routine_runs(routine_id, started_at);
+      CREATE INDEX IF NOT EXISTS idx_routine_runs_started_at ON routine_runs(started_at);
+
+      CREATE TABLE IF NOT EXISTS tokens (
+        user_id TEXT PRIMARY KEY,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS cookies (
+        user_id TEXT PRIMARY KEY,
+        cookie TEXT NOT NULL,
+        csrf TEXT,
+        stored_at TEXT NOT NULL,
+        expires_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        user_id TEXT PRIMARY KEY,
+        refresh_token TEXT NOT NULL,
+        stored_at TEXT NOT NULL,
+        last_refreshed_at TEXT,
+        last_error TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS device_states (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        polled_at TEXT NOT NULL,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_device_states_device_id ON device_states(device_id);
+      CREATE INDEX IF NOT EXISTS idx_device_states_polled_at ON device_states(polled_at);
+      CREATE INDEX IF NOT EXISTS idx_device_states_device_polled ON device_states(device_id, polled_at);
+
+      CREATE TABLE IF NOT EXISTS device_state_latest (
+        device_id TEXT PRIMARY KEY,
+        device_name TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        polled_at TEXT NOT NULL,
+        keyframe_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS device_state_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        name TEXT NOT NULL,
+        instance TEXT,
+        value TEXT,
+        time_of_sample TEXT,
+        changed_at TEXT NOT NULL,
+        cause TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_device_state_changes_device_changed ON device_state_changes(device_id, changed_at);
+      CREATE INDEX IF NOT EXISTS idx_device_state_changes_changed_at ON device_state_changes(changed_at);
+
+      CREATE TABLE IF NOT EXISTS device_state_keyframes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        polled_at TEXT NOT NULL,
+        change_id INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_device_state_keyframes_device_polled ON device_state_keyframes(device_id, polled_at);
+
+      CREATE TABLE IF NOT EXISTS activity_history (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        device_serial TEXT,
+        device_name TEXT,
+        device_type TEXT,
+        utterance_text TEXT,
+        response_text TEXT,
+        utterance_type TEXT,
+        raw TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_activity_timestamp ON activity_history(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_activity_device_serial ON activity_history(device_serial);
+
+      CREATE TABLE IF NOT EXISTS push_events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        command TEXT NOT NULL,
+        device_serial TEXT,
+        device_type TEXT,
+        device_name TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        processed INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_push_events_timestamp ON push_events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_push_events_command ON push_events(command);
+      CREATE INDEX IF NOT EXISTS idx_push_events_device_serial ON push_events(device_serial);
+      CREATE INDEX IF NOT EXISTS idx_push_events_command_timestamp ON push_events(command, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_push_events_processed ON push_events(processed);
+
+      CREATE TABLE IF NOT EXISTS device_directory (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        serial_number TEXT,
+        endpoint_id TEXT,
+        appliance_id TEXT,
+        entity_id TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS now_playing (
+        device_serial TEXT PRIMARY KEY,
+        device_name TEXT,
+        player_state TEXT,
+        media_reference_id TEXT,
+        media_progress REAL,
+        media_length REAL,
+        progress_updated_at TEXT,
+        queue_change_type TEXT,
+        play_back_order TEXT,
+        loop_mode TEXT,
+        error TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS media_sessions (
+        id TEXT PRIMARY KEY,
+        device_serial TEXT NOT NULL,
+        device_name TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        end_reason TEXT,
+        last_event_at TEXT NOT NULL,
+        media_reference_ids TEXT NOT NULL DEFAULT '[]'
+      );
+      CREATE INDEX IF NOT EXISTS idx_media_sessions_device_started ON media_sessions(device_serial, started_at);
+      CREATE INDEX IF NOT EXISTS idx_media_sessions_started_at ON media_sessions(started_at);
+
+      CREATE TABLE IF NOT EXISTS connectivity_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT,
+        status TEXT NOT NULL,
+        source TEXT NOT NULL,
+        at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_connectivity_device_at ON connectivity_transitions(device_id, at);
+      CREATE INDEX IF NOT EXISTS idx_connectivity_at ON connectivity_transitions(at);
+
+      CREATE TABLE IF NOT EXISTS state_rollups (
+        device_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        name TEXT NOT NULL,
+        instance TEXT NOT NULL DEFAULT '',
+        bucket TEXT NOT NULL,
+        bucket_start TEXT NOT NULL,
+        min REAL NOT NULL,
+        max REAL NOT NULL,
+        avg REAL NOT NULL,
+        last REAL NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (device_id, namespace, name, instance, bucket, bucket_start)
+      );
+      CREATE INDEX IF NOT EXISTS idx_state_rollups_bucket_start ON state_rollups(bucket, bucket_start);
+
+      CREATE TABLE IF NOT EXISTS state_rollup_watermarks (
+        bucket TEXT PRIMARY KEY,
+        rolled_up_from TEXT NOT NULL,
+        rolled_up_to TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS discovery_acknowledged (
+        user_id TEXT NOT NULL,
+        endpoint_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        acknowledged_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, endpoint_id)
+      );
+    `),
+  },
+  {
+    version: 2,
+    description: 'Index events by type and time',
+    up: (db) => db.exec(`
+      DROP INDEX IF EXISTS idx_events_type;
+      CREATE INDEX IF NOT EXISTS idx_events_type_timestamp ON events(event_type, timestamp);
+    `),
+  },
+  {
+    version: 3,
+    description: 'Copy snapshot state history into change records',
+    up: (db) => copySnapshotsToChanges(db),
+  },
+  {
+    version: 4,
+    description: 'Track failed push event handler attempts',
+    up: (db) => db.exec(`
+      ALTER TABLE push_events ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE push_events ADD COLUMN failed INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE push_events ADD COLUMN error TEXT;
+      CREATE INDEX IF NOT EXISTS idx_push_events_pending ON push_events(processed, failed, timestamp);
+    `),
+  },
+];
+
+/** Schema version this release writes. */
+export const SQLITE_SCHEMA_VERSION = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+
+export function schemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/** Throw when `db` was written by a release with migrations beyond `migrations`. */
+export function assertSchemaSupported(db: Database.Database, migrations: SqliteMigration[] = SQLITE_MIGRATIONS): void {
+  const version = schemaVersion(db);
+  if (version > migrations.length) {
+    throw new Error(
+      `Database schema version ${version} is newer than this release supports (${migrations.length}); ` +
+      `upgrade alexa-agent-tool to open ${db.name}`,
+    );
+  }
+}
+
+/**
+ * Bring `db` up to the last of `migrations`.  Throws, leaving the
+ * database untouched, when its version is newer than that.
+ */
+export function runMigrations(db: Database.Database, migrations: SqliteMigration[] = SQLITE_MIGRATIONS): SqliteMigrationResult {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration ${i + 1} ("${migration.description}") is numbered ${migration.version}`);
+    }
+  });
+  assertSchemaSupported(db, migrations);
+
+  const from = schemaVersion(db);
+  const applied: number[] = [];
+  for (const migration of migrations.slice(from)) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    applied.push(migration.version);
+  }
+  return { from, to: schemaVersion(db), applied };
+}
+
+const SNAPSHOT_KEYFRAME_INTERVAL_MS = 24 * 60 * 60_000;
+
+/**
+ * Replay the snapshots in device_states, oldest first, as change records
+ * with a keyframe per device per day.  Snapshots older than a device's
+ * latest change-based state are skipped.  device_states is left as it
+ * is: the snapshot store still reads it, and retention ages it out.
+ */
+function copySnapshotsToChanges(db: Database.Database): void {
+  const page = db.prepare(`
+    SELECT * FROM device_states
+    WHERE polled_at > ? OR (polled_at = ? AND id > ?)
+    ORDER BY polled_at, id LIMIT 500
+  `);
+  const getHead = db.prepare('SELECT * FROM device_state_latest WHERE device_id = ?');
+  const insertChange = db.prepare(`
+    INSERT INTO device_state_changes (device_id, namespace, name, instance, value, time_of_sample, changed_at, cause)
+    VALUES (?, ?, ?, ?, ?, ?, ?, NULL)
+  `);
+  const lastChangeId = db.prepare('SELECT MAX(id) AS id FROM device_state_changes WHERE device_id = ?');
+  const insertKeyframe = db.prepare(`
+    INSERT INTO device_state_keyframes (device_id, capabilities, error, polled_at, change_id)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const upsertHead = db.prepare(`
+    INSERT INTO device_state_latest (device_id, device_name, capabilities, error, polled_at, keyframe_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(device_id) DO UPDATE SET
+      device_name=COALESCE(excluded.device_name, device_state_latest.device_name),
+      capabilities=excluded.capabilities,
+      error=excluded.error,
+      polled_at=excluded.polled_at,
+      keyframe_at=excluded.keyframe_at
+  `);
+
+  let after = { polledAt: '', id: 0 };
+  for (;;) {
+    const rows = page.all(after.polledAt, after.polledAt, after.id) as any[];
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      const s: DeviceStateSnapshot = {
+        deviceId: row.device_id,
+        deviceName: row.device_name ?? undefined,
+        capabilities: JSON.parse(row.capabilities),
+        polledAt: row.polled_at,
+        error: row.error ?? undefined,
+      };
+      const head = getHead.get(s.deviceId) as any;
+      if (head && Date.parse(s.polledAt) < Date.parse(head.polled_at)) continue;
+      const previous: DeviceStateValues | null = head
+        ? { capabilities: JSON.parse(head.capabilities), ...(head.error ? { error: head.error } : {}) }
+        : null;
+      const changes = previous ? diffDeviceState(previous, s) : [];
+      for (const c of changes) {
+        insertChange.run(
+          c.deviceId, c.namespace, c.name, c.instance ?? null,
+          c.value === undefined ? null : JSON.stringify(c.value),
+          c.timeOfSample ?? null, c.changedAt,
+        );
+      }
+      const state: DeviceStateValues = previous && s.error
+        ? applyStateChanges(previous, changes)
+        : { capabilities: s.error ? [] : s.capabilities, error: s.error };
+
+      let keyframeAt: string | null = head?.keyframe_at ?? null;
+      if (!keyframeAt || Date.parse(s.polledAt) - Date.parse(keyframeAt) >= SNAPSHOT_KEYFRAME_INTERVAL_MS) {
+        const { id } = lastChangeId.get(s.deviceId) as { id: number | null };
+        insertKeyframe.run(s.deviceId, JSON.stringify(state.capabilities), state.error ?? null, s.polledAt, id ?? 0);
+        keyframeAt = s.polledAt;
+      }
+      upsertHead.run(
+        s.deviceId, s.deviceName ?? null, JSON.stringify(state.capabilities),
+        state.error ?? null, s.polledAt, keyframeAt,
+      );
+    }
+    const last = rows[rows.length - 1];
+    after = { polledAt: last.polled_at, id: last.id };
+  }
+}
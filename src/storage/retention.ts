@@ -0,0 +1,207 @@
+/**
+ * Retention of stored history.
+ *
+ * Each store keeps its records for its own maximum age: events, routine
+ * runs, raw device state history, activity records, push events, media
+ * sessions, connectivity transitions, and state rollups per bucket.
+ * RetentionManager prunes everything older on a schedule.  Rollups can
+ * outlive the raw state they summarise, so long ranges stay chartable
+ * after the raw history is gone.  The device directory and discovery
+ * acknowledgements are current state, replaced on every refresh or
+ * Discover, so they are not pruned.
+ *
+ * A run that removed rows finishes with a vacuum (for SQLite, an
+ * incremental vacuum) so the freed pages go back to the file system.
+ */
+
+import { PeriodicTask } from '../utils/periodic-task';
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+const DEFAULT_RETENTION_INTERVAL_MS = 6 * HOUR;
+
+export type RetentionTarget =
+  | 'events'
+  | 'routineRuns'
+  | 'deviceStates'
+  | 'activity'
+  | 'pushEvents'
+  | 'mediaSessions'
+  | 'connectivityTransitions'
+  | 'stateRollups5m'
+  | 'stateRollups1h'
+  | 'stateRollups1d';
+
+export const RETENTION_TARGETS: RetentionTarget[] = [
+  'events',
+  'routineRuns',
+  'deviceStates',
+  'activity',
+  'pushEvents',
+  'mediaSessions',
+  'connectivityTransitions',
+  'stateRollups5m',
+  'stateRollups1h',
+  'stateRollups1d',
+];
+
+/** Maximum age of each target's records, in milliseconds; 0 keeps them forever */
+export type RetentionPolicy = Record<RetentionTarget, number>;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  events: 90 * DAY,
+  routineRuns: 90 * DAY,
+  deviceStates: 30 * DAY,
+  activity: 90 * DAY,
+  pushEvents: 14 * DAY,
+  mediaSessions: 90 * DAY,
+  connectivityTransitions: 90 * DAY,
+  stateRollups5m: 30 * DAY,
+  stateRollups1h: 365 * DAY,
+  stateRollups1d: 0,
+};
+
+/** Removes a target's records older than `olderThan`, returning how many */
+export type RetentionPruner = (olderThan: string) => Promise<number>;
+
+export interface RetentionVacuumResult {
+  mode: 'full' | 'incremental';
+  /** How much the database file shrank */
+  reclaimedBytes: number;
+}
+
+export interface RetentionRunResult {
+  startedAt: string;
+  durationMs: number;
+  /** Rows removed per target pruned */
+  removed: Partial<Record<RetentionTarget, number>>;
+  removedCount: number;
+  /** Targets whose pruning failed, with the error message */
+  errors: Partial<Record<RetentionTarget, string>>;
+  /** Absent when nothing was removed */
+  vacuum?: RetentionVacuumResult;
+}
+
+export interface RetentionStatus {
+  running: boolean;
+  policy: RetentionPolicy;
+  lastRun: RetentionRunResult | null;
+}
+
+export interface RetentionManagerOptions {
+  policy?: Partial<RetentionPolicy>;
+  /** Reclaims the space freed by a run that removed rows */
+  vacuum?: () => RetentionVacuumResult | Promise<RetentionVacuumResult>;
+  /** A scheduled or requested run finished */
+  onRun?: (result: RetentionRunResult) => void;
+  /** Pruning a target (or vacuuming, without a target) failed */
+  onError?: (error: Error, target?: RetentionTarget) => void;
+}
+
+/** Apply `update` to a policy, validating every age. */
+export function mergeRetentionPolicy(policy: RetentionPolicy, update: Partial<RetentionPolicy>): RetentionPolicy {
+  const merged = { ...policy };
+  for (const [target, maxAgeMs] of Object.entries(update)) {
+    if (!RETENTION_TARGETS.includes(target as RetentionTarget)) {
+      throw new Error(`Unknown retention target "${target}"`);
+    }
+    if (maxAgeMs === undefined) continue;
+    if (!Number.isFinite(maxAgeMs) || maxAgeMs < 0) {
+      throw new Error(`${target} retention must be a non-negative number of milliseconds`);
+    }
+    merged[target as RetentionTarget] = maxAgeMs;
+  }
+  return merged;
+}
+
+export class RetentionManager {
+  private pruners: Partial<Record<RetentionTarget, RetentionPruner>>;
+  private policy: RetentionPolicy;
+  private options: RetentionManagerOptions;
+  private task = new PeriodicTask(() => this.run());
+  private running: Promise<RetentionRunResult> | null = null;
+  private lastRun: RetentionRunResult | null = null;
+
+  constructor(pruners: Partial<Record<RetentionTarget, RetentionPruner>>, options: RetentionManagerOptions = {}) {
+    this.pruners = pruners;
+    this.policy = mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, options.policy ?? {});
+    this.options = options;
+  }
+
+  /** Run now, then every `intervalMs`. */
+  async start(intervalMs = DEFAULT_RETENTION_INTERVAL_MS): Promise<RetentionRunResult> {
+    this.task.start(intervalMs);
+    return this.run();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  isRunning(): boolean {
+    return this.task.isRunning();
+  }
+
+  getPolicy(): RetentionPolicy {
+    return { ...this.policy };
+  }
+
+  getStatus(): RetentionStatus {
+    return { running: this.isRunning(), policy: this.getPolicy(), lastRun: this.lastRun };
+  }
+
+  /**
+   * Prune every target with a pruner and a maximum age, then vacuum if
+   * anything was removed.  A failing target does not stop the others;
+   * its error is in the result and goes to `onError`.  Concurrent calls
+   * share the run.
+   */
+  run(now = Date.now()): Promise<RetentionRunResult> {
+    if (!this.running) {
+      this.running = this.prune(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async prune(now: number): Promise<RetentionRunResult> {
+    const started = Date.now();
+    const result: RetentionRunResult = {
+      startedAt: new Date(now).toISOString(),
+      durationMs: 0,
+      removed: {},
+      removedCount: 0,
+      errors: {},
+    };
+
+    for (const target of RETENTION_TARGETS) {
+      const prune = this.pruners[target];
+      const maxAgeMs = this.policy[target];
+      if (!prune || maxAgeMs === 0) continue;
+      try {
+        const removed = await prune(new Date(now - maxAgeMs).toISOString());
+        result.removed[target] = removed;
+        result.removedCount += removed;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        result.errors[target] = error.message;
+        this.options.onError?.(error, target);
+      }
+    }
+
+    if (result.removedCount > 0 && this.options.vacuum) {
+      try {
+        result.vacuum = await this.options.vacuum();
+      } catch (err) {
+        this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+
+    result.durationMs = Date.now() - started;
+    this.lastRun = result;
+    this.options.onRun?.(result);
+    return result;
+  }
+}
@@ -2,115 +2,79 @@
  * SQLite-backed persistent storage for events, routines, and tokens.
  *
  * Uses a single .sqlite file on disk so everything survives restarts.
- * No external services needed — just a file path.
+ * No external services needed — just a file path.  The schema is
+ * versioned and upgraded on open; see ./migrations.
  */
 
+import fs from 'fs';
 import Database from 'better-sqlite3';
 import type { EventStore, StoredEvent, EventQuery, EventQueryResult } from '../events/event-store';
 import type { RoutineStore, StoredRoutine } from '../routines/routine-store';
+import type { RoutineRunStore, RoutineRun, RoutineRunQuery, RoutineRunQueryResult } from '../routines/routine-run-store';
 import type { TokenStore, TokenPair } from '../auth/token-store';
-import type { CookieStore } from '../alexa-api/cookie-store';
-import type { AlexaCookieCredentials, DeviceStateSnapshot, ActivityRecord } from '../alexa-api/alexa-api-types';
-import type { DeviceStateStore, DeviceStateQuery, DeviceStateQueryResult } from '../alexa-api/device-state-store';
+import type { CookieStore, RefreshTokenStore } from '../alexa-api/cookie-store';
+import type { AlexaCookieCredentials, AlexaRefreshToken, DeviceStateSnapshot, ActivityRecord } from '../alexa-api/alexa-api-types';
+import { diffDeviceState, applyStateChanges } from '../alexa-api/device-state-store';
+import type {
+  DeviceStateStore,
+  DeviceStateQuery,
+  DeviceStateQueryResult,
+  DeviceStateValues,
+  StatePropertyChange,
+} from '../alexa-api/device-state-store';
 import type { ActivityStore, ActivityQuery, ActivityQueryResult } from '../alexa-api/activity-store';
 import type { PushEventStore, PushEventQuery, PushEventQueryResult } from '../alexa-api/push-event-store';
 import type { StoredPushEvent } from '../alexa-api/push-event-types';
+import type { DiscoveryStateStore, AcknowledgedEndpoint } from '../devices/discovery-store';
+import type { DeviceDirectoryStore, DeviceDirectoryEntry } from '../alexa-api/device-directory';
+import type {
+  MediaSessionStore,
+  MediaSession,
+  MediaSessionQuery,
+  MediaSessionQueryResult,
+  NowPlaying,
+} from '../alexa-api/media-sessions';
+import type { ConnectivityStore, ConnectivityTransition, ConnectivityQuery } from '../alexa-api/connectivity';
+import type { StateRollupStore, StateRollup, StateRollupWatermark, StateSeries, StateAggregateBucket } from '../alexa-api/state-aggregates';
+import type { RetentionVacuumResult } from './retention';
+import { assertSchemaSupported, runMigrations, schemaVersion } from './migrations';
+
+export interface SqliteStorageStats {
+  path: string;
+  schemaVersion: number;
+  fileSizeBytes: number;
+  /** Write-ahead log not yet checkpointed into the file */
+  walSizeBytes: number;
+  pageSize: number;
+  pageCount: number;
+  /** Pages free for reuse, handed back to the file system by a vacuum */
+  freePages: number;
+  /** Row count per table */
+  tables: Record<string, number>;
+}
 
 export class SqliteStorage {
   private db: Database.Database;
 
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
-    this.db.pragma('journal_mode = WAL');
-    this.db.pragma('foreign_keys = ON');
-    this.migrate();
-  }
-
-  private migrate(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS events (
-        id TEXT PRIMARY KEY,
-        timestamp TEXT NOT NULL,
-        event_type TEXT NOT NULL,
-        namespace TEXT NOT NULL,
-        endpoint_id TEXT,
-        user_id TEXT,
-        cause TEXT,
-        payload TEXT NOT NULL DEFAULT '{}',
-        tags TEXT NOT NULL DEFAULT '[]'
-      );
-      CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_events_endpoint ON events(endpoint_id);
-      CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
-      CREATE INDEX IF NOT EXISTS idx_events_user ON events(user_id);
-
-      CREATE TABLE IF NOT EXISTS routines (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        trigger_def TEXT NOT NULL,
-        actions TEXT NOT NULL,
-        enabled INTEGER NOT NULL DEFAULT 1,
-        last_triggered TEXT,
-        created_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS tokens (
-        user_id TEXT PRIMARY KEY,
-        access_token TEXT NOT NULL,
-        refresh_token TEXT NOT NULL,
-        expires_at INTEGER NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS cookies (
-        user_id TEXT PRIMARY KEY,
-        cookie TEXT NOT NULL,
-        csrf TEXT,
-        stored_at TEXT NOT NULL,
-        expires_at TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS device_states (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        device_id TEXT NOT NULL,
-        device_name TEXT,
-        capabilities TEXT NOT NULL DEFAULT '[]',
-        polled_at TEXT NOT NULL,
-        error TEXT
-      );
-      CREATE INDEX IF NOT EXISTS idx_device_states_device_id ON device_states(device_id);
-      CREATE INDEX IF NOT EXISTS idx_device_states_polled_at ON device_states(polled_at);
-      CREATE INDEX IF NOT EXISTS idx_device_states_device_polled ON device_states(device_id, polled_at);
-
-      CREATE TABLE IF NOT EXISTS activity_history (
-        id TEXT PRIMARY KEY,
-        timestamp TEXT NOT NULL,
-        device_serial TEXT,
-        device_name TEXT,
-        device_type TEXT,
-        utterance_text TEXT,
-        response_text TEXT,
-        utterance_type TEXT,
-        raw TEXT
-      );
-      CREATE INDEX IF NOT EXISTS idx_activity_timestamp ON activity_history(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_activity_device_serial ON activity_history(device_serial);
-
-      CREATE TABLE IF NOT EXISTS push_events (
-        id TEXT PRIMARY KEY,
-        timestamp TEXT NOT NULL,
-        command TEXT NOT NULL,
-        device_serial TEXT,
-        device_type TEXT,
-        device_name TEXT,
-        payload TEXT NOT NULL DEFAULT '{}',
-        processed INTEGER NOT NULL DEFAULT 0
-      );
-      CREATE INDEX IF NOT EXISTS idx_push_events_timestamp ON push_events(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_push_events_command ON push_events(command);
-      CREATE INDEX IF NOT EXISTS idx_push_events_device_serial ON push_events(device_serial);
-      CREATE INDEX IF NOT EXISTS idx_push_events_command_timestamp ON push_events(command, timestamp);
-      CREATE INDEX IF NOT EXISTS idx_push_events_processed ON push_events(processed);
-    `);
+    try {
+      // Refuse a newer schema before anything is written to the file
+      assertSchemaSupported(this.db);
+      // Takes effect in new files; vacuum() converts older ones
+      this.db.pragma('auto_vacuum = INCREMENTAL');
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+      runMigrations(this.db);
+    } catch (err) {
+      this.db.close();
+      throw err;
+    }
+  }
+
+  /** Schema version of the database, see ./migrations. */
+  schemaVersion(): number {
+    return schemaVersion(this.db);
   }
 
   events(): SqliteEventStore {
@@ -121,6 +85,10 @@ export class SqliteStorage {
     return new SqliteRoutineStore(this.db);
   }
 
+  routineRuns(): SqliteRoutineRunStore {
+    return new SqliteRoutineRunStore(this.db);
+  }
+
   tokens(): SqliteTokenStore {
     return new SqliteTokenStore(this.db);
   }
@@ -129,10 +97,18 @@ export class SqliteStorage {
     return new SqliteCookieStore(this.db);
   }
 
+  refreshTokens(): SqliteRefreshTokenStore {
+    return new SqliteRefreshTokenStore(this.db);
+  }
+
   deviceStates(): SqliteDeviceStateStore {
     return new SqliteDeviceStateStore(this.db);
   }
 
+  deviceStateChanges(options: SqliteChangeDeviceStateStoreOptions = {}): SqliteChangeDeviceStateStore {
+    return new SqliteChangeDeviceStateStore(this.db, options);
+  }
+
   activities(): SqliteActivityStore {
     return new SqliteActivityStore(this.db);
   }
@@ -141,9 +117,77 @@ export class SqliteStorage {
     return new SqlitePushEventStore(this.db);
   }
 
+  deviceDirectory(): SqliteDeviceDirectoryStore {
+    return new SqliteDeviceDirectoryStore(this.db);
+  }
+
+  mediaSessions(): SqliteMediaSessionStore {
+    return new SqliteMediaSessionStore(this.db);
+  }
+
+  connectivity(): SqliteConnectivityStore {
+    return new SqliteConnectivityStore(this.db);
+  }
+
+  stateRollups(): SqliteStateRollupStore {
+    return new SqliteStateRollupStore(this.db);
+  }
+
+  discoveryState(): SqliteDiscoveryStateStore {
+    return new SqliteDiscoveryStateStore(this.db);
+  }
+
   close(): void {
     this.db.close();
   }
+
+  /** Size of the database file and row count of every table. */
+  stats(): SqliteStorageStats {
+    const tables: Record<string, number> = {};
+    const names = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    ).all() as Array<{ name: string }>;
+    for (const { name } of names) {
+      tables[name] = (this.db.prepare(`SELECT COUNT(*) as cnt FROM "${name}"`).get() as { cnt: number }).cnt;
+    }
+    return {
+      path: this.db.name,
+      schemaVersion: schemaVersion(this.db),
+      fileSizeBytes: fileSize(this.db.name),
+      walSizeBytes: fileSize(`${this.db.name}-wal`),
+      pageSize: this.db.pragma('page_size', { simple: true }) as number,
+      pageCount: this.db.pragma('page_count', { simple: true }) as number,
+      freePages: this.db.pragma('freelist_count', { simple: true }) as number,
+      tables,
+    };
+  }
+
+  /**
+   * Hand free pages back to the file system.  Files created before
+   * incremental auto-vacuum get one full VACUUM, which converts them.
+   */
+  vacuum(): RetentionVacuumResult {
+    const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+    const before = this.db.pragma('page_count', { simple: true }) as number;
+    const incremental = this.db.pragma('auto_vacuum', { simple: true }) === 2;
+    if (incremental) {
+      this.db.pragma('incremental_vacuum');
+    } else {
+      this.db.exec('VACUUM');
+    }
+    // A vacuum in WAL mode rewrites pages into the log; fold them back in
+    this.db.pragma('wal_checkpoint(TRUNCATE)');
+    const after = this.db.pragma('page_count', { simple: true }) as number;
+    return { mode: incremental ? 'incremental' : 'full', reclaimedBytes: (before - after) * pageSize };
+  }
+}
+
+function fileSize(path: string): number {
+  try {
+    return fs.statSync(path).size;
+  } catch {
+    return 0;
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -332,6 +376,98 @@ function rowToRoutine(row: any): StoredRoutine {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Routine run store
+// ---------------------------------------------------------------------------
+
+export class SqliteRoutineRunStore implements RoutineRunStore {
+  constructor(private db: Database.Database) {}
+
+  async insert(run: RoutineRun): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO routine_runs (id, routine_id, routine_name, source, status, started_at, finished_at, duration_ms, steps, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.id, run.routineId, run.routineName, run.source, run.status,
+      run.startedAt, run.finishedAt ?? null, run.durationMs ?? null,
+      JSON.stringify(run.steps), run.error ?? null,
+    );
+  }
+
+  async update(runId: string, updates: Partial<RoutineRun>): Promise<void> {
+    const existing = await this.get(runId);
+    if (!existing) throw new Error(`Routine run ${runId} not found`);
+
+    const merged = { ...existing, ...updates };
+    this.db.prepare(`
+      UPDATE routine_runs SET status=?, finished_at=?, duration_ms=?, steps=?, error=?
+      WHERE id=?
+    `).run(
+      merged.status, merged.finishedAt ?? null, merged.durationMs ?? null,
+      JSON.stringify(merged.steps), merged.error ?? null, runId,
+    );
+  }
+
+  async get(runId: string): Promise<RoutineRun | null> {
+    const row = this.db.prepare('SELECT * FROM routine_runs WHERE id = ?').get(runId) as any;
+    return row ? rowToRoutineRun(row) : null;
+  }
+
+  async query(query: RoutineRunQuery): Promise<RoutineRunQueryResult> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.routineId) { conditions.push('routine_id = ?'); params.push(query.routineId); }
+    if (query.status) { conditions.push('status = ?'); params.push(query.status); }
+    if (query.source) { conditions.push('source = ?'); params.push(query.source); }
+    if (query.startTime) { conditions.push('started_at >= ?'); params.push(query.startTime); }
+    if (query.endTime) { conditions.push('started_at <= ?'); params.push(query.endTime); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = this.db.prepare(
+      `SELECT COUNT(*) as cnt FROM routine_runs ${where}`
+    ).get(...params) as { cnt: number };
+
+    const limit = query.limit ?? 100;
+    const offset = query.offset ?? 0;
+
+    const rows = this.db.prepare(
+      `SELECT * FROM routine_runs ${where} ORDER BY started_at DESC, rowid DESC LIMIT ? OFFSET ?`
+    ).all(...params, limit, offset) as any[];
+
+    return { runs: rows.map(rowToRoutineRun), totalCount: countRow.cnt };
+  }
+
+  async interruptRunning(finishedAt: string, error: string): Promise<number> {
+    const result = this.db.prepare(`
+      UPDATE routine_runs SET status='interrupted', finished_at=?, error=?
+      WHERE status='running'
+    `).run(finishedAt, error);
+    return result.changes;
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    const result = this.db.prepare('DELETE FROM routine_runs WHERE started_at < ?').run(olderThan);
+    return result.changes;
+  }
+}
+
+function rowToRoutineRun(row: any): RoutineRun {
+  return {
+    id: row.id,
+    routineId: row.routine_id,
+    routineName: row.routine_name,
+    source: row.source,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    steps: JSON.parse(row.steps),
+    error: row.error ?? undefined,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Token store
 // ---------------------------------------------------------------------------
@@ -370,9 +506,42 @@ export class SqliteCookieStore implements CookieStore {
 }
 
 // ---------------------------------------------------------------------------
-// Token store
+// Refresh token store
 // ---------------------------------------------------------------------------
 
+export class SqliteRefreshTokenStore implements RefreshTokenStore {
+  constructor(private db: Database.Database) {}
+
+  async get(userId: string): Promise<AlexaRefreshToken | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM refresh_tokens WHERE user_id = ?'
+    ).get(userId) as any;
+    if (!row) return null;
+    return {
+      refreshToken: row.refresh_token,
+      storedAt: row.stored_at,
+      lastRefreshedAt: row.last_refreshed_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+    };
+  }
+
+  async set(userId: string, token: AlexaRefreshToken): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO refresh_tokens (user_id, refresh_token, stored_at, last_refreshed_at, last_error)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        refresh_token=excluded.refresh_token,
+        stored_at=excluded.stored_at,
+        last_refreshed_at=excluded.last_refreshed_at,
+        last_error=excluded.last_error
+    `).run(userId, token.refreshToken, token.storedAt, token.lastRefreshedAt ?? null, token.lastError ?? null);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.db.prepare('DELETE FROM refresh_tokens WHERE user_id = ?').run(userId);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Device state store
 // ---------------------------------------------------------------------------
@@ -417,6 +586,7 @@ export class SqliteDeviceStateStore implements DeviceStateStore {
     const params: any[] = [];
 
     if (query.deviceId) { conditions.push('device_id = ?'); params.push(query.deviceId); }
+    if (query.deviceName) { conditions.push('device_name = ? COLLATE NOCASE'); params.push(query.deviceName); }
     if (query.startTime) { conditions.push('polled_at >= ?'); params.push(query.startTime); }
     if (query.endTime) { conditions.push('polled_at <= ?'); params.push(query.endTime); }
 
@@ -463,6 +633,18 @@ export class SqliteDeviceStateStore implements DeviceStateStore {
     const result = this.db.prepare('DELETE FROM device_states WHERE polled_at < ?').run(olderThan);
     return result.changes;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    const stmt = this.db.prepare(
+      `UPDATE device_states SET device_name = ? WHERE device_id = ? AND (device_name IS NULL OR device_name = '')`
+    );
+    const tx = this.db.transaction((entries: Array<[string, string]>) => {
+      let updated = 0;
+      for (const [id, name] of entries) updated += stmt.run(name, id).changes;
+      return updated;
+    });
+    return tx(Object.entries(names));
+  }
 }
 
 function rowToDeviceState(row: any): DeviceStateSnapshot {
@@ -475,6 +657,260 @@ function rowToDeviceState(row: any): DeviceStateSnapshot {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Change-based device state store
+// ---------------------------------------------------------------------------
+
+const DEFAULT_KEYFRAME_INTERVAL_MS = 24 * 60 * 60_000;
+
+export interface SqliteChangeDeviceStateStoreOptions {
+  /** Time between full-state keyframes of a device (default 24 hours) */
+  keyframeIntervalMs?: number;
+  /** Called with the changes each insert records */
+  onChanges?: (changes: StatePropertyChange[]) => void;
+}
+
+/**
+ * Keeps one row per property value change instead of a full snapshot
+ * per poll, plus a keyframe (the device's full state) per device every
+ * `keyframeIntervalMs`, and the latest state of each device.  History
+ * is rebuilt from the nearest keyframe: one snapshot per change and
+ * per keyframe.  The first snapshot of a device is a keyframe, not
+ * changes, and is not reported to `onChanges`.  Snapshots older than
+ * the device's latest state (a replayed push, a poll that raced a push)
+ * are ignored, so they cannot roll it back.  The latest state is the
+ * last good snapshot as polled, timeOfSample included, as in the
+ * snapshot store.
+ */
+export class SqliteChangeDeviceStateStore implements DeviceStateStore {
+  constructor(private db: Database.Database, private options: SqliteChangeDeviceStateStoreOptions = {}) {}
+
+  async insert(snapshot: DeviceStateSnapshot): Promise<void> {
+    await this.insertBatch([snapshot]);
+  }
+
+  async insertBatch(snapshots: DeviceStateSnapshot[], cause?: string): Promise<void> {
+    const changes = this.record(snapshots, cause);
+    if (changes.length > 0) this.options.onChanges?.(changes);
+  }
+
+  /** Record snapshots in one transaction, returning the changes written. */
+  record(snapshots: DeviceStateSnapshot[], cause?: string): StatePropertyChange[] {
+    const keyframeIntervalMs = this.options.keyframeIntervalMs ?? DEFAULT_KEYFRAME_INTERVAL_MS;
+    const getHead = this.db.prepare('SELECT * FROM device_state_latest WHERE device_id = ?');
+    const insertChange = this.db.prepare(`
+      INSERT INTO device_state_changes (device_id, namespace, name, instance, value, time_of_sample, changed_at, cause)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const lastChangeId = this.db.prepare('SELECT MAX(id) AS id FROM device_state_changes WHERE device_id = ?');
+    const insertKeyframe = this.db.prepare(`
+      INSERT INTO device_state_keyframes (device_id, capabilities, error, polled_at, change_id)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const upsertHead = this.db.prepare(`
+      INSERT INTO device_state_latest (device_id, device_name, capabilities, error, polled_at, keyframe_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(device_id) DO UPDATE SET
+        device_name=COALESCE(excluded.device_name, device_state_latest.device_name),
+        capabilities=excluded.capabilities,
+        error=excluded.error,
+        polled_at=excluded.polled_at,
+        keyframe_at=excluded.keyframe_at
+    `);
+
+    const tx = this.db.transaction((items: DeviceStateSnapshot[]) => {
+      const recorded: StatePropertyChange[] = [];
+      for (const s of items) {
+        const head = getHead.get(s.deviceId) as any;
+        if (head && Date.parse(s.polledAt) < Date.parse(head.polled_at)) continue;
+        const changes = head ? diffDeviceState(rowToStateValues(head), s, cause) : [];
+        for (const c of changes) {
+          insertChange.run(
+            c.deviceId, c.namespace, c.name, c.instance ?? null,
+            c.value === undefined ? null : JSON.stringify(c.value),
+            c.timeOfSample ?? null, c.changedAt, c.cause ?? null,
+          );
+        }
+        // A good snapshot is the device's whole state: taking it as is keeps
+        // the timeOfSample of unchanged properties current.  An error keeps
+        // the last good values.
+        const state: DeviceStateValues = head && s.error
+          ? applyStateChanges(rowToStateValues(head), changes)
+          : { capabilities: s.error ? [] : s.capabilities, error: s.error };
+
+        let keyframeAt: string | null = head?.keyframe_at ?? null;
+        if (!keyframeAt || Date.parse(s.polledAt) - Date.parse(keyframeAt) >= keyframeIntervalMs) {
+          const { id } = lastChangeId.get(s.deviceId) as { id: number | null };
+          insertKeyframe.run(s.deviceId, JSON.stringify(state.capabilities), state.error ?? null, s.polledAt, id ?? 0);
+          keyframeAt = s.polledAt;
+        }
+        upsertHead.run(
+          s.deviceId, s.deviceName ?? null, JSON.stringify(state.capabilities),
+          state.error ?? null, s.polledAt, keyframeAt,
+        );
+        recorded.push(...changes);
+      }
+      return recorded;
+    });
+    return tx(snapshots);
+  }
+
+  async query(query: DeviceStateQuery): Promise<DeviceStateQueryResult> {
+    // History points: every change and every keyframe, per device
+    const branch = (table: string, column: string) => {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (query.deviceId) { conditions.push('device_id = ?'); params.push(query.deviceId); }
+      if (query.deviceName) {
+        conditions.push('device_id IN (SELECT device_id FROM device_state_latest WHERE device_name = ? COLLATE NOCASE)');
+        params.push(query.deviceName);
+      }
+      if (query.startTime) { conditions.push(`${column} >= ?`); params.push(query.startTime); }
+      if (query.endTime) { conditions.push(`${column} <= ?`); params.push(query.endTime); }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      return { sql: `SELECT device_id, ${column} AS at FROM ${table} ${where}`, params };
+    };
+    const changes = branch('device_state_changes', 'changed_at');
+    const keyframes = branch('device_state_keyframes', 'polled_at');
+    const points = `${changes.sql} UNION ${keyframes.sql}`;
+    const params = [...changes.params, ...keyframes.params];
+
+    const countRow = this.db.prepare(
+      `SELECT COUNT(*) as cnt FROM (${points})`
+    ).get(...params) as { cnt: number };
+
+    const limit = query.limit ?? 100;
+    const offset = query.offset ?? 0;
+    const rows = this.db.prepare(
+      `SELECT device_id, at FROM (${points}) ORDER BY at DESC, device_id LIMIT ? OFFSET ?`
+    ).all(...params, limit, offset) as Array<{ device_id: string; at: string }>;
+
+    const getName = this.db.prepare('SELECT device_name FROM device_state_latest WHERE device_id = ?');
+    const snapshots: DeviceStateSnapshot[] = [];
+    for (const row of rows) {
+      const state = this.stateAt(row.device_id, row.at);
+      if (!state) continue;
+      const name = getName.get(row.device_id) as { device_name: string | null } | undefined;
+      snapshots.push(toSnapshot(row.device_id, name?.device_name ?? null, state, row.at));
+    }
+    return { snapshots, totalCount: countRow.cnt };
+  }
+
+  async getLatest(deviceId: string): Promise<DeviceStateSnapshot | null> {
+    const row = this.db.prepare('SELECT * FROM device_state_latest WHERE device_id = ?').get(deviceId) as any;
+    return row ? toSnapshot(row.device_id, row.device_name, rowToStateValues(row), row.polled_at) : null;
+  }
+
+  async getAllLatest(): Promise<DeviceStateSnapshot[]> {
+    const rows = this.db.prepare('SELECT * FROM device_state_latest').all() as any[];
+    return rows.map((row) => toSnapshot(row.device_id, row.device_name, rowToStateValues(row), row.polled_at));
+  }
+
+  /**
+   * Remove changes and keyframes older than `olderThan`.  Devices seen
+   * since keep a keyframe at the cutoff, so their state there can still
+   * be rebuilt; devices not seen since are removed entirely.  Snapshots
+   * left in device_states from before the change format age out here
+   * too.  Returns the rows removed.
+   */
+  async prune(olderThan: string): Promise<number> {
+    const tx = this.db.transaction(() => {
+      let removed = this.db.prepare('DELETE FROM device_states WHERE polled_at < ?').run(olderThan).changes;
+      const deleteChanges = this.db.prepare('DELETE FROM device_state_changes WHERE device_id = ? AND changed_at < ?');
+      const deleteKeyframes = this.db.prepare('DELETE FROM device_state_keyframes WHERE device_id = ? AND polled_at < ?');
+
+      const stale = this.db.prepare('SELECT device_id FROM device_state_latest WHERE polled_at < ?').all(olderThan) as any[];
+      for (const { device_id } of stale) {
+        removed += this.db.prepare('DELETE FROM device_state_changes WHERE device_id = ?').run(device_id).changes;
+        removed += this.db.prepare('DELETE FROM device_state_keyframes WHERE device_id = ?').run(device_id).changes;
+        this.db.prepare('DELETE FROM device_state_latest WHERE device_id = ?').run(device_id);
+      }
+
+      const devices = this.db.prepare(
+        'SELECT DISTINCT device_id FROM device_state_keyframes WHERE polled_at < ?'
+      ).all(olderThan) as any[];
+      for (const { device_id } of devices) {
+        const state = this.stateAt(device_id, olderThan);
+        const { id } = this.db.prepare(
+          'SELECT MAX(id) AS id FROM device_state_changes WHERE device_id = ? AND changed_at <= ?'
+        ).get(device_id, olderThan) as { id: number | null };
+        const { change_id } = this.db.prepare(
+          'SELECT MAX(change_id) AS change_id FROM device_state_keyframes WHERE device_id = ? AND polled_at <= ?'
+        ).get(device_id, olderThan) as { change_id: number | null };
+        const atCutoff = this.db.prepare(
+          'SELECT 1 FROM device_state_keyframes WHERE device_id = ? AND polled_at = ?'
+        ).get(device_id, olderThan);
+
+        removed += deleteChanges.run(device_id, olderThan).changes;
+        removed += deleteKeyframes.run(device_id, olderThan).changes;
+        if (state && !atCutoff) {
+          this.db.prepare(`
+            INSERT INTO device_state_keyframes (device_id, capabilities, error, polled_at, change_id)
+            VALUES (?, ?, ?, ?, ?)
+          `).run(device_id, JSON.stringify(state.capabilities), state.error ?? null, olderThan, Math.max(id ?? 0, change_id ?? 0));
+        }
+      }
+      return removed;
+    });
+    return tx();
+  }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    const stmt = this.db.prepare(
+      `UPDATE device_state_latest SET device_name = ? WHERE device_id = ? AND (device_name IS NULL OR device_name = '')`
+    );
+    const tx = this.db.transaction((entries: Array<[string, string]>) => {
+      let updated = 0;
+      for (const [id, name] of entries) updated += stmt.run(name, id).changes;
+      return updated;
+    });
+    return tx(Object.entries(names));
+  }
+
+  /** A device's state at `at`: its last keyframe then, plus the changes since. */
+  private stateAt(deviceId: string, at: string): DeviceStateValues | null {
+    const keyframe = this.db.prepare(`
+      SELECT * FROM device_state_keyframes
+      WHERE device_id = ? AND polled_at <= ?
+      ORDER BY polled_at DESC, id DESC LIMIT 1
+    `).get(deviceId, at) as any;
+    const changes = this.db.prepare(`
+      SELECT * FROM device_state_changes
+      WHERE device_id = ? AND id > ? AND changed_at <= ?
+      ORDER BY id
+    `).all(deviceId, keyframe?.change_id ?? 0, at) as any[];
+    if (!keyframe && changes.length === 0) return null;
+    return applyStateChanges(keyframe ? rowToStateValues(keyframe) : { capabilities: [] }, changes.map(rowToStateChange));
+  }
+}
+
+function rowToStateValues(row: any): DeviceStateValues {
+  return { capabilities: JSON.parse(row.capabilities), ...(row.error ? { error: row.error } : {}) };
+}
+
+function rowToStateChange(row: any): StatePropertyChange {
+  return {
+    deviceId: row.device_id,
+    namespace: row.namespace,
+    name: row.name,
+    instance: row.instance ?? undefined,
+    value: row.value === null ? undefined : JSON.parse(row.value),
+    timeOfSample: row.time_of_sample ?? undefined,
+    changedAt: row.changed_at,
+    cause: row.cause ?? undefined,
+  };
+}
+
+function toSnapshot(deviceId: string, deviceName: string | null, state: DeviceStateValues, polledAt: string): DeviceStateSnapshot {
+  return {
+    deviceId,
+    deviceName: deviceName ?? undefined,
+    capabilities: state.error ? [] : state.capabilities,
+    polledAt,
+    error: state.error,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Activity store
 // ---------------------------------------------------------------------------
@@ -525,6 +961,7 @@ export class SqliteActivityStore implements ActivityStore {
     const params: any[] = [];
 
     if (query.deviceSerial) { conditions.push('device_serial = ?'); params.push(query.deviceSerial); }
+    if (query.deviceName) { conditions.push('device_name = ? COLLATE NOCASE'); params.push(query.deviceName); }
     if (query.startTime) { conditions.push('timestamp >= ?'); params.push(query.startTime); }
     if (query.endTime) { conditions.push('timestamp <= ?'); params.push(query.endTime); }
     if (query.searchText) {
@@ -563,6 +1000,18 @@ export class SqliteActivityStore implements ActivityStore {
     const result = this.db.prepare('DELETE FROM activity_history WHERE timestamp < ?').run(olderThan);
     return result.changes;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    const stmt = this.db.prepare(
+      `UPDATE activity_history SET device_name = ? WHERE device_serial = ? AND (device_name IS NULL OR device_name = '')`
+    );
+    const tx = this.db.transaction((entries: Array<[string, string]>) => {
+      let updated = 0;
+      for (const [id, name] of entries) updated += stmt.run(name, id).changes;
+      return updated;
+    });
+    return tx(Object.entries(names));
+  }
 }
 
 function rowToActivity(row: any): ActivityRecord {
@@ -626,6 +1075,7 @@ export class SqlitePushEventStore implements PushEventStore {
 
     if (query.command) { conditions.push('command = ?'); params.push(query.command); }
     if (query.deviceSerial) { conditions.push('device_serial = ?'); params.push(query.deviceSerial); }
+    if (query.deviceName) { conditions.push('device_name = ? COLLATE NOCASE'); params.push(query.deviceName); }
     if (query.startTime) { conditions.push('timestamp >= ?'); params.push(query.startTime); }
     if (query.endTime) { conditions.push('timestamp <= ?'); params.push(query.endTime); }
     if (query.processed !== undefined) { conditions.push('processed = ?'); params.push(query.processed ? 1 : 0); }
@@ -660,10 +1110,37 @@ export class SqlitePushEventStore implements PushEventStore {
     this.db.prepare('UPDATE push_events SET processed = 1 WHERE id = ?').run(id);
   }
 
+  async listPending(limit: number): Promise<StoredPushEvent[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM push_events WHERE processed = 0 AND failed = 0 ORDER BY timestamp ASC LIMIT ?'
+    ).all(limit) as any[];
+    return rows.map(rowToPushEvent);
+  }
+
+  async recordFailure(id: string, error: string, maxAttempts: number): Promise<number> {
+    const row = this.db.prepare(`
+      UPDATE push_events SET attempts = attempts + 1, error = ?, failed = (attempts + 1 >= ?)
+      WHERE id = ? RETURNING attempts
+    `).get(error, maxAttempts, id) as { attempts: number } | undefined;
+    return row?.attempts ?? 0;
+  }
+
   async prune(olderThan: string): Promise<number> {
     const result = this.db.prepare('DELETE FROM push_events WHERE timestamp < ?').run(olderThan);
     return result.changes;
   }
+
+  async fillDeviceNames(names: Record<string, string>): Promise<number> {
+    const stmt = this.db.prepare(
+      `UPDATE push_events SET device_name = ? WHERE device_serial = ? AND (device_name IS NULL OR device_name = '')`
+    );
+    const tx = this.db.transaction((entries: Array<[string, string]>) => {
+      let updated = 0;
+      for (const [id, name] of entries) updated += stmt.run(name, id).changes;
+      return updated;
+    });
+    return tx(Object.entries(names));
+  }
 }
 
 function rowToPushEvent(row: any): StoredPushEvent {
@@ -676,6 +1153,9 @@ function rowToPushEvent(row: any): StoredPushEvent {
     deviceName: row.device_name ?? undefined,
     payload: JSON.parse(row.payload),
     processed: row.processed === 1,
+    ...(row.attempts ? { attempts: row.attempts } : {}),
+    ...(row.failed === 1 ? { failed: true } : {}),
+    ...(row.error ? { error: row.error } : {}),
   };
 }
 
@@ -713,3 +1193,364 @@ export class SqliteTokenStore implements TokenStore {
     this.db.prepare('DELETE FROM tokens WHERE user_id = ?').run(userId);
   }
 }
+
+// ---------------------------------------------------------------------------
+// Device directory store
+// ---------------------------------------------------------------------------
+
+export class SqliteDeviceDirectoryStore implements DeviceDirectoryStore {
+  constructor(private db: Database.Database) {}
+
+  async list(): Promise<DeviceDirectoryEntry[]> {
+    const rows = this.db.prepare('SELECT * FROM device_directory ORDER BY name').all() as any[];
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      source: row.source,
+      serialNumber: row.serial_number ?? undefined,
+      endpointId: row.endpoint_id ?? undefined,
+      applianceId: row.appliance_id ?? undefined,
+      entityId: row.entity_id ?? undefined,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async replaceAll(entries: DeviceDirectoryEntry[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO device_directory (id, name, source, serial_number, endpoint_id, appliance_id, entity_id, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const tx = this.db.transaction((items: DeviceDirectoryEntry[]) => {
+      this.db.prepare('DELETE FROM device_directory').run();
+      for (const e of items) {
+        stmt.run(
+          e.id, e.name, e.source,
+          e.serialNumber ?? null, e.endpointId ?? null, e.applianceId ?? null, e.entityId ?? null,
+          e.updatedAt,
+        );
+      }
+    });
+    tx(entries);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Media session store
+// ---------------------------------------------------------------------------
+
+export class SqliteMediaSessionStore implements MediaSessionStore {
+  constructor(private db: Database.Database) {}
+
+  async getNowPlaying(deviceSerial: string): Promise<NowPlaying | null> {
+    const row = this.db.prepare('SELECT * FROM now_playing WHERE device_serial = ?').get(deviceSerial) as any;
+    return row ? rowToNowPlaying(row) : null;
+  }
+
+  async listNowPlaying(): Promise<NowPlaying[]> {
+    const rows = this.db.prepare('SELECT * FROM now_playing ORDER BY updated_at DESC').all() as any[];
+    return rows.map(rowToNowPlaying);
+  }
+
+  async saveNowPlaying(state: NowPlaying): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO now_playing (device_serial, device_name, player_state, media_reference_id,
+        media_progress, media_length, progress_updated_at, queue_change_type, play_back_order, loop_mode, error, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      state.deviceSerial,
+      state.deviceName ?? null,
+      state.playerState ?? null,
+      state.mediaReferenceId ?? null,
+      state.mediaProgress ?? null,
+      state.mediaLength ?? null,
+      state.progressUpdatedAt ?? null,
+      state.queueChangeType ?? null,
+      state.playBackOrder ?? null,
+      state.loopMode ?? null,
+      state.error ?? null,
+      state.updatedAt,
+    );
+  }
+
+  async saveSession(session: MediaSession): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO media_sessions (id, device_serial, device_name, started_at, ended_at, end_reason, last_event_at, media_reference_ids)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      session.id,
+      session.deviceSerial,
+      session.deviceName ?? null,
+      session.startedAt,
+      session.endedAt ?? null,
+      session.endReason ?? null,
+      session.lastEventAt,
+      JSON.stringify(session.mediaReferenceIds),
+    );
+  }
+
+  async getLatestSession(deviceSerial: string): Promise<MediaSession | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM media_sessions WHERE device_serial = ? ORDER BY started_at DESC LIMIT 1'
+    ).get(deviceSerial) as any;
+    return row ? rowToMediaSession(row) : null;
+  }
+
+  async querySessions(query: MediaSessionQuery): Promise<MediaSessionQueryResult> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.deviceSerial) { conditions.push('device_serial = ?'); params.push(query.deviceSerial); }
+    if (query.deviceName) { conditions.push('device_name = ? COLLATE NOCASE'); params.push(query.deviceName); }
+    if (query.startTime) { conditions.push('started_at >= ?'); params.push(query.startTime); }
+    if (query.endTime) { conditions.push('started_at <= ?'); params.push(query.endTime); }
+    if (query.open !== undefined) { conditions.push(query.open ? 'ended_at IS NULL' : 'ended_at IS NOT NULL'); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = this.db.prepare(
+      `SELECT COUNT(*) as cnt FROM media_sessions ${where}`
+    ).get(...params) as { cnt: number };
+
+    const limit = query.limit ?? 100;
+    const offset = query.offset ?? 0;
+
+    const rows = this.db.prepare(
+      `SELECT * FROM media_sessions ${where} ORDER BY started_at DESC LIMIT ? OFFSET ?`
+    ).all(...params, limit, offset) as any[];
+
+    return {
+      sessions: rows.map(rowToMediaSession),
+      totalCount: countRow.cnt,
+    };
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    const result = this.db.prepare('DELETE FROM media_sessions WHERE last_event_at < ?').run(olderThan);
+    return result.changes;
+  }
+}
+
+function rowToNowPlaying(row: any): NowPlaying {
+  return {
+    deviceSerial: row.device_serial,
+    deviceName: row.device_name ?? undefined,
+    playerState: row.player_state ?? undefined,
+    mediaReferenceId: row.media_reference_id ?? undefined,
+    mediaProgress: row.media_progress ?? undefined,
+    mediaLength: row.media_length ?? undefined,
+    progressUpdatedAt: row.progress_updated_at ?? undefined,
+    queueChangeType: row.queue_change_type ?? undefined,
+    playBackOrder: row.play_back_order ?? undefined,
+    loopMode: row.loop_mode ?? undefined,
+    error: row.error ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToMediaSession(row: any): MediaSession {
+  return {
+    id: row.id,
+    deviceSerial: row.device_serial,
+    deviceName: row.device_name ?? undefined,
+    startedAt: row.started_at,
+    endedAt: row.ended_at ?? undefined,
+    endReason: row.end_reason ?? undefined,
+    lastEventAt: row.last_event_at,
+    mediaReferenceIds: JSON.parse(row.media_reference_ids),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Connectivity store
+// ---------------------------------------------------------------------------
+
+export class SqliteConnectivityStore implements ConnectivityStore {
+  constructor(private db: Database.Database) {}
+
+  async insert(transition: ConnectivityTransition): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO connectivity_transitions (device_id, device_name, status, source, at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      transition.deviceId,
+      transition.deviceName ?? null,
+      transition.status,
+      transition.source,
+      transition.at,
+    );
+  }
+
+  async latest(before?: string): Promise<ConnectivityTransition[]> {
+    // SQLite returns the other columns from the row holding MAX(at)
+    const rows = this.db.prepare(`
+      SELECT device_id, device_name, status, source, MAX(at) AS at
+      FROM connectivity_transitions ${before ? 'WHERE at < ?' : ''}
+      GROUP BY device_id ORDER BY device_id
+    `).all(...(before ? [before] : [])) as any[];
+    return rows.map(rowToTransition);
+  }
+
+  async query(query: ConnectivityQuery): Promise<ConnectivityTransition[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.deviceId) { conditions.push('device_id = ?'); params.push(query.deviceId); }
+    if (query.startTime) { conditions.push('at >= ?'); params.push(query.startTime); }
+    if (query.endTime) { conditions.push('at <= ?'); params.push(query.endTime); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM connectivity_transitions ${where} ORDER BY at, id`
+    ).all(...params) as any[];
+    return rows.map(rowToTransition);
+  }
+
+  async prune(olderThan: string): Promise<number> {
+    // A device's latest transition is its current status; keep it
+    const result = this.db.prepare(`
+      DELETE FROM connectivity_transitions
+      WHERE at < ? AND id <> (
+        SELECT id FROM connectivity_transitions t
+        WHERE t.device_id = connectivity_transitions.device_id
+        ORDER BY at DESC, id DESC LIMIT 1
+      )
+    `).run(olderThan);
+    return result.changes;
+  }
+}
+
+function rowToTransition(row: any): ConnectivityTransition {
+  return {
+    deviceId: row.device_id,
+    ...(row.device_name ? { deviceName: row.device_name } : {}),
+    status: row.status,
+    source: row.source,
+    at: row.at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// State rollup store
+// ---------------------------------------------------------------------------
+
+export class SqliteStateRollupStore implements StateRollupStore {
+  constructor(private db: Database.Database) {}
+
+  async upsert(rollups: StateRollup[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO state_rollups (device_id, namespace, name, instance, bucket, bucket_start, min, max, avg, last, count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(device_id, namespace, name, instance, bucket, bucket_start) DO UPDATE SET
+        min=excluded.min,
+        max=excluded.max,
+        avg=excluded.avg,
+        last=excluded.last,
+        count=excluded.count
+    `);
+    const tx = this.db.transaction((items: StateRollup[]) => {
+      for (const r of items) {
+        stmt.run(r.deviceId, r.namespace, r.name, r.instance ?? '', r.bucket, r.bucketStart, r.min, r.max, r.avg, r.last, r.count);
+      }
+    });
+    tx(rollups);
+  }
+
+  async query(series: StateSeries, bucket: StateAggregateBucket, startTime: string, endTime: string): Promise<StateRollup[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM state_rollups
+      WHERE device_id = ? AND namespace = ? AND name = ? AND instance = ? AND bucket = ?
+        AND bucket_start >= ? AND bucket_start < ?
+      ORDER BY bucket_start
+    `).all(series.deviceId, series.namespace, series.name, series.instance ?? '', bucket, startTime, endTime) as any[];
+    return rows.map(rowToRollup);
+  }
+
+  async getWatermark(bucket: StateAggregateBucket): Promise<StateRollupWatermark | null> {
+    const row = this.db.prepare('SELECT * FROM state_rollup_watermarks WHERE bucket = ?').get(bucket) as any;
+    return row ? { from: row.rolled_up_from, to: row.rolled_up_to } : null;
+  }
+
+  async setWatermark(bucket: StateAggregateBucket, watermark: StateRollupWatermark): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO state_rollup_watermarks (bucket, rolled_up_from, rolled_up_to) VALUES (?, ?, ?)
+      ON CONFLICT(bucket) DO UPDATE SET
+        rolled_up_from=excluded.rolled_up_from,
+        rolled_up_to=excluded.rolled_up_to
+    `).run(bucket, watermark.from, watermark.to);
+  }
+
+  async prune(olderThan: string, bucket?: StateAggregateBucket): Promise<number> {
+    const result = bucket
+      ? this.db.prepare('DELETE FROM state_rollups WHERE bucket = ? AND bucket_start < ?').run(bucket, olderThan)
+      : this.db.prepare('DELETE FROM state_rollups WHERE bucket_start < ?').run(olderThan);
+    return result.changes;
+  }
+}
+
+function rowToRollup(row: any): StateRollup {
+  return {
+    deviceId: row.device_id,
+    namespace: row.namespace,
+    name: row.name,
+    ...(row.instance ? { instance: row.instance } : {}),
+    bucket: row.bucket,
+    bucketStart: row.bucket_start,
+    min: row.min,
+    max: row.max,
+    avg: row.avg,
+    last: row.last,
+    count: row.count,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Discovery state store
+// ---------------------------------------------------------------------------
+
+export class SqliteDiscoveryStateStore implements DiscoveryStateStore {
+  constructor(private db: Database.Database) {}
+
+  async list(userId: string): Promise<AcknowledgedEndpoint[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM discovery_acknowledged WHERE user_id = ? ORDER BY endpoint_id'
+    ).all(userId) as any[];
+    return rows.map((row) => ({
+      endpointId: row.endpoint_id,
+      fingerprint: row.fingerprint,
+      acknowledgedAt: row.acknowledged_at,
+    }));
+  }
+
+  async upsert(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void> {
+    const tx = this.db.transaction((items: AcknowledgedEndpoint[]) => {
+      for (const e of items) this.upsertOne(userId, e);
+    });
+    tx(endpoints);
+  }
+
+  async remove(userId: string, endpointIds: string[]): Promise<void> {
+    const stmt = this.db.prepare('DELETE FROM discovery_acknowledged WHERE user_id = ? AND endpoint_id = ?');
+    const tx = this.db.transaction((ids: string[]) => {
+      for (const id of ids) stmt.run(userId, id);
+    });
+    tx(endpointIds);
+  }
+
+  async replace(userId: string, endpoints: AcknowledgedEndpoint[]): Promise<void> {
+    const tx = this.db.transaction((items: AcknowledgedEndpoint[]) => {
+      this.db.prepare('DELETE FROM discovery_acknowledged WHERE user_id = ?').run(userId);
+      for (const e of items) this.upsertOne(userId, e);
+    });
+    tx(endpoints);
+  }
+
+  private upsertOne(userId: string, e: AcknowledgedEndpoint): void {
+    this.db.prepare(`
+      INSERT INTO discovery_acknowledged (user_id, endpoint_id, fingerprint, acknowledged_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, endpoint_id) DO UPDATE SET
+        fingerprint=excluded.fingerprint,
+        acknowledged_at=excluded.acknowledged_at
+    `).run(userId, e.endpointId, e.fingerprint, e.acknowledgedAt);
+  }
+}
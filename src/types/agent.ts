@@ -17,6 +17,15 @@ import type {
 import type { AccountDevice, AccountDeviceCommand, DeviceStateSnapshot, ActivityRecord } from '../alexa-api/alexa-api-types';
 import type { StoredEvent, EventQuery } from '../events/event-store';
 import type { StoredPushEvent } from '../alexa-api/push-event-types';
+import type { NowPlaying, MediaSessionQueryResult } from '../alexa-api/media-sessions';
+import type { ConnectivityReport } from '../alexa-api/connectivity';
+import type { StateAggregateBucket, StateAggregateResult } from '../alexa-api/state-aggregates';
+import type { SqliteStorageStats } from '../storage/sqlite';
+import type { RetentionStatus } from '../storage/retention';
+import type { RoutineRun, RoutineRunStatus, RoutineRunSource } from '../routines/routine-run-store';
+import type { StoredRoutine } from '../routines/routine-store';
+import type { DeviceStateReadMode, DevicePropertyReading } from '../devices/device-state';
+import type { DiscoverySyncResult } from '../devices/discovery-sync';
 
 // ---------------------------------------------------------------------------
 // Tool action discriminated union
@@ -24,15 +33,24 @@ import type { StoredPushEvent } from '../alexa-api/push-event-types';
 
 export type AgentAction =
   | DiscoverDevicesAction
+  | SyncDiscoveryAction
   | GetDeviceStateAction
   | ControlDeviceAction
   | ListRoutinesAction
   | TriggerRoutineAction
   | CreateRoutineAction
   | DeleteRoutineAction
+  | GetRoutineAction
+  | UpdateRoutineAction
+  | SetRoutineEnabledAction
+  | DuplicateRoutineAction
+  | GetRoutineScheduleAction
+  | GetRoutineRunsAction
+  | GetRoutineRunAction
   | QueryEventsAction
   | GetEventStreamAction
   | SetAlexaCookieAction
+  | SetAlexaRefreshTokenAction
   | ListAllDevicesAction
   | ControlAccountDeviceAction
   | PollDeviceStateAction
@@ -40,9 +58,15 @@ export type AgentAction =
   | GetCachedStatesAction
   | GetActivityHistoryAction
   | QueryStateHistoryAction
+  | QueryStateAggregatesAction
   | StartPushListenerAction
   | StopPushListenerAction
-  | QueryPushEventsAction;
+  | QueryPushEventsAction
+  | BackfillDeviceNamesAction
+  | GetNowPlayingAction
+  | QueryMediaSessionsAction
+  | GetConnectivityReportAction
+  | GetStorageStatsAction;
 
 // -- Device actions ---------------------------------------------------------
 
@@ -52,9 +76,21 @@ export interface DiscoverDevicesAction {
   category?: DisplayCategory;
 }
 
+export interface SyncDiscoveryAction {
+  type: 'sync_discovery';
+  /** Compute the diff without sending reports */
+  dryRun?: boolean;
+}
+
 export interface GetDeviceStateAction {
   type: 'get_device_state';
   endpointId: string;
+  /**
+   * `cache_only` reads the latest stored snapshot; `live` requires a
+   * ReportState round trip; `live_with_fallback` (default) tries live
+   * and falls back to the cache.
+   */
+  mode?: DeviceStateReadMode;
 }
 
 export interface ControlDeviceAction {
@@ -99,6 +135,58 @@ export interface DeleteRoutineAction {
   routineId: string;
 }
 
+export interface GetRoutineAction {
+  type: 'get_routine';
+  routineId: string;
+}
+
+export interface UpdateRoutineAction {
+  type: 'update_routine';
+  routineId: string;
+  /** Fields to replace; omitted fields keep their current value */
+  updates: Partial<RoutineDefinition>;
+}
+
+export interface SetRoutineEnabledAction {
+  type: 'set_routine_enabled';
+  routineId: string;
+  enabled: boolean;
+}
+
+export interface DuplicateRoutineAction {
+  type: 'duplicate_routine';
+  routineId: string;
+  /** Name for the copy (default: "<name> (copy)") */
+  name?: string;
+}
+
+export interface GetRoutineScheduleAction {
+  type: 'get_routine_schedule';
+  /** Limit to a single routine (default: all scheduled routines) */
+  routineId?: string;
+  /** Number of upcoming fire times per routine (default 5, max 100) */
+  count?: number;
+}
+
+export interface GetRoutineRunsAction {
+  type: 'get_routine_runs';
+  routineId?: string;
+  status?: RoutineRunStatus;
+  source?: RoutineRunSource;
+  /** ISO-8601 lower bound on run start time */
+  startTime?: string;
+  /** ISO-8601 upper bound on run start time */
+  endTime?: string;
+  /** Max runs to return (default 50) */
+  limit?: number;
+  offset?: number;
+}
+
+export interface GetRoutineRunAction {
+  type: 'get_routine_run';
+  runId: string;
+}
+
 export interface RoutineDefinition {
   name: string;
   trigger: RoutineTrigger;
@@ -106,15 +194,121 @@ export interface RoutineDefinition {
 }
 
 export type RoutineTrigger =
-  | { type: 'schedule'; cron: string }
-  | { type: 'device_event'; endpointId: string; property: string; value: unknown }
+  | {
+      type: 'schedule';
+      /** 5-field (`min hour dom month dow`) or 6-field (leading seconds) cron expression */
+      cron: string;
+      /** IANA timezone the cron is evaluated in (default: UTC) */
+      timezone?: string;
+    }
+  | {
+      type: 'device_event';
+      endpointId: string;
+      /** Property name (`powerState`), qualified name (`Alexa.PowerController.powerState`) or controller instance */
+      property: string;
+      /** Comparison value; `[low, high]` for `between`, ignored for `changed` */
+      value?: unknown;
+      /** How `value` is compared with the observed value (default: `equals`) */
+      operator?: DeviceEventOperator;
+      /** Minimum seconds between two firings of this trigger */
+      debounceSeconds?: number;
+    }
   | { type: 'custom'; triggerId: string };
 
-export interface RoutineActionStep {
+export type DeviceEventOperator =
+  | 'equals'
+  | 'not_equals'
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'between'
+  | 'changed';
+
+/**
+ * A condition on current device state.  Property conditions compare a
+ * single property of the device's latest state snapshot; `all`, `any`
+ * and `not` combine other conditions.
+ */
+export type RoutineCondition =
+  | {
+      endpointId: string;
+      /** Same forms as a device_event trigger's `property` */
+      property: string;
+      /** Comparison value; `[low, high]` for `between` */
+      value?: unknown;
+      /** Default: `equals`.  `changed` is not valid in a condition. */
+      operator?: DeviceEventOperator;
+    }
+  | { all: RoutineCondition[] }
+  | { any: RoutineCondition[] }
+  | { not: RoutineCondition };
+
+/** Options shared by every routine step. */
+export interface RoutineStepOptions {
+  /** Seconds to wait before running the step */
+  delaySeconds?: number;
+  /** Keep running the routine if this step fails (default: stop) */
+  continueOnError?: boolean;
+}
+
+export type RoutineActionStep =
+  | DeviceCommandStep
+  | SpeakStep
+  | ControlAccountDeviceStep
+  | WaitUntilStep
+  | IfStep
+  | ParallelStep
+  | RunRoutineStep;
+
+/** Send a Smart Home directive to a registered device. */
+export interface DeviceCommandStep extends RoutineStepOptions {
   type: 'device_command';
   endpointId: string;
   command: DeviceCommand;
-  delaySeconds?: number;
+}
+
+/** Speak text on an Echo device through the account API. */
+export interface SpeakStep extends RoutineStepOptions {
+  type: 'speak';
+  /** Echo serial number */
+  deviceId: string;
+  /** Alexa product type code (e.g. 'A3S5BH2HU6VAYF') */
+  deviceType: string;
+  text: string;
+}
+
+/** Control any account device, with the same fields as the control_account_device action. */
+export interface ControlAccountDeviceStep extends ControlAccountDeviceAction, RoutineStepOptions {}
+
+/** Wait until a condition holds, polling device state. */
+export interface WaitUntilStep extends RoutineStepOptions {
+  type: 'wait_until';
+  condition: RoutineCondition;
+  /** Give up (and fail the step) after this many seconds */
+  timeoutSeconds: number;
+  /** Seconds between state checks (default 5) */
+  pollIntervalSeconds?: number;
+}
+
+/** Run one of two step lists depending on current cached state. */
+export interface IfStep extends RoutineStepOptions {
+  type: 'if';
+  condition: RoutineCondition;
+  then: RoutineActionStep[];
+  else?: RoutineActionStep[];
+}
+
+/** Run steps concurrently; fails if any of them fails. */
+export interface ParallelStep extends RoutineStepOptions {
+  type: 'parallel';
+  steps: RoutineActionStep[];
+}
+
+/** Run another routine's steps inline. */
+export interface RunRoutineStep extends RoutineStepOptions {
+  type: 'run_routine';
+  routineId: string;
 }
 
 // -- Unofficial API actions (cookie-based, all-account) --------------------
@@ -127,6 +321,12 @@ export interface SetAlexaCookieAction {
   csrf?: string;
 }
 
+export interface SetAlexaRefreshTokenAction {
+  type: 'set_alexa_refresh_token';
+  /** Amazon device refresh token (`Atnr|...`), exchanged for cookies that are rotated before they expire */
+  refreshToken: string;
+}
+
 export interface ListAllDevicesAction {
   type: 'list_all_devices';
   /** Filter by source: 'smart_home', 'echo', or 'all' (default) */
@@ -191,6 +391,8 @@ export interface QueryStateHistoryAction {
   type: 'query_state_history';
   /** Filter by device ID */
   deviceId?: string;
+  /** Filter by device name (case-insensitive) */
+  deviceName?: string;
   /** ISO-8601 start time */
   startTime?: string;
   /** ISO-8601 end time */
@@ -201,6 +403,31 @@ export interface QueryStateHistoryAction {
   offset?: number;
 }
 
+export interface QueryStateAggregatesAction {
+  type: 'query_state_aggregates';
+  /** Device ID (applianceId) */
+  deviceId?: string;
+  /** Device name (case-insensitive), when no deviceId is given */
+  deviceName?: string;
+  /** Capability, e.g. Alexa.RangeController / rangeValue, Alexa.TemperatureSensor / temperature */
+  namespace: string;
+  name: string;
+  /** Capability instance, e.g. the RangeController instance of PM2.5 */
+  instance?: string;
+  /** Bucket size (default 1h) */
+  bucket?: StateAggregateBucket;
+  /** ISO-8601 start time (default: 1 day, 7 days or 90 days back, by bucket) */
+  startTime?: string;
+  /** ISO-8601 end time (default: now) */
+  endTime?: string;
+}
+
+export interface BackfillDeviceNamesAction {
+  type: 'backfill_device_names';
+  /** Refresh the device directory before backfilling */
+  refresh?: boolean;
+}
+
 // -- Push listener actions ---------------------------------------------------
 
 export interface StartPushListenerAction {
@@ -217,6 +444,8 @@ export interface QueryPushEventsAction {
   command?: string;
   /** Filter by device serial number */
   deviceSerial?: string;
+  /** Filter by device name (case-insensitive) */
+  deviceName?: string;
   /** ISO-8601 start time */
   startTime?: string;
   /** ISO-8601 end time */
@@ -229,6 +458,50 @@ export interface QueryPushEventsAction {
   offset?: number;
 }
 
+// -- Media actions ----------------------------------------------------------
+
+export interface GetNowPlayingAction {
+  type: 'get_now_playing';
+  /** One Echo's state; all Echos that reported media events if omitted */
+  deviceSerial?: string;
+}
+
+export interface QueryMediaSessionsAction {
+  type: 'query_media_sessions';
+  /** Filter by device serial number */
+  deviceSerial?: string;
+  /** Filter by device name (case-insensitive) */
+  deviceName?: string;
+  /** ISO-8601 start time (sessions started at or after) */
+  startTime?: string;
+  /** ISO-8601 end time (sessions started at or before) */
+  endTime?: string;
+  /** true: open sessions only, false: ended sessions only */
+  open?: boolean;
+  /** Max results (default 100) */
+  limit?: number;
+  /** Pagination offset (default 0) */
+  offset?: number;
+}
+
+// -- Connectivity actions ---------------------------------------------------
+
+export interface GetConnectivityReportAction {
+  type: 'get_connectivity_report';
+  /** One device; every device with connectivity history if omitted */
+  deviceId?: string;
+  /** ISO-8601 window start (default: 24 hours before endTime) */
+  startTime?: string;
+  /** ISO-8601 window end (default: now) */
+  endTime?: string;
+}
+
+// -- Storage actions --------------------------------------------------------
+
+export interface GetStorageStatsAction {
+  type: 'get_storage_stats';
+}
+
 // -- Event actions ----------------------------------------------------------
 
 export interface QueryEventsAction {
@@ -259,15 +532,30 @@ export interface AgentToolResult<T = unknown> {
 
 // Specific result data shapes
 export type DiscoverDevicesResult = { devices: DiscoveredDevice[] };
-export type GetDeviceStateResult = { state: DeviceState };
+export type SyncDiscoveryResult = DiscoverySyncResult;
+export type GetDeviceStateResult = {
+  state: DeviceState;
+  /** `merged` when live values were combined with cached ones */
+  source: 'cache' | 'live' | 'merged' | 'none';
+  /** Sample age and uncertainty for each property in `state` */
+  readings: DevicePropertyReading[];
+};
 export type ControlDeviceResult = { newState?: Partial<DeviceState>; acknowledged: boolean };
 export type ListRoutinesResult = { routines: RoutineSummary[] };
-export type TriggerRoutineResult = { triggered: boolean };
+export type TriggerRoutineResult = { triggered: boolean; runId: string; report?: RoutineExecutionReport };
 export type CreateRoutineResult = { routineId: string };
 export type DeleteRoutineResult = { deleted: boolean };
+export type GetRoutineResult = { routine: StoredRoutine };
+export type UpdateRoutineResult = { routine: RoutineSummary };
+export type SetRoutineEnabledResult = { routineId: string; enabled: boolean };
+export type DuplicateRoutineResult = { routineId: string; routine: RoutineSummary };
+export type GetRoutineScheduleResult = { schedules: RoutineScheduleEntry[]; schedulerRunning: boolean };
+export type GetRoutineRunsResult = { runs: RoutineRun[]; totalCount: number };
+export type GetRoutineRunResult = { run: RoutineRun };
 export type QueryEventsResult = { events: StoredEvent[]; totalCount: number; cursor?: string };
 export type GetEventStreamResult = { streamId: string; status: 'subscribed' };
-export type SetAlexaCookieResult = { stored: boolean; valid: boolean };
+export type SetAlexaCookieResult = { stored: boolean; valid: boolean; pushListenerRestarted: boolean };
+export type SetAlexaRefreshTokenResult = { stored: boolean; hasCSRF: boolean; expiresAt?: string };
 export type ListAllDevicesResult = { devices: AccountDevice[]; deviceCount: number };
 export type ControlAccountDeviceResult = { acknowledged: boolean };
 export type PollDeviceStateResult = { state: DeviceStateSnapshot };
@@ -275,10 +563,32 @@ export type PollAllStatesResult = { states: DeviceStateSnapshot[]; polledCount:
 export type GetCachedStatesResult = { states: DeviceStateSnapshot[]; stateCount: number; cachedAt?: string };
 export type GetActivityHistoryResult = { records: ActivityRecord[]; recordCount: number; nextToken?: string };
 export type QueryStateHistoryResult = { snapshots: DeviceStateSnapshot[]; totalCount: number };
+export type QueryStateAggregatesResult = StateAggregateResult;
 export type StartPushListenerResult = { status: 'connected' | 'already_connected'; connectionId: string };
 export type StopPushListenerResult = { status: 'disconnected' | 'already_disconnected' };
 export type QueryPushEventsResult = { events: StoredPushEvent[]; totalCount: number };
 
+export type GetNowPlayingResult = { nowPlaying: NowPlaying[] };
+
+export type QueryMediaSessionsResult = MediaSessionQueryResult;
+
+export type GetConnectivityReportResult = ConnectivityReport;
+
+export type GetStorageStatsResult = {
+  backend: 'sqlite' | 'memory';
+  /** File size and row counts; null with in-memory storage */
+  database: SqliteStorageStats | null;
+  retention: RetentionStatus;
+};
+
+/** Rows that received a name, per store */
+export type BackfillDeviceNamesResult = {
+  snapshots: number;
+  activities: number;
+  pushEvents: number;
+  directorySize: number;
+};
+
 export interface RoutineSummary {
   id: string;
   name: string;
@@ -288,3 +598,43 @@ export interface RoutineSummary {
   lastTriggered?: string; // ISO-8601
   createdAt: string;
 }
+
+export interface RoutineScheduleEntry {
+  routineId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  lastTriggered?: string; // ISO-8601
+  /** Upcoming fire times (ISO-8601); empty for disabled routines */
+  nextRuns: string[];
+}
+
+export type RoutineStepStatus = 'succeeded' | 'failed' | 'skipped' | 'timed_out';
+
+/** Outcome of executing a routine's steps. */
+export interface RoutineExecutionReport {
+  routineId: string;
+  name: string;
+  status: 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  steps: RoutineStepReport[];
+  /** First error that stopped the routine */
+  error?: string;
+}
+
+export interface RoutineStepReport {
+  /** Position within the enclosing step list */
+  index: number;
+  type: RoutineActionStep['type'];
+  status: RoutineStepStatus;
+  startedAt?: string;
+  durationMs: number;
+  error?: string;
+  /** Branch taken by an `if` step */
+  branch?: 'then' | 'else';
+  /** Reports for nested steps (`if`, `parallel`, `run_routine`) */
+  steps?: RoutineStepReport[];
+}
@@ -49,6 +49,8 @@ export interface AlexaContext {
 export interface AlexaPropertyState {
   namespace: string;
   name: string;
+  /** Capability instance (RangeController, ModeController, ToggleController) */
+  instance?: string;
   value: unknown;
   timeOfSample: string; // ISO-8601
   uncertaintyInMilliseconds: number;
@@ -0,0 +1 @@
+export { PeriodicTask } from './periodic-task';
@@ -0,0 +1,42 @@
+/**
+ * Periodic background task.
+ *
+ * The timer behind every `start(intervalMs)` / `stop()` / `isRunning()`
+ * worker: runs a job every `intervalMs` without keeping the process
+ * alive, ignores a second start, and hands a failed run to `onError`
+ * instead of letting it reject unhandled.
+ */
+
+export class PeriodicTask {
+  private job: () => Promise<unknown>;
+  private onError?: (error: Error) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(job: () => Promise<unknown>, onError?: (error: Error) => void) {
+    this.job = job;
+    this.onError = onError;
+  }
+
+  /** Run the job every `intervalMs`.  Returns false when already started. */
+  start(intervalMs: number): boolean {
+    if (this.timer) return false;
+    this.timer = setInterval(() => {
+      this.job().catch((err) => {
+        this.onError?.(err instanceof Error ? err : new Error(String(err)));
+      });
+    }, intervalMs);
+    this.timer.unref?.();
+    return true;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -1,6 +1,18 @@
+import * as http from 'http';
+import path from 'path';
+import fs from 'fs';
+import type { AddressInfo } from 'net';
 import { AlexaAgentTool } from '../../src/agent';
 import { InMemoryEventStore } from '../../src/events';
 import { InMemoryCookieStore } from '../../src/alexa-api/cookie-store';
+import { InMemoryDeviceStateStore } from '../../src/alexa-api/device-state-store';
+import { InMemoryPushEventStore } from '../../src/alexa-api/push-event-store';
+import { InMemoryActivityStore } from '../../src/alexa-api/activity-store';
+import type { StoredPushEvent } from '../../src/alexa-api/push-event-types';
+import type { AccountDevice } from '../../src/alexa-api/alexa-api-types';
+import { LocalPushGateway } from '../../src/alexa-api/local-push-gateway';
+import { SimulatedDeviceBackend, InMemoryDiscoveryStateStore } from '../../src/devices';
+import { InMemoryRoutineRunStore } from '../../src/routines';
 import type { AgentAction } from '../../src/types/agent';
 
 describe('AlexaAgentTool', () => {
@@ -44,6 +56,61 @@ describe('AlexaAgentTool', () => {
     });
   });
 
+  describe('sync_discovery', () => {
+    beforeEach(() => {
+      // As a Discover response leaves it
+      tool.getDeviceRegistry().setAll([{
+        endpointId: 'light-1',
+        manufacturerName: 'Test',
+        description: 'Test Light',
+        friendlyName: 'Living Room Light',
+        displayCategories: ['LIGHT'],
+        capabilities: [],
+      }]);
+    });
+
+    it('should return the diff without sending on a dry run', async () => {
+      const result = await tool.execute({ type: 'sync_discovery', dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ added: ['light-1'], updated: [], removed: [], unchanged: 0, dryRun: true });
+      const events = await eventStore.query({ eventType: 'AgentSyncDiscovery' });
+      expect(events.events[0].payload).toMatchObject({ added: 1, dryRun: true });
+    });
+
+    it('should send an AddOrUpdateReport for new endpoints', async () => {
+      const send = jest.spyOn(tool.getEventGateway(), 'sendAddOrUpdateReport').mockResolvedValue(undefined);
+      jest.spyOn(tool.getAuth(), 'getAccessToken').mockResolvedValue('token-1');
+
+      const first = await tool.execute({ type: 'sync_discovery' });
+      const second = await tool.execute({ type: 'sync_discovery' });
+
+      expect((first.data as any).added).toEqual(['light-1']);
+      expect((second.data as any).unchanged).toBe(1);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not delete acknowledged endpoints before a Discover after a restart', async () => {
+      const discoveryStateStore = new InMemoryDiscoveryStateStore();
+      await discoveryStateStore.upsert('test-user', [{ endpointId: 'light-1', fingerprint: 'abc', acknowledgedAt: new Date().toISOString() }]);
+      const restarted = new AlexaAgentTool({
+        config: { clientId: 'test-id', clientSecret: 'test-secret', region: 'NA', skillId: 'test-skill', storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        discoveryStateStore,
+      });
+      const sendDelete = jest.spyOn(restarted.getEventGateway(), 'sendDeleteReport').mockResolvedValue(undefined);
+
+      const result = await restarted.execute({ type: 'sync_discovery' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not loaded yet');
+      expect(sendDelete).not.toHaveBeenCalled();
+      expect(await discoveryStateStore.list('test-user')).toHaveLength(1);
+      restarted.close();
+    });
+  });
+
   describe('get_device_state', () => {
     it('should fail when device does not exist', async () => {
       const result = await tool.execute({
@@ -53,6 +120,80 @@ describe('AlexaAgentTool', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('not found');
     });
+
+    describe('read modes', () => {
+      let stateStore: InMemoryDeviceStateStore;
+      let backend: SimulatedDeviceBackend;
+
+      beforeEach(async () => {
+        stateStore = new InMemoryDeviceStateStore();
+        await stateStore.insert({
+          deviceId: 'lamp-1',
+          capabilities: [
+            { namespace: 'Alexa.PowerController', name: 'powerState', value: 'OFF' },
+            { namespace: 'Alexa.BrightnessController', name: 'brightness', value: 20 },
+          ],
+          polledAt: new Date(Date.now() - 60_000).toISOString(),
+        });
+        backend = new SimulatedDeviceBackend({
+          'lamp-1': [{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'ON' }],
+        });
+      });
+
+      function makeTool(withBackend: boolean): AlexaAgentTool {
+        return new AlexaAgentTool({
+          config: { storageBackend: 'memory' },
+          userId: 'test-user',
+          deviceStateStore: stateStore,
+          ...(withBackend ? { deviceBackend: backend } : {}),
+        });
+      }
+
+      it('should serve the cached snapshot with cache_only', async () => {
+        const result = await makeTool(true).execute({ type: 'get_device_state', endpointId: 'lamp-1', mode: 'cache_only' });
+
+        const data = result.data as any;
+        expect(data.source).toBe('cache');
+        expect(data.state.properties.map((p: any) => p.value)).toEqual(['OFF', 20]);
+        expect(data.readings[0].uncertaintyInMilliseconds).toBeGreaterThanOrEqual(60_000);
+        expect(backend.received).toHaveLength(0);
+      });
+
+      it('should merge live values over the cache by default', async () => {
+        const result = await makeTool(true).execute({ type: 'get_device_state', endpointId: 'lamp-1' });
+
+        const data = result.data as any;
+        expect(data.source).toBe('merged');
+        expect(data.state.properties.map((p: any) => p.value)).toEqual(['ON', 20]);
+        expect(data.readings.map((r: any) => r.source)).toEqual(['live', 'cache']);
+
+        // The live read refreshes the cache
+        const latest = await stateStore.getLatest('lamp-1');
+        expect(latest!.capabilities[0].value).toBe('ON');
+      });
+
+      it('should fall back to the cache when no backend is available', async () => {
+        const result = await makeTool(false).execute({ type: 'get_device_state', endpointId: 'lamp-1' });
+
+        expect(result.success).toBe(true);
+        expect((result.data as any).source).toBe('cache');
+      });
+
+      it('should fail a live read without a backend', async () => {
+        const result = await makeTool(false).execute({ type: 'get_device_state', endpointId: 'lamp-1', mode: 'live' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('No device backend available');
+      });
+
+      it('should return only live values with live', async () => {
+        const result = await makeTool(true).execute({ type: 'get_device_state', endpointId: 'lamp-1', mode: 'live' });
+
+        const data = result.data as any;
+        expect(data.source).toBe('live');
+        expect(data.state.properties).toHaveLength(1);
+      });
+    });
   });
 
   describe('control_device', () => {
@@ -106,6 +247,151 @@ describe('AlexaAgentTool', () => {
       expect(events.events).toHaveLength(1);
       expect(events.events[0].tags).toContain('device_control');
     });
+
+    describe('with a device backend', () => {
+      let backend: SimulatedDeviceBackend;
+
+      beforeEach(() => {
+        backend = new SimulatedDeviceBackend({
+          'light-1': [{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'OFF' }],
+        });
+        tool = new AlexaAgentTool({
+          config: { storageBackend: 'memory' },
+          userId: 'test-user',
+          eventStore,
+          deviceBackend: backend,
+        });
+        tool.getDeviceRegistry().upsert({
+          endpointId: 'light-1',
+          manufacturerName: 'Test',
+          description: 'Test Light',
+          friendlyName: 'Living Room Light',
+          displayCategories: ['LIGHT'],
+          capabilities: [{
+            type: 'AlexaInterface',
+            interface: 'Alexa.PowerController',
+            version: '3',
+            properties: { supported: [{ name: 'powerState' }], proactivelyReported: true, retrievable: true },
+          }],
+        });
+      });
+
+      it('should dispatch the directive and return the resulting state', async () => {
+        const result = await tool.execute({
+          type: 'control_device',
+          endpointId: 'light-1',
+          command: { action: 'turn_on' },
+        });
+
+        expect(result.success).toBe(true);
+        const data = result.data as any;
+        expect(data.acknowledged).toBe(true);
+        expect(data.newState.properties[0]).toMatchObject({ name: 'powerState', value: 'ON' });
+        expect(backend.received.map((m) => m.directive!.header.name)).toEqual(['TurnOn', 'ReportState']);
+
+        const events = await eventStore.query({ eventType: 'AgentControlDevice' });
+        expect(events.events[0].payload.backend).toBe('simulated');
+      });
+
+      it('should acknowledge a command whose state read fails', async () => {
+        const handle = backend.handleDirective.bind(backend);
+        jest.spyOn(backend, 'handleDirective').mockImplementation(async (message) => {
+          if (message.directive?.header.name === 'ReportState') throw new Error('socket hang up');
+          return handle(message);
+        });
+
+        const result = await tool.execute({
+          type: 'control_device',
+          endpointId: 'light-1',
+          command: { action: 'turn_on' },
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ acknowledged: true });
+        const events = await eventStore.query({ eventType: 'AgentControlDevice' });
+        expect(events.events[0].payload.stateError).toBe('socket hang up');
+      });
+
+      it('should store live state under the applianceId polls use', async () => {
+        const deviceStateStore = new InMemoryDeviceStateStore();
+        tool = new AlexaAgentTool({
+          config: { storageBackend: 'memory' },
+          userId: 'test-user',
+          eventStore,
+          deviceStateStore,
+          deviceBackend: backend,
+        });
+        await tool.getDeviceDirectory().update([{
+          id: 'light-1',
+          name: 'Living Room Light',
+          source: 'smart_home',
+          deviceType: 'LIGHT',
+          online: true,
+          capabilities: [],
+          interfaces: ['Alexa.PowerController'],
+          applianceId: 'SKILL_abc==_light-1',
+        }]);
+        tool.getDeviceRegistry().upsert({
+          endpointId: 'light-1',
+          manufacturerName: 'Test',
+          description: 'Test Light',
+          friendlyName: 'Living Room Light',
+          displayCategories: ['LIGHT'],
+          capabilities: [],
+        });
+
+        const live = await tool.execute({ type: 'get_device_state', endpointId: 'light-1', mode: 'live' });
+        expect(live.success).toBe(true);
+
+        expect(await deviceStateStore.getLatest('light-1')).toBeNull();
+        expect(await deviceStateStore.getLatest('SKILL_abc==_light-1')).toMatchObject({
+          capabilities: [expect.objectContaining({ name: 'powerState', value: 'OFF' })],
+        });
+        const cached = await tool.execute({ type: 'get_device_state', endpointId: 'light-1', mode: 'cache_only' });
+        expect((cached.data as any).source).toBe('cache');
+      });
+
+      it('should surface device errors', async () => {
+        const result = await tool.execute({
+          type: 'control_device',
+          endpointId: 'light-1',
+          command: { action: 'set_brightness', brightness: 250 },
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('rejected Alexa.BrightnessController.SetBrightness: INVALID_VALUE');
+      });
+
+      it('should read state through the backend', async () => {
+        backend.setProperty('light-1', 'Alexa.PowerController', 'powerState', 'ON');
+        const result = await tool.execute({ type: 'get_device_state', endpointId: 'light-1' });
+
+        expect(result.success).toBe(true);
+        expect((result.data as any).state.properties[0].value).toBe('ON');
+      });
+
+      it('should send a ChangeReport for the state it changed', async () => {
+        await tool.execute({ type: 'get_device_state', endpointId: 'light-1' });
+        const sendChangeReport = jest
+          .spyOn(tool.getEventGateway(), 'sendChangeReport')
+          .mockResolvedValue(undefined);
+        jest.spyOn(tool.getAuth(), 'getAccessToken').mockResolvedValue('token-1');
+
+        await tool.execute({
+          type: 'control_device',
+          endpointId: 'light-1',
+          command: { action: 'turn_on' },
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(sendChangeReport).toHaveBeenCalledTimes(1);
+        expect(sendChangeReport.mock.calls[0][0]).toMatchObject({
+          endpointId: 'light-1',
+          cause: 'APP_INTERACTION',
+          changedProperties: [expect.objectContaining({ name: 'powerState', value: 'ON' })],
+        });
+      });
+    });
   });
 
   describe('routines', () => {
@@ -152,6 +438,143 @@ describe('AlexaAgentTool', () => {
       expect((triggerResult.data as any).triggered).toBe(true);
     });
 
+    it('should return a per-step execution report', async () => {
+      const createResult = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Announce',
+          trigger: { type: 'schedule', cron: '0 7 * * *' },
+          actions: [
+            {
+              type: 'if',
+              condition: { endpointId: 'light-1', property: 'powerState', value: 'ON' },
+              then: [],
+            },
+            { type: 'speak', deviceId: 'G0911', deviceType: 'A3S5BH2HU6VAYF', text: 'Good morning' },
+          ],
+        },
+      });
+      const routineId = (createResult.data as any).routineId;
+
+      const result = await tool.execute({ type: 'trigger_routine', routineId });
+      expect(result.success).toBe(true);
+      const report = (result.data as any).report;
+      expect(report.status).toBe('failed');
+      expect(report.steps[0]).toMatchObject({ type: 'if', status: 'succeeded', branch: 'else' });
+      expect(report.steps[1]).toMatchObject({ type: 'speak', status: 'failed' });
+      expect(report.error).toContain('No Alexa cookie configured');
+    });
+
+    it('should record routine runs', async () => {
+      const createResult = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Announce',
+          trigger: { type: 'schedule', cron: '0 7 * * *' },
+          actions: [
+            { type: 'speak', deviceId: 'G0911', deviceType: 'A3S5BH2HU6VAYF', text: 'Good morning' },
+          ],
+        },
+      });
+      const routineId = (createResult.data as any).routineId;
+
+      const triggerResult = await tool.execute({ type: 'trigger_routine', routineId });
+      const runId = (triggerResult.data as any).runId;
+      expect(runId).toBeTruthy();
+
+      const runResult = await tool.execute({ type: 'get_routine_run', runId });
+      expect(runResult.success).toBe(true);
+      const run = (runResult.data as any).run;
+      expect(run).toMatchObject({ routineId, routineName: 'Announce', source: 'manual', status: 'failed' });
+      expect(run.finishedAt).toBeTruthy();
+      expect(run.steps[0]).toMatchObject({ type: 'speak', status: 'failed' });
+
+      const runsResult = await tool.execute({ type: 'get_routine_runs', routineId, status: 'failed' });
+      expect((runsResult.data as any).totalCount).toBe(1);
+      expect((runsResult.data as any).runs[0].id).toBe(runId);
+    });
+
+    it('should update, pause and duplicate a routine', async () => {
+      const createResult = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Morning',
+          trigger: { type: 'schedule', cron: '0 7 * * *' },
+          actions: [],
+        },
+      });
+      const routineId = (createResult.data as any).routineId;
+
+      const updateResult = await tool.execute({
+        type: 'update_routine',
+        routineId,
+        updates: { trigger: { type: 'schedule', cron: '0 6 * * 1-5' } },
+      });
+      expect(updateResult.success).toBe(true);
+      expect((updateResult.data as any).routine).toMatchObject({ id: routineId, name: 'Morning' });
+
+      const pauseResult = await tool.execute({ type: 'set_routine_enabled', routineId, enabled: false });
+      expect(pauseResult.data).toEqual({ routineId, enabled: false });
+
+      const schedule = await tool.execute({ type: 'get_routine_schedule', routineId });
+      expect((schedule.data as any).schedules[0]).toMatchObject({ cron: '0 6 * * 1-5', enabled: false, nextRuns: [] });
+
+      const dupResult = await tool.execute({ type: 'duplicate_routine', routineId, name: 'Weekday Morning' });
+      expect(dupResult.success).toBe(true);
+      const copyId = (dupResult.data as any).routineId;
+
+      const getResult = await tool.execute({ type: 'get_routine', routineId: copyId });
+      expect((getResult.data as any).routine).toMatchObject({
+        name: 'Weekday Morning',
+        trigger: { type: 'schedule', cron: '0 6 * * 1-5' },
+        enabled: false,
+      });
+
+      const events = await eventStore.query({ eventType: 'AgentSetRoutineEnabled' });
+      expect(events.events).toHaveLength(1);
+    });
+
+    it('should reject an invalid routine update', async () => {
+      const createResult = await tool.execute({
+        type: 'create_routine',
+        routine: { name: 'Morning', trigger: { type: 'custom', triggerId: 't-1' }, actions: [] },
+      });
+      const routineId = (createResult.data as any).routineId;
+
+      const result = await tool.execute({
+        type: 'update_routine',
+        routineId,
+        updates: { actions: [{ type: 'wait_until', condition: { endpointId: 'lock-1', property: 'lockState', value: 'LOCKED' }, timeoutSeconds: -1 }] },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('positive timeoutSeconds');
+    });
+
+    it('should mark runs left running by a previous process as interrupted', async () => {
+      const routineRunStore = new InMemoryRoutineRunStore();
+      await routineRunStore.insert({
+        id: 'run-1', routineId: 'r-1', routineName: 'Bedtime', source: 'schedule',
+        status: 'running', startedAt: '2024-03-01T22:00:00Z', steps: [],
+      });
+      const restarted = new AlexaAgentTool({
+        config: { clientId: 'test-id', clientSecret: 'test-secret', region: 'NA', skillId: 'test-skill', storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        routineRunStore,
+      });
+
+      const result = await restarted.execute({ type: 'get_routine_run', runId: 'run-1' });
+
+      expect((result.data as any).run).toMatchObject({ status: 'interrupted', error: expect.stringContaining('restart') });
+      restarted.close();
+    });
+
+    it('should fail to get an unknown routine run', async () => {
+      const result = await tool.execute({ type: 'get_routine_run', runId: 'nope' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Routine run nope not found');
+    });
+
     it('should delete a routine', async () => {
       const createResult = await tool.execute({
         type: 'create_routine',
@@ -174,6 +597,60 @@ describe('AlexaAgentTool', () => {
       expect((listResult.data as any).routines).toHaveLength(0);
     });
 
+    it('should reject a routine with an invalid cron expression', async () => {
+      const result = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Broken',
+          trigger: { type: 'schedule', cron: '0 25 * * *' },
+          actions: [],
+        },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid cron expression');
+    });
+
+    it('should reject a device_event trigger with a malformed condition', async () => {
+      const result = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Broken',
+          trigger: { type: 'device_event', endpointId: 'sensor-1', property: 'temperature', operator: 'between', value: 20 },
+          actions: [],
+        },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('requires value: [low, high]');
+    });
+
+    it('should return upcoming fire times for scheduled routines', async () => {
+      await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Hourly',
+          trigger: { type: 'schedule', cron: '@hourly' },
+          actions: [],
+        },
+      });
+      await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Manual',
+          trigger: { type: 'custom', triggerId: 'trigger-1' },
+          actions: [],
+        },
+      });
+
+      const result = await tool.execute({ type: 'get_routine_schedule', count: 3 });
+      expect(result.success).toBe(true);
+      const data = result.data as any;
+      expect(data.schedulerRunning).toBe(false);
+      expect(data.schedules).toHaveLength(1);
+      expect(data.schedules[0].name).toBe('Hourly');
+      expect(data.schedules[0].nextRuns).toHaveLength(3);
+      expect(new Date(data.schedules[0].nextRuns[0]).getUTCMinutes()).toBe(0);
+    });
+
     it('should fail to trigger nonexistent routine', async () => {
       const result = await tool.execute({
         type: 'trigger_routine',
@@ -258,6 +735,10 @@ describe('AlexaAgentTool', () => {
       expect(tool.getRoutineManager()).toBeDefined();
     });
 
+    it('should expose routine scheduler (not running until started)', () => {
+      expect(tool.getRoutineScheduler().isRunning()).toBe(false);
+    });
+
     it('should expose event logger', () => {
       expect(tool.getEventLogger()).toBeDefined();
     });
@@ -299,6 +780,16 @@ describe('AlexaAgentTool', () => {
       expect(events.events).toHaveLength(1);
       expect(events.events[0].tags).toContain('auth');
     });
+
+    it('should update cookie health and alert on a rejected cookie', async () => {
+      jest.spyOn(tool.getAlexaApiClient(), 'checkCookie').mockResolvedValue(false);
+      await tool.execute({ type: 'set_alexa_cookie', cookie: 'session-id=1; ubid-main=2' });
+
+      expect(tool.getCookieHealthMonitor().getStatus()).toMatchObject({ hasCookie: true, state: 'invalid', valid: false });
+      const events = await eventStore.query({ eventType: 'CookieInvalid' });
+      expect(events.events).toHaveLength(1);
+      expect(events.events[0].tags).toEqual(['auth', 'cookie_invalid']);
+    });
   });
 
   describe('list_all_devices', () => {
@@ -397,6 +888,124 @@ describe('AlexaAgentTool', () => {
     });
   });
 
+  describe('push listener supervision', () => {
+    let gateway: LocalPushGateway;
+
+    beforeEach(async () => {
+      gateway = new LocalPushGateway();
+      tool = new AlexaAgentTool({
+        config: { region: 'NA', storageBackend: 'memory', pushGatewayUrl: await gateway.listen() },
+        userId: 'test-user',
+        eventStore,
+        cookieStore: new InMemoryCookieStore(),
+      });
+    });
+
+    afterEach(async () => {
+      tool.close();
+      await gateway.close();
+    });
+
+    it('should reconnect a running listener with a new cookie', async () => {
+      await tool.execute({ type: 'set_alexa_cookie', cookie: 'ubid-main=131-1234567-1234567' });
+      await tool.execute({ type: 'start_push_listener' });
+      const first = tool.getPushClient()!;
+
+      const result = await tool.execute({ type: 'set_alexa_cookie', cookie: 'ubid-main=131-7654321-7654321' });
+
+      expect((result.data as any).pushListenerRestarted).toBe(true);
+      expect(tool.getPushClient()).not.toBe(first);
+      expect(first.getState()).toBe('disconnected');
+      expect(gateway.getStats().connections).toBe(2);
+      const events = await eventStore.query({ eventType: 'PushListenerRestarted' });
+      expect(events.events[0].payload).toEqual({ reason: 'cookie_updated' });
+    });
+
+    it('should leave a stopped listener stopped', async () => {
+      await tool.execute({ type: 'set_alexa_cookie', cookie: 'ubid-main=131-1234567-1234567' });
+      await tool.execute({ type: 'start_push_listener' });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      await tool.execute({ type: 'stop_push_listener' });
+
+      const result = await tool.execute({ type: 'set_alexa_cookie', cookie: 'ubid-main=131-7654321-7654321' });
+      expect((result.data as any).pushListenerRestarted).toBe(false);
+      expect(await tool.getPushSupervisor().check()).toBe('idle');
+      expect(tool.getPushClient()).toBeNull();
+    });
+  });
+
+  describe('set_alexa_refresh_token', () => {
+    let gateway: LocalPushGateway;
+    let tokenEndpoint: http.Server;
+    let exchanges: number;
+
+    beforeEach(async () => {
+      exchanges = 0;
+      // Stands in for Amazon's token exchange and the Alexa site
+      tokenEndpoint = http.createServer((req, res) => {
+        if (req.url === '/ap/exchangetoken/cookies') {
+          const n = ++exchanges;
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            response: { tokens: { cookies: { '.amazon.com': [
+              { Name: 'ubid-main', Value: '131-1234567-1234567' },
+              { Name: 'at-main', Value: `Atza|${n}`, Expires: 'Sun, 15 Mar 2026 00:00:00 GMT' },
+            ] } } },
+          }));
+        } else {
+          res.writeHead(200, { 'Set-Cookie': ['csrf=csrf-1; Path=/'] });
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => tokenEndpoint.listen(0, '127.0.0.1', resolve));
+      const url = `http://127.0.0.1:${(tokenEndpoint.address() as AddressInfo).port}`;
+
+      gateway = new LocalPushGateway();
+      tool = new AlexaAgentTool({
+        config: {
+          region: 'NA',
+          storageBackend: 'memory',
+          pushGatewayUrl: await gateway.listen(),
+          cookieExchangeUrl: `${url}/ap/exchangetoken/cookies`,
+          cookieCsrfUrl: url,
+        },
+        userId: 'test-user',
+        eventStore,
+        cookieStore: new InMemoryCookieStore(),
+      });
+    });
+
+    afterEach(async () => {
+      tool.close();
+      await gateway.close();
+      await new Promise((resolve) => tokenEndpoint.close(resolve));
+    });
+
+    it('should store the exchanged cookie and hand rotations to the API and push clients', async () => {
+      const result = await tool.execute({ type: 'set_alexa_refresh_token', refreshToken: 'Atnr|test' });
+      expect(result.data).toEqual({ stored: true, hasCSRF: true, expiresAt: '2026-03-15T00:00:00.000Z' });
+      expect(tool.getAlexaApiClient().getCredentials()).toMatchObject({
+        cookie: 'ubid-main=131-1234567-1234567; at-main=Atza|1; csrf=csrf-1',
+        csrf: 'csrf-1',
+      });
+
+      await tool.execute({ type: 'start_push_listener' });
+      const client = tool.getPushClient()!;
+      while (!client.isConnected()) await new Promise((resolve) => setTimeout(resolve, 10));
+      await tool.getCookieSessionManager().refresh();
+
+      expect(tool.getAlexaApiClient().getCredentials()!.cookie).toContain('at-main=Atza|2');
+      expect(tool.getPushClient()).toBe(client);
+      client.reconnect('test');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(gateway.getStats()).toMatchObject({ connections: 2 });
+      expect(gateway.getStats().lastCookie).toContain('at-main=Atza|2');
+
+      const rotations = await eventStore.query({ eventType: 'CookieRotated' });
+      expect(rotations.events.map((e) => e.payload.pushListener)).toEqual(['updated', 'none']);
+    });
+  });
+
   describe('query_push_events', () => {
     it('should return empty results from fresh store', async () => {
       const result = await tool.execute({
@@ -422,4 +1031,645 @@ describe('AlexaAgentTool', () => {
       expect((result.data as any).totalCount).toBe(0);
     });
   });
+
+  describe('push event processing', () => {
+    let pushEventStore: InMemoryPushEventStore;
+    let deviceStateStore: InMemoryDeviceStateStore;
+    let activityStore: InMemoryActivityStore;
+
+    const pushEvent = (overrides: Partial<StoredPushEvent>): StoredPushEvent => ({
+      id: 'pe-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      command: 'PUSH_VOLUME_CHANGE',
+      deviceSerial: 'G0911234',
+      payload: {},
+      processed: false,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      pushEventStore = new InMemoryPushEventStore();
+      deviceStateStore = new InMemoryDeviceStateStore();
+      activityStore = new InMemoryActivityStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+        deviceStateStore,
+        activityStore,
+      });
+    });
+
+    it('should turn a volume change into an Alexa.Speaker snapshot', async () => {
+      await deviceStateStore.insert({
+        deviceId: 'G0911234',
+        capabilities: [{ namespace: 'Alexa.EndpointHealth', name: 'connectivity', value: 'OK' }],
+        polledAt: '2026-03-01T09:00:00.000Z',
+      });
+      await pushEventStore.insert(pushEvent({ payload: { volumeSetting: 35, isMuted: false } }));
+
+      const result = await tool.getPushEventProcessor().drain();
+
+      expect(result).toEqual({ processed: 1, failed: 0 });
+      const latest = await deviceStateStore.getLatest('G0911234');
+      expect(latest!.polledAt).toBe('2026-03-01T10:00:00.000Z');
+      expect(latest!.capabilities).toEqual(expect.arrayContaining([
+        expect.objectContaining({ namespace: 'Alexa.Speaker', name: 'volume', value: 35 }),
+        expect.objectContaining({ namespace: 'Alexa.Speaker', name: 'muted', value: false }),
+        expect.objectContaining({ namespace: 'Alexa.EndpointHealth', name: 'connectivity', value: 'OK' }),
+      ]));
+      expect((await pushEventStore.getById('pe-1'))!.processed).toBe(true);
+    });
+
+    it('should turn a connection change into connectivity state', async () => {
+      await pushEventStore.insert(pushEvent({
+        command: 'PUSH_DOPPLER_CONNECTION_CHANGE',
+        payload: { dopplerConnectionState: 'OFFLINE' },
+      }));
+
+      await tool.getPushEventProcessor().drain();
+
+      const latest = await deviceStateStore.getLatest('G0911234');
+      expect(latest!.capabilities).toEqual([
+        expect.objectContaining({ namespace: 'Alexa.EndpointHealth', name: 'connectivity', value: 'UNREACHABLE' }),
+      ]);
+    });
+
+    it('should fetch and store the activity record for PUSH_ACTIVITY', async () => {
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      const getActivityHistory = jest.spyOn(api, 'getActivityHistory').mockResolvedValue({
+        records: [{ id: 'entry-1', timestamp: '2026-03-01T10:00:00.000Z', utteranceText: 'turn on the lamp' }],
+      });
+      await pushEventStore.insert(pushEvent({ command: 'PUSH_ACTIVITY', payload: { key: { entryId: 'entry-1' } } }));
+
+      await tool.getPushEventProcessor().drain();
+
+      expect(getActivityHistory).toHaveBeenCalledWith({
+        startTimestamp: Date.parse('2026-03-01T09:59:00.000Z'),
+        endTimestamp: Date.parse('2026-03-01T10:01:00.000Z'),
+      });
+      expect((await activityStore.getById('entry-1'))!.utteranceText).toBe('turn on the lamp');
+      expect((await pushEventStore.getById('pe-1'))!.processed).toBe(true);
+    });
+
+    it('should keep PUSH_ACTIVITY unprocessed until its record is available', async () => {
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      jest.spyOn(api, 'getActivityHistory').mockResolvedValue({ records: [] });
+      await pushEventStore.insert(pushEvent({ command: 'PUSH_ACTIVITY', payload: { key: { entryId: 'entry-2' } } }));
+
+      const result = await tool.getPushEventProcessor().drain();
+
+      expect(result).toEqual({ processed: 0, failed: 1 });
+      expect((await pushEventStore.getById('pe-1'))!.processed).toBe(false);
+      const errors = await eventStore.query({ eventType: 'PushEventProcessingError' });
+      expect(errors.events[0].payload.error).toContain('entry-2 not available yet');
+    });
+  });
+
+  describe('device directory', () => {
+    let pushEventStore: InMemoryPushEventStore;
+    let deviceStateStore: InMemoryDeviceStateStore;
+    let activityStore: InMemoryActivityStore;
+
+    const echo: AccountDevice = {
+      id: 'G0911234',
+      name: 'Kitchen Echo',
+      source: 'echo',
+      deviceType: 'ECHO',
+      online: true,
+      capabilities: [],
+      interfaces: [],
+      applianceId: 'AAA_SonarCloudService_G0911234',
+    };
+
+    beforeEach(() => {
+      pushEventStore = new InMemoryPushEventStore();
+      deviceStateStore = new InMemoryDeviceStateStore();
+      activityStore = new InMemoryActivityStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+        deviceStateStore,
+        activityStore,
+      });
+    });
+
+    it('should name push-derived snapshots and key them by applianceId', async () => {
+      await tool.getDeviceDirectory().update([echo]);
+      await pushEventStore.insert({
+        id: 'pe-1',
+        timestamp: '2026-03-01T10:00:00.000Z',
+        command: 'PUSH_VOLUME_CHANGE',
+        deviceSerial: 'G0911234',
+        payload: { volumeSetting: 35 },
+        processed: false,
+      });
+
+      await tool.getPushEventProcessor().drain();
+
+      const latest = await deviceStateStore.getLatest('AAA_SonarCloudService_G0911234');
+      expect(latest!.deviceName).toBe('Kitchen Echo');
+    });
+
+    it('should fire device_event routines written with the serial on applianceId snapshots', async () => {
+      await tool.getDeviceDirectory().update([echo]);
+      await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Loud kitchen',
+          trigger: { type: 'device_event', endpointId: 'G0911234', property: 'volume', operator: '>=', value: 30 },
+          actions: [],
+        },
+      });
+      await tool.getRoutineRulesEngine().start();
+      for (const [id, volumeSetting] of [['pe-1', 10], ['pe-2', 35]] as const) {
+        await pushEventStore.insert({
+          id,
+          timestamp: '2026-03-01T10:00:00.000Z',
+          command: 'PUSH_VOLUME_CHANGE',
+          deviceSerial: 'G0911234',
+          payload: { volumeSetting },
+          processed: false,
+        });
+        await tool.getPushEventProcessor().drain();
+      }
+
+      const triggered = await eventStore.query({ eventType: 'RoutineTriggered' });
+      expect(triggered.events).toEqual([expect.objectContaining({ endpointId: 'AAA_SonarCloudService_G0911234' })]);
+    });
+
+    it('should read routine conditions from the state stored under the applianceId', async () => {
+      await tool.getDeviceDirectory().update([{
+        id: 'amzn1.alexa.endpoint.lamp',
+        name: 'Desk Lamp',
+        source: 'smart_home',
+        deviceType: 'LIGHT',
+        online: true,
+        capabilities: [],
+        interfaces: ['Alexa.PowerController'],
+        applianceId: 'SKILL_lamp',
+      }]);
+      await deviceStateStore.insert({
+        deviceId: 'SKILL_lamp',
+        capabilities: [{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'ON' }],
+        polledAt: '2026-03-01T09:00:00.000Z',
+      });
+      const created = await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Lamp check',
+          trigger: { type: 'schedule', cron: '0 7 * * *' },
+          actions: [{ type: 'if', condition: { endpointId: 'amzn1.alexa.endpoint.lamp', property: 'powerState', value: 'ON' }, then: [] }],
+        },
+      });
+
+      const result = await tool.execute({ type: 'trigger_routine', routineId: (created.data as any).routineId });
+
+      expect((result.data as any).report.steps[0]).toMatchObject({ type: 'if', status: 'succeeded', branch: 'then' });
+    });
+
+    it('should send ChangeReports for push state under the endpointId', async () => {
+      await tool.getDeviceDirectory().update([{ ...echo, raw: { id: 'amzn1.alexa.endpoint.echo-1' } }]);
+      tool.getDeviceRegistry().upsert({
+        endpointId: 'amzn1.alexa.endpoint.echo-1',
+        manufacturerName: 'Amazon',
+        description: 'Echo',
+        friendlyName: 'Kitchen Echo',
+        displayCategories: ['SPEAKER'],
+        capabilities: [{
+          type: 'AlexaInterface',
+          interface: 'Alexa.Speaker',
+          version: '3',
+          properties: { supported: [{ name: 'volume' }], proactivelyReported: true, retrievable: true },
+        }],
+      });
+      const sendChangeReport = jest.spyOn(tool.getEventGateway(), 'sendChangeReport').mockResolvedValue(undefined);
+      jest.spyOn(tool.getAuth(), 'getAccessToken').mockResolvedValue('token-1');
+      await pushEventStore.insert({
+        id: 'pe-1',
+        timestamp: '2026-03-01T10:00:00.000Z',
+        command: 'PUSH_VOLUME_CHANGE',
+        deviceSerial: 'G0911234',
+        payload: { volumeSetting: 35, isMuted: false },
+        processed: false,
+      });
+
+      await tool.getPushEventProcessor().drain();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // muted is not declared proactively reported
+      expect(sendChangeReport).toHaveBeenCalledTimes(1);
+      expect(sendChangeReport.mock.calls[0][0]).toMatchObject({
+        endpointId: 'amzn1.alexa.endpoint.echo-1',
+        cause: 'PHYSICAL_INTERACTION',
+        changedProperties: [expect.objectContaining({ name: 'volume', value: 35 })],
+        contextProperties: [expect.objectContaining({ name: 'muted', value: false })],
+      });
+    });
+
+    it('should backfill names into rows stored without one', async () => {
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      jest.spyOn(api, 'getAllDevices').mockResolvedValue([echo]);
+      await deviceStateStore.insert({ deviceId: 'AAA_SonarCloudService_G0911234', capabilities: [], polledAt: '2026-03-01T09:00:00.000Z' });
+      await activityStore.insert({ id: 'entry-1', timestamp: '2026-03-01T09:00:00.000Z', deviceSerial: 'G0911234' });
+      await pushEventStore.insert({
+        id: 'pe-2',
+        timestamp: '2026-03-01T09:00:00.000Z',
+        command: 'PUSH_LIST_ITEM_CHANGE',
+        deviceSerial: 'G0911234',
+        payload: {},
+        processed: true,
+      });
+
+      const result = await tool.execute({ type: 'backfill_device_names', refresh: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ snapshots: 1, activities: 1, pushEvents: 1, directorySize: 1 });
+
+      const history = await tool.execute({ type: 'query_state_history', deviceName: 'kitchen echo' });
+      expect((history.data as { totalCount: number }).totalCount).toBe(1);
+      const pushEvents = await tool.execute({ type: 'query_push_events', deviceName: 'Kitchen Echo' });
+      expect((pushEvents.data as { totalCount: number }).totalCount).toBe(1);
+    });
+  });
+
+  describe('poll scheduler', () => {
+    let pushEventStore: InMemoryPushEventStore;
+    let deviceStateStore: InMemoryDeviceStateStore;
+
+    const MINUTE = 60_000;
+    // Echo volume snapshots are stamped with the real clock
+    let NOW: number;
+    const echo: AccountDevice = {
+      id: 'G0911234',
+      name: 'Kitchen Echo',
+      source: 'echo',
+      deviceType: 'ECHO',
+      online: true,
+      capabilities: [],
+      interfaces: [],
+      applianceId: 'AAA_SonarCloudService_G0911234',
+    };
+    const lamp: AccountDevice = {
+      id: 'amzn1.alexa.endpoint.lamp',
+      name: 'Desk Lamp',
+      source: 'smart_home',
+      deviceType: 'LIGHT',
+      online: true,
+      capabilities: ['turnOn', 'turnOff'],
+      interfaces: ['Alexa.PowerController'],
+      applianceId: 'SKILL_lamp',
+    };
+
+    beforeEach(() => {
+      NOW = Date.now();
+      pushEventStore = new InMemoryPushEventStore();
+      deviceStateStore = new InMemoryDeviceStateStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+        deviceStateStore,
+      });
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      jest.spyOn(api, 'getAllDevices').mockResolvedValue([echo, lamp]);
+      jest.spyOn(api, 'getDeviceStates').mockImplementation(async (ids) => ids.map((deviceId) => ({
+        deviceId,
+        capabilities: [{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'ON' }],
+        polledAt: new Date(NOW).toISOString(),
+      })));
+      jest.spyOn(api, 'getAllDeviceVolumes').mockResolvedValue([
+        { dsn: 'G0911234', deviceType: 'A3S5BH2HU6VAYF', speakerVolume: 20, speakerMuted: false },
+      ]);
+    });
+
+    afterEach(() => {
+      tool.close();
+    });
+
+    it('should poll due devices and store their snapshots', async () => {
+      const result = await tool.getPollScheduler().tick(NOW);
+
+      expect(result).toMatchObject({ polledCount: 2, errorCount: 0, batches: 1 });
+      expect((await deviceStateStore.getLatest('SKILL_lamp'))!.deviceName).toBe('Desk Lamp');
+      expect((await deviceStateStore.getLatest('AAA_SonarCloudService_G0911234'))!.capabilities)
+        .toContainEqual(expect.objectContaining({ name: 'volume', value: 20 }));
+      const polls = await eventStore.query({ eventType: 'ScheduledPoll' });
+      expect(polls.events[0].payload).toMatchObject({ polledCount: 2 });
+    });
+
+    it('should skip Echos whose volume arrived by push', async () => {
+      const scheduler = tool.getPollScheduler();
+      await scheduler.tick(NOW);
+      await tool.getDeviceDirectory().update([echo, lamp]);
+      await pushEventStore.insert({
+        id: 'pe-1',
+        timestamp: new Date(NOW + 10 * MINUTE).toISOString(),
+        command: 'PUSH_VOLUME_CHANGE',
+        deviceSerial: 'G0911234',
+        payload: { volumeSetting: 35, isMuted: false },
+        processed: false,
+      });
+      await tool.getPushEventProcessor().drain();
+
+      const result = await scheduler.tick(NOW + 20 * MINUTE);
+
+      expect(result).toMatchObject({ polledCount: 1, skippedCount: 1 });
+      expect(scheduler.getStatus().devices.find((d) => d.category === 'echo')).toMatchObject({
+        lastPushAt: new Date(NOW + 10 * MINUTE).toISOString(),
+      });
+    });
+  });
+
+  describe('query_state_aggregates', () => {
+    let deviceStateStore: InMemoryDeviceStateStore;
+
+    beforeEach(async () => {
+      deviceStateStore = new InMemoryDeviceStateStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        deviceStateStore,
+      });
+      for (const [minute, value] of [[0, 8], [20, 12], [40, 10]]) {
+        await deviceStateStore.insert({
+          deviceId: 'aq-1',
+          deviceName: 'Air Monitor',
+          capabilities: [{ namespace: 'Alexa.RangeController', name: 'rangeValue', instance: '4', value }],
+          polledAt: new Date(Date.parse('2026-03-01T00:00:00.000Z') + minute * 60_000).toISOString(),
+        });
+      }
+    });
+
+    afterEach(() => {
+      tool.close();
+    });
+
+    it('should return min, max, avg and last per bucket', async () => {
+      const result = await tool.execute({
+        type: 'query_state_aggregates',
+        deviceName: 'Air Monitor',
+        namespace: 'Alexa.RangeController',
+        name: 'rangeValue',
+        instance: '4',
+        bucket: '1h',
+        startTime: '2026-03-01T00:00:00.000Z',
+        endTime: '2026-03-01T01:00:00.000Z',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        deviceId: 'aq-1',
+        bucket: '1h',
+        points: [{ bucketStart: '2026-03-01T00:00:00.000Z', min: 8, max: 12, avg: 10, last: 10, count: 3 }],
+      });
+    });
+
+    it('should fail without a capability name', async () => {
+      const result = await tool.execute({ type: 'query_state_aggregates', deviceId: 'aq-1', namespace: 'Alexa.RangeController', name: '' });
+      expect(result).toMatchObject({ success: false, error: 'namespace and name are required' });
+    });
+  });
+
+  describe('retention', () => {
+    const DAY = 24 * 60 * 60_000;
+    const TEST_DB = path.join(__dirname, '..', 'test-agent-retention.db');
+    let pushEventStore: InMemoryPushEventStore;
+
+    const pushEvent = (id: string, ageMs: number): StoredPushEvent => ({
+      id,
+      timestamp: new Date(Date.now() - ageMs).toISOString(),
+      command: 'PUSH_VOLUME_CHANGE',
+      deviceSerial: 'G090XX',
+      payload: {},
+      processed: true,
+    });
+
+    beforeEach(async () => {
+      pushEventStore = new InMemoryPushEventStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory', retentionPushEventsDays: 7 },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+      });
+      await pushEventStore.insert(pushEvent('old', 10 * DAY));
+      await pushEventStore.insert(pushEvent('new', DAY));
+    });
+
+    afterEach(() => {
+      tool.close();
+      try { fs.unlinkSync(TEST_DB); } catch {}
+    });
+
+    it('should prune each store by its configured age and log the run', async () => {
+      const run = await tool.getRetentionManager().run();
+      expect(run.removed).toMatchObject({ pushEvents: 1, events: 0, mediaSessions: 0, connectivityTransitions: 0 });
+      expect((await pushEventStore.query({})).events.map((e) => e.id)).toEqual(['new']);
+
+      const result = await tool.execute({ type: 'get_storage_stats' });
+      expect(result.data).toMatchObject({
+        backend: 'memory',
+        database: null,
+        retention: { running: false, policy: { pushEvents: 7 * DAY, deviceStates: 30 * DAY }, lastRun: run },
+      });
+
+      const events = await eventStore.query({ eventType: 'RetentionRun' });
+      expect(events.events[0]).toMatchObject({ namespace: 'RetentionManager', payload: { removedCount: 1 } });
+    });
+
+    it('should report the size and row counts of the SQLite file', async () => {
+      tool.close();
+      try { fs.unlinkSync(TEST_DB); } catch {}
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'sqlite', sqlitePath: TEST_DB },
+        userId: 'test-user',
+        eventStore,
+      });
+      await tool.execute({
+        type: 'create_routine',
+        routine: {
+          name: 'Morning Lights',
+          trigger: { type: 'schedule', cron: '0 8 * * *' },
+          actions: [{ type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } }],
+        },
+      });
+
+      const result = await tool.execute({ type: 'get_storage_stats' });
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        backend: 'sqlite',
+        database: { path: TEST_DB, tables: { routines: 1, push_events: 0 } },
+      });
+    });
+  });
+
+  describe('change-based state storage', () => {
+    const TEST_DB = path.join(__dirname, '..', 'test-agent-state.db');
+    let power: string;
+    let clock: number;
+
+    beforeEach(() => {
+      try { fs.unlinkSync(TEST_DB); } catch {}
+      power = 'ON';
+      clock = Date.now();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'sqlite', sqlitePath: TEST_DB },
+        userId: 'test-user',
+        eventStore,
+      });
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      jest.spyOn(api, 'getAllDevices').mockResolvedValue([{
+        id: 'amzn1.alexa.endpoint.lamp',
+        name: 'Desk Lamp',
+        source: 'smart_home',
+        deviceType: 'LIGHT',
+        online: true,
+        capabilities: ['turnOn', 'turnOff'],
+        interfaces: ['Alexa.PowerController'],
+        applianceId: 'SKILL_lamp',
+      }]);
+      jest.spyOn(api, 'getDeviceStates').mockImplementation(async (ids) => ids.map((deviceId) => ({
+        deviceId,
+        capabilities: [{ namespace: 'Alexa.PowerController', name: 'powerState', value: power }],
+        polledAt: new Date(clock).toISOString(),
+      })));
+    });
+
+    afterEach(() => {
+      tool.close();
+      try { fs.unlinkSync(TEST_DB); } catch {}
+    });
+
+    it('should log each recorded change as a PropertyChange event', async () => {
+      const scheduler = tool.getPollScheduler();
+      await scheduler.tick(clock);
+      power = 'OFF';
+      clock += 60 * 60_000;
+      await scheduler.tick(clock);
+
+      const changes = await eventStore.query({ eventType: 'PropertyChange' });
+      expect(changes.events).toHaveLength(1);
+      expect(changes.events[0]).toMatchObject({
+        endpointId: 'SKILL_lamp',
+        namespace: 'Alexa.PowerController',
+        cause: 'PERIODIC_POLL',
+        userId: 'test-user',
+        payload: { name: 'powerState', value: 'OFF' },
+      });
+
+      const history = await tool.execute({ type: 'query_state_history', deviceId: 'SKILL_lamp' });
+      expect((history.data as any).snapshots.map((s: any) => s.capabilities[0].value)).toEqual(['OFF', 'ON']);
+    });
+
+    it('should reject an unknown storage mode', () => {
+      expect(() => new AlexaAgentTool({
+        config: { storageBackend: 'memory', stateStorageMode: 'snapshot' as any },
+        userId: 'test-user',
+        eventStore,
+      })).toThrow('Unknown state storage mode "snapshot"');
+    });
+  });
+
+  describe('media sessions', () => {
+    let pushEventStore: InMemoryPushEventStore;
+
+    const mediaEvent = (id: string, timestamp: string, command: string, payload: Record<string, unknown>): StoredPushEvent => ({
+      id, timestamp, command, deviceSerial: 'G0911234', payload, processed: false,
+    });
+
+    beforeEach(() => {
+      pushEventStore = new InMemoryPushEventStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+      });
+    });
+
+    it('should expose now-playing state and sessions built from media pushes', async () => {
+      const startedAt = new Date(Date.now() - 60_000).toISOString();
+      await pushEventStore.insertBatch([
+        mediaEvent('pe-1', startedAt, 'PUSH_AUDIO_PLAYER_STATE', { audioPlayerState: 'PLAYING', mediaReferenceId: 'track-1' }),
+        mediaEvent('pe-2', new Date().toISOString(), 'PUSH_MEDIA_PROGRESS_CHANGE', { mediaReferenceId: 'track-1', progress: { mediaProgress: 60, mediaLength: 180 } }),
+      ]);
+      await tool.getPushEventProcessor().drain();
+
+      const nowPlaying = await tool.execute({ type: 'get_now_playing', deviceSerial: 'G0911234' });
+      expect(nowPlaying.success).toBe(true);
+      expect(nowPlaying.data).toEqual({
+        nowPlaying: [expect.objectContaining({ playerState: 'PLAYING', mediaReferenceId: 'track-1', mediaProgress: 60 })],
+      });
+
+      const sessions = await tool.execute({ type: 'query_media_sessions', open: true });
+      expect(sessions.data).toMatchObject({
+        totalCount: 1,
+        sessions: [{ deviceSerial: 'G0911234', startedAt, mediaReferenceIds: ['track-1'] }],
+      });
+    });
+  });
+
+  describe('connectivity', () => {
+    let pushEventStore: InMemoryPushEventStore;
+
+    beforeEach(() => {
+      pushEventStore = new InMemoryPushEventStore();
+      tool = new AlexaAgentTool({
+        config: { storageBackend: 'memory' },
+        userId: 'test-user',
+        eventStore,
+        pushEventStore,
+      });
+    });
+
+    it('should record connection pushes and raise an event when a device goes offline', async () => {
+      const start = Date.now() - 60 * 60_000;
+      const connection = (id: string, minutes: number, dopplerConnectionState: string): StoredPushEvent => ({
+        id,
+        timestamp: new Date(start + minutes * 60_000).toISOString(),
+        command: 'PUSH_DOPPLER_CONNECTION_CHANGE',
+        deviceSerial: 'G0911234',
+        payload: { dopplerConnectionState },
+        processed: false,
+      });
+      await pushEventStore.insertBatch([connection('pe-1', 0, 'ONLINE'), connection('pe-2', 30, 'OFFLINE')]);
+
+      await tool.getPushEventProcessor().drain();
+
+      const offline = await eventStore.query({ eventType: 'DeviceWentOffline' });
+      expect(offline.events).toHaveLength(1);
+      expect(offline.events[0].endpointId).toBe('G0911234');
+      expect(offline.events[0].tags).toContain('device_offline');
+
+      const result = await tool.execute({ type: 'get_connectivity_report', deviceId: 'G0911234' });
+      expect(result.success).toBe(true);
+      expect((result.data as { devices: unknown[] }).devices).toEqual([
+        expect.objectContaining({ deviceId: 'G0911234', status: 'OFFLINE', outageCount: 1 }),
+      ]);
+    });
+
+    it('should record the online flag of fetched device lists', async () => {
+      const api = tool.getAlexaApiClient();
+      jest.spyOn(api, 'hasValidCredentials').mockReturnValue(true);
+      jest.spyOn(api, 'getAllDevices').mockResolvedValue([
+        { id: 'plug-1', name: 'Desk Plug', source: 'smart_home', deviceType: 'SMARTPLUG', online: false, capabilities: [], interfaces: [] },
+      ]);
+
+      await tool.execute({ type: 'list_all_devices' });
+
+      const status = await tool.getConnectivityTracker().getStatus('plug-1');
+      expect(status).toMatchObject({ status: 'OFFLINE', source: 'device_list', deviceName: 'Desk Plug' });
+    });
+  });
 });
@@ -16,11 +16,11 @@ import { EventEmitter } from 'events';
 
 const mockHttps = https as jest.Mocked<typeof https>;
 
-function mockResponse(statusCode: number, body: string) {
+function mockResponse(statusCode: number, body: string, headers: Record<string, string> = {}) {
   (mockHttps.request as jest.Mock).mockImplementationOnce((_opts: any, callback: any) => {
     const res = new EventEmitter() as any;
     res.statusCode = statusCode;
-    res.headers = {};
+    res.headers = headers;
 
     const req = new EventEmitter() as any;
     req.write = jest.fn();
@@ -709,4 +709,157 @@ describe('AlexaApiClient', () => {
       expect(valid).toBe(true);
     });
   });
+
+  describe('checkCookie', () => {
+    beforeEach(() => {
+      client.setCredentials({ cookie: 'valid=cookie', storedAt: new Date().toISOString() });
+    });
+
+    it('should return null when Amazon cannot be reached', async () => {
+      (mockHttps.request as jest.Mock).mockImplementationOnce(() => {
+        const req = new EventEmitter() as any;
+        req.write = jest.fn();
+        req.end = jest.fn(() => process.nextTick(() => req.emit('error', new Error('ENOTFOUND'))));
+        return req;
+      });
+
+      expect(await client.checkCookie()).toBeNull();
+      expect(await client.validateCookie()).toBe(false);
+    });
+
+    it('should return false when the cookie is rejected', async () => {
+      mockResponse(401, 'Unauthorized');
+      mockResponse(401, 'Unauthorized');
+      expect(await client.checkCookie()).toBe(false);
+
+      mockResponse(302, '', { location: 'https://www.amazon.com/ap/signin?openid.return_to=alexa' });
+      mockResponse(403, 'Forbidden');
+      expect(await client.checkCookie()).toBe(false);
+
+      mockResponse(302, '', { location: 'https://www.amazon.com/ap/signin' });
+      mockResponse(302, '', { location: 'https://www.amazon.com/ap/signin' });
+      expect(await client.checkCookie()).toBe(false);
+    });
+
+    it.each([429, 500, 503])('should return null when bootstrap answers %i', async (status) => {
+      mockResponse(status, 'Unavailable');
+      expect(await client.checkCookie()).toBeNull();
+      expect(mockHttps.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when the fallback is throttled or fails', async () => {
+      mockResponse(404, 'Not Found');
+      mockResponse(429, 'Too Many Requests');
+      expect(await client.checkCookie()).toBeNull();
+
+      mockResponse(302, '', { location: 'https://alexa.amazon.com/spa/index.html' });
+      mockResponse(502, 'Bad Gateway');
+      expect(await client.checkCookie()).toBeNull();
+    });
+  });
+
+  describe('auth stats', () => {
+    beforeEach(() => {
+      client.setCredentials({ cookie: 'valid=cookie', storedAt: new Date().toISOString() });
+    });
+
+    it('should count 401/403 responses and sign-in redirects', async () => {
+      mockResponse(401, 'Unauthorized');
+      mockResponse(302, 'Redirect', { location: 'https://www.amazon.com/ap/signin?openid.return_to=...' });
+      await client.checkCookie();
+      mockResponse(302, 'Redirect', { location: 'https://alexa.amazon.com/spa/index.html' });
+      mockResponse(403, 'Forbidden');
+      await client.checkCookie();
+
+      expect(client.getAuthStats()).toMatchObject({ authFailures: 3, consecutiveAuthFailures: 3 });
+      expect(client.getAuthStats().lastAuthFailureAt).toBeDefined();
+    });
+
+    it('should reset the consecutive count on success and on new credentials', async () => {
+      mockResponse(401, 'Unauthorized');
+      mockResponse(200, '{}');
+      await client.checkCookie();
+      expect(client.getAuthStats()).toMatchObject({ authFailures: 1, consecutiveAuthFailures: 0 });
+
+      client.setCredentials({ cookie: 'fresh=cookie', storedAt: new Date().toISOString() });
+      expect(client.getAuthStats()).toEqual({ authFailures: 0, consecutiveAuthFailures: 0 });
+    });
+  });
+
+  describe('request policy', () => {
+    const fast = { retryBaseDelayMs: 10, retryMaxDelayMs: 20, timeoutMs: 50 };
+
+    beforeEach(() => {
+      client = new AlexaApiClient('NA', { policy: fast });
+      client.setCredentials({ cookie: 'valid=cookie', csrf: 'tok', storedAt: new Date().toISOString() });
+    });
+
+    it('should retry idempotent requests on throttling and gateway errors', async () => {
+      mockResponse(503, 'Service Unavailable');
+      mockResponse(502, 'Bad Gateway');
+      mockResponse(200, JSON.stringify({ devices: [] }));
+
+      expect(await client.getEchoDevices()).toEqual([]);
+      expect(mockHttps.request).toHaveBeenCalledTimes(3);
+      expect(client.getRequestMetrics().default).toMatchObject({ requests: 3, retries: 2, throttled: 1, lastStatus: 200 });
+    });
+
+    it('should treat phoenix state reads as idempotent and give up after the retry limit', async () => {
+      client = new AlexaApiClient('NA', { policy: { ...fast, maxRetries: 1 } });
+      client.setCredentials({ cookie: 'valid=cookie', storedAt: new Date().toISOString() });
+      mockResponse(504, 'Gateway Timeout');
+      mockResponse(504, 'Gateway Timeout');
+
+      await expect(client.getDeviceStates(['appliance-1'])).rejects.toThrow('Alexa API error (504)');
+      expect(mockHttps.request).toHaveBeenCalledTimes(2);
+      expect(client.getRequestMetrics().phoenix).toMatchObject({ requests: 2, retries: 1 });
+    });
+
+    it('should not retry commands, but hold the family back for Retry-After', async () => {
+      mockResponse(200, JSON.stringify({ authentication: { customerId: 'CUST123' } }));
+      mockResponse(429, 'Too Many Requests', { 'retry-after': '1' });
+      await expect(client.sendCommand({ deviceId: 'dev-1', deviceType: 'LIGHT', command: { action: 'turn_on' } }))
+        .rejects.toThrow();
+      expect(mockHttps.request).toHaveBeenCalledTimes(2);
+
+      mockResponse(200, '{}');
+      const started = Date.now();
+      await client.sendCommand({ deviceId: 'dev-1', deviceType: 'LIGHT', command: { action: 'turn_on' } });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+      expect(client.getRequestMetrics().behaviors).toMatchObject({ requests: 2, retries: 0, throttled: 1 });
+      expect(client.getRequestMetrics().behaviors.rateLimitWaitMs).toBeGreaterThanOrEqual(900);
+    });
+
+    it('should time out requests that never answer and retry them', async () => {
+      const destroy = jest.fn();
+      (mockHttps.request as jest.Mock).mockImplementation(() => {
+        const req = new EventEmitter() as any;
+        req.write = jest.fn();
+        req.end = jest.fn();
+        req.destroy = destroy;
+        return req;
+      });
+
+      await expect(client.getEchoDevices()).rejects.toThrow('Alexa API request timed out after 50 ms: GET /api/devices/device');
+      expect(destroy).toHaveBeenCalledTimes(4);
+      expect(client.getRequestMetrics().default).toMatchObject({ requests: 4, retries: 3, failures: 4, timeouts: 4 });
+      (mockHttps.request as jest.Mock).mockReset();
+    });
+
+    it('should fail fast when a rate limit slot is too far away', async () => {
+      client = new AlexaApiClient('NA', {
+        policy: { maxQueueWaitMs: 100, rateLimits: { privacy: { burst: 1, perSecond: 0.1 } } },
+      });
+      client.setCredentials({ cookie: 'valid=cookie', storedAt: new Date().toISOString() });
+      mockResponse(200, JSON.stringify({ customerHistoryRecords: [] }));
+
+      await client.getActivityHistory();
+      await expect(client.getActivityHistory()).rejects.toThrow('Alexa API rate limited: privacy requests are held back');
+      expect(mockHttps.request).toHaveBeenCalledTimes(1);
+      expect(client.getRequestPolicy().rateLimits).toMatchObject({
+        privacy: { burst: 1, perSecond: 0.1 },
+        phoenix: { burst: 5, perSecond: 2 },
+      });
+    });
+  });
 });
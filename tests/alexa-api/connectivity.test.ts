@@ -0,0 +1,134 @@
+import { ConnectivityTracker, InMemoryConnectivityStore } from '../../src/alexa-api';
+import type { AccountDevice } from '../../src/alexa-api';
+
+function at(hours: number): string {
+  return new Date(Date.parse('2026-03-01T00:00:00.000Z') + hours * 3_600_000).toISOString();
+}
+
+function device(id: string, online: boolean): AccountDevice {
+  return { id, name: `Device ${id}`, source: 'echo', deviceType: 'ECHO', online, capabilities: [], interfaces: [] };
+}
+
+describe('ConnectivityTracker', () => {
+  let store: InMemoryConnectivityStore;
+  let onTransition: jest.Mock;
+  let tracker: ConnectivityTracker;
+
+  beforeEach(() => {
+    store = new InMemoryConnectivityStore();
+    onTransition = jest.fn();
+    tracker = new ConnectivityTracker(store, { onTransition });
+  });
+
+  it('should store only status changes', async () => {
+    await tracker.record('echo-1', 'ONLINE', 'push', at(0));
+    expect(await tracker.record('echo-1', 'ONLINE', 'device_list', at(1))).toBeNull();
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(2));
+
+    const transitions = await store.query({ deviceId: 'echo-1' });
+    expect(transitions.map((t) => [t.status, t.source, t.at])).toEqual([
+      ['ONLINE', 'push', at(0)],
+      ['OFFLINE', 'push', at(2)],
+    ]);
+  });
+
+  it('should notify transitions after the first observation', async () => {
+    await tracker.record('echo-1', 'OFFLINE', 'device_list', at(0));
+    expect(onTransition).not.toHaveBeenCalled();
+
+    await tracker.record('echo-1', 'ONLINE', 'push', at(1));
+    expect(onTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'ONLINE', at: at(1) }),
+      expect.objectContaining({ status: 'OFFLINE', at: at(0) }),
+    );
+  });
+
+  it('should ignore observations older than the latest one', async () => {
+    await tracker.record('echo-1', 'ONLINE', 'push', at(5));
+    expect(await tracker.record('echo-1', 'OFFLINE', 'push', at(4))).toBeNull();
+    expect((await tracker.getStatus('echo-1'))!.status).toBe('ONLINE');
+  });
+
+  it('should record the online flag of a device list, skipping groups', async () => {
+    await tracker.observeDevices([
+      device('echo-1', true),
+      device('echo-2', false),
+      { ...device('group-1', true), source: 'group' },
+    ], at(0));
+
+    expect((await tracker.getStatus('echo-2'))).toMatchObject({ status: 'OFFLINE', deviceName: 'Device echo-2', source: 'device_list' });
+    expect(await tracker.getStatus('group-1')).toBeNull();
+  });
+
+  it('should resume from the stored history', async () => {
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(0));
+
+    const restarted = new ConnectivityTracker(store, { onTransition });
+    expect(await restarted.record('echo-1', 'OFFLINE', 'device_list', at(1))).toBeNull();
+    await restarted.record('echo-1', 'ONLINE', 'push', at(2));
+    expect(onTransition).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a stored history load that failed', async () => {
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(0));
+    const restarted = new ConnectivityTracker(store, { onTransition });
+    jest.spyOn(store, 'latest').mockRejectedValueOnce(new Error('database is locked'));
+
+    await expect(restarted.getStatus('echo-1')).rejects.toThrow('database is locked');
+
+    expect(await restarted.getStatus('echo-1')).toMatchObject({ status: 'OFFLINE' });
+  });
+
+  it('should prune old transitions but keep each device\'s current status', async () => {
+    await tracker.record('echo-1', 'ONLINE', 'push', at(0));
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(1));
+    await tracker.record('echo-2', 'ONLINE', 'push', at(2));
+    await tracker.record('echo-1', 'ONLINE', 'push', at(10));
+
+    expect(await tracker.prune(at(5))).toBe(2);
+    expect((await store.query({})).map((t) => [t.deviceId, t.at])).toEqual([['echo-2', at(2)], ['echo-1', at(10)]]);
+
+    const restarted = new ConnectivityTracker(store);
+    expect((await restarted.getStatus('echo-2'))!.status).toBe('ONLINE');
+  });
+
+  it('should report uptime, outages and the longest outage over a window', async () => {
+    await tracker.record('echo-1', 'ONLINE', 'push', at(-10));   // before the window
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(2));
+    await tracker.record('echo-1', 'ONLINE', 'push', at(3));
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(10));
+    await tracker.record('echo-1', 'ONLINE', 'push', at(13));
+    await tracker.record('echo-2', 'ONLINE', 'device_list', at(12)); // first seen mid-window
+
+    const report = await tracker.report({ startTime: at(0), endTime: at(20) });
+
+    expect(report.startTime).toBe(at(0));
+    expect(report.devices).toEqual([
+      {
+        deviceId: 'echo-1',
+        status: 'ONLINE',
+        uptimePercent: 80,
+        outageCount: 2,
+        longestOutageMs: 3 * 3_600_000,
+        observedMs: 20 * 3_600_000,
+      },
+      {
+        deviceId: 'echo-2',
+        status: 'ONLINE',
+        uptimePercent: 100,
+        outageCount: 0,
+        longestOutageMs: 0,
+        observedMs: 8 * 3_600_000,
+      },
+    ]);
+  });
+
+  it('should count an outage that started before the window', async () => {
+    await tracker.record('echo-1', 'OFFLINE', 'push', at(-5));
+    await tracker.record('echo-1', 'ONLINE', 'push', at(1));
+
+    const report = await tracker.report({ deviceId: 'echo-1', startTime: at(0), endTime: at(4) });
+
+    expect(report.devices[0]).toMatchObject({ uptimePercent: 75, outageCount: 1, longestOutageMs: 3_600_000 });
+  });
+});
@@ -0,0 +1,148 @@
+import { AlexaApiClient, CookieHealthMonitor, estimateCookieExpiry } from '../../src/alexa-api';
+import type { AlexaApiAuthStats, AlexaCookieCredentials } from '../../src/alexa-api';
+
+const STORED_AT = '2026-03-01T00:00:00.000Z';
+const DAY = 24 * 60 * 60_000;
+
+function at(days: number): number {
+  return Date.parse(STORED_AT) + days * DAY;
+}
+
+function credentials(cookie: string, extra: Partial<AlexaCookieCredentials> = {}): AlexaCookieCredentials {
+  return { cookie, storedAt: STORED_AT, ...extra };
+}
+
+describe('estimateCookieExpiry', () => {
+  it('should read session-id-time (epoch seconds)', () => {
+    const seconds = Math.floor(at(30) / 1000);
+    expect(estimateCookieExpiry(credentials(`session-id=1; session-id-time=${seconds}l; ubid-main=2`)))
+      .toEqual({ expiresAt: new Date(seconds * 1000).toISOString(), source: 'session-id-time' });
+  });
+
+  it('should take the earliest of stored expiry and cookie attributes', () => {
+    const estimate = estimateCookieExpiry(credentials(
+      'at-main=x; Expires=Wed, 25 Mar 2026 00:00:00 GMT; sess-at-main=y; Max-Age=864000',
+      { expiresAt: '2026-04-01T00:00:00.000Z' },
+    ));
+    expect(estimate).toEqual({ expiresAt: new Date(at(10)).toISOString(), source: 'attribute' });
+  });
+
+  it('should assume a lifetime when the cookie carries no expiry', () => {
+    expect(estimateCookieExpiry(credentials('session-id=1'), 7 * DAY))
+      .toEqual({ expiresAt: new Date(at(7)).toISOString(), source: 'assumed' });
+  });
+});
+
+describe('CookieHealthMonitor', () => {
+  let client: AlexaApiClient;
+  let stored: AlexaCookieCredentials | null;
+  let stats: AlexaApiAuthStats;
+  let checkCookie: jest.SpyInstance;
+  let onExpiring: jest.Mock;
+  let onInvalid: jest.Mock;
+  let monitor: CookieHealthMonitor;
+
+  beforeEach(() => {
+    client = new AlexaApiClient('NA');
+    stored = credentials('session-id=1');
+    stats = { authFailures: 0, consecutiveAuthFailures: 0 };
+    jest.spyOn(client, 'getAuthStats').mockImplementation(() => ({ ...stats }));
+    checkCookie = jest.spyOn(client, 'checkCookie').mockResolvedValue(true);
+    onExpiring = jest.fn();
+    onInvalid = jest.fn();
+    monitor = new CookieHealthMonitor(client, {
+      loadCredentials: async () => stored,
+      validateIntervalMs: 60 * 60_000,
+      expiringWithinMs: 3 * DAY,
+      assumedLifetimeMs: 14 * DAY,
+      onExpiring,
+      onInvalid,
+    });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('should report a missing cookie', async () => {
+    stored = null;
+    expect(await monitor.check(at(0))).toMatchObject({ hasCookie: false, state: 'missing', valid: null });
+    expect(checkCookie).not.toHaveBeenCalled();
+  });
+
+  it('should validate and report age, last validation and expiry', async () => {
+    const status = await monitor.check(at(2));
+    expect(status).toEqual({
+      hasCookie: true,
+      state: 'valid',
+      valid: true,
+      storedAt: STORED_AT,
+      ageMs: 2 * DAY,
+      lastValidatedAt: new Date(at(2)).toISOString(),
+      estimatedExpiry: new Date(at(14)).toISOString(),
+      expirySource: 'assumed',
+      authFailures: 0,
+      consecutiveAuthFailures: 0,
+    });
+  });
+
+  it('should validate again only once the interval has passed', async () => {
+    await monitor.check(at(1));
+    await monitor.check(at(1) + 30 * 60_000);
+    expect(checkCookie).toHaveBeenCalledTimes(1);
+
+    await monitor.check(at(1) + 60 * 60_000);
+    expect(checkCookie).toHaveBeenCalledTimes(2);
+  });
+
+  it('should alert once when the cookie nears its expiry', async () => {
+    await monitor.check(at(10));
+    expect(onExpiring).not.toHaveBeenCalled();
+
+    expect((await monitor.check(at(12))).state).toBe('expiring');
+    await monitor.check(at(13));
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+    expect(onExpiring.mock.calls[0][0]).toMatchObject({ estimatedExpiry: new Date(at(14)).toISOString() });
+  });
+
+  it('should alert when validation fails', async () => {
+    checkCookie.mockResolvedValue(false);
+    expect((await monitor.check(at(1))).state).toBe('invalid');
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the last verdict when Amazon is unreachable', async () => {
+    checkCookie.mockResolvedValue(null);
+    expect((await monitor.check(at(1))).state).toBe('unknown');
+
+    checkCookie.mockResolvedValue(true);
+    await monitor.check(at(1) + 60_000);
+    checkCookie.mockResolvedValue(null);
+    expect(await monitor.check(at(2))).toMatchObject({ state: 'valid', valid: true });
+    expect(onInvalid).not.toHaveBeenCalled();
+  });
+
+  it('should revalidate after request auth failures and go invalid past the threshold', async () => {
+    await monitor.check(at(1));
+    stats = { authFailures: 3, consecutiveAuthFailures: 3, lastAuthFailureAt: new Date(at(1) + 60_000).toISOString() };
+
+    const status = await monitor.check(at(1) + 5 * 60_000);
+    expect(checkCookie).toHaveBeenCalledTimes(2);
+    expect(status).toMatchObject({ state: 'invalid', valid: true, consecutiveAuthFailures: 3 });
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reset and re-arm alerts when a new cookie is stored', async () => {
+    checkCookie.mockResolvedValue(false);
+    await monitor.check(at(1));
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+
+    const fresh = { cookie: 'session-id=2', storedAt: new Date(at(2)).toISOString() };
+    stored = fresh;
+    expect(monitor.credentialsUpdated(fresh, true, at(2))).toMatchObject({ state: 'valid', ageMs: 0 });
+
+    checkCookie.mockResolvedValue(false);
+    await monitor.check(at(2) + 60 * 60_000);
+    expect(onInvalid).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,195 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { CookieSessionManager, InMemoryCookieStore, InMemoryRefreshTokenStore } from '../../src/alexa-api';
+import type { AlexaCookieCredentials } from '../../src/alexa-api';
+
+const DAY = 24 * 60 * 60_000;
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+const TOKEN = 'Atnr|EwICIJ-test';
+
+interface StandInRequest {
+  method: string;
+  path: string;
+  body: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/** Stands in for Amazon's token exchange and the Alexa site's csrf cookie. */
+class TokenEndpointStandIn {
+  requests: StandInRequest[] = [];
+  exchanges = 0;
+  /** Status and body of the next exchanges (default: a fresh cookie set) */
+  failWith: { status: number; body: unknown } | null = null;
+  csrf: string | null = 'csrf-123';
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      this.requests.push({ method: req.method!, path: req.url!, body, headers: req.headers });
+      if (req.url === '/ap/exchangetoken/cookies') {
+        this.exchange(res);
+      } else if (req.url === '/api/language' && this.csrf) {
+        res.writeHead(200, { 'Set-Cookie': [`csrf=${this.csrf}; Path=/`] });
+        res.end('{}');
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+  });
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private exchange(res: http.ServerResponse): void {
+    if (this.failWith) {
+      res.writeHead(this.failWith.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.failWith.body));
+      return;
+    }
+    const n = ++this.exchanges;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      response: {
+        tokens: {
+          cookies: {
+            '.amazon.com': [
+              { Name: 'session-id', Value: `147-${n}`, Expires: 'Fri, 01 Mar 2047 00:00:00 GMT' },
+              { Name: 'at-main', Value: `"Atza|${n}"`, Expires: 'Sun, 15 Mar 2026 00:00:00 GMT' },
+              { Name: 'ubid-main', Value: '131-1234567-1234567' },
+            ],
+          },
+        },
+      },
+    }));
+  }
+}
+
+describe('CookieSessionManager', () => {
+  let standIn: TokenEndpointStandIn;
+  let tokens: InMemoryRefreshTokenStore;
+  let cookies: InMemoryCookieStore;
+  let rotated: AlexaCookieCredentials[];
+  let onError: jest.Mock;
+  let manager: CookieSessionManager;
+
+  beforeEach(async () => {
+    standIn = new TokenEndpointStandIn();
+    const url = await standIn.listen();
+    tokens = new InMemoryRefreshTokenStore();
+    cookies = new InMemoryCookieStore();
+    rotated = [];
+    onError = jest.fn();
+    manager = new CookieSessionManager(tokens, cookies, {
+      userId: 'user-1',
+      exchangeUrl: `${url}/ap/exchangetoken/cookies`,
+      alexaUrl: url,
+      refreshBeforeExpiryMs: 2 * DAY,
+      onRotated: (credentials) => { rotated.push(credentials); },
+      onError,
+    });
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    await standIn.close();
+  });
+
+  it('should exchange a new refresh token for cookies and a CSRF token', async () => {
+    const credentials = await manager.setRefreshToken(` ${TOKEN} `, NOW);
+
+    expect(credentials).toEqual({
+      cookie: 'session-id=147-1; at-main=Atza|1; ubid-main=131-1234567-1234567; csrf=csrf-123',
+      csrf: 'csrf-123',
+      storedAt: new Date(NOW).toISOString(),
+      expiresAt: '2026-03-15T00:00:00.000Z',
+    });
+    expect(await cookies.get('user-1')).toEqual(credentials);
+    expect(await tokens.get('user-1')).toEqual({
+      refreshToken: TOKEN,
+      storedAt: credentials.storedAt,
+      lastRefreshedAt: credentials.storedAt,
+    });
+    expect(rotated).toEqual([credentials]);
+
+    const [exchange, language] = standIn.requests;
+    expect(exchange.method).toBe('POST');
+    expect(Object.fromEntries(new URLSearchParams(exchange.body))).toEqual({
+      app_name: 'Amazon Alexa',
+      requested_token_type: 'auth_cookies',
+      domain: 'www.amazon.com',
+      source_token_type: 'refresh_token',
+      source_token: TOKEN,
+    });
+    expect(exchange.headers['x-amzn-identity-auth-domain']).toBe('api.amazon.com');
+    expect(language.headers.cookie).toBe('session-id=147-1; at-main=Atza|1; ubid-main=131-1234567-1234567');
+  });
+
+  it('should not store a rejected token', async () => {
+    standIn.failWith = { status: 400, body: { response: { error: { code: 'InvalidValue', message: 'Invalid refresh token' } } } };
+    await expect(manager.setRefreshToken(TOKEN, NOW)).rejects.toThrow('Refresh token exchange failed: Invalid refresh token');
+    expect(await tokens.get('user-1')).toBeNull();
+    expect(await cookies.get('user-1')).toBeNull();
+    expect(rotated).toEqual([]);
+  });
+
+  it('should store cookies without a CSRF token when the Alexa site sets none', async () => {
+    standIn.csrf = null;
+    const credentials = await manager.setRefreshToken(TOKEN, NOW);
+    expect(credentials.csrf).toBeUndefined();
+    expect(credentials.cookie).not.toContain('csrf=');
+    expect(standIn.requests.filter((r) => r.method === 'GET')).toHaveLength(3);
+  });
+
+  it('should rotate only when the cookie nears its expiry', async () => {
+    expect(await manager.check(NOW)).toBe('idle');
+
+    await manager.setRefreshToken(TOKEN, NOW);
+    expect(await manager.getStatus()).toMatchObject({ hasRefreshToken: true, nextRefreshAt: '2026-03-13T00:00:00.000Z' });
+    expect(await manager.check(NOW + 11 * DAY)).toBe('ok');
+
+    expect(await manager.check(NOW + 12 * DAY)).toBe('rotated');
+    expect(standIn.exchanges).toBe(2);
+    expect((await cookies.get('user-1'))!.cookie).toContain('session-id=147-2');
+    expect(rotated).toHaveLength(2);
+  });
+
+  it('should rotate when no cookie is stored', async () => {
+    await tokens.set('user-1', { refreshToken: TOKEN, storedAt: new Date(NOW).toISOString() });
+    expect(await manager.start()).toBe('rotated');
+    expect(manager.isRunning()).toBe(true);
+    expect(await cookies.get('user-1')).not.toBeNull();
+  });
+
+  it('should record failed exchanges and clear the error once one succeeds', async () => {
+    await manager.setRefreshToken(TOKEN, NOW);
+    standIn.failWith = { status: 500, body: 'oops' };
+
+    expect(await manager.check(NOW + 13 * DAY)).toBe('failed');
+    expect(onError).toHaveBeenCalledWith(new Error('Refresh token exchange failed: HTTP 500'));
+    expect(await manager.getStatus()).toMatchObject({ lastError: 'Refresh token exchange failed: HTTP 500' });
+    expect((await cookies.get('user-1'))!.cookie).toContain('session-id=147-1');
+
+    standIn.failWith = null;
+    expect(await manager.check(NOW + 13 * DAY)).toBe('rotated');
+    expect((await manager.getStatus()).lastError).toBeUndefined();
+  });
+
+  it('should share one exchange between concurrent refreshes', async () => {
+    await manager.setRefreshToken(TOKEN, NOW);
+    const [a, b] = await Promise.all([manager.refresh(), manager.refresh()]);
+    expect(a).toBe(b);
+    expect(standIn.exchanges).toBe(2);
+  });
+
+  it('should refuse to refresh without a refresh token', async () => {
+    await expect(manager.refresh()).rejects.toThrow('No Amazon refresh token stored');
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { DeviceDirectory, InMemoryDeviceDirectoryStore } from '../../src/alexa-api';
+import type { AccountDevice } from '../../src/alexa-api';
+
+function device(overrides: Partial<AccountDevice> = {}): AccountDevice {
+  return {
+    id: 'G0911234',
+    name: 'Kitchen Echo',
+    source: 'echo',
+    deviceType: 'ECHO',
+    online: true,
+    capabilities: [],
+    interfaces: [],
+    ...overrides,
+  };
+}
+
+describe('DeviceDirectory', () => {
+  let store: InMemoryDeviceDirectoryStore;
+  let fetchDevices: jest.Mock;
+  let directory: DeviceDirectory;
+
+  beforeEach(() => {
+    store = new InMemoryDeviceDirectoryStore();
+    fetchDevices = jest.fn().mockResolvedValue([
+      device({ applianceId: 'AAA_SonarCloudService_G0911234' }),
+      device({
+        id: 'endpoint-1',
+        name: 'Desk Lamp',
+        source: 'smart_home',
+        deviceType: 'LIGHT',
+        applianceId: 'SKILL_abc==_lamp-1',
+        entityId: 'entity-uuid-1',
+      }),
+    ]);
+    directory = new DeviceDirectory(store, { fetchDevices });
+  });
+
+  afterEach(() => {
+    directory.stop();
+  });
+
+  it('should resolve names by serial, endpointId, applianceId and entityId', async () => {
+    expect(await directory.refresh()).toBe(2);
+
+    expect(directory.resolveName('G0911234')).toBe('Kitchen Echo');
+    expect(directory.resolveName('AAA_SonarCloudService_G0911234')).toBe('Kitchen Echo');
+    expect(directory.resolveName('endpoint-1')).toBe('Desk Lamp');
+    expect(directory.resolveName('SKILL_abc==_lamp-1')).toBe('Desk Lamp');
+    expect(directory.resolveName('entity-uuid-1')).toBe('Desk Lamp');
+    expect(directory.resolveName('unknown')).toBeUndefined();
+    expect(directory.resolveName(undefined)).toBeUndefined();
+  });
+
+  it('should map serials and endpoints to applianceIds', async () => {
+    await directory.refresh();
+
+    expect(directory.applianceIdForSerial('G0911234')).toBe('AAA_SonarCloudService_G0911234');
+    expect(directory.applianceIdForEndpoint('endpoint-1')).toBe('SKILL_abc==_lamp-1');
+    expect(directory.applianceIdForSerial('endpoint-1')).toBeUndefined();
+  });
+
+  it('should persist the directory and load it without fetching', async () => {
+    await directory.refresh();
+
+    const restarted = new DeviceDirectory(store, { fetchDevices: jest.fn() });
+    await restarted.load();
+
+    expect(restarted.size).toBe(2);
+    expect(restarted.resolveName('G0911234')).toBe('Kitchen Echo');
+  });
+
+  it('should retry a persisted load that failed', async () => {
+    await directory.refresh();
+    const restarted = new DeviceDirectory(store, { fetchDevices: jest.fn() });
+    jest.spyOn(store, 'list').mockRejectedValueOnce(new Error('database is locked'));
+
+    await expect(restarted.load()).rejects.toThrow('database is locked');
+    await restarted.load();
+
+    expect(restarted.resolveName('G0911234')).toBe('Kitchen Echo');
+  });
+
+  it('should pick up renames on refresh', async () => {
+    await directory.refresh();
+    fetchDevices.mockResolvedValueOnce([device({ name: 'Living Room Echo' })]);
+
+    await directory.refresh();
+
+    expect(directory.resolveName('G0911234')).toBe('Living Room Echo');
+    expect(directory.resolveName('endpoint-1')).toBeUndefined();
+    expect((await store.list()).map((e) => e.name)).toEqual(['Living Room Echo']);
+  });
+
+  it('should keep the persisted directory when the first refresh fails', async () => {
+    await directory.refresh();
+    const failing = new DeviceDirectory(store, {
+      fetchDevices: jest.fn().mockRejectedValue(new Error('No Alexa cookie configured')),
+    });
+
+    await expect(failing.start(60_000)).rejects.toThrow('No Alexa cookie');
+
+    expect(failing.resolveName('G0911234')).toBe('Kitchen Echo');
+    failing.stop();
+  });
+
+  it('should list every known ID for backfilling', async () => {
+    await directory.refresh();
+
+    expect(directory.names()).toEqual({
+      'G0911234': 'Kitchen Echo',
+      'AAA_SonarCloudService_G0911234': 'Kitchen Echo',
+      'endpoint-1': 'Desk Lamp',
+      'SKILL_abc==_lamp-1': 'Desk Lamp',
+      'entity-uuid-1': 'Desk Lamp',
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AlexaPushClient } from '../../src/alexa-api/push-client';
+import type { PushClientState, PushClientTiming, PushReconnectPolicy } from '../../src/alexa-api/push-client';
+import { LocalPushGateway, encodePushMessage } from '../../src/alexa-api/local-push-gateway';
+import { PushCaptureRecorder, readPushCapture, parsePushCapture } from '../../src/alexa-api/push-capture';
+import type { CapturedFrame } from '../../src/alexa-api/push-capture';
+import type { PushEvent } from '../../src/alexa-api/push-event-types';
+
+const COOKIE = 'ubid-main=131-1234567-1234567; at-main=token';
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function volumeFrame(at: number, volumeSetting: number): CapturedFrame {
+  const message = encodePushMessage(at, 'PUSH_VOLUME_CHANGE', {
+    dopplerId: { deviceSerialNumber: 'G0911234', deviceType: 'A3S5BH2HU6VAYF' },
+    volumeSetting,
+    isMuted: false,
+  });
+  return { at, opcode: 2, data: message.toString('base64') };
+}
+
+describe('LocalPushGateway', () => {
+  let gateway: LocalPushGateway;
+  let client: AlexaPushClient | null;
+  let events: PushEvent[];
+  let states: PushClientState[];
+  let errors: string[];
+
+  async function connect(
+    timing: Partial<PushClientTiming> = {},
+    recorder?: PushCaptureRecorder,
+    reconnect: Partial<PushReconnectPolicy> = {},
+  ): Promise<AlexaPushClient> {
+    const url = await gateway.listen();
+    client = new AlexaPushClient({
+      cookie: COOKIE,
+      region: 'NA',
+      gatewayUrl: url,
+      recorder,
+      timing,
+      reconnect: { initialDelayMs: 50, multiplier: 1, jitter: 0, ...reconnect },
+      onEvent: (event) => events.push(event),
+      onStateChange: (state) => states.push(state),
+      onError: (error) => errors.push(error.message),
+    });
+    await client.connect();
+    return client;
+  }
+
+  beforeEach(() => {
+    client = null;
+    events = [];
+    states = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await gateway.close();
+  });
+
+  it('should complete the A:H handshake and deliver events', async () => {
+    gateway = new LocalPushGateway();
+    const c = await connect();
+    await waitFor(() => c.isConnected());
+
+    expect(states).toEqual(['connecting', 'handshaking', 'connected']);
+    expect(gateway.getStats()).toMatchObject({ connections: 1, openConnections: 1, registrations: 1 });
+
+    expect(gateway.sendEvent('PUSH_VOLUME_CHANGE', {
+      dopplerId: { deviceSerialNumber: 'G0911234', deviceType: 'A3S5BH2HU6VAYF' },
+      volumeSetting: 40,
+    })).toBe(1);
+    await waitFor(() => events.length === 1);
+
+    expect(events[0]).toMatchObject({
+      command: 'PUSH_VOLUME_CHANGE',
+      deviceSerial: 'G0911234',
+      deviceType: 'A3S5BH2HU6VAYF',
+      payload: { volumeSetting: 40 },
+    });
+    expect(errors).toEqual([]);
+  });
+
+  it('should complete the A:F handshake', async () => {
+    gateway = new LocalPushGateway({ protocolName: 'A:F' });
+    const c = await connect();
+    await waitFor(() => c.isConnected());
+    expect(gateway.getStats().registrations).toBe(1);
+  });
+
+  it('should replay capture push messages in order, skipping handshake frames', async () => {
+    const tune = { at: 999, opcode: 2, data: Buffer.from('0x00000000 0x0000001a {}TUNE').toString('base64') };
+    gateway = new LocalPushGateway({
+      capture: [tune, volumeFrame(1000, 10), volumeFrame(1040, 20), volumeFrame(1080, 30)],
+      replaySpeed: 4,
+    });
+    await connect();
+    await waitFor(() => events.length === 3);
+
+    expect(events.map((e) => e.payload.volumeSetting)).toEqual([10, 20, 30]);
+    expect(gateway.getStats().messagesSent).toBe(3);
+  });
+
+  it('should reconnect after an init timeout when the handshake is never acknowledged', async () => {
+    gateway = new LocalPushGateway({ completeHandshake: false });
+    const c = await connect({ initTimeoutMs: 100 });
+    await waitFor(() => errors.includes('Push connection init timeout'));
+    await waitFor(() => gateway.getStats().connections >= 2);
+
+    gateway.configure({ completeHandshake: true });
+    await waitFor(() => c.isConnected());
+    expect(states).toContain('reconnecting');
+  });
+
+  it('should reconnect after a pong timeout', async () => {
+    gateway = new LocalPushGateway();
+    const c = await connect({ pingIntervalMs: 100, pongTimeoutMs: 50 });
+    await waitFor(() => c.isConnected());
+
+    gateway.configure({ answerPings: false });
+    await waitFor(() => errors.includes('Push heartbeat pong timeout'));
+    expect(states).toContain('reconnecting');
+
+    gateway.configure({ answerPings: true });
+    await waitFor(() => gateway.getStats().connections >= 2 && c.isConnected());
+  });
+
+  it('should reconnect when the gateway closes or drops the connection', async () => {
+    gateway = new LocalPushGateway();
+    const c = await connect();
+    await waitFor(() => c.isConnected());
+
+    gateway.closeConnections(1001, 'going away');
+    await waitFor(() => gateway.getStats().connections === 2 && c.isConnected());
+
+    gateway.dropConnections();
+    await waitFor(() => gateway.getStats().connections === 3 && c.isConnected());
+    expect(states.filter((s) => s === 'reconnecting')).toHaveLength(2);
+  });
+
+  it('should keep the open connection and reconnect with a rotated cookie', async () => {
+    gateway = new LocalPushGateway();
+    const c = await connect();
+    await waitFor(() => c.isConnected());
+    expect(gateway.getStats().lastCookie).toBe(COOKIE);
+
+    c.setCookie('ubid-main=131-1234567-1234567; at-main=rotated');
+    expect(gateway.getStats()).toMatchObject({ connections: 1, openConnections: 1 });
+
+    gateway.closeConnections(1001, 'going away');
+    await waitFor(() => gateway.getStats().connections === 2 && c.isConnected());
+    expect(gateway.getStats().lastCookie).toBe('ubid-main=131-1234567-1234567; at-main=rotated');
+  });
+
+  it('should keep retrying while upgrades are rejected', async () => {
+    gateway = new LocalPushGateway({ rejectUpgrade: 503 });
+    const c = await connect();
+    await waitFor(() => errors.filter((e) => e.includes('HTTP 503')).length >= 2);
+    expect(c.isConnected()).toBe(false);
+
+    gateway.configure({ rejectUpgrade: undefined });
+    await waitFor(() => c.isConnected());
+  });
+
+  it('should report connection health', async () => {
+    gateway = new LocalPushGateway();
+    const c = await connect();
+    await waitFor(() => c.isConnected());
+    gateway.sendEvent('PUSH_VOLUME_CHANGE', { volumeSetting: 1 });
+    gateway.sendEvent('PUSH_VOLUME_CHANGE', { volumeSetting: 2 });
+    await waitFor(() => events.length === 2);
+
+    gateway.closeConnections(1001, 'going away');
+    await waitFor(() => gateway.getStats().connections === 2 && c.isConnected());
+
+    const health = c.getHealth();
+    expect(health).toMatchObject({
+      state: 'connected',
+      reconnectCount: 1,
+      consecutiveFailures: 0,
+      nextReconnectAt: null,
+      lastDisconnect: { code: 1001, reason: 'going away' },
+      eventCount: 2,
+      eventsPerMinute: 2,
+      cookieLikelyExpired: false,
+    });
+    expect(health.connectedSince).not.toBeNull();
+    expect(c.getHealth(Date.parse(health.connectedSince!) + 5000).uptimeMs).toBe(5000);
+    expect(c.getHealth(Date.now() + 61_000).eventsPerMinute).toBe(0);
+  });
+
+  it('should give up and flag the cookie after repeated auth failures', async () => {
+    gateway = new LocalPushGateway({ rejectUpgrade: 401 });
+    const c = await connect({}, undefined, { authFailureThreshold: 3 });
+    await waitFor(() => c.getHealth().cookieLikelyExpired);
+
+    expect(gateway.getStats().connections).toBe(0);
+    expect(c.getState()).toBe('disconnected');
+    expect(errors.filter((e) => e.includes('HTTP 401'))).toHaveLength(3);
+    expect(errors).toContain('Push connection rejected 3 times in a row: cookie likely expired');
+    expect(c.getHealth()).toMatchObject({ authFailures: 3, reconnectCount: 2, nextReconnectAt: null });
+
+    // Connecting again after a cookie refresh resets the breaker
+    gateway.configure({ rejectUpgrade: undefined });
+    await c.connect();
+    await waitFor(() => c.isConnected());
+    expect(c.getHealth()).toMatchObject({ authFailures: 0, cookieLikelyExpired: false });
+  });
+
+  it('should not count other failures toward the breaker', async () => {
+    gateway = new LocalPushGateway({ rejectUpgrade: 401 });
+    const c = await connect({}, undefined, { authFailureThreshold: 2 });
+    await waitFor(() => errors.length === 1);
+    gateway.configure({ rejectUpgrade: 503 });
+    await waitFor(() => errors.some((e) => e.includes('HTTP 503')));
+    gateway.configure({ rejectUpgrade: 401 });
+    await waitFor(() => errors.filter((e) => e.includes('HTTP 401')).length === 2);
+
+    expect(c.getHealth().cookieLikelyExpired).toBe(false);
+    await waitFor(() => c.getHealth().cookieLikelyExpired);
+  });
+
+  describe('capture round trip', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'push-capture-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should replay a recorded session to a new client', async () => {
+      const file = path.join(dir, 'session.jsonl');
+      gateway = new LocalPushGateway();
+      const recording = await connect({}, new PushCaptureRecorder(file));
+      await waitFor(() => recording.isConnected());
+      gateway.sendEvent('PUSH_VOLUME_CHANGE', { dopplerId: { deviceSerialNumber: 'A' }, volumeSetting: 5 });
+      gateway.sendEvent('PUSH_DOPPLER_CONNECTION_CHANGE', { dopplerId: { deviceSerialNumber: 'A' }, dopplerConnectionState: 'OFFLINE' });
+      await waitFor(() => events.length === 2);
+      recording.disconnect();
+      await gateway.close();
+
+      const capture = readPushCapture(file);
+      // TUNE, ACK, PON and the two push messages
+      expect(capture.length).toBeGreaterThanOrEqual(5);
+      const recorded = events.map((e) => [e.command, e.deviceSerial]);
+
+      events = [];
+      gateway = new LocalPushGateway({ capture, replaySpeed: 0 });
+      await connect();
+      await waitFor(() => events.length === 2);
+      expect(events.map((e) => [e.command, e.deviceSerial])).toEqual(recorded);
+    });
+  });
+});
+
+describe('parsePushCapture', () => {
+  it('should parse JSON Lines, skipping blank lines', () => {
+    const text = '{"at":1,"opcode":2,"data":"QQ=="}\n\n{"at":2,"opcode":8,"data":""}\n';
+    expect(parsePushCapture(text)).toEqual([
+      { at: 1, opcode: 2, data: 'QQ==' },
+      { at: 2, opcode: 8, data: '' },
+    ]);
+  });
+
+  it('should name the offending line', () => {
+    expect(() => parsePushCapture('{"at":1,"opcode":2,"data":""}\nnot json')).toThrow('line 2 is not JSON');
+    expect(() => parsePushCapture('{"at":"x","opcode":2,"data":""}')).toThrow('line 1 needs numeric');
+  });
+});
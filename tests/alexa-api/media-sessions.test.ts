@@ -0,0 +1,173 @@
+import { MediaSessionTracker, InMemoryMediaSessionStore } from '../../src/alexa-api';
+import type { StoredPushEvent } from '../../src/alexa-api';
+
+const SERIAL = 'G0911234';
+
+function at(minutes: number): string {
+  return new Date(Date.parse('2026-03-01T10:00:00.000Z') + minutes * 60_000).toISOString();
+}
+
+function media(command: string, minutes: number, payload: Record<string, unknown> = {}): StoredPushEvent {
+  return {
+    id: `pe-${command}-${minutes}`,
+    timestamp: at(minutes),
+    command,
+    deviceSerial: SERIAL,
+    deviceName: 'Kitchen Echo',
+    payload,
+    processed: false,
+  };
+}
+
+const player = (minutes: number, audioPlayerState: string, mediaReferenceId = 'track-1') =>
+  media('PUSH_AUDIO_PLAYER_STATE', minutes, { audioPlayerState, mediaReferenceId });
+
+describe('MediaSessionTracker', () => {
+  let store: InMemoryMediaSessionStore;
+  let tracker: MediaSessionTracker;
+
+  beforeEach(() => {
+    store = new InMemoryMediaSessionStore();
+    tracker = new MediaSessionTracker(store);
+  });
+
+  it('should build now-playing state from media events', async () => {
+    await tracker.apply(player(0, 'PLAYING'));
+    await tracker.apply(media('PUSH_MEDIA_PROGRESS_CHANGE', 1, {
+      mediaReferenceId: 'track-1',
+      progress: { mediaProgress: 60, mediaLength: 240 },
+    }));
+    await tracker.apply(media('PUSH_MEDIA_QUEUE_CHANGE', 2, { changeType: 'LOOP', loopMode: 'LOOP_QUEUE' }));
+
+    const [np] = await tracker.getNowPlaying(SERIAL);
+    expect(np).toMatchObject({
+      deviceSerial: SERIAL,
+      deviceName: 'Kitchen Echo',
+      playerState: 'PLAYING',
+      mediaReferenceId: 'track-1',
+      mediaProgress: 60,
+      mediaLength: 240,
+      progressUpdatedAt: at(1),
+      queueChangeType: 'LOOP',
+      loopMode: 'LOOP_QUEUE',
+      updatedAt: at(2),
+    });
+  });
+
+  it('should reset the position when the media changes', async () => {
+    await tracker.apply(media('PUSH_MEDIA_PROGRESS_CHANGE', 0, {
+      mediaReferenceId: 'track-1',
+      progress: { mediaProgress: 200, mediaLength: 240 },
+    }));
+    await tracker.apply(media('PUSH_MEDIA_CHANGE', 1, { mediaReferenceId: 'track-2' }));
+
+    const [np] = await tracker.getNowPlaying(SERIAL);
+    expect(np.mediaReferenceId).toBe('track-2');
+    expect(np.mediaProgress).toBeUndefined();
+    expect(np.mediaLength).toBeUndefined();
+  });
+
+  it('should ignore events older than the current state', async () => {
+    await tracker.apply(player(5, 'INTERRUPTED'));
+    await tracker.apply(player(1, 'PLAYING'));
+
+    const [np] = await tracker.getNowPlaying(SERIAL);
+    expect(np.playerState).toBe('INTERRUPTED');
+  });
+
+  it('should record a session from PLAYING to FINISHED', async () => {
+    await tracker.apply(player(0, 'PLAYING', 'track-1'));
+    await tracker.apply(media('PUSH_MEDIA_CHANGE', 4, { mediaReferenceId: 'track-2' }));
+    await tracker.apply(player(8, 'FINISHED', 'track-2'));
+
+    const { sessions } = await store.querySessions({});
+    expect(sessions).toEqual([{
+      id: `ms-${SERIAL}-${Date.parse(at(0))}`,
+      deviceSerial: SERIAL,
+      deviceName: 'Kitchen Echo',
+      startedAt: at(0),
+      endedAt: at(8),
+      endReason: 'FINISHED',
+      lastEventAt: at(8),
+      mediaReferenceIds: ['track-1', 'track-2'],
+    }]);
+  });
+
+  it('should prune sessions whose last event is older than the cutoff', async () => {
+    await tracker.apply(player(0, 'PLAYING', 'track-1'));
+    await tracker.apply(player(8, 'FINISHED', 'track-1'));
+    await tracker.apply(player(60, 'PLAYING', 'track-2'));
+
+    expect(await tracker.prune(at(30))).toBe(1);
+    const { sessions } = await store.querySessions({});
+    expect(sessions.map((s) => s.startedAt)).toEqual([at(60)]);
+    expect(await tracker.getNowPlaying(SERIAL)).toHaveLength(1);
+  });
+
+  it('should continue a session that resumes within the grace period', async () => {
+    await tracker.apply(player(0, 'PLAYING', 'track-1'));
+    await tracker.apply(player(3, 'FINISHED', 'track-1'));
+    await tracker.apply(player(4, 'PLAYING', 'track-2'));
+
+    const { sessions } = await store.querySessions({});
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].endedAt).toBeUndefined();
+    expect(sessions[0].mediaReferenceIds).toEqual(['track-1', 'track-2']);
+  });
+
+  it('should start a new session after playback stayed stopped', async () => {
+    await tracker.apply(player(0, 'PLAYING'));
+    await tracker.apply(player(3, 'IDLE'));
+    await tracker.apply(player(20, 'PLAYING', 'track-9'));
+
+    const { sessions } = await store.querySessions({});
+    expect(sessions.map((s) => [s.startedAt, s.endedAt, s.endReason])).toEqual([
+      [at(20), undefined, undefined],
+      [at(0), at(3), 'IDLE'],
+    ]);
+  });
+
+  it('should end a session on a player error', async () => {
+    await tracker.apply(player(0, 'PLAYING'));
+    await tracker.apply(media('PUSH_AUDIO_PLAYER_STATE', 1, {
+      audioPlayerState: 'IDLE',
+      error: 'true',
+      errorMessage: 'Stream unavailable',
+    }));
+
+    const [np] = await tracker.getNowPlaying(SERIAL);
+    expect(np.error).toBe('Stream unavailable');
+    expect((await store.querySessions({}))
+      .sessions[0].endReason).toBe('ERROR');
+  });
+
+  it('should close sessions left open past the idle timeout', async () => {
+    await tracker.apply(player(0, 'PLAYING'));
+    await tracker.apply(player(2, 'INTERRUPTED'));
+
+    const open = await tracker.querySessions({ open: true }, Date.parse(at(10)));
+    expect(open.totalCount).toBe(1);
+
+    const later = await tracker.querySessions({ open: true }, Date.parse(at(60)));
+    expect(later.totalCount).toBe(0);
+    const [closed] = (await store.querySessions({})).sessions;
+    expect(closed).toMatchObject({ endedAt: at(2), endReason: 'TIMEOUT' });
+  });
+
+  it('should apply concurrent events for a device in arrival order', async () => {
+    await Promise.all([
+      tracker.apply(player(0, 'PLAYING')),
+      tracker.apply(media('PUSH_MEDIA_PROGRESS_CHANGE', 1, { mediaReferenceId: 'track-1', progress: { mediaProgress: 5 } })),
+      tracker.apply(player(2, 'FINISHED')),
+    ]);
+
+    const { sessions } = await store.querySessions({});
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].endReason).toBe('FINISHED');
+  });
+
+  it('should ignore non-media commands', async () => {
+    await tracker.apply(media('PUSH_VOLUME_CHANGE', 0, { volumeSetting: 30 }));
+    expect(await tracker.getNowPlaying()).toEqual([]);
+  });
+});
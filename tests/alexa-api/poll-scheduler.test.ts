@@ -0,0 +1,236 @@
+import { PollScheduler, DEFAULT_POLL_POLICY, mergePollPolicy, pollCategory } from '../../src/alexa-api';
+import type { AccountDevice, DeviceStateSnapshot } from '../../src/alexa-api';
+
+const MINUTE = 60_000;
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+
+function device(id: string, extra: Partial<AccountDevice> = {}): AccountDevice {
+  return {
+    id,
+    name: id,
+    source: 'smart_home',
+    deviceType: 'LIGHT',
+    online: true,
+    capabilities: [],
+    interfaces: ['Alexa.PowerController'],
+    applianceId: `aid-${id}`,
+    ...extra,
+  };
+}
+
+const thermometer = device('thermometer', { deviceType: 'TEMPERATURE_SENSOR', interfaces: ['Alexa.TemperatureSensor'] });
+const lamp = device('lamp');
+const scene = device('scene', { deviceType: 'SCENE_TRIGGER', interfaces: ['Alexa.SceneController'] });
+const echo = device('G090XX', { source: 'echo', deviceType: 'ECHO', interfaces: [], applianceId: undefined });
+
+describe('pollCategory', () => {
+  it('should sort devices into polling categories', () => {
+    expect(pollCategory(thermometer)).toBe('sensor');
+    expect(pollCategory(device('aq', {
+      deviceType: 'OTHER',
+      interfaces: ['Alexa.RangeController'],
+      rangeCapabilities: [{ instance: '4', friendlyName: 'Alexa.AirQuality.Humidity' }],
+    }))).toBe('sensor');
+    expect(pollCategory(lamp)).toBe('controllable');
+    expect(pollCategory(scene)).toBe('static');
+    expect(pollCategory(echo)).toBe('echo');
+    expect(pollCategory(device('group', { source: 'group' }))).toBeNull();
+    expect(pollCategory(device('cloud-only', { applianceId: undefined }))).toBeNull();
+  });
+});
+
+describe('mergePollPolicy', () => {
+  it('should widen the bounds to a new interval and reject nonsense', () => {
+    const policy = mergePollPolicy(DEFAULT_POLL_POLICY, { categories: { controllable: { intervalMs: 60 * MINUTE } } });
+    expect(policy.categories.controllable).toEqual({ intervalMs: 60 * MINUTE, minIntervalMs: 2 * MINUTE, maxIntervalMs: 60 * MINUTE });
+    expect(policy.categories.sensor).toEqual(DEFAULT_POLL_POLICY.categories.sensor);
+
+    expect(() => mergePollPolicy(DEFAULT_POLL_POLICY, { categories: { sensor: { minIntervalMs: 20 * MINUTE } } }))
+      .toThrow('sensor interval must lie between minIntervalMs and maxIntervalMs');
+    expect(() => mergePollPolicy(DEFAULT_POLL_POLICY, { categories: { fridge: {} } } as never))
+      .toThrow('Unknown poll category "fridge"');
+    expect(() => mergePollPolicy(DEFAULT_POLL_POLICY, { batchSize: 0 })).toThrow('batchSize must be a positive integer');
+  });
+});
+
+describe('PollScheduler', () => {
+  let devices: AccountDevice[];
+  /** Values the next polls return, by applianceId */
+  let values: Record<string, unknown>;
+  let polls: string[][];
+  let echoPolls: string[][];
+  let listDevices: jest.Mock;
+  let cookie: boolean;
+  let scheduler: PollScheduler;
+  let clock = NOW;
+
+  function snapshot(deviceId: string, value: unknown, at: number): DeviceStateSnapshot {
+    return {
+      deviceId,
+      capabilities: [{ namespace: 'Alexa.PowerController', name: 'powerState', value }],
+      polledAt: new Date(at).toISOString(),
+    };
+  }
+
+  function create(options: Partial<ConstructorParameters<typeof PollScheduler>[0]> = {}): PollScheduler {
+    return new PollScheduler({
+      listDevices,
+      // The stand-ins stamp snapshots with the time of the tick being run
+      pollStates: async (ids) => {
+        polls.push(ids);
+        return ids.map((id) => snapshot(id, values[id] ?? 'ON', clock));
+      },
+      pollEchoVolumes: async (echos) => {
+        echoPolls.push(echos.map((d) => d.id));
+        return echos.map((d) => snapshot(d.id, 30, clock));
+      },
+      hasCookie: async () => cookie,
+      ...options,
+    });
+  }
+
+  function tick(at: number) {
+    clock = at;
+    return scheduler.tick(at);
+  }
+
+  beforeEach(() => {
+    devices = [thermometer, lamp, scene, echo];
+    values = {};
+    polls = [];
+    echoPolls = [];
+    listDevices = jest.fn(async () => devices);
+    cookie = true;
+    scheduler = create();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should poll every device once, then each at its category interval', async () => {
+    expect(await tick(NOW)).toEqual({ polledCount: 4, errorCount: 0, batches: 1, skippedCount: 0, deferredCount: 0 });
+    expect(polls).toEqual([['aid-thermometer', 'aid-lamp', 'aid-scene']]);
+    expect(echoPolls).toEqual([['G090XX']]);
+
+    expect((await tick(NOW + MINUTE)).polledCount).toBe(0);
+    await tick(NOW + 2 * MINUTE);
+    expect(polls[1]).toEqual(['aid-thermometer']);
+    await tick(NOW + 10 * MINUTE);
+    expect(polls[2]).toEqual(['aid-thermometer', 'aid-lamp']);
+    expect(echoPolls).toHaveLength(1);
+    expect(listDevices).toHaveBeenCalledTimes(1);
+  });
+
+  it('should shorten the interval when values change and stretch it when they stay flat', async () => {
+    await tick(NOW);
+    const interval = () => scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-thermometer')!.intervalMs;
+
+    await tick(NOW + 2 * MINUTE);
+    expect(interval()).toBe(3 * MINUTE);
+    await tick(NOW + 5 * MINUTE);
+    expect(interval()).toBe(4.5 * MINUTE);
+
+    values['aid-thermometer'] = 'OFF';
+    await tick(NOW + 10 * MINUTE);
+    expect(interval()).toBe(2.25 * MINUTE);
+    expect(scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-thermometer')).toMatchObject({
+      unchangedPolls: 0,
+      lastPolledAt: new Date(NOW + 10 * MINUTE).toISOString(),
+      nextPollAt: new Date(NOW + 12.25 * MINUTE).toISOString(),
+    });
+
+    // Bounded by the category's maximum
+    for (let at = 15; at < 120; at += 15) await tick(NOW + at * MINUTE);
+    expect(interval()).toBe(DEFAULT_POLL_POLICY.categories.sensor.maxIntervalMs);
+  });
+
+  it('should skip devices with recent push state', async () => {
+    await tick(NOW);
+    scheduler.observe([snapshot('aid-lamp', 'OFF', NOW + 9 * MINUTE)], 'push');
+    values['aid-lamp'] = 'OFF';
+
+    const result = await tick(NOW + 10 * MINUTE);
+    expect(result).toMatchObject({ skippedCount: 1, polledCount: 1 });
+    expect(polls[polls.length - 1]).toEqual(['aid-thermometer']);
+
+    await tick(NOW + 24 * MINUTE);
+    expect(polls[polls.length - 1]).toContain('aid-lamp');
+    // Push state is the baseline: the poll saw no change since
+    expect(scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-lamp')!.intervalMs).toBe(15 * MINUTE);
+  });
+
+  it('should count each snapshot once, however many paths report it', async () => {
+    await tick(NOW);
+    const polled = snapshot('aid-lamp', 'ON', NOW + 10 * MINUTE);
+    scheduler.observe([polled], 'poll');
+    scheduler.observe([polled], 'poll');
+    expect(scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-lamp')!.unchangedPolls).toBe(1);
+  });
+
+  it('should count devices the poll leaves out as polled, unchanged', async () => {
+    // phoenix/state answers without the scene (TargetApplianceNotFoundException)
+    scheduler = create({
+      pollStates: async (ids) => {
+        polls.push(ids);
+        return ids.filter((id) => id !== 'aid-scene').map((id) => snapshot(id, 'ON', clock));
+      },
+    });
+
+    expect(await tick(NOW)).toMatchObject({ polledCount: 3, errorCount: 0 });
+    for (let at = 1; at <= 10; at++) await tick(NOW + at * MINUTE);
+
+    expect(polls.filter((ids) => ids.includes('aid-scene'))).toHaveLength(1);
+    expect(scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-scene')).toMatchObject({
+      intervalMs: 9 * 60 * MINUTE,
+      lastPolledAt: new Date(NOW).toISOString(),
+      unchangedPolls: 1,
+    });
+  });
+
+  it('should respect the batch limit, most overdue first', async () => {
+    devices = Array.from({ length: 5 }, (_, i) => device(`lamp-${i}`));
+    scheduler = create({ policy: { batchSize: 2 }, maxBatchesPerTick: 2 });
+
+    expect(await tick(NOW)).toMatchObject({ polledCount: 4, batches: 2, deferredCount: 1 });
+    expect(polls).toEqual([['aid-lamp-0', 'aid-lamp-1'], ['aid-lamp-2', 'aid-lamp-3']]);
+
+    await tick(NOW + 30_000);
+    expect(polls[2]).toEqual(['aid-lamp-4']);
+  });
+
+  it('should push failed batches to a longer interval and report the error', async () => {
+    const onError = jest.fn();
+    scheduler = create({
+      onError,
+      pollStates: async () => { throw new Error('HTTP 503'); },
+    });
+
+    expect(await tick(NOW)).toMatchObject({ polledCount: 4, errorCount: 3 });
+    expect(onError).toHaveBeenCalledWith(new Error('HTTP 503'));
+    expect(scheduler.getStatus().devices.find((d) => d.deviceId === 'aid-lamp')!.intervalMs).toBe(15 * MINUTE);
+  });
+
+  it('should edit the policy and restart intervals of changed categories', async () => {
+    await tick(NOW);
+    await tick(NOW + 2 * MINUTE);
+
+    const policy = scheduler.setPolicy({ categories: { controllable: { intervalMs: 5 * MINUTE } }, pushFreshMs: 0 });
+    expect(policy.categories.controllable.intervalMs).toBe(5 * MINUTE);
+    expect(policy.pushFreshMs).toBe(0);
+    const byId = Object.fromEntries(scheduler.getStatus().devices.map((d) => [d.deviceId, d.intervalMs]));
+    expect(byId['aid-lamp']).toBe(5 * MINUTE);
+    expect(byId['aid-thermometer']).toBe(3 * MINUTE);
+
+    expect(() => scheduler.setPolicy({ changedFactor: 2 })).toThrow('changedFactor must be in (0, 1]');
+    expect(scheduler.getPolicy().changedFactor).toBe(0.5);
+  });
+
+  it('should do nothing without a cookie', async () => {
+    cookie = false;
+    expect(await scheduler.start()).toMatchObject({ polledCount: 0 });
+    expect(scheduler.isRunning()).toBe(true);
+    expect(listDevices).not.toHaveBeenCalled();
+    expect(scheduler.getStatus()).toMatchObject({ running: true, devices: [] });
+  });
+});
@@ -15,7 +15,8 @@
 // we'll replicate them here for testing and verify the client
 // produces correct output.
 
-import { AlexaPushClient } from '../../src/alexa-api/push-client';
+import { AlexaPushClient, reconnectDelay } from '../../src/alexa-api/push-client';
+import type { PushReconnectPolicy } from '../../src/alexa-api/push-client';
 import type { PushEvent } from '../../src/alexa-api/push-event-types';
 
 // ---------------------------------------------------------------------------
@@ -275,6 +276,28 @@ describe('FABE Message Format', () => {
   });
 });
 
+describe('reconnectDelay', () => {
+  const policy: PushReconnectPolicy = {
+    initialDelayMs: 1000,
+    maxDelayMs: 10_000,
+    multiplier: 2,
+    jitter: 0.5,
+    maxRetries: 10,
+    authFailureThreshold: 3,
+  };
+
+  it('should grow exponentially up to the cap', () => {
+    expect([1, 2, 3, 4, 5, 6].map((n) => reconnectDelay(policy, n, () => 0)))
+      .toEqual([1000, 2000, 4000, 8000, 10_000, 10_000]);
+  });
+
+  it('should take up to the jitter share off each delay', () => {
+    expect(reconnectDelay(policy, 2, () => 1)).toBe(1000);
+    expect(reconnectDelay(policy, 2, () => 0.5)).toBe(1500);
+    expect(reconnectDelay({ ...policy, jitter: 0 }, 2, () => 1)).toBe(2000);
+  });
+});
+
 describe('AlexaPushClient', () => {
   it('should start in disconnected state', () => {
     const events: PushEvent[] = [];
@@ -289,6 +312,14 @@ describe('AlexaPushClient', () => {
     expect(client.getConnectionId()).toBeNull();
     expect(client.getLastEventTime()).toBeNull();
     expect(client.getEventCount()).toBe(0);
+    expect(client.getHealth()).toMatchObject({
+      connected: false,
+      uptimeMs: 0,
+      reconnectCount: 0,
+      lastDisconnect: null,
+      eventsPerMinute: 0,
+      cookieLikelyExpired: false,
+    });
   });
 
   it('should emit state changes via callback', () => {
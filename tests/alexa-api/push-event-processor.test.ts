@@ -0,0 +1,112 @@
+import { PushEventProcessor, InMemoryPushEventStore } from '../../src/alexa-api';
+import type { StoredPushEvent } from '../../src/alexa-api';
+
+function makeEvent(overrides: Partial<StoredPushEvent> = {}): StoredPushEvent {
+  return {
+    id: `pe-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: '2026-03-01T10:00:00.000Z',
+    command: 'PUSH_VOLUME_CHANGE',
+    deviceSerial: 'G0911234',
+    payload: { volumeSetting: 30 },
+    processed: false,
+    ...overrides,
+  };
+}
+
+describe('PushEventProcessor', () => {
+  let store: InMemoryPushEventStore;
+  let volumeHandler: jest.Mock;
+  let onError: jest.Mock;
+  let processor: PushEventProcessor;
+
+  beforeEach(() => {
+    store = new InMemoryPushEventStore();
+    volumeHandler = jest.fn().mockResolvedValue(undefined);
+    onError = jest.fn();
+    processor = new PushEventProcessor(store, { PUSH_VOLUME_CHANGE: volumeHandler }, { onError, maxAttempts: 2 });
+  });
+
+  afterEach(() => {
+    processor.stop();
+  });
+
+  it('should run the handler for the command and mark the event processed', async () => {
+    const event = makeEvent({ id: 'pe-1' });
+    await store.insert(event);
+
+    expect(await processor.process(event)).toBe(true);
+
+    expect(volumeHandler).toHaveBeenCalledWith(event);
+    expect((await store.getById('pe-1'))!.processed).toBe(true);
+  });
+
+  it('should mark events without a handler processed', async () => {
+    const event = makeEvent({ id: 'pe-2', command: 'PUSH_LIST_ITEM_CHANGE' });
+    await store.insert(event);
+
+    expect(await processor.process(event)).toBe(true);
+    expect(volumeHandler).not.toHaveBeenCalled();
+    expect((await store.getById('pe-2'))!.processed).toBe(true);
+  });
+
+  it('should leave the event unprocessed when the handler throws', async () => {
+    volumeHandler.mockRejectedValueOnce(new Error('boom'));
+    const event = makeEvent({ id: 'pe-3' });
+    await store.insert(event);
+
+    expect(await processor.process(event)).toBe(false);
+
+    expect((await store.getById('pe-3'))!.processed).toBe(false);
+    expect(onError).toHaveBeenCalledWith(event, expect.objectContaining({ message: 'boom' }), false);
+  });
+
+  it('should drain unprocessed events oldest first', async () => {
+    await store.insert(makeEvent({ id: 'old', timestamp: '2026-03-01T09:00:00.000Z' }));
+    await store.insert(makeEvent({ id: 'new', timestamp: '2026-03-01T11:00:00.000Z' }));
+    await store.insert(makeEvent({ id: 'done', processed: true }));
+
+    const result = await processor.drain();
+
+    expect(result).toEqual({ processed: 2, failed: 0 });
+    expect(volumeHandler.mock.calls.map(([e]) => e.id)).toEqual(['old', 'new']);
+  });
+
+  it('should stop retrying an event after maxAttempts', async () => {
+    volumeHandler.mockRejectedValue(new Error('still failing'));
+    await store.insert(makeEvent({ id: 'pe-4' }));
+
+    expect(await processor.drain()).toEqual({ processed: 0, failed: 1 });
+    expect(await processor.drain()).toEqual({ processed: 0, failed: 1 });
+    expect(await processor.drain()).toEqual({ processed: 0, failed: 0 });
+    expect(volumeHandler).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'pe-4' }), expect.anything(), true);
+    expect(await store.getById('pe-4')).toMatchObject({ processed: false, failed: true, attempts: 2, error: 'still failing' });
+
+    // The count is kept in the store, so a restart does not replay it
+    const restarted = new PushEventProcessor(store, { PUSH_VOLUME_CHANGE: volumeHandler }, { maxAttempts: 2 });
+    expect(await restarted.drain()).toEqual({ processed: 0, failed: 0 });
+  });
+
+  it('should reach older backlog past events that failed', async () => {
+    processor = new PushEventProcessor(store, { PUSH_VOLUME_CHANGE: volumeHandler }, { maxAttempts: 1, batchSize: 1 });
+    volumeHandler.mockRejectedValueOnce(new Error('boom'));
+    await store.insert(makeEvent({ id: 'oldest', timestamp: '2026-03-01T08:00:00.000Z' }));
+    await store.insert(makeEvent({ id: 'older', timestamp: '2026-03-01T09:00:00.000Z' }));
+    await store.insert(makeEvent({ id: 'newest', timestamp: '2026-03-01T11:00:00.000Z' }));
+
+    expect(await processor.drain()).toEqual({ processed: 0, failed: 1 });
+    expect(await processor.drain()).toEqual({ processed: 1, failed: 0 });
+    expect(volumeHandler.mock.calls.map(([e]) => e.id)).toEqual(['oldest', 'older']);
+  });
+
+  it('should replay pending events when the worker starts', async () => {
+    await store.insert(makeEvent({ id: 'pe-5' }));
+
+    const result = await processor.start(60_000);
+
+    expect(result.processed).toBe(1);
+    expect(processor.isRunning()).toBe(true);
+    processor.stop();
+    expect(processor.isRunning()).toBe(false);
+  });
+});
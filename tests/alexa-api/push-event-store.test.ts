@@ -111,6 +111,20 @@ describe('InMemoryPushEventStore', () => {
     expect(found!.processed).toBe(true);
   });
 
+  it('should list pending events oldest first until they fail', async () => {
+    await store.insert(makeEvent({ id: 'p-new', timestamp: '2024-06-01T00:00:02Z' }));
+    await store.insert(makeEvent({ id: 'p-old', timestamp: '2024-06-01T00:00:01Z' }));
+    await store.insert(makeEvent({ id: 'p-done', timestamp: '2024-06-01T00:00:00Z', processed: true }));
+
+    expect((await store.listPending(10)).map((e) => e.id)).toEqual(['p-old', 'p-new']);
+
+    expect(await store.recordFailure('p-old', 'boom', 2)).toBe(1);
+    expect((await store.listPending(1)).map((e) => e.id)).toEqual(['p-old']);
+    expect(await store.recordFailure('p-old', 'boom again', 2)).toBe(2);
+    expect((await store.listPending(1)).map((e) => e.id)).toEqual(['p-new']);
+    expect(await store.getById('p-old')).toMatchObject({ processed: false, failed: true, attempts: 2, error: 'boom again' });
+  });
+
   it('should prune old events', async () => {
     await store.insert(makeEvent({ timestamp: '2024-01-01T00:00:00Z' }));
     await store.insert(makeEvent({ timestamp: '2024-06-01T00:00:00Z' }));
@@ -128,4 +142,14 @@ describe('InMemoryPushEventStore', () => {
     }
     expect((await small.query({})).totalCount).toBe(5);
   });
+
+  it('should fill in missing device names by serial', async () => {
+    await store.insert(makeEvent({ id: 'pe-a', deviceSerial: 'ECHO-1' }));
+    await store.insert(makeEvent({ id: 'pe-b', deviceSerial: 'ECHO-2', deviceName: 'Bedroom Echo' }));
+
+    expect(await store.fillDeviceNames({ 'ECHO-1': 'Kitchen Echo', 'ECHO-2': 'Other' })).toBe(1);
+
+    const result = await store.query({ deviceName: 'kitchen echo' });
+    expect(result.events.map((e) => e.id)).toEqual(['pe-a']);
+  });
 });
@@ -0,0 +1,123 @@
+import { AlexaPushClient } from '../../src/alexa-api/push-client';
+import { LocalPushGateway } from '../../src/alexa-api/local-push-gateway';
+import { PushListenerSupervisor } from '../../src/alexa-api/push-supervisor';
+import type { PushSupervisorOptions } from '../../src/alexa-api/push-supervisor';
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('PushListenerSupervisor', () => {
+  let gateway: LocalPushGateway;
+  let url: string;
+  let client: AlexaPushClient | null;
+  let cookie: string | null;
+  let onRestart: jest.Mock;
+  let onStall: jest.Mock;
+  let supervisor: PushListenerSupervisor;
+
+  function createSupervisor(options: Partial<PushSupervisorOptions> = {}): PushListenerSupervisor {
+    supervisor = new PushListenerSupervisor({
+      getClient: () => client,
+      startListener: async () => {
+        client?.disconnect();
+        client = new AlexaPushClient({
+          cookie: cookie!,
+          region: 'NA',
+          gatewayUrl: url,
+          reconnect: { initialDelayMs: 50, multiplier: 1, jitter: 0, authFailureThreshold: 1 },
+          onEvent: () => {},
+        });
+        await client.connect();
+      },
+      hasCookie: async () => cookie !== null,
+      stallTimeoutMs: 60_000,
+      onRestart,
+      onStall,
+      ...options,
+    });
+    return supervisor;
+  }
+
+  beforeEach(async () => {
+    gateway = new LocalPushGateway();
+    url = await gateway.listen();
+    client = null;
+    cookie = 'ubid-main=131-1234567-1234567';
+    onRestart = jest.fn();
+    onStall = jest.fn();
+  });
+
+  afterEach(async () => {
+    supervisor.stop();
+    client?.disconnect();
+    await gateway.close();
+  });
+
+  it('should connect at startup when a cookie is available', async () => {
+    expect(await createSupervisor().start()).toBe('restarted');
+    await waitFor(() => client!.isConnected());
+    expect(onRestart).toHaveBeenCalledWith('startup');
+    expect(supervisor.isRunning()).toBe(true);
+  });
+
+  it('should wait without a cookie or when disabled', async () => {
+    cookie = null;
+    expect(await createSupervisor().start()).toBe('idle');
+
+    cookie = 'ubid-main=1';
+    supervisor.enabled = false;
+    expect(await supervisor.check()).toBe('idle');
+    expect(client).toBeNull();
+  });
+
+  it('should force a reconnect when an open connection goes silent', async () => {
+    await createSupervisor().start();
+    await waitFor(() => client!.isConnected());
+    const first = client!;
+
+    expect(await supervisor.check(Date.now() + 30_000)).toBe('ok');
+    expect(await supervisor.check(Date.now() + 61_000)).toBe('stalled');
+    expect(onStall).toHaveBeenCalledWith(expect.any(Number));
+
+    await waitFor(() => gateway.getStats().connections === 2 && first.isConnected());
+    expect(client).toBe(first);
+    expect(first.getHealth().lastDisconnect).toMatchObject({ code: 4003, reason: 'stalled' });
+  });
+
+  it('should restart the listener after a cookie update', async () => {
+    await createSupervisor().start();
+    const first = client!;
+
+    cookie = 'ubid-main=999-new';
+    expect(await supervisor.cookieUpdated()).toBe(true);
+    expect(client).not.toBe(first);
+    expect(first.getState()).toBe('disconnected');
+    expect(onRestart).toHaveBeenLastCalledWith('cookie_updated');
+  });
+
+  it('should ignore cookie updates when nothing was started', async () => {
+    createSupervisor();
+    expect(await supervisor.cookieUpdated()).toBe(false);
+    expect(client).toBeNull();
+  });
+
+  it('should restart a client that gave up, but not one with an expired cookie', async () => {
+    await createSupervisor().start();
+    await waitFor(() => client!.isConnected());
+
+    client!.disconnect();
+    expect(await supervisor.check()).toBe('restarted');
+    expect(onRestart).toHaveBeenLastCalledWith('gave_up');
+    await waitFor(() => client!.isConnected());
+
+    gateway.configure({ rejectUpgrade: 401 });
+    gateway.dropConnections();
+    await waitFor(() => client!.getHealth().cookieLikelyExpired);
+    expect(await supervisor.check()).toBe('idle');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  DEFAULT_REQUEST_POLICY,
+  TokenBucket,
+  endpointFamily,
+  parseRetryAfter,
+  retryDelay,
+} from '../../src/alexa-api/request-policy';
+
+describe('endpointFamily', () => {
+  it('should group paths by the service behind them', () => {
+    expect(endpointFamily('/api/phoenix/state')).toBe('phoenix');
+    expect(endpointFamily('/api/phoenix/group')).toBe('phoenix');
+    expect(endpointFamily('/api/behaviors/preview')).toBe('behaviors');
+    expect(endpointFamily('/nexus/v1/graphql')).toBe('graphql');
+    expect(endpointFamily('/alexa-privacy/apd/rvh/customer-history-records-v2')).toBe('privacy');
+    expect(endpointFamily('/api/devices/device')).toBe('default');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-03-01T00:00:00.000Z');
+
+  it('should read delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('7', now)).toBe(7000);
+    expect(parseRetryAfter(['2'], now)).toBe(2000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Sat, 28 Feb 2026 00:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or malformed values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('retryDelay', () => {
+  it('should double per retry up to the maximum, with jitter', () => {
+    const policy = { ...DEFAULT_REQUEST_POLICY, retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => retryDelay(policy, attempt, () => 0.5))).toEqual([1000, 2000, 4000, 5000]);
+    expect(retryDelay(policy, 1, () => 0)).toBe(800);
+    expect(retryDelay(policy, 1, () => 1)).toBe(1200);
+  });
+});
+
+describe('TokenBucket', () => {
+  const T0 = 1_000_000;
+
+  it('should allow the burst, then queue requests at the refill rate', () => {
+    const bucket = new TokenBucket({ burst: 2, perSecond: 2 }, T0);
+    expect(bucket.take(T0)).toBe(0);
+    expect(bucket.take(T0)).toBe(0);
+    expect(bucket.take(T0)).toBe(500);
+    expect(bucket.take(T0)).toBe(1000);
+
+    // Refilled after the queue drained
+    expect(bucket.take(T0 + 3000)).toBe(0);
+  });
+
+  it('should return unused tokens', () => {
+    const bucket = new TokenBucket({ burst: 1, perSecond: 1 }, T0);
+    bucket.take(T0);
+    expect(bucket.take(T0)).toBe(1000);
+    bucket.giveBack();
+    expect(bucket.take(T0)).toBe(1000);
+  });
+
+  it('should hand out nothing until a pause ends', () => {
+    const bucket = new TokenBucket({ burst: 5, perSecond: 1 }, T0);
+    bucket.pauseUntil(T0 + 10_000, T0);
+    expect(bucket.take(T0 + 4000)).toBe(6000);
+    expect(bucket.take(T0 + 4000)).toBe(7000);
+
+    // An earlier Retry-After does not shorten the pause
+    bucket.pauseUntil(T0 + 5000, T0 + 4000);
+    expect(bucket.take(T0 + 4000)).toBe(8000);
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  StateAggregator,
+  InMemoryStateRollupStore,
+  InMemoryDeviceStateStore,
+  aggregateSamples,
+  numericValue,
+} from '../../src/alexa-api';
+import type { DeviceStateSnapshot } from '../../src/alexa-api';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+const PM25 = { namespace: 'Alexa.RangeController', name: 'rangeValue', instance: '4' };
+
+function at(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function reading(polledAt: number, pm25: number, celsius = 21): DeviceStateSnapshot {
+  return {
+    deviceId: 'aq-1',
+    deviceName: 'Air Monitor',
+    capabilities: [
+      { ...PM25, value: pm25 },
+      { namespace: 'Alexa.TemperatureSensor', name: 'temperature', value: { value: celsius, scale: 'CELSIUS' } },
+      { namespace: 'Alexa.EndpointHealth', name: 'connectivity', value: { value: 'OK' } },
+    ],
+    polledAt: at(polledAt),
+  };
+}
+
+describe('numericValue', () => {
+  it('should read numbers, numeric strings and { value } objects', () => {
+    expect(numericValue(12)).toBe(12);
+    expect(numericValue('4.5')).toBe(4.5);
+    expect(numericValue({ value: 21.5, scale: 'CELSIUS' })).toBe(21.5);
+    expect(numericValue('ON')).toBeNull();
+    expect(numericValue({ value: 'OK' })).toBeNull();
+    expect(numericValue(NaN)).toBeNull();
+    expect(numericValue(null)).toBeNull();
+  });
+});
+
+describe('aggregateSamples', () => {
+  it('should weight the average by time and count the value held at the bucket start', () => {
+    const points = aggregateSamples([
+      { at: NOW + 15 * MINUTE, value: 20 },
+      { at: NOW + 45 * MINUTE, value: 40 },
+    ], '1h', NOW, NOW + 2 * HOUR, 10);
+
+    expect(points).toEqual([
+      { bucketStart: at(NOW), min: 10, max: 40, avg: (10 * 15 + 20 * 30 + 40 * 15) / 60, last: 40, count: 2 },
+      { bucketStart: at(NOW + HOUR), min: 40, max: 40, avg: 40, last: 40, count: 0 },
+    ]);
+  });
+
+  it('should skip buckets before the first value and after the device was last seen', () => {
+    const points = aggregateSamples([{ at: NOW + 70 * MINUTE, value: 5 }], '1h', NOW, NOW + 4 * HOUR, null, NOW + 2.5 * HOUR);
+    expect(points.map((p) => [p.bucketStart, p.count])).toEqual([
+      [at(NOW + HOUR), 1],
+      [at(NOW + 2 * HOUR), 0],
+    ]);
+  });
+});
+
+describe('StateAggregator', () => {
+  let states: InMemoryDeviceStateStore;
+  let rollups: InMemoryStateRollupStore;
+  let onRollup: jest.Mock;
+  let onError: jest.Mock;
+  let aggregator: StateAggregator;
+
+  beforeEach(async () => {
+    states = new InMemoryDeviceStateStore();
+    rollups = new InMemoryStateRollupStore();
+    onRollup = jest.fn();
+    onError = jest.fn();
+    aggregator = new StateAggregator(states, rollups, { backfillMs: 2 * HOUR, onRollup, onError });
+
+    // PM2.5 every 10 minutes for three hours: 10, 11, ... 28
+    for (let i = 0; i <= 18; i++) {
+      await states.insert(reading(NOW - 3 * HOUR + i * 10 * MINUTE, 10 + i));
+    }
+  });
+
+  afterEach(() => {
+    aggregator.stop();
+  });
+
+  it('should aggregate raw history when nothing is rolled up', async () => {
+    const result = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '1h', startTime: at(NOW - 3 * HOUR) }, NOW);
+
+    expect(result).toMatchObject({
+      deviceId: 'aq-1',
+      deviceName: 'Air Monitor',
+      ...PM25,
+      bucket: '1h',
+      startTime: at(NOW - 3 * HOUR),
+      endTime: at(NOW),
+      rolledUpCount: 0,
+    });
+    expect(result.points.map(({ bucketStart, min, max, last, count }) => ({ bucketStart, min, max, last, count }))).toEqual([
+      { bucketStart: at(NOW - 3 * HOUR), min: 10, max: 15, last: 15, count: 6 },
+      { bucketStart: at(NOW - 2 * HOUR), min: 16, max: 21, last: 21, count: 6 },
+      { bucketStart: at(NOW - HOUR), min: 22, max: 27, last: 27, count: 6 },
+    ]);
+    expect(result.points[0].avg).toBeCloseTo(12.5);
+  });
+
+  it('should aggregate temperatures by their value', async () => {
+    const result = await aggregator.query({
+      deviceName: 'air monitor', namespace: 'Alexa.TemperatureSensor', name: 'temperature', bucket: '1d',
+    }, NOW);
+    expect(result.points).toEqual([{ bucketStart: at(NOW - 24 * HOUR), min: 21, max: 21, avg: 21, last: 21, count: 18 }]);
+  });
+
+  it('should roll up complete buckets and read them back', async () => {
+    const raw = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '5m', startTime: at(NOW - 2 * HOUR) }, NOW);
+
+    const result = await aggregator.rollup(NOW + 7 * MINUTE);
+    expect(result.rolledUpTo).toEqual({ '5m': at(NOW + 5 * MINUTE), '1h': at(NOW), '1d': at(Date.parse('2026-03-01T00:00:00.000Z')) });
+    expect(result.rollupCount).toBeGreaterThan(0);
+    expect(onRollup).toHaveBeenCalledWith(result);
+    expect(await rollups.getWatermark('5m')).toEqual({ from: at(NOW - 115 * MINUTE), to: at(NOW + 5 * MINUTE) });
+
+    const rolled = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '5m', startTime: at(NOW - 2 * HOUR) }, NOW);
+    // The first bucket predates the backfill and is read raw
+    expect(rolled.rolledUpCount).toBe(23);
+    expect(rolled.points).toEqual(raw.points);
+
+    // Every numeric series is rolled up; the connectivity object is not numeric
+    const temperature = await rollups.query(
+      { deviceId: 'aq-1', namespace: 'Alexa.TemperatureSensor', name: 'temperature' }, '1h', at(NOW - 2 * HOUR), at(NOW),
+    );
+    expect(temperature).toHaveLength(2);
+    expect(await rollups.query({ deviceId: 'aq-1', namespace: 'Alexa.EndpointHealth', name: 'connectivity' }, '1h', at(NOW - 3 * HOUR), at(NOW)))
+      .toEqual([]);
+  });
+
+  it('should continue from the watermark, carrying values across runs', async () => {
+    await aggregator.rollup(NOW);
+    await states.insert(reading(NOW + 90 * MINUTE, 50));
+    await aggregator.rollup(NOW + 2 * HOUR);
+
+    const result = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '1h', startTime: at(NOW - HOUR) }, NOW + 2 * HOUR);
+    expect(result.rolledUpCount).toBe(3);
+    expect(result.points.map(({ min, max, last, count }) => ({ min, max, last, count }))).toEqual([
+      { min: 22, max: 27, last: 27, count: 6 },
+      { min: 28, max: 28, last: 28, count: 1 },
+      { min: 28, max: 50, last: 50, count: 1 },
+    ]);
+    expect(result.points[2].avg).toBeCloseTo((28 * 30 + 50 * 30) / 60);
+  });
+
+  it('should read pruned ranges from raw history', async () => {
+    const raw = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '1h', startTime: at(NOW - 3 * HOUR) }, NOW);
+    await aggregator.rollup(NOW);
+
+    // One PM2.5 and one temperature rollup start before the cutoff
+    expect(await aggregator.prune('1h', at(NOW - 90 * MINUTE))).toBe(2);
+    expect(await rollups.getWatermark('1h')).toEqual({ from: at(NOW - HOUR), to: at(NOW) });
+
+    const result = await aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '1h', startTime: at(NOW - 3 * HOUR) }, NOW);
+    expect(result.rolledUpCount).toBe(1);
+    expect(result.points).toEqual(raw.points);
+  });
+
+  it('should share one run between concurrent rollups', async () => {
+    const [a, b] = await Promise.all([aggregator.rollup(NOW), aggregator.rollup(NOW)]);
+    expect(a).toBe(b);
+    expect(onRollup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject queries it cannot answer', async () => {
+    await expect(aggregator.query({ ...PM25 })).rejects.toThrow('deviceId or deviceName is required');
+    await expect(aggregator.query({ deviceId: 'nope', ...PM25 })).rejects.toThrow('No state history for device "nope"');
+    await expect(aggregator.query({ deviceId: 'aq-1', ...PM25, bucket: '2h' as never })).rejects.toThrow('Unknown bucket "2h"');
+    await expect(aggregator.query({ deviceId: 'aq-1', ...PM25, startTime: 'yesterday' })).rejects.toThrow('Invalid startTime "yesterday"');
+  });
+
+  it('should report failed rollups', async () => {
+    jest.spyOn(states, 'query').mockRejectedValue(new Error('disk full'));
+    await expect(aggregator.start()).rejects.toThrow('disk full');
+    expect(onError).toHaveBeenCalledWith(new Error('disk full'));
+    expect(aggregator.isRunning()).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { CookieApiDeviceBackend, DeviceController, DeviceRegistry, describeErrorResponse } from '../../src/devices';
+import type { AlexaApiClient } from '../../src/alexa-api';
+
+function makeApi() {
+  return {
+    getSmartHomeEndpoints: jest.fn(async () => [
+      {
+        endpointId: 'amzn1.alexa.endpoint.abc',
+        id: 'amzn1.alexa.endpoint.abc',
+        friendlyName: 'Lamp',
+        legacyAppliance: { applianceId: 'SKILL_lamp', entityId: 'entity-lamp' },
+      },
+    ]),
+    sendSmartHomeCommand: jest.fn(async () => {}),
+    getDeviceStates: jest.fn(async (ids: string[]) => ids.map((deviceId) => ({
+      deviceId,
+      capabilities: [{
+        namespace: 'Alexa.PowerController',
+        name: 'powerState',
+        value: 'ON',
+        timeOfSample: '2024-03-01T00:00:00.000Z',
+      }],
+      polledAt: new Date().toISOString(),
+    }))),
+  };
+}
+
+describe('CookieApiDeviceBackend', () => {
+  const controller = new DeviceController(new DeviceRegistry());
+  let api: ReturnType<typeof makeApi>;
+
+  beforeEach(() => {
+    api = makeApi();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send commands to the resolved entityId', async () => {
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    const response = await backend.handleDirective(
+      controller.buildDirective('amzn1.alexa.endpoint.abc', { action: 'set_brightness', brightness: 30 }, ''),
+    );
+
+    expect(response.event!.header.name).toBe('Response');
+    expect(api.sendSmartHomeCommand).toHaveBeenCalledWith({
+      entityId: 'entity-lamp',
+      command: { action: 'set_brightness', brightness: 30 },
+    });
+  });
+
+  it('should poll the applianceId for ReportState', async () => {
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient, { 'lamp-1': 'SKILL_lamp' });
+    const report = await backend.handleDirective(controller.buildReportStateDirective('lamp-1', ''));
+
+    expect(api.getDeviceStates).toHaveBeenCalledWith(['SKILL_lamp']);
+    const state = controller.parseStateReport(report);
+    expect(state!.endpointId).toBe('lamp-1');
+    expect(state!.properties[0]).toMatchObject({
+      namespace: 'Alexa.PowerController',
+      name: 'powerState',
+      value: 'ON',
+      timeOfSample: '2024-03-01T00:00:00.000Z',
+    });
+    // Just polled, so the value is confirmed as of now
+    expect(state!.properties[0].uncertaintyInMilliseconds).toBeLessThan(1000);
+  });
+
+  it('should fetch the endpoint list only once', async () => {
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    await backend.handleDirective(controller.buildReportStateDirective('SKILL_lamp', ''));
+    await backend.handleDirective(controller.buildReportStateDirective('amzn1.alexa.endpoint.abc', ''));
+    expect(api.getSmartHomeEndpoints).toHaveBeenCalledTimes(1);
+
+    backend.refresh();
+    await backend.handleDirective(controller.buildReportStateDirective('SKILL_lamp', ''));
+    expect(api.getSmartHomeEndpoints).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch the endpoint list again once it expires or misses an endpoint', async () => {
+    let now = Date.parse('2024-03-01T00:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient, undefined, { endpointCacheTtlMs: 10 * 60_000 });
+    await backend.handleDirective(controller.buildReportStateDirective('SKILL_lamp', ''));
+
+    // A device added on the account since
+    api.getSmartHomeEndpoints.mockResolvedValue([{
+      endpointId: 'amzn1.alexa.endpoint.fan',
+      id: 'amzn1.alexa.endpoint.fan',
+      friendlyName: 'Fan',
+      legacyAppliance: { applianceId: 'SKILL_fan', entityId: 'entity-fan' },
+    }]);
+    now += 30_000;
+    const early = await backend.handleDirective(controller.buildReportStateDirective('amzn1.alexa.endpoint.fan', ''));
+    expect(describeErrorResponse(early)).toContain('NO_SUCH_ENDPOINT');
+    expect(api.getSmartHomeEndpoints).toHaveBeenCalledTimes(1);
+
+    now += 60_000;
+    await backend.handleDirective(controller.buildReportStateDirective('amzn1.alexa.endpoint.fan', ''));
+    expect(api.getSmartHomeEndpoints).toHaveBeenCalledTimes(2);
+    expect(api.getDeviceStates).toHaveBeenLastCalledWith(['SKILL_fan']);
+
+    // Expired: the lamp was removed from the account
+    now += 10 * 60_000;
+    const removed = await backend.handleDirective(controller.buildReportStateDirective('SKILL_lamp', ''));
+    expect(api.getSmartHomeEndpoints).toHaveBeenCalledTimes(3);
+    expect(describeErrorResponse(removed)).toContain('NO_SUCH_ENDPOINT');
+  });
+
+  it('should reject endpoints that are not on the account', async () => {
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    const response = await backend.handleDirective(controller.buildDirective('unknown', { action: 'turn_on' }, ''));
+    expect(describeErrorResponse(response)).toContain('NO_SUCH_ENDPOINT');
+  });
+
+  it('should reject directives the account API cannot express', async () => {
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    const response = await backend.handleDirective(
+      controller.buildDirective('amzn1.alexa.endpoint.abc', { action: 'lock' }, ''),
+    );
+    expect(describeErrorResponse(response)).toContain('INVALID_DIRECTIVE');
+    expect(api.sendSmartHomeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should report failed commands as unreachable', async () => {
+    api.sendSmartHomeCommand.mockRejectedValueOnce(new Error('Alexa smart home command failed (500)'));
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    const response = await backend.handleDirective(
+      controller.buildDirective('amzn1.alexa.endpoint.abc', { action: 'turn_off' }, ''),
+    );
+    expect(describeErrorResponse(response)).toBe('ENDPOINT_UNREACHABLE: Alexa smart home command failed (500)');
+  });
+
+  it('should report a failed endpoint list fetch as unreachable, and fetch it again next time', async () => {
+    api.getSmartHomeEndpoints.mockRejectedValueOnce(new Error('Cookie expired'));
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient);
+    const directive = controller.buildDirective('amzn1.alexa.endpoint.abc', { action: 'turn_on' }, '');
+
+    const failed = await backend.handleDirective(directive);
+    expect(describeErrorResponse(failed)).toBe("ENDPOINT_UNREACHABLE: Could not list the account's endpoints: Cookie expired");
+
+    const retried = await backend.handleDirective(directive);
+    expect(retried.event!.header.name).toBe('Response');
+  });
+
+  it('should report a failed state poll as unreachable', async () => {
+    api.getDeviceStates.mockRejectedValueOnce(new Error('Alexa state request failed (503)'));
+    const backend = new CookieApiDeviceBackend(api as unknown as AlexaApiClient, { 'lamp-1': 'SKILL_lamp' });
+    const report = await backend.handleDirective(controller.buildReportStateDirective('lamp-1', ''));
+    expect(describeErrorResponse(report)).toBe('ENDPOINT_UNREACHABLE: Alexa state request failed (503)');
+  });
+});
@@ -33,6 +33,7 @@ describe('DeviceRegistry', () => {
   it('should start empty', () => {
     expect(registry.size).toBe(0);
     expect(registry.list()).toEqual([]);
+    expect(registry.isLoaded()).toBe(false);
   });
 
   it('should set all devices at once', () => {
@@ -40,6 +41,7 @@ describe('DeviceRegistry', () => {
     registry.setAll(devices);
     expect(registry.size).toBe(3);
     expect(registry.list()).toHaveLength(3);
+    expect(registry.isLoaded()).toBe(true);
   });
 
   it('should get a device by endpoint ID', () => {
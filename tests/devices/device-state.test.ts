@@ -0,0 +1,96 @@
+import { capabilityToPropertyState, mergePropertyStates, propertyStateToCapability, isProactivelyReported } from '../../src/devices';
+import type { DiscoveredDevice } from '../../src/types/alexa';
+
+describe('device state helpers', () => {
+  const now = new Date('2024-03-01T12:00:00.000Z');
+
+  describe('capabilityToPropertyState', () => {
+    it('should measure uncertainty from the poll time', () => {
+      const property = capabilityToPropertyState(
+        { namespace: 'Alexa.PowerController', name: 'powerState', value: 'ON', timeOfSample: '2024-03-01T11:00:00.000Z' },
+        '2024-03-01T11:59:00.000Z',
+        now,
+      );
+      expect(property).toEqual({
+        namespace: 'Alexa.PowerController',
+        name: 'powerState',
+        value: 'ON',
+        timeOfSample: '2024-03-01T11:00:00.000Z',
+        uncertaintyInMilliseconds: 60_000,
+      });
+    });
+
+    it('should fall back to the poll time as the sample time and keep instances', () => {
+      const property = capabilityToPropertyState(
+        { namespace: 'Alexa.RangeController', name: 'rangeValue', value: 3, instance: 'Fan.Speed' },
+        '2024-03-01T12:00:00.000Z',
+        now,
+      );
+      expect(property.timeOfSample).toBe('2024-03-01T12:00:00.000Z');
+      expect(property.instance).toBe('Fan.Speed');
+      expect(propertyStateToCapability(property)).toEqual({
+        namespace: 'Alexa.RangeController',
+        name: 'rangeValue',
+        value: 3,
+        instance: 'Fan.Speed',
+        timeOfSample: '2024-03-01T12:00:00.000Z',
+      });
+    });
+  });
+
+  describe('mergePropertyStates', () => {
+    const cached = [
+      { namespace: 'Alexa.PowerController', name: 'powerState', value: 'OFF', timeOfSample: '2024-03-01T10:00:00.000Z', uncertaintyInMilliseconds: 7_200_000 },
+      { namespace: 'Alexa.BrightnessController', name: 'brightness', value: 20, timeOfSample: '2024-03-01T10:00:00.000Z', uncertaintyInMilliseconds: 7_200_000 },
+    ];
+    const live = [
+      { namespace: 'Alexa.PowerController', name: 'powerState', value: 'ON', timeOfSample: '2024-03-01T11:59:59.000Z', uncertaintyInMilliseconds: 0 },
+    ];
+
+    it('should let live values replace cached ones and keep the rest', () => {
+      const { properties, readings } = mergePropertyStates(cached, live, now);
+
+      expect(properties.map((p) => p.value)).toEqual(['ON', 20]);
+      expect(readings).toEqual([
+        { namespace: 'Alexa.PowerController', name: 'powerState', source: 'live', sampleAgeMs: 1000, uncertaintyInMilliseconds: 0 },
+        { namespace: 'Alexa.BrightnessController', name: 'brightness', source: 'cache', sampleAgeMs: 7_200_000, uncertaintyInMilliseconds: 7_200_000 },
+      ]);
+    });
+
+    it('should treat instances as distinct properties', () => {
+      const { properties } = mergePropertyStates(
+        [{ namespace: 'Alexa.ToggleController', name: 'toggleState', instance: 'A', value: 'ON', timeOfSample: now.toISOString(), uncertaintyInMilliseconds: 0 }],
+        [{ namespace: 'Alexa.ToggleController', name: 'toggleState', instance: 'B', value: 'OFF', timeOfSample: now.toISOString(), uncertaintyInMilliseconds: 0 }],
+        now,
+      );
+      expect(properties).toHaveLength(2);
+    });
+  });
+
+  describe('isProactivelyReported', () => {
+    const fan: DiscoveredDevice = {
+      endpointId: 'fan-1',
+      manufacturerName: 'Test',
+      description: 'Fan',
+      friendlyName: 'Fan',
+      displayCategories: ['FAN'],
+      capabilities: [
+        {
+          type: 'AlexaInterface', interface: 'Alexa.PowerController', version: '3',
+          properties: { supported: [{ name: 'powerState' }], proactivelyReported: true, retrievable: true },
+        },
+        {
+          type: 'AlexaInterface', interface: 'Alexa.RangeController', version: '3', instance: 'Fan.Speed',
+          properties: { supported: [{ name: 'rangeValue' }], proactivelyReported: false, retrievable: true },
+        },
+      ],
+    };
+
+    it('should follow the declaration of the property\'s capability', () => {
+      expect(isProactivelyReported(fan, { namespace: 'Alexa.PowerController', name: 'powerState' })).toBe(true);
+      expect(isProactivelyReported(fan, { namespace: 'Alexa.RangeController', name: 'rangeValue', instance: 'Fan.Speed' })).toBe(false);
+      expect(isProactivelyReported(fan, { namespace: 'Alexa.PowerController', name: 'powerLevel' })).toBe(false);
+      expect(isProactivelyReported(fan, { namespace: 'Alexa.BrightnessController', name: 'brightness' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { DiscoverySync, DeviceRegistry, InMemoryDiscoveryStateStore, fingerprintEndpoint } from '../../src/devices';
+import { EventLogger, InMemoryEventStore } from '../../src/events';
+import type { EventGatewayClient } from '../../src/events';
+import type { AuthManager } from '../../src/auth';
+import type { DiscoveredDevice } from '../../src/types/alexa';
+
+function device(endpointId: string, friendlyName = endpointId): DiscoveredDevice {
+  return {
+    endpointId,
+    manufacturerName: 'Test',
+    description: 'Test device',
+    friendlyName,
+    displayCategories: ['LIGHT'],
+    capabilities: [{ type: 'AlexaInterface', interface: 'Alexa.PowerController', version: '3' }],
+  };
+}
+
+describe('DiscoverySync', () => {
+  let endpoints: DiscoveredDevice[];
+  let store: InMemoryDiscoveryStateStore;
+  let registry: DeviceRegistry;
+  let eventStore: InMemoryEventStore;
+  let sendAddOrUpdateReport: jest.Mock;
+  let sendDeleteReport: jest.Mock;
+  let sync: DiscoverySync;
+
+  beforeEach(() => {
+    endpoints = [device('light-1'), device('plug-1')];
+    store = new InMemoryDiscoveryStateStore();
+    registry = new DeviceRegistry();
+    eventStore = new InMemoryEventStore();
+    sendAddOrUpdateReport = jest.fn().mockResolvedValue(undefined);
+    sendDeleteReport = jest.fn().mockResolvedValue(undefined);
+    sync = new DiscoverySync(
+      { sendAddOrUpdateReport, sendDeleteReport } as unknown as EventGatewayClient,
+      { getAccessToken: jest.fn().mockResolvedValue('token-1') } as unknown as AuthManager,
+      new EventLogger(eventStore),
+      store,
+      registry,
+      { userId: 'user-1', getEndpoints: async () => endpoints },
+    );
+  });
+
+  it('should report every endpoint on the first sync', async () => {
+    const result = await sync.sync();
+
+    expect(result).toEqual({ added: ['light-1', 'plug-1'], updated: [], removed: [], unchanged: 0, dryRun: false });
+    expect(sendAddOrUpdateReport).toHaveBeenCalledWith({ accessToken: 'token-1', endpoints });
+    expect(sendDeleteReport).not.toHaveBeenCalled();
+    expect(registry.has('plug-1')).toBe(true);
+    expect((await store.list('user-1')).map((e) => e.endpointId)).toEqual(['light-1', 'plug-1']);
+
+    const events = await eventStore.query({ eventType: 'AddOrUpdateReportSent' });
+    expect(events.events[0].payload.count).toBe(2);
+  });
+
+  it('should send nothing when the set is unchanged', async () => {
+    await sync.sync();
+    sendAddOrUpdateReport.mockClear();
+
+    const result = await sync.sync();
+
+    expect(result).toMatchObject({ added: [], updated: [], removed: [], unchanged: 2 });
+    expect(sendAddOrUpdateReport).not.toHaveBeenCalled();
+  });
+
+  it('should report changed and removed endpoints', async () => {
+    await sync.sync();
+    registry.upsert(device('plug-1'));
+    endpoints = [device('light-1', 'Desk Lamp'), device('fan-1')];
+
+    const result = await sync.sync();
+
+    expect(result).toMatchObject({ added: ['fan-1'], updated: ['light-1'], removed: ['plug-1'], unchanged: 0 });
+    expect(sendAddOrUpdateReport.mock.calls[1][0].endpoints.map((d: DiscoveredDevice) => d.endpointId))
+      .toEqual(['fan-1', 'light-1']);
+    expect(sendDeleteReport).toHaveBeenCalledWith({ accessToken: 'token-1', endpointIds: ['plug-1'] });
+    expect(registry.has('plug-1')).toBe(false);
+  });
+
+  it('should only compute the diff on a dry run', async () => {
+    const result = await sync.sync(true);
+
+    expect(result).toMatchObject({ added: ['light-1', 'plug-1'], dryRun: true });
+    expect(sendAddOrUpdateReport).not.toHaveBeenCalled();
+    expect(await store.list('user-1')).toEqual([]);
+  });
+
+  it('should leave rejected endpoints unacknowledged', async () => {
+    sendAddOrUpdateReport.mockRejectedValueOnce(new Error('Event Gateway returned 403: forbidden'));
+
+    await expect(sync.sync()).rejects.toThrow('403');
+    expect(await store.list('user-1')).toEqual([]);
+
+    const result = await sync.sync();
+    expect(result.added).toEqual(['light-1', 'plug-1']);
+  });
+
+  it('should treat an acknowledged Discover as the baseline', async () => {
+    await sync.acknowledge([device('light-1'), device('lock-1')]);
+
+    const result = await sync.sync();
+
+    expect(result).toMatchObject({ added: ['plug-1'], removed: ['lock-1'], unchanged: 1 });
+  });
+
+  it('should send nothing before the endpoints are loaded', async () => {
+    await sync.acknowledge([device('light-1')]);
+    const notLoaded = new DiscoverySync(
+      { sendAddOrUpdateReport, sendDeleteReport } as unknown as EventGatewayClient,
+      { getAccessToken: jest.fn() } as unknown as AuthManager,
+      new EventLogger(eventStore),
+      store,
+      registry,
+      { userId: 'user-1', getEndpoints: async () => null },
+    );
+
+    await expect(notLoaded.sync()).rejects.toThrow('not loaded yet');
+    expect(sendDeleteReport).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to delete every endpoint when the source is empty', async () => {
+    await sync.sync();
+    endpoints = [];
+
+    await expect(sync.sync()).rejects.toThrow('refusing to delete all 2 endpoints Alexa knows');
+    expect(sendDeleteReport).not.toHaveBeenCalled();
+    expect(await store.list('user-1')).toHaveLength(2);
+    expect(await sync.sync(true)).toMatchObject({ removed: ['light-1', 'plug-1'], dryRun: true });
+  });
+
+  describe('fingerprintEndpoint', () => {
+    it('should ignore key order', () => {
+      const d = device('light-1');
+      const reordered = Object.fromEntries(Object.entries(d).reverse()) as unknown as DiscoveredDevice;
+      expect(fingerprintEndpoint(reordered)).toBe(fingerprintEndpoint(d));
+      expect(fingerprintEndpoint(device('light-1', 'Other'))).not.toBe(fingerprintEndpoint(d));
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { DeviceController, DeviceRegistry, SimulatedDeviceBackend, describeErrorResponse } from '../../src/devices';
+
+describe('SimulatedDeviceBackend', () => {
+  let backend: SimulatedDeviceBackend;
+  let controller: DeviceController;
+
+  beforeEach(() => {
+    backend = new SimulatedDeviceBackend({
+      'light-1': [{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'OFF' }],
+    });
+    controller = new DeviceController(new DeviceRegistry());
+  });
+
+  it('should apply a control directive and report the new state', async () => {
+    const response = await backend.handleDirective(
+      controller.buildDirective('light-1', { action: 'set_brightness', brightness: 40 }, 'token'),
+    );
+    expect(response.event!.header.name).toBe('Response');
+    expect(response.event!.header.correlationToken).toBeTruthy();
+
+    await backend.handleDirective(controller.buildDirective('light-1', { action: 'turn_on' }, 'token'));
+    const report = await backend.handleDirective(controller.buildReportStateDirective('light-1', 'token'));
+    const state = controller.parseStateReport(report);
+
+    expect(state!.endpointId).toBe('light-1');
+    const values = Object.fromEntries(state!.properties.map((p) => [p.name, p.value]));
+    expect(values).toEqual({ powerState: 'ON', brightness: 40 });
+  });
+
+  it('should record every directive it receives', async () => {
+    await backend.handleDirective(controller.buildDirective('light-1', { action: 'lock' }, 'token'));
+    expect(backend.received).toHaveLength(1);
+    expect(backend.getProperties('light-1').find((p) => p.name === 'lockState')!.value).toBe('LOCKED');
+  });
+
+  it('should reject unknown endpoints', async () => {
+    const response = await backend.handleDirective(controller.buildDirective('nope', { action: 'turn_on' }, 'token'));
+    expect(describeErrorResponse(response)).toBe('NO_SUCH_ENDPOINT: Endpoint nope does not exist');
+  });
+
+  it('should reject out-of-range values', async () => {
+    const response = await backend.handleDirective(
+      controller.buildDirective('light-1', { action: 'set_percentage', percentage: 150 }, 'token'),
+    );
+    expect(describeErrorResponse(response)).toContain('INVALID_VALUE');
+    expect(backend.getProperties('light-1')).toHaveLength(1);
+  });
+
+  it('should reject directives it does not understand', async () => {
+    const message = controller.buildDirective('light-1', { action: 'turn_on' }, 'token');
+    message.directive!.header.namespace = 'Alexa.ModeController';
+    message.directive!.header.name = 'SetMode';
+
+    const response = await backend.handleDirective(message);
+    expect(describeErrorResponse(response)).toBe('INVALID_DIRECTIVE: Unsupported directive Alexa.ModeController.SetMode');
+  });
+
+  it('should reflect external property changes', async () => {
+    backend.setProperty('light-1', 'Alexa.PowerController', 'powerState', 'ON');
+    const report = await backend.handleDirective(controller.buildReportStateDirective('light-1', 'token'));
+    expect(report.context!.properties[0].value).toBe('ON');
+  });
+});
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuid } from 'uuid';
+import {
+  DeviceController,
+  DeviceRegistry,
+  VirtualDeviceSimulator,
+  loadVirtualDevices,
+  parseVirtualDevices,
+  describeErrorResponse,
+} from '../../src/devices';
+import { AuthManager } from '../../src/auth';
+import { InMemoryTokenStore } from '../../src/auth/token-store';
+import { EventLogger, InMemoryEventStore } from '../../src/events';
+import { createHandler } from '../../src/lambda';
+import { loadConfig } from '../../src/config';
+import type { AlexaMessage } from '../../src/types/alexa';
+import type { VirtualDeviceDefinition } from '../../src/devices';
+
+const DEVICES: VirtualDeviceDefinition[] = [
+  {
+    endpointId: 'virtual-lamp',
+    friendlyName: 'Desk Lamp',
+    displayCategory: 'LIGHT',
+    capabilities: ['Alexa.PowerController', 'Alexa.BrightnessController', 'Alexa.EndpointHealth'],
+    state: { brightness: 40 },
+  },
+  {
+    endpointId: 'virtual-thermostat',
+    friendlyName: 'Hallway Thermostat',
+    displayCategory: 'THERMOSTAT',
+    capabilities: ['Alexa.ThermostatController', 'Alexa.TemperatureSensor'],
+  },
+];
+
+function directive(namespace: string, name: string, endpointId: string, payload: Record<string, unknown> = {}): AlexaMessage {
+  return {
+    directive: {
+      header: { namespace, name, messageId: uuid(), correlationToken: 'corr-1', payloadVersion: '3' },
+      endpoint: { endpointId, scope: { type: 'BearerToken', token: 'token' } },
+      payload,
+    },
+  };
+}
+
+function propertyValue(message: AlexaMessage, name: string): unknown {
+  return message.context!.properties.find((p) => p.name === name)?.value;
+}
+
+describe('parseVirtualDevices', () => {
+  it('should accept a devices object or a bare array', () => {
+    expect(parseVirtualDevices({ devices: DEVICES })).toHaveLength(2);
+    expect(parseVirtualDevices(DEVICES)).toHaveLength(2);
+  });
+
+  it.each([
+    [{}, 'must contain a "devices" array'],
+    [[{ friendlyName: 'x', displayCategory: 'LIGHT', capabilities: ['Alexa.PowerController'] }], 'devices[0]: endpointId is required'],
+    [[{ endpointId: 'a', friendlyName: 'x', displayCategory: 'TOASTER', capabilities: ['Alexa.PowerController'] }], 'invalid displayCategory "TOASTER"'],
+    [[{ endpointId: 'a', friendlyName: 'x', displayCategory: 'LIGHT', capabilities: ['Alexa.ModeController'] }], 'unsupported capability "Alexa.ModeController"'],
+    [[{ endpointId: 'a', friendlyName: 'x', displayCategory: 'LIGHT', capabilities: ['Alexa.PowerController'], state: { volume: 3 } }], 'state "volume" is not a property'],
+  ])('should reject invalid definitions (%#)', (doc, message) => {
+    expect(() => parseVirtualDevices(doc)).toThrow(message);
+  });
+
+  it('should reject duplicate endpoint ids', () => {
+    expect(() => new VirtualDeviceSimulator([DEVICES[0], DEVICES[0]])).toThrow('Duplicate virtual device endpointId');
+  });
+});
+
+describe('loadVirtualDevices', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'virtual-devices-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a JSON file', () => {
+    const file = path.join(dir, 'devices.json');
+    fs.writeFileSync(file, JSON.stringify({ devices: DEVICES }));
+    expect(loadVirtualDevices(file).discover().map((d) => d.endpointId)).toEqual(['virtual-lamp', 'virtual-thermostat']);
+  });
+
+  it('should load a YAML file', () => {
+    const file = path.join(dir, 'devices.yaml');
+    fs.writeFileSync(file, [
+      'devices:',
+      '  - endpointId: yaml-plug',
+      '    friendlyName: Kettle',
+      '    displayCategory: SMARTPLUG',
+      '    capabilities: [Alexa.PowerController]',
+      '    state:',
+      '      powerState: "ON"',
+    ].join('\n'));
+
+    const simulator = loadVirtualDevices(file);
+    expect(simulator.getBackend().getProperties('yaml-plug')[0].value).toBe('ON');
+  });
+
+  it('should load the YAML fixture', () => {
+    const simulator = loadVirtualDevices(path.join(__dirname, 'fixtures', 'virtual-devices.yml'));
+
+    expect(simulator.discover().map((d) => d.endpointId)).toEqual(['fixture-lamp', 'fixture-door']);
+    const lamp = simulator.getBackend().getProperties('fixture-lamp');
+    expect(lamp.find((p) => p.name === 'brightness')?.value).toBe(75);
+    const door = simulator.getBackend().getProperties('fixture-door');
+    expect(door.find((p) => p.name === 'detectionState')?.value).toBe('NOT_DETECTED');
+  });
+});
+
+describe('VirtualDeviceSimulator', () => {
+  let simulator: VirtualDeviceSimulator;
+
+  beforeEach(() => {
+    simulator = new VirtualDeviceSimulator(DEVICES);
+  });
+
+  it('should describe devices for discovery', () => {
+    const [lamp] = simulator.discover();
+    expect(lamp.displayCategories).toEqual(['LIGHT']);
+    expect(lamp.capabilities.map((c) => c.interface)).toEqual([
+      'Alexa', 'Alexa.PowerController', 'Alexa.BrightnessController', 'Alexa.EndpointHealth',
+    ]);
+    expect(lamp.capabilities[1].properties).toEqual({ supported: [{ name: 'powerState' }], proactivelyReported: true, retrievable: true });
+  });
+
+  it('should start devices with declared state over defaults', async () => {
+    const report = await simulator.handleDirective(directive('Alexa', 'ReportState', 'virtual-lamp'));
+    expect(report.event!.header.name).toBe('StateReport');
+    expect(report.event!.header.correlationToken).toBe('corr-1');
+    expect(propertyValue(report, 'powerState')).toBe('OFF');
+    expect(propertyValue(report, 'brightness')).toBe(40);
+    expect(propertyValue(report, 'connectivity')).toEqual({ value: 'OK' });
+  });
+
+  it('should apply adjust directives relative to current state', async () => {
+    await simulator.handleDirective(directive('Alexa.BrightnessController', 'AdjustBrightness', 'virtual-lamp', { brightnessDelta: 75 }));
+    expect(propertyValue(
+      await simulator.handleDirective(directive('Alexa', 'ReportState', 'virtual-lamp')),
+      'brightness',
+    )).toBe(100);
+
+    const response = await simulator.handleDirective(directive(
+      'Alexa.ThermostatController', 'AdjustTargetTemperature', 'virtual-thermostat',
+      { targetSetpointDelta: { value: -2, scale: 'CELSIUS' } },
+    ));
+    expect(propertyValue(response, 'targetSetpoint')).toEqual({ value: 18, scale: 'CELSIUS' });
+  });
+
+  it('should reject interfaces the device did not declare', async () => {
+    const response = await simulator.handleDirective(directive('Alexa.LockController', 'Lock', 'virtual-lamp'));
+    expect(describeErrorResponse(response)).toBe('INVALID_DIRECTIVE: Desk Lamp does not support Alexa.LockController');
+  });
+});
+
+describe('skill handler with virtual devices', () => {
+  it('should serve Discover, control and ReportState end-to-end', async () => {
+    const config = loadConfig({ skillId: 'test-skill', storageBackend: 'memory' });
+    const registry = new DeviceRegistry();
+    const simulator = new VirtualDeviceSimulator(DEVICES);
+    const handler = createHandler({
+      config,
+      auth: new AuthManager(config, new InMemoryTokenStore()),
+      deviceRegistry: registry,
+      deviceController: new DeviceController(registry),
+      eventLogger: new EventLogger(new InMemoryEventStore()),
+      onDeviceDirective: (message) => simulator.handleDirective(message),
+      onDiscover: async () => simulator.discover(),
+    });
+
+    const discovery = await handler(directive('Alexa.Discovery', 'Discover', 'n/a'));
+    expect((discovery.event!.payload as any).endpoints).toHaveLength(2);
+    expect(registry.has('virtual-thermostat')).toBe(true);
+
+    const response = await handler(directive(
+      'Alexa.ThermostatController', 'SetTargetTemperature', 'virtual-thermostat',
+      { targetSetpoint: { value: 22, scale: 'CELSIUS' }, thermostatMode: { value: 'HEAT' } },
+    ));
+    expect(response.event!.header.name).toBe('Response');
+    expect(propertyValue(response, 'thermostatMode')).toBe('HEAT');
+
+    const report = await handler(directive('Alexa', 'ReportState', 'virtual-thermostat'));
+    expect(propertyValue(report, 'targetSetpoint')).toEqual({ value: 22, scale: 'CELSIUS' });
+  });
+});
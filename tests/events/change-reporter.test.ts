@@ -0,0 +1,147 @@
+import { ChangeReporter, EventLogger, InMemoryEventStore } from '../../src/events';
+import type { EventGatewayClient } from '../../src/events';
+import type { AuthManager } from '../../src/auth';
+import type { AlexaPropertyState } from '../../src/types/alexa';
+
+function prop(namespace: string, name: string, value: unknown): AlexaPropertyState {
+  return { namespace, name, value, timeOfSample: new Date().toISOString(), uncertaintyInMilliseconds: 0 };
+}
+
+describe('ChangeReporter', () => {
+  let store: InMemoryEventStore;
+  let sendChangeReport: jest.Mock;
+  let getAccessToken: jest.Mock;
+  let reporter: ChangeReporter;
+
+  function createReporter(options: Partial<ConstructorParameters<typeof ChangeReporter>[3]> = {}) {
+    return new ChangeReporter(
+      { sendChangeReport } as unknown as EventGatewayClient,
+      { getAccessToken } as unknown as AuthManager,
+      new EventLogger(store),
+      { userId: 'user-1', isReportable: (id) => id !== 'echo-1', ...options },
+    );
+  }
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+    sendChangeReport = jest.fn().mockResolvedValue(undefined);
+    getAccessToken = jest.fn().mockResolvedValue('token-1');
+    reporter = createReporter();
+  });
+
+  afterEach(() => {
+    reporter.stop();
+    jest.useRealTimers();
+  });
+
+  it('should report changed properties with the rest as context', async () => {
+    reporter.recordState('light-1', [
+      prop('Alexa.PowerController', 'powerState', 'OFF'),
+      prop('Alexa.BrightnessController', 'brightness', 40),
+    ]);
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'PHYSICAL_INTERACTION');
+
+    expect(sendChangeReport).toHaveBeenCalledTimes(1);
+    const params = sendChangeReport.mock.calls[0][0];
+    expect(params.accessToken).toBe('token-1');
+    expect(params.endpointId).toBe('light-1');
+    expect(params.cause).toBe('PHYSICAL_INTERACTION');
+    expect(params.changedProperties).toEqual([expect.objectContaining({ name: 'powerState', value: 'ON' })]);
+    expect(params.contextProperties).toEqual([expect.objectContaining({ name: 'brightness', value: 40 })]);
+
+    const events = await store.query({ eventType: 'ChangeReportSent' });
+    expect(events.events[0].payload.changed).toEqual(['Alexa.PowerController.powerState']);
+  });
+
+  it('should not report unchanged state or unreportable endpoints', async () => {
+    reporter.recordState('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')]);
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'PERIODIC_POLL');
+    await reporter.report('echo-1', [prop('Alexa.Speaker', 'volume', 10)], 'PHYSICAL_INTERACTION');
+
+    expect(sendChangeReport).not.toHaveBeenCalled();
+  });
+
+  it('should only report properties declared proactively reported', async () => {
+    reporter = createReporter({ isProactivelyReported: (_id, p) => p.name === 'powerState' });
+    reporter.recordState('light-1', [
+      prop('Alexa.PowerController', 'powerState', 'OFF'),
+      prop('Alexa.BrightnessController', 'brightness', 40),
+    ]);
+
+    await reporter.report('light-1', [prop('Alexa.BrightnessController', 'brightness', 60)], 'PHYSICAL_INTERACTION');
+    expect(sendChangeReport).not.toHaveBeenCalled();
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'PHYSICAL_INTERACTION');
+    expect(sendChangeReport.mock.calls[0][0].changedProperties).toEqual([expect.objectContaining({ name: 'powerState' })]);
+    expect(sendChangeReport.mock.calls[0][0].contextProperties).toEqual([expect.objectContaining({ name: 'brightness', value: 60 })]);
+  });
+
+  it('should only record the first poll of an endpoint without a baseline', async () => {
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'PERIODIC_POLL');
+    expect(sendChangeReport).not.toHaveBeenCalled();
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'OFF')], 'PERIODIC_POLL');
+    expect(sendChangeReport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should diff against stored state the first time', async () => {
+    reporter = createReporter({
+      getStoredState: async () => [prop('Alexa.PowerController', 'powerState', 'OFF')],
+    });
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'PERIODIC_POLL');
+
+    expect(sendChangeReport).toHaveBeenCalledTimes(1);
+    expect(sendChangeReport.mock.calls[0][0].cause).toBe('PERIODIC_POLL');
+  });
+
+  it('should retry failed sends with backoff', async () => {
+    jest.useFakeTimers();
+    sendChangeReport.mockRejectedValueOnce(new Error('Event Gateway error 503'));
+    reporter.recordState('light-1', [prop('Alexa.PowerController', 'powerState', 'OFF')]);
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'APP_INTERACTION');
+
+    const outbox = reporter.getOutbox();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].attempts).toBe(1);
+    expect(outbox[0].lastError).toBe('Event Gateway error 503');
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(sendChangeReport).toHaveBeenCalledTimes(2);
+    expect(reporter.getOutbox()).toHaveLength(0);
+  });
+
+  it('should drop a report after maxAttempts', async () => {
+    reporter = createReporter({ maxAttempts: 2 });
+    getAccessToken.mockRejectedValue(new Error('No tokens'));
+    reporter.recordState('light-1', [prop('Alexa.PowerController', 'powerState', 'OFF')]);
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'APP_INTERACTION');
+    await reporter.flush();
+
+    expect(reporter.getOutbox()).toHaveLength(0);
+    const dropped = await store.query({ eventType: 'ChangeReportDropped' });
+    expect(dropped.events[0].payload).toMatchObject({ attempts: 2, error: 'No tokens' });
+  });
+
+  it('should fold a pending report into a newer one for the same endpoint', async () => {
+    sendChangeReport.mockRejectedValueOnce(new Error('offline'));
+    reporter.recordState('light-1', [
+      prop('Alexa.PowerController', 'powerState', 'OFF'),
+      prop('Alexa.BrightnessController', 'brightness', 40),
+    ]);
+
+    await reporter.report('light-1', [prop('Alexa.PowerController', 'powerState', 'ON')], 'APP_INTERACTION');
+    await reporter.report('light-1', [prop('Alexa.BrightnessController', 'brightness', 80)], 'PHYSICAL_INTERACTION');
+
+    expect(reporter.getOutbox()).toHaveLength(0);
+    const params = sendChangeReport.mock.calls[1][0];
+    expect(params.cause).toBe('PHYSICAL_INTERACTION');
+    expect(params.changedProperties.map((p: AlexaPropertyState) => p.name).sort()).toEqual(['brightness', 'powerState']);
+    expect(params.contextProperties).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { parseCron, isValidCron, nextFireTime, nextFireTimes } from '../../src/routines/cron';
+
+describe('parseCron', () => {
+  it('should parse a 5-field expression with seconds defaulting to 0', () => {
+    const s = parseCron('30 22 * * *');
+    expect(Array.from(s.seconds)).toEqual([0]);
+    expect(Array.from(s.minutes)).toEqual([30]);
+    expect(Array.from(s.hours)).toEqual([22]);
+    expect(s.timezone).toBe('UTC');
+  });
+
+  it('should parse a 6-field expression with seconds', () => {
+    const s = parseCron('15 0 8 * * *');
+    expect(Array.from(s.seconds)).toEqual([15]);
+    expect(Array.from(s.minutes)).toEqual([0]);
+  });
+
+  it('should parse lists, ranges, steps and names', () => {
+    const s = parseCron('*/15 9-17 * JAN,JUL MON-FRI');
+    expect(Array.from(s.minutes)).toEqual([0, 15, 30, 45]);
+    expect(s.hours.size).toBe(9);
+    expect(Array.from(s.months)).toEqual([1, 7]);
+    expect(Array.from(s.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    const s = parseCron('0 0 * * 7');
+    expect(Array.from(s.daysOfWeek)).toEqual([0]);
+  });
+
+  it('should expand macros', () => {
+    const s = parseCron('@daily');
+    expect(Array.from(s.hours)).toEqual([0]);
+    expect(Array.from(s.minutes)).toEqual([0]);
+  });
+
+  it('should read a CRON_TZ prefix', () => {
+    const s = parseCron('CRON_TZ=America/New_York 0 7 * * *');
+    expect(s.timezone).toBe('America/New_York');
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('0 25 * * *')).toThrow('out of range');
+    expect(() => parseCron('0 * *')).toThrow('expected 5 or 6 fields');
+    expect(() => parseCron('@sometimes')).toThrow('unknown macro');
+    expect(() => parseCron('*/0 * * * *')).toThrow('bad step');
+    expect(() => parseCron('0 0 * * *', 'Mars/Olympus')).toThrow('Invalid timezone');
+  });
+
+  it('should report validity without throwing', () => {
+    expect(isValidCron('0 22 * * *')).toBe(true);
+    expect(isValidCron('not a cron')).toBe(false);
+  });
+});
+
+describe('nextFireTime', () => {
+  it('should find the next daily run', () => {
+    const s = parseCron('0 22 * * *');
+    const next = nextFireTime(s, new Date('2024-03-01T10:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-01T22:00:00.000Z');
+  });
+
+  it('should be strictly after the reference time', () => {
+    const s = parseCron('0 22 * * *');
+    const next = nextFireTime(s, new Date('2024-03-01T22:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-02T22:00:00.000Z');
+  });
+
+  it('should honour seconds', () => {
+    const s = parseCron('*/20 * * * * *');
+    const runs = nextFireTimes(s, new Date('2024-03-01T10:00:05Z'), 3);
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      '2024-03-01T10:00:20.000Z',
+      '2024-03-01T10:00:40.000Z',
+      '2024-03-01T10:01:00.000Z',
+    ]);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month OR any Monday
+    const s = parseCron('0 0 1 * MON');
+    const runs = nextFireTimes(s, new Date('2024-04-26T00:00:00Z'), 3);
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      '2024-04-29T00:00:00.000Z', // Monday
+      '2024-05-01T00:00:00.000Z', // 1st
+      '2024-05-06T00:00:00.000Z', // Monday
+    ]);
+  });
+
+  it('should skip to leap day', () => {
+    const s = parseCron('0 12 29 2 *');
+    const next = nextFireTime(s, new Date('2023-03-01T00:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-02-29T12:00:00.000Z');
+  });
+
+  it('should return null for impossible schedules', () => {
+    const s = parseCron('0 0 30 2 *');
+    expect(nextFireTime(s, new Date('2024-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('should evaluate in the schedule timezone', () => {
+    const s = parseCron('0 7 * * *', 'America/New_York');
+    // EST (UTC-5) in January
+    expect(nextFireTime(s, new Date('2024-01-10T00:00:00Z'))!.toISOString())
+      .toBe('2024-01-10T12:00:00.000Z');
+    // EDT (UTC-4) in July
+    expect(nextFireTime(s, new Date('2024-07-10T00:00:00Z'))!.toISOString())
+      .toBe('2024-07-10T11:00:00.000Z');
+  });
+
+  it('should skip wall-clock times that fall in a DST gap', () => {
+    // 02:30 does not exist in New York on 2024-03-10
+    const s = parseCron('30 2 * * *', 'America/New_York');
+    const next = nextFireTime(s, new Date('2024-03-10T05:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-11T06:30:00.000Z');
+  });
+
+  it('should fire once for a repeated wall-clock time', () => {
+    // 01:30 happens twice in New York on 2024-11-03
+    const s = parseCron('30 1 * * *', 'America/New_York');
+    const runs = nextFireTimes(s, new Date('2024-11-03T04:00:00Z'), 2);
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      '2024-11-03T05:30:00.000Z',
+      '2024-11-04T06:30:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+import { RoutineExecutor, MAX_ROUTINE_DEPTH } from '../../src/routines';
+import type { StoredRoutine, RoutineExecutorHooks } from '../../src/routines';
+import type { RoutineActionStep } from '../../src/types/agent';
+import type { DeviceStateSnapshot } from '../../src/alexa-api/alexa-api-types';
+
+describe('RoutineExecutor', () => {
+  let calls: string[];
+  let states: Map<string, DeviceStateSnapshot>;
+  let routines: Map<string, StoredRoutine>;
+  let hooks: RoutineExecutorHooks;
+  let executor: RoutineExecutor;
+
+  function setState(deviceId: string, name: string, value: unknown, namespace = 'Alexa.PowerController'): void {
+    states.set(deviceId, {
+      deviceId,
+      capabilities: [{ namespace, name, value }],
+      polledAt: new Date().toISOString(),
+    });
+  }
+
+  function routine(actions: RoutineActionStep[], id = 'r-1'): StoredRoutine {
+    const r: StoredRoutine = {
+      id,
+      name: `Routine ${id}`,
+      trigger: { type: 'custom', triggerId: id },
+      actions,
+      enabled: true,
+      createdAt: '2024-01-01T00:00:00Z',
+    };
+    routines.set(id, r);
+    return r;
+  }
+
+  beforeEach(() => {
+    calls = [];
+    states = new Map();
+    routines = new Map();
+    hooks = {
+      controlDevice: async (endpointId, command) => {
+        if (endpointId === 'broken') throw new Error('Device broken not found');
+        calls.push(`${endpointId}:${command.action}`);
+      },
+      controlAccountDevice: async (step) => { calls.push(`account:${step.deviceId}:${step.command.action}`); },
+      speak: async (deviceId, _deviceType, text) => { calls.push(`speak:${deviceId}:${text}`); },
+      getState: async (endpointId) => states.get(endpointId) ?? null,
+      getRoutine: async (id) => routines.get(id) ?? null,
+    };
+    executor = new RoutineExecutor(hooks);
+  });
+
+  it('should run each kind of leaf step in order', async () => {
+    const report = await executor.run(routine([
+      { type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } },
+      { type: 'speak', deviceId: 'G0911', deviceType: 'A3S5BH2HU6VAYF', text: 'Hello' },
+      { type: 'control_account_device', deviceId: 'plug-1', deviceType: 'SMARTPLUG', command: { action: 'turn_off' } },
+    ]));
+
+    expect(calls).toEqual(['light-1:turn_on', 'speak:G0911:Hello', 'account:plug-1:turn_off']);
+    expect(report.status).toBe('succeeded');
+    expect(report.steps.map((s) => s.status)).toEqual(['succeeded', 'succeeded', 'succeeded']);
+    expect(report.steps[1].type).toBe('speak');
+  });
+
+  it('should stop at a failed step and skip the rest', async () => {
+    const report = await executor.run(routine([
+      { type: 'device_command', endpointId: 'broken', command: { action: 'turn_on' } },
+      { type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } },
+    ]));
+
+    expect(calls).toEqual([]);
+    expect(report.status).toBe('failed');
+    expect(report.error).toBe('Device broken not found');
+    expect(report.steps.map((s) => s.status)).toEqual(['failed', 'skipped']);
+  });
+
+  it('should keep going past a failure with continueOnError', async () => {
+    const report = await executor.run(routine([
+      { type: 'device_command', endpointId: 'broken', command: { action: 'turn_on' }, continueOnError: true },
+      { type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } },
+    ]));
+
+    expect(calls).toEqual(['light-1:turn_on']);
+    expect(report.status).toBe('succeeded');
+    expect(report.steps[0].status).toBe('failed');
+  });
+
+  it('should branch on cached state', async () => {
+    const steps: RoutineActionStep[] = [{
+      type: 'if',
+      condition: { endpointId: 'sensor-1', property: 'temperature', operator: '>', value: 25 },
+      then: [{ type: 'device_command', endpointId: 'fan-1', command: { action: 'turn_on' } }],
+      else: [{ type: 'device_command', endpointId: 'fan-1', command: { action: 'turn_off' } }],
+    }];
+
+    setState('sensor-1', 'temperature', { value: 28, scale: 'CELSIUS' }, 'Alexa.TemperatureSensor');
+    const hot = await executor.run(routine(steps));
+    setState('sensor-1', 'temperature', { value: 18, scale: 'CELSIUS' }, 'Alexa.TemperatureSensor');
+    const cold = await executor.run(routine(steps));
+
+    expect(calls).toEqual(['fan-1:turn_on', 'fan-1:turn_off']);
+    expect(hot.steps[0].branch).toBe('then');
+    expect(cold.steps[0].branch).toBe('else');
+    expect(cold.steps[0].steps).toHaveLength(1);
+  });
+
+  it('should combine conditions with all, any and not', async () => {
+    setState('light-1', 'powerState', 'OFF');
+    setState('door-1', 'detectionState', 'DETECTED', 'Alexa.ContactSensor');
+
+    const report = await executor.run(routine([{
+      type: 'if',
+      condition: { all: [
+        { not: { endpointId: 'light-1', property: 'powerState', value: 'ON' } },
+        { any: [
+          { endpointId: 'door-1', property: 'Alexa.ContactSensor.detectionState', value: 'DETECTED' },
+          { endpointId: 'missing', property: 'powerState', value: 'ON' },
+        ] },
+      ] },
+      then: [{ type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } }],
+    }]));
+
+    expect(report.steps[0].branch).toBe('then');
+    expect(calls).toEqual(['light-1:turn_on']);
+  });
+
+  it('should treat a missing property as not matching', async () => {
+    const report = await executor.run(routine([{
+      type: 'if',
+      condition: { endpointId: 'unknown', property: 'powerState', value: 'ON' },
+      then: [{ type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } }],
+    }]));
+
+    expect(report.steps[0].branch).toBe('else');
+    expect(report.steps[0].steps).toEqual([]);
+    expect(calls).toEqual([]);
+  });
+
+  it('should run parallel steps and fail the group if any fails', async () => {
+    const report = await executor.run(routine([{
+      type: 'parallel',
+      steps: [
+        { type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } },
+        { type: 'device_command', endpointId: 'broken', command: { action: 'turn_on' } },
+        { type: 'device_command', endpointId: 'light-2', command: { action: 'turn_on' } },
+      ],
+    }]));
+
+    expect(calls.sort()).toEqual(['light-1:turn_on', 'light-2:turn_on']);
+    expect(report.status).toBe('failed');
+    expect(report.steps[0].steps!.map((s) => s.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+  });
+
+  it('should run nested routines inline', async () => {
+    routine([{ type: 'device_command', endpointId: 'light-1', command: { action: 'turn_off' } }], 'inner');
+    const report = await executor.run(routine([
+      { type: 'run_routine', routineId: 'inner' },
+      { type: 'device_command', endpointId: 'lock-1', command: { action: 'lock' } },
+    ]));
+
+    expect(calls).toEqual(['light-1:turn_off', 'lock-1:lock']);
+    expect(report.steps[0].steps![0].status).toBe('succeeded');
+  });
+
+  it('should detect run_routine cycles', async () => {
+    routine([{ type: 'run_routine', routineId: 'a' }], 'b');
+    const report = await executor.run(routine([{ type: 'run_routine', routineId: 'b' }], 'a'));
+
+    expect(report.status).toBe('failed');
+    expect(report.error).toContain('cycle: a -> b -> a');
+  });
+
+  it('should cap run_routine nesting depth', async () => {
+    for (let i = 1; i <= MAX_ROUTINE_DEPTH + 1; i++) {
+      routine([{ type: 'run_routine', routineId: `level-${i + 1}` }], `level-${i}`);
+    }
+    const report = await executor.run(routines.get('level-1')!);
+
+    expect(report.error).toContain(`exceeds ${MAX_ROUTINE_DEPTH} levels`);
+  });
+
+  describe('wait_until', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should wait until the condition holds', async () => {
+      setState('door-1', 'lockState', 'UNLOCKED', 'Alexa.LockController');
+      const live: boolean[] = [];
+      const getState = hooks.getState;
+      hooks.getState = async (id, isLive) => { live.push(isLive); return getState(id, isLive); };
+
+      const done = executor.run(routine([
+        {
+          type: 'wait_until',
+          condition: { endpointId: 'door-1', property: 'lockState', value: 'LOCKED' },
+          timeoutSeconds: 60,
+          pollIntervalSeconds: 5,
+        },
+        { type: 'speak', deviceId: 'G0911', deviceType: 'A3S5BH2HU6VAYF', text: 'Locked' },
+      ]));
+
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(calls).toEqual([]);
+
+      setState('door-1', 'lockState', 'LOCKED', 'Alexa.LockController');
+      await jest.advanceTimersByTimeAsync(5_000);
+      const report = await done;
+
+      expect(report.status).toBe('succeeded');
+      expect(calls).toEqual(['speak:G0911:Locked']);
+      expect(live.every(Boolean)).toBe(true);
+    });
+
+    it('should time out', async () => {
+      const done = executor.run(routine([{
+        type: 'wait_until',
+        condition: { endpointId: 'door-1', property: 'lockState', value: 'LOCKED' },
+        timeoutSeconds: 30,
+      }]));
+
+      await jest.advanceTimersByTimeAsync(30_000);
+      const report = await done;
+
+      expect(report.status).toBe('failed');
+      expect(report.steps[0].status).toBe('timed_out');
+      expect(report.error).toBe('Condition not met within 30s');
+    });
+  });
+});
@@ -104,4 +104,162 @@ describe('RoutineManager', () => {
     const deleted = await manager.deleteRoutine('nonexistent');
     expect(deleted).toBe(false);
   });
+
+  it('should refuse to delete a routine another routine still runs', async () => {
+    const inner = await manager.createRoutine(sampleRoutine);
+    const outer = await manager.createRoutine({
+      name: 'Goodnight',
+      trigger: { type: 'custom', triggerId: 't-2' },
+      actions: [{ type: 'if', condition: { endpointId: 'light-1', property: 'powerState', value: 'ON' }, then: [{ type: 'run_routine', routineId: inner }] }],
+    });
+
+    await expect(manager.deleteRoutine(inner)).rejects.toThrow(`is still run by "Goodnight" (${outer})`);
+    expect(await manager.getRoutine(inner)).not.toBeNull();
+
+    await manager.deleteRoutine(outer);
+    expect(await manager.deleteRoutine(inner)).toBe(true);
+  });
+
+  describe('editing', () => {
+    it('should update a routine in place, keeping its ID and history', async () => {
+      const id = await manager.createRoutine(sampleRoutine);
+      await store.update(id, { lastTriggered: '2024-03-01T22:00:00Z' });
+
+      const updated = await manager.updateRoutine(id, {
+        name: 'Lights Out',
+        trigger: { type: 'schedule', cron: '30 22 * * *' },
+      });
+
+      expect(updated.id).toBe(id);
+      expect(updated.name).toBe('Lights Out');
+      expect(updated.actions).toHaveLength(2);
+      const stored = await manager.getRoutine(id);
+      expect(stored!.trigger).toEqual({ type: 'schedule', cron: '30 22 * * *' });
+      expect(stored!.lastTriggered).toBe('2024-03-01T22:00:00Z');
+      expect(stored!.enabled).toBe(true);
+    });
+
+    it('should validate the patched definition before writing', async () => {
+      const id = await manager.createRoutine(sampleRoutine);
+
+      await expect(manager.updateRoutine(id, { trigger: { type: 'schedule', cron: 'nope' } }))
+        .rejects.toThrow('Invalid cron expression');
+      await expect(manager.updateRoutine(id, { name: '  ' })).rejects.toThrow('Routine name is required');
+      await expect(manager.updateRoutine(id, { actions: [{ type: 'run_routine', routineId: id }] }))
+        .rejects.toThrow('cannot reference the routine itself');
+
+      expect((await manager.getRoutine(id))!.name).toBe('Bedtime');
+    });
+
+    it('should throw when updating a nonexistent routine', async () => {
+      await expect(manager.updateRoutine('nonexistent', { name: 'x' })).rejects.toThrow('Routine nonexistent not found');
+    });
+
+    it('should enable and disable a routine', async () => {
+      const id = await manager.createRoutine(sampleRoutine);
+
+      await manager.setRoutineEnabled(id, false);
+      expect((await manager.getRoutine(id))!.enabled).toBe(false);
+      await expect(manager.triggerRoutine(id)).rejects.toThrow('is disabled');
+
+      await manager.setRoutineEnabled(id, true);
+      expect((await manager.getRoutine(id))!.enabled).toBe(true);
+    });
+
+    it('should duplicate a routine under a new ID', async () => {
+      const id = await manager.createRoutine(sampleRoutine);
+      await store.update(id, { lastTriggered: '2024-03-01T22:00:00Z', enabled: false });
+
+      const copy = await manager.duplicateRoutine(id);
+      expect(copy.id).not.toBe(id);
+      expect(copy.name).toBe('Bedtime (copy)');
+      expect(copy.enabled).toBe(false);
+      expect(copy.lastTriggered).toBeUndefined();
+      expect(copy.actions).toEqual(sampleRoutine.actions);
+
+      const named = await manager.duplicateRoutine(id, 'Weekend Bedtime');
+      expect(named.name).toBe('Weekend Bedtime');
+      expect(await manager.listRoutines()).toHaveLength(3);
+    });
+  });
+
+  describe('definition validation', () => {
+    const define = (actions: RoutineDefinition['actions']): RoutineDefinition => ({
+      name: 'Checked',
+      trigger: { type: 'custom', triggerId: 't-1' },
+      actions,
+    });
+
+    it('should accept nested branches, parallel groups and waits', async () => {
+      const id = await manager.createRoutine(define([
+        {
+          type: 'if',
+          condition: { all: [
+            { endpointId: 'door-1', property: 'detectionState', value: 'DETECTED' },
+            { not: { endpointId: 'light-1', property: 'powerState', value: 'ON' } },
+          ] },
+          then: [{ type: 'parallel', steps: [
+            { type: 'device_command', endpointId: 'light-1', command: { action: 'turn_on' } },
+            { type: 'speak', deviceId: 'G0911', deviceType: 'A3S5BH2HU6VAYF', text: 'Door open' },
+          ] }],
+        },
+        { type: 'wait_until', condition: { endpointId: 'door-1', property: 'detectionState', value: 'NOT_DETECTED' }, timeoutSeconds: 60 },
+      ]));
+      expect(await manager.getRoutine(id)).not.toBeNull();
+    });
+
+    it('should locate invalid nested steps in the error', async () => {
+      await expect(manager.createRoutine(define([
+        { type: 'if', condition: { endpointId: 'light-1', property: 'powerState', value: 'ON' }, then: [
+          { type: 'speak', deviceId: 'G0911', deviceType: '', text: 'hi' },
+        ] },
+      ]))).rejects.toThrow('actions[0].then[0]: speak requires deviceId, deviceType and text');
+    });
+
+    it('should reject bad conditions', async () => {
+      await expect(manager.createRoutine(define([
+        { type: 'wait_until', condition: { endpointId: 'sensor-1', property: 'temperature', operator: '>', value: 'hot' }, timeoutSeconds: 10 },
+      ]))).rejects.toThrow('actions[0].condition: Operator ">" requires a numeric value');
+
+      await expect(manager.createRoutine(define([
+        { type: 'if', condition: { endpointId: 'light-1', property: 'brightness', operator: 'changed' }, then: [] },
+      ]))).rejects.toThrow('only valid in device_event triggers');
+    });
+
+    it('should require a positive wait_until timeout', async () => {
+      await expect(manager.createRoutine(define([
+        { type: 'wait_until', condition: { endpointId: 'light-1', property: 'powerState', value: 'ON' }, timeoutSeconds: 0 },
+      ]))).rejects.toThrow('positive timeoutSeconds');
+    });
+
+    it('should reject unknown step types', async () => {
+      await expect(manager.createRoutine(define([
+        { type: 'teleport' } as any,
+      ]))).rejects.toThrow('unknown step type "teleport"');
+    });
+
+    it('should require run_routine targets to exist', async () => {
+      await expect(manager.createRoutine(define([
+        { type: 'run_routine', routineId: 'missing' },
+      ]))).rejects.toThrow('unknown routine missing');
+
+      const inner = await manager.createRoutine(sampleRoutine);
+      await expect(manager.createRoutine(define([
+        { type: 'run_routine', routineId: inner },
+      ]))).resolves.toBeTruthy();
+    });
+
+    it('should reject run_routine cycles through other routines', async () => {
+      const a = await manager.createRoutine(sampleRoutine);
+      const b = await manager.createRoutine(define([{ type: 'run_routine', routineId: a }]));
+      const c = await manager.createRoutine(define([{ type: 'run_routine', routineId: b }]));
+
+      await expect(manager.updateRoutine(a, { actions: [{ type: 'run_routine', routineId: b }] }))
+        .rejects.toThrow(`run_routine creates a cycle: ${a} → ${b} → ${a}`);
+      await expect(manager.updateRoutine(a, {
+        actions: [{ type: 'parallel', steps: [{ type: 'run_routine', routineId: c }] }],
+      })).rejects.toThrow(`${a} → ${c} → ${b} → ${a}`);
+      expect((await manager.getRoutine(a))!.actions).toEqual(sampleRoutine.actions);
+    });
+  });
 });
@@ -0,0 +1,91 @@
+import { InMemoryRoutineRunStore } from '../../src/routines';
+import type { RoutineRun } from '../../src/routines';
+
+function makeRun(overrides: Partial<RoutineRun> = {}): RoutineRun {
+  return {
+    id: `run-${Math.random().toString(36).slice(2, 8)}`,
+    routineId: 'r-1',
+    routineName: 'Bedtime',
+    source: 'manual',
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    steps: [],
+    ...overrides,
+  };
+}
+
+describe('InMemoryRoutineRunStore', () => {
+  let store: InMemoryRoutineRunStore;
+
+  beforeEach(() => {
+    store = new InMemoryRoutineRunStore();
+  });
+
+  it('should insert, update and get a run', async () => {
+    await store.insert(makeRun({ id: 'run-1' }));
+    await store.update('run-1', {
+      status: 'failed',
+      finishedAt: '2024-03-01T22:00:01Z',
+      durationMs: 1000,
+      steps: [{ index: 0, type: 'device_command', status: 'failed', durationMs: 5, error: 'boom' }],
+      error: 'boom',
+    });
+
+    const run = await store.get('run-1');
+    expect(run!.status).toBe('failed');
+    expect(run!.steps[0].error).toBe('boom');
+    expect(run!.routineName).toBe('Bedtime');
+  });
+
+  it('should throw when updating an unknown run', async () => {
+    await expect(store.update('nope', { status: 'succeeded' })).rejects.toThrow('Routine run nope not found');
+  });
+
+  it('should return null for an unknown run', async () => {
+    expect(await store.get('nope')).toBeNull();
+  });
+
+  it('should query newest first with filters and pagination', async () => {
+    await store.insert(makeRun({ id: 'a', startedAt: '2024-03-01T00:00:00Z', status: 'succeeded' }));
+    await store.insert(makeRun({ id: 'b', startedAt: '2024-03-02T00:00:00Z', source: 'schedule', status: 'failed' }));
+    await store.insert(makeRun({ id: 'c', routineId: 'r-2', startedAt: '2024-03-03T00:00:00Z', status: 'succeeded' }));
+
+    const all = await store.query({});
+    expect(all.runs.map((r) => r.id)).toEqual(['c', 'b', 'a']);
+
+    expect((await store.query({ routineId: 'r-1' })).totalCount).toBe(2);
+    expect((await store.query({ status: 'failed' })).runs.map((r) => r.id)).toEqual(['b']);
+    expect((await store.query({ source: 'schedule' })).runs.map((r) => r.id)).toEqual(['b']);
+    expect((await store.query({ startTime: '2024-03-02T00:00:00Z' })).totalCount).toBe(2);
+
+    const page = await store.query({ limit: 1, offset: 1 });
+    expect(page.runs.map((r) => r.id)).toEqual(['b']);
+    expect(page.totalCount).toBe(3);
+  });
+
+  it('should close running runs as interrupted', async () => {
+    await store.insert(makeRun({ id: 'a', status: 'succeeded' }));
+    await store.insert(makeRun({ id: 'b' }));
+
+    expect(await store.interruptRunning('2024-03-01T22:00:00Z', 'restarted')).toBe(1);
+    expect(await store.get('a')).toMatchObject({ status: 'succeeded' });
+    expect(await store.get('b')).toMatchObject({ status: 'interrupted', finishedAt: '2024-03-01T22:00:00Z', error: 'restarted' });
+  });
+
+  it('should prune old runs', async () => {
+    await store.insert(makeRun({ startedAt: '2024-01-01T00:00:00Z' }));
+    await store.insert(makeRun({ startedAt: '2024-06-01T00:00:00Z' }));
+
+    expect(await store.prune('2024-03-01T00:00:00Z')).toBe(1);
+    expect((await store.query({})).totalCount).toBe(1);
+  });
+
+  it('should cap the number of stored runs', async () => {
+    store = new InMemoryRoutineRunStore(2);
+    await store.insert(makeRun({ id: 'a' }));
+    await store.insert(makeRun({ id: 'b' }));
+    await store.insert(makeRun({ id: 'c' }));
+
+    expect((await store.query({})).runs.map((r) => r.id)).toEqual(['c', 'b']);
+  });
+});
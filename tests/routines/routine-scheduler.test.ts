@@ -0,0 +1,128 @@
+import { RoutineManager, InMemoryRoutineStore, RoutineScheduler } from '../../src/routines';
+import type { StoredRoutine } from '../../src/routines';
+import { loadConfig } from '../../src/config';
+
+describe('RoutineScheduler', () => {
+  let store: InMemoryRoutineStore;
+  let manager: RoutineManager;
+  let scheduler: RoutineScheduler;
+  let fired: Array<{ id: string; scheduledFor: string }>;
+  const config = loadConfig({ skillId: 'test-skill-id' });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-01T21:59:00Z'));
+    store = new InMemoryRoutineStore();
+    manager = new RoutineManager(config, store);
+    fired = [];
+    scheduler = new RoutineScheduler(manager, {
+      onFire: async (routine, scheduledFor) => {
+        fired.push({ id: routine.id, scheduledFor: scheduledFor.toISOString() });
+      },
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  function storeRoutine(overrides: Partial<StoredRoutine> = {}): Promise<void> {
+    return store.create({
+      id: 'r-1',
+      name: 'Bedtime',
+      trigger: { type: 'schedule', cron: '0 22 * * *' },
+      actions: [],
+      enabled: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      ...overrides,
+    });
+  }
+
+  it('should fire a routine at its cron time', async () => {
+    await storeRoutine();
+    await scheduler.start();
+
+    expect(scheduler.getNextRun('r-1')!.toISOString()).toBe('2024-03-01T22:00:00.000Z');
+
+    await jest.advanceTimersByTimeAsync(59_000);
+    expect(fired).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(fired).toEqual([{ id: 'r-1', scheduledFor: '2024-03-01T22:00:00.000Z' }]);
+    expect(scheduler.getNextRun('r-1')!.toISOString()).toBe('2024-03-02T22:00:00.000Z');
+  });
+
+  it('should not arm disabled or non-schedule routines', async () => {
+    await storeRoutine({ enabled: false });
+    await storeRoutine({ id: 'r-2', trigger: { type: 'custom', triggerId: 't-1' } });
+    await scheduler.start();
+
+    expect(scheduler.getNextRun('r-1')).toBeNull();
+    expect(scheduler.getNextRun('r-2')).toBeNull();
+  });
+
+  it('should catch up a run missed while stopped, once', async () => {
+    // Last ran two days ago, so two slots were missed
+    await storeRoutine({ lastTriggered: '2024-02-28T22:00:00Z' });
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fired).toEqual([{ id: 'r-1', scheduledFor: '2024-02-29T22:00:00.000Z' }]);
+    expect(scheduler.getNextRun('r-1')!.toISOString()).toBe('2024-03-01T22:00:00.000Z');
+  });
+
+  it('should not catch up when disabled by option', async () => {
+    scheduler = new RoutineScheduler(manager, {
+      onFire: async (routine) => { fired.push({ id: routine.id, scheduledFor: '' }); },
+      catchUpMissed: false,
+    });
+    await storeRoutine({ lastTriggered: '2024-02-28T22:00:00Z' });
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fired).toHaveLength(0);
+  });
+
+  it('should re-arm on refresh and disarm deleted routines', async () => {
+    await scheduler.start();
+    await storeRoutine();
+    await scheduler.refresh('r-1');
+    expect(scheduler.getNextRun('r-1')).not.toBeNull();
+
+    await store.delete('r-1');
+    await scheduler.refresh('r-1');
+    expect(scheduler.getNextRun('r-1')).toBeNull();
+  });
+
+  it('should report invalid schedules through onError', async () => {
+    const errors: string[] = [];
+    scheduler = new RoutineScheduler(manager, {
+      onFire: async () => {},
+      onError: (id) => errors.push(id),
+    });
+    await storeRoutine({ trigger: { type: 'schedule', cron: 'bogus' } });
+    await scheduler.start();
+
+    expect(errors).toEqual(['r-1']);
+  });
+
+  it('should compute upcoming runs without starting', () => {
+    const runs = RoutineScheduler.upcomingRuns(
+      {
+        id: 'r-1',
+        name: 'Morning',
+        trigger: { type: 'schedule', cron: '0 7 * * *', timezone: 'Europe/London' },
+        actions: [],
+        enabled: true,
+        createdAt: '2024-01-01T00:00:00Z',
+      },
+      2,
+      new Date('2024-07-01T00:00:00Z'),
+    );
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      '2024-07-01T06:00:00.000Z',
+      '2024-07-02T06:00:00.000Z',
+    ]);
+  });
+});
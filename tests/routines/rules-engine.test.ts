@@ -0,0 +1,257 @@
+import { RoutineManager, InMemoryRoutineStore, RoutineRulesEngine, pushEventToObservations } from '../../src/routines';
+import type { StoredRoutine, PropertyObservation } from '../../src/routines';
+import { EventLogger, InMemoryEventStore } from '../../src/events';
+import { loadConfig } from '../../src/config';
+import type { RoutineTrigger } from '../../src/types/agent';
+import type { DeviceStateSnapshot } from '../../src/alexa-api/alexa-api-types';
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function snapshot(deviceId: string, name: string, value: unknown, namespace = 'Alexa.PowerController'): DeviceStateSnapshot {
+  return {
+    deviceId,
+    capabilities: [{ namespace, name, value }],
+    polledAt: new Date().toISOString(),
+  };
+}
+
+describe('RoutineRulesEngine', () => {
+  let store: InMemoryRoutineStore;
+  let manager: RoutineManager;
+  let eventStore: InMemoryEventStore;
+  let logger: EventLogger;
+  let engine: RoutineRulesEngine;
+  let fired: string[];
+  const config = loadConfig({ skillId: 'test-skill-id' });
+
+  beforeEach(() => {
+    store = new InMemoryRoutineStore();
+    manager = new RoutineManager(config, store);
+    eventStore = new InMemoryEventStore();
+    logger = new EventLogger(eventStore);
+    fired = [];
+    engine = new RoutineRulesEngine(manager, logger, {
+      onFire: async (routine: StoredRoutine, _obs: PropertyObservation) => {
+        fired.push(routine.id);
+      },
+    });
+  });
+
+  afterEach(() => {
+    engine.stop();
+  });
+
+  async function addRoutine(id: string, trigger: RoutineTrigger, enabled = true): Promise<void> {
+    await store.create({
+      id,
+      name: `Routine ${id}`,
+      trigger,
+      actions: [],
+      enabled,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  it('should fire on the transition into a matching poll value, not on repeats', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'plug-1', property: 'powerState', value: 'ON' });
+    await engine.start();
+
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'OFF')]);
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'ON')]);
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'ON')]);
+    await flush();
+
+    expect(fired).toEqual(['r-1']);
+  });
+
+  it('should treat the first poll as a baseline', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'plug-1', property: 'powerState', value: 'ON' });
+    await engine.start();
+
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'ON')]);
+    await flush();
+
+    expect(fired).toEqual([]);
+  });
+
+  it('should fire on a matching PropertyChange event with no prior value', async () => {
+    await addRoutine('r-1', {
+      type: 'device_event', endpointId: 'door-1', property: 'Alexa.ContactSensor.detectionState', value: 'DETECTED',
+    });
+    await engine.start();
+
+    await logger.logPropertyChange('door-1', [{
+      namespace: 'Alexa.ContactSensor',
+      name: 'detectionState',
+      value: 'DETECTED',
+      timeOfSample: new Date().toISOString(),
+      uncertaintyInMilliseconds: 0,
+    }]);
+    await flush();
+
+    expect(fired).toEqual(['r-1']);
+  });
+
+  it('should support numeric comparison operators', async () => {
+    await addRoutine('hot', {
+      type: 'device_event', endpointId: 'sensor-1', property: 'temperature', operator: '>', value: 25,
+    });
+    await engine.start();
+
+    const temp = (v: number) => snapshot('sensor-1', 'temperature', { value: v, scale: 'CELSIUS' }, 'Alexa.TemperatureSensor');
+    await engine.observeSnapshots([temp(20)]);
+    await engine.observeSnapshots([temp(26)]);
+    await engine.observeSnapshots([temp(27)]);
+    await engine.observeSnapshots([temp(22)]);
+    await engine.observeSnapshots([temp(30)]);
+    await flush();
+
+    expect(fired).toEqual(['hot', 'hot']);
+  });
+
+  it('should support between on a controller instance', async () => {
+    await addRoutine('r-1', {
+      type: 'device_event', endpointId: 'aq-1', property: 'Humidity', operator: 'between', value: [40, 60],
+    });
+    await engine.start();
+
+    const humidity = (v: number): DeviceStateSnapshot => ({
+      deviceId: 'aq-1',
+      capabilities: [{ namespace: 'Alexa.RangeController', name: 'rangeValue', instance: 'Humidity', value: v }],
+      polledAt: new Date().toISOString(),
+    });
+    await engine.observeSnapshots([humidity(30)]);
+    await engine.observeSnapshots([humidity(50)]);
+    await flush();
+
+    expect(fired).toEqual(['r-1']);
+  });
+
+  it('should fire on every change with the changed operator', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'light-1', property: 'brightness', operator: 'changed' });
+    await engine.start();
+
+    const b = (v: number) => snapshot('light-1', 'brightness', v, 'Alexa.BrightnessController');
+    await engine.observeSnapshots([b(10)]);
+    await engine.observeSnapshots([b(10)]);
+    await engine.observeSnapshots([b(50)]);
+    await engine.observeSnapshots([b(80)]);
+    await flush();
+
+    expect(fired).toEqual(['r-1', 'r-1']);
+  });
+
+  it('should suppress firings inside the debounce window', async () => {
+    await addRoutine('r-1', {
+      type: 'device_event', endpointId: 'light-1', property: 'brightness', operator: 'changed', debounceSeconds: 60,
+    });
+    await engine.start();
+
+    const b = (v: number) => snapshot('light-1', 'brightness', v, 'Alexa.BrightnessController');
+    await engine.observeSnapshots([b(10)]);
+    await engine.observeSnapshots([b(20)]);
+    await engine.observeSnapshots([b(30)]);
+    await flush();
+
+    expect(fired).toEqual(['r-1']);
+  });
+
+  it('should evaluate push events', async () => {
+    await addRoutine('r-1', {
+      type: 'device_event', endpointId: 'G0911', property: 'volume', operator: '>=', value: 80,
+    });
+    await engine.start();
+
+    await engine.observePushEvent({
+      command: 'PUSH_VOLUME_CHANGE',
+      timestamp: Date.now(),
+      deviceSerial: 'G0911',
+      payload: { volumeSetting: 90, isMuted: false },
+    });
+    await flush();
+
+    expect(fired).toEqual(['r-1']);
+  });
+
+  it('should log a RoutineTriggered event for each firing', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'plug-1', property: 'powerState', value: 'ON' });
+    await engine.start();
+
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'OFF')]);
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'ON')]);
+
+    const events = await eventStore.query({ eventType: 'RoutineTriggered' });
+    expect(events.events).toHaveLength(1);
+    expect(events.events[0].endpointId).toBe('plug-1');
+    expect(events.events[0].payload.routineId).toBe('r-1');
+    expect(events.events[0].cause).toBe('RULE_TRIGGER');
+  });
+
+  it('should ignore disabled routines and pick up new ones on refresh', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'plug-1', property: 'powerState', value: 'ON' }, false);
+    await engine.start();
+    await engine.observePushEvent({
+      command: 'PUSH_DOPPLER_CONNECTION_CHANGE', timestamp: Date.now(), deviceSerial: 'plug-1', payload: {},
+    });
+
+    await addRoutine('r-2', { type: 'device_event', endpointId: 'plug-1', property: 'powerState', value: 'ON' });
+    await engine.refresh();
+
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'OFF')]);
+    await engine.observeSnapshots([snapshot('plug-1', 'powerState', 'ON')]);
+    await flush();
+
+    expect(fired).toEqual(['r-2']);
+  });
+
+  it('should match trigger and observation IDs that name the same device', async () => {
+    const ids: Record<string, string> = { 'G0911': 'SKILL_echo', 'endpoint-echo': 'SKILL_echo' };
+    engine = new RoutineRulesEngine(manager, logger, {
+      onFire: async (routine) => { fired.push(routine.id); },
+      resolveDeviceId: (id) => ids[id] ?? id,
+    });
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'endpoint-echo', property: 'volume', operator: '>=', value: 80 });
+    await addRoutine('r-2', { type: 'device_event', endpointId: 'G0911', property: 'muted', value: true });
+    await engine.start();
+
+    await engine.observeSnapshots([snapshot('SKILL_echo', 'volume', 40, 'Alexa.Speaker')]);
+    await engine.observeSnapshots([snapshot('SKILL_echo', 'volume', 90, 'Alexa.Speaker')]);
+    await engine.observePushEvent({
+      command: 'PUSH_VOLUME_CHANGE', timestamp: Date.now(), deviceSerial: 'G0911', payload: { isMuted: true },
+    });
+    await flush();
+
+    expect(fired).toEqual(['r-1', 'r-2']);
+  });
+
+  it('should do nothing until started', async () => {
+    await addRoutine('r-1', { type: 'device_event', endpointId: 'G0911', property: 'muted', value: true });
+    await engine.observePushEvent({
+      command: 'PUSH_VOLUME_CHANGE', timestamp: Date.now(), deviceSerial: 'G0911', payload: { isMuted: true },
+    });
+    await flush();
+
+    expect(fired).toEqual([]);
+  });
+});
+
+describe('pushEventToObservations', () => {
+  it('should map connection changes to connectivity', () => {
+    const obs = pushEventToObservations({
+      command: 'PUSH_DOPPLER_CONNECTION_CHANGE',
+      timestamp: 0,
+      deviceSerial: 'G0911',
+      payload: { dopplerConnectionState: 'OFFLINE' },
+    });
+    expect(obs).toHaveLength(1);
+    expect(obs[0].name).toBe('connectivity');
+    expect(obs[0].value).toBe('UNREACHABLE');
+  });
+
+  it('should ignore events without device state', () => {
+    expect(pushEventToObservations({ command: 'PUSH_ACTIVITY', timestamp: 0, deviceSerial: 'G0911', payload: {} }))
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+-- Database written by the first release, before schema versioning (user_version 0)
+
+PRAGMA user_version = 0;
+
+CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        endpoint_id TEXT,
+        user_id TEXT,
+        cause TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        tags TEXT NOT NULL DEFAULT '[]'
+      );
+CREATE INDEX idx_events_timestamp ON events(timestamp);
+CREATE INDEX idx_events_endpoint ON events(endpoint_id);
+CREATE INDEX idx_events_type ON events(event_type);
+CREATE INDEX idx_events_user ON events(user_id);
+CREATE TABLE routines (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        trigger_def TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_triggered TEXT,
+        created_at TEXT NOT NULL
+      );
+CREATE TABLE tokens (
+        user_id TEXT PRIMARY KEY,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+CREATE TABLE cookies (
+        user_id TEXT PRIMARY KEY,
+        cookie TEXT NOT NULL,
+        csrf TEXT,
+        stored_at TEXT NOT NULL,
+        expires_at TEXT
+      );
+CREATE TABLE device_states (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        polled_at TEXT NOT NULL,
+        error TEXT
+      );
+CREATE INDEX idx_device_states_device_id ON device_states(device_id);
+CREATE INDEX idx_device_states_polled_at ON device_states(polled_at);
+CREATE INDEX idx_device_states_device_polled ON device_states(device_id, polled_at);
+CREATE TABLE activity_history (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        device_serial TEXT,
+        device_name TEXT,
+        device_type TEXT,
+        utterance_text TEXT,
+        response_text TEXT,
+        utterance_type TEXT,
+        raw TEXT
+      );
+CREATE INDEX idx_activity_timestamp ON activity_history(timestamp);
+CREATE INDEX idx_activity_device_serial ON activity_history(device_serial);
+CREATE TABLE push_events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        command TEXT NOT NULL,
+        device_serial TEXT,
+        device_type TEXT,
+        device_name TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        processed INTEGER NOT NULL DEFAULT 0
+      );
+CREATE INDEX idx_push_events_timestamp ON push_events(timestamp);
+CREATE INDEX idx_push_events_command ON push_events(command);
+CREATE INDEX idx_push_events_device_serial ON push_events(device_serial);
+CREATE INDEX idx_push_events_command_timestamp ON push_events(command, timestamp);
+CREATE INDEX idx_push_events_processed ON push_events(processed);
+
+INSERT INTO events (id, timestamp, event_type, namespace, endpoint_id, user_id, cause, payload, tags) VALUES ('evt-1', '2026-02-01T08:00:00.000Z', 'TurnOn', 'Alexa.PowerController', 'SKILL_lamp', 'user-1', NULL, '{"source":"agent"}', '["control"]');
+INSERT INTO events (id, timestamp, event_type, namespace, endpoint_id, user_id, cause, payload, tags) VALUES ('evt-2', '2026-02-01T08:05:00.000Z', 'TurnOff', 'Alexa.PowerController', 'SKILL_lamp', 'user-1', 'PHYSICAL_INTERACTION', '{}', '[]');
+INSERT INTO routines (id, name, trigger_def, actions, enabled, last_triggered, created_at) VALUES ('routine-1', 'Morning Lights', '{"type":"schedule","cron":"0 8 * * *"}', '[{"type":"device_command","endpointId":"SKILL_lamp","command":{"action":"turn_on"}}]', 1, NULL, '2026-02-01T07:00:00.000Z');
+INSERT INTO tokens (user_id, access_token, refresh_token, expires_at) VALUES ('user-1', 'Atza|access', 'Atzr|refresh', 1769932800000);
+INSERT INTO cookies (user_id, cookie, csrf, stored_at, expires_at) VALUES ('user-1', 'session-id=123-456; ubid-main=789', '-123456', '2026-02-01T07:00:00.000Z', NULL);
+INSERT INTO device_states (id, device_id, device_name, capabilities, polled_at, error) VALUES (1, 'SKILL_lamp', 'Desk Lamp', '[{"namespace":"Alexa.PowerController","name":"powerState","value":"ON"},{"namespace":"Alexa.EndpointHealth","name":"connectivity","value":{"value":"OK"}}]', '2026-02-01T08:00:00.000Z', NULL);
+INSERT INTO device_states (id, device_id, device_name, capabilities, polled_at, error) VALUES (2, 'SKILL_lamp', 'Desk Lamp', '[{"namespace":"Alexa.PowerController","name":"powerState","value":"ON"},{"namespace":"Alexa.EndpointHealth","name":"connectivity","value":{"value":"OK"}}]', '2026-02-01T08:10:00.000Z', NULL);
+INSERT INTO device_states (id, device_id, device_name, capabilities, polled_at, error) VALUES (3, 'SKILL_lamp', 'Desk Lamp', '[{"namespace":"Alexa.PowerController","name":"powerState","value":"OFF"},{"namespace":"Alexa.EndpointHealth","name":"connectivity","value":{"value":"OK"}}]', '2026-02-01T08:20:00.000Z', NULL);
+INSERT INTO activity_history (id, timestamp, device_serial, device_name, device_type, utterance_text, response_text, utterance_type, raw) VALUES ('act-1', '2026-02-01T08:04:00.000Z', 'G090XX', 'Kitchen Echo', NULL, 'turn off the desk lamp', 'OK', 'GENERAL', NULL);
+INSERT INTO push_events (id, timestamp, command, device_serial, device_type, device_name, payload, processed) VALUES ('push-1', '2026-02-01T08:06:00.000Z', 'PUSH_VOLUME_CHANGE', 'G090XX', 'A3S5BH2HU6VAYF', NULL, '{"volumeSetting":30,"isMuted":false}', 1);
@@ -0,0 +1,216 @@
+-- Database at schema version 1: the baseline migration
+
+PRAGMA user_version = 1;
+
+CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        endpoint_id TEXT,
+        user_id TEXT,
+        cause TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        tags TEXT NOT NULL DEFAULT '[]'
+      );
+CREATE INDEX idx_events_timestamp ON events(timestamp);
+CREATE INDEX idx_events_endpoint ON events(endpoint_id);
+CREATE INDEX idx_events_type ON events(event_type);
+CREATE INDEX idx_events_user ON events(user_id);
+CREATE TABLE routines (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        trigger_def TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_triggered TEXT,
+        created_at TEXT NOT NULL
+      );
+CREATE TABLE routine_runs (
+        id TEXT PRIMARY KEY,
+        routine_id TEXT NOT NULL,
+        routine_name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        steps TEXT NOT NULL DEFAULT '[]',
+        error TEXT
+      );
+CREATE INDEX idx_routine_runs_routine ON routine_runs(routine_id, started_at);
+CREATE INDEX idx_routine_runs_started_at ON routine_runs(started_at);
+CREATE TABLE tokens (
+        user_id TEXT PRIMARY KEY,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+CREATE TABLE cookies (
+        user_id TEXT PRIMARY KEY,
+        cookie TEXT NOT NULL,
+        csrf TEXT,
+        stored_at TEXT NOT NULL,
+        expires_at TEXT
+      );
+CREATE TABLE refresh_tokens (
+        user_id TEXT PRIMARY KEY,
+        refresh_token TEXT NOT NULL,
+        stored_at TEXT NOT NULL,
+        last_refreshed_at TEXT,
+        last_error TEXT
+      );
+CREATE TABLE device_states (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        polled_at TEXT NOT NULL,
+        error TEXT
+      );
+CREATE INDEX idx_device_states_device_id ON device_states(device_id);
+CREATE INDEX idx_device_states_polled_at ON device_states(polled_at);
+CREATE INDEX idx_device_states_device_polled ON device_states(device_id, polled_at);
+CREATE TABLE device_state_latest (
+        device_id TEXT PRIMARY KEY,
+        device_name TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        polled_at TEXT NOT NULL,
+        keyframe_at TEXT
+      );
+CREATE TABLE device_state_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        name TEXT NOT NULL,
+        instance TEXT,
+        value TEXT,
+        time_of_sample TEXT,
+        changed_at TEXT NOT NULL,
+        cause TEXT
+      );
+CREATE INDEX idx_device_state_changes_device_changed ON device_state_changes(device_id, changed_at);
+CREATE INDEX idx_device_state_changes_changed_at ON device_state_changes(changed_at);
+CREATE TABLE device_state_keyframes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        polled_at TEXT NOT NULL,
+        change_id INTEGER NOT NULL DEFAULT 0
+      );
+CREATE INDEX idx_device_state_keyframes_device_polled ON device_state_keyframes(device_id, polled_at);
+CREATE TABLE activity_history (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        device_serial TEXT,
+        device_name TEXT,
+        device_type TEXT,
+        utterance_text TEXT,
+        response_text TEXT,
+        utterance_type TEXT,
+        raw TEXT
+      );
+CREATE INDEX idx_activity_timestamp ON activity_history(timestamp);
+CREATE INDEX idx_activity_device_serial ON activity_history(device_serial);
+CREATE TABLE push_events (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        command TEXT NOT NULL,
+        device_serial TEXT,
+        device_type TEXT,
+        device_name TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        processed INTEGER NOT NULL DEFAULT 0
+      );
+CREATE INDEX idx_push_events_timestamp ON push_events(timestamp);
+CREATE INDEX idx_push_events_command ON push_events(command);
+CREATE INDEX idx_push_events_device_serial ON push_events(device_serial);
+CREATE INDEX idx_push_events_command_timestamp ON push_events(command, timestamp);
+CREATE INDEX idx_push_events_processed ON push_events(processed);
+CREATE TABLE device_directory (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        serial_number TEXT,
+        endpoint_id TEXT,
+        appliance_id TEXT,
+        entity_id TEXT,
+        updated_at TEXT NOT NULL
+      );
+CREATE TABLE now_playing (
+        device_serial TEXT PRIMARY KEY,
+        device_name TEXT,
+        player_state TEXT,
+        media_reference_id TEXT,
+        media_progress REAL,
+        media_length REAL,
+        progress_updated_at TEXT,
+        queue_change_type TEXT,
+        play_back_order TEXT,
+        loop_mode TEXT,
+        error TEXT,
+        updated_at TEXT NOT NULL
+      );
+CREATE TABLE media_sessions (
+        id TEXT PRIMARY KEY,
+        device_serial TEXT NOT NULL,
+        device_name TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        end_reason TEXT,
+        last_event_at TEXT NOT NULL,
+        media_reference_ids TEXT NOT NULL DEFAULT '[]'
+      );
+CREATE INDEX idx_media_sessions_device_started ON media_sessions(device_serial, started_at);
+CREATE INDEX idx_media_sessions_started_at ON media_sessions(started_at);
+CREATE TABLE connectivity_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT,
+        status TEXT NOT NULL,
+        source TEXT NOT NULL,
+        at TEXT NOT NULL
+      );
+CREATE INDEX idx_connectivity_device_at ON connectivity_transitions(device_id, at);
+CREATE INDEX idx_connectivity_at ON connectivity_transitions(at);
+CREATE TABLE state_rollups (
+        device_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        name TEXT NOT NULL,
+        instance TEXT NOT NULL DEFAULT '',
+        bucket TEXT NOT NULL,
+        bucket_start TEXT NOT NULL,
+        min REAL NOT NULL,
+        max REAL NOT NULL,
+        avg REAL NOT NULL,
+        last REAL NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (device_id, namespace, name, instance, bucket, bucket_start)
+      );
+CREATE INDEX idx_state_rollups_bucket_start ON state_rollups(bucket, bucket_start);
+CREATE TABLE state_rollup_watermarks (
+        bucket TEXT PRIMARY KEY,
+        rolled_up_from TEXT NOT NULL,
+        rolled_up_to TEXT NOT NULL
+      );
+CREATE TABLE discovery_acknowledged (
+        user_id TEXT NOT NULL,
+        endpoint_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        acknowledged_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, endpoint_id)
+      );
+
+INSERT INTO events (id, timestamp, event_type, namespace, endpoint_id, user_id, cause, payload, tags) VALUES ('evt-1', '2026-02-01T08:00:00.000Z', 'PropertyChange', 'Alexa.PowerController', 'SKILL_lamp', 'user-1', 'PERIODIC_POLL', '{"name":"powerState","value":"OFF"}', '["state_change"]');
+INSERT INTO routine_runs (id, routine_id, routine_name, source, status, started_at, finished_at, duration_ms, steps, error) VALUES ('run-1', 'routine-1', 'Morning Lights', 'schedule', 'succeeded', '2026-02-01T08:00:00.000Z', '2026-02-01T08:00:01.000Z', 1000, '[]', NULL);
+INSERT INTO device_state_latest (device_id, device_name, capabilities, error, polled_at, keyframe_at) VALUES ('SKILL_lamp', 'Desk Lamp', '[{"namespace":"Alexa.PowerController","name":"powerState","value":"OFF"},{"namespace":"Alexa.EndpointHealth","name":"connectivity","value":{"value":"OK"}}]', NULL, '2026-02-01T08:20:00.000Z', '2026-02-01T08:00:00.000Z');
+INSERT INTO device_state_latest (device_id, device_name, capabilities, error, polled_at, keyframe_at) VALUES ('SKILL_air', 'Air Monitor', '[{"namespace":"Alexa.RangeController","name":"rangeValue","instance":"4","value":18}]', NULL, '2026-02-01T08:30:00.000Z', '2026-02-01T08:00:00.000Z');
+INSERT INTO device_state_changes (id, device_id, namespace, name, instance, value, time_of_sample, changed_at, cause) VALUES (1, 'SKILL_lamp', 'Alexa.PowerController', 'powerState', NULL, '"OFF"', NULL, '2026-02-01T08:20:00.000Z', 'PERIODIC_POLL');
+INSERT INTO device_state_changes (id, device_id, namespace, name, instance, value, time_of_sample, changed_at, cause) VALUES (2, 'SKILL_air', 'Alexa.RangeController', 'rangeValue', '4', '18', NULL, '2026-02-01T08:30:00.000Z', 'PERIODIC_POLL');
+INSERT INTO device_state_keyframes (id, device_id, capabilities, error, polled_at, change_id) VALUES (1, 'SKILL_lamp', '[{"namespace":"Alexa.PowerController","name":"powerState","value":"ON"},{"namespace":"Alexa.EndpointHealth","name":"connectivity","value":{"value":"OK"}}]', NULL, '2026-02-01T08:00:00.000Z', 0);
+INSERT INTO device_state_keyframes (id, device_id, capabilities, error, polled_at, change_id) VALUES (2, 'SKILL_air', '[{"namespace":"Alexa.RangeController","name":"rangeValue","instance":"4","value":12}]', NULL, '2026-02-01T08:00:00.000Z', 0);
+INSERT INTO connectivity_transitions (id, device_id, device_name, status, source, at) VALUES (1, 'SKILL_lamp', 'Desk Lamp', 'ONLINE', 'poll', '2026-02-01T08:00:00.000Z');
+INSERT INTO state_rollups (device_id, namespace, name, instance, bucket, bucket_start, min, max, avg, last, count) VALUES ('SKILL_air', 'Alexa.RangeController', 'rangeValue', '4', '1h', '2026-02-01T08:00:00.000Z', 12, 18, 15, 18, 2);
+INSERT INTO state_rollup_watermarks (bucket, rolled_up_from, rolled_up_to) VALUES ('1h', '2026-02-01T08:00:00.000Z', '2026-02-01T09:00:00.000Z');
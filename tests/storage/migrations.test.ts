@@ -0,0 +1,213 @@
+import path from 'path';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { SqliteStorage } from '../../src/storage/sqlite';
+import { runMigrations, schemaVersion, SQLITE_MIGRATIONS, SQLITE_SCHEMA_VERSION } from '../../src/storage/migrations';
+import type { SqliteMigration } from '../../src/storage/migrations';
+
+const TEST_DB = path.join(__dirname, '..', 'test-migrations.db');
+const FRESH_DB = path.join(__dirname, '..', 'test-migrations-fresh.db');
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function removeDb(file: string): void {
+  for (const suffix of ['', '-wal', '-shm']) {
+    try { fs.unlinkSync(file + suffix); } catch {}
+  }
+}
+
+function loadFixture(name: string): void {
+  const db = new Database(TEST_DB);
+  db.exec(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+  db.close();
+}
+
+/** Columns and indexes of every table, to compare an upgraded schema with a new one */
+function schemaOf(file: string): Record<string, unknown> {
+  const db = new Database(file, { readonly: true });
+  const schema: Record<string, unknown> = {};
+  const tables = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  ).all() as Array<{ name: string }>;
+  for (const { name } of tables) {
+    const indexes = (db.pragma(`index_list(${name})`) as Array<{ name: string; unique: number }>)
+      .map((index) => ({
+        name: index.name,
+        unique: index.unique,
+        columns: (db.pragma(`index_info(${index.name})`) as Array<{ name: string }>).map((c) => c.name),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    schema[name] = { columns: db.pragma(`table_info(${name})`), indexes };
+  }
+  db.close();
+  return schema;
+}
+
+function tableNames(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as Array<{ name: string }>)
+    .map((t) => t.name);
+}
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+
+  const createTable = (version: number, table: string): SqliteMigration => ({
+    version,
+    description: `Create ${table}`,
+    up: (d) => d.exec(`CREATE TABLE ${table} (id TEXT PRIMARY KEY)`),
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should apply every migration to a new database, once', () => {
+    expect(runMigrations(db)).toEqual({
+      from: 0,
+      to: SQLITE_SCHEMA_VERSION,
+      applied: SQLITE_MIGRATIONS.map((m) => m.version),
+    });
+    expect(schemaVersion(db)).toBe(SQLITE_SCHEMA_VERSION);
+    expect(runMigrations(db)).toEqual({ from: SQLITE_SCHEMA_VERSION, to: SQLITE_SCHEMA_VERSION, applied: [] });
+  });
+
+  it('should apply only the migrations above the current version', () => {
+    runMigrations(db, [createTable(1, 'a')]);
+    expect(runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')])).toEqual({ from: 1, to: 2, applied: [2] });
+    expect(tableNames(db)).toEqual(['a', 'b']);
+  });
+
+  it('should roll back a failing migration and keep the ones before it', () => {
+    const failing: SqliteMigration = {
+      version: 2,
+      description: 'Half a migration',
+      up: (d) => {
+        d.exec('CREATE TABLE b (id TEXT PRIMARY KEY)');
+        throw new Error('disk I/O error');
+      },
+    };
+    expect(() => runMigrations(db, [createTable(1, 'a'), failing])).toThrow('disk I/O error');
+    expect(schemaVersion(db)).toBe(1);
+    expect(tableNames(db)).toEqual(['a']);
+  });
+
+  it('should refuse a database newer than the last migration', () => {
+    db.pragma('user_version = 3');
+    expect(() => runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')]))
+      .toThrow('Database schema version 3 is newer than this release supports (2)');
+    expect(tableNames(db)).toEqual([]);
+  });
+
+  it('should reject migrations numbered out of order', () => {
+    expect(() => runMigrations(db, [createTable(1, 'a'), createTable(3, 'c')]))
+      .toThrow('Migration 2 ("Create c") is numbered 3');
+    expect(schemaVersion(db)).toBe(0);
+  });
+});
+
+describe('SqliteStorage schema upgrades', () => {
+  let storage: SqliteStorage | null;
+  let freshSchema: Record<string, unknown>;
+
+  beforeAll(() => {
+    removeDb(FRESH_DB);
+    new SqliteStorage(FRESH_DB).close();
+    freshSchema = schemaOf(FRESH_DB);
+  });
+
+  afterAll(() => {
+    removeDb(FRESH_DB);
+  });
+
+  beforeEach(() => {
+    storage = null;
+    removeDb(TEST_DB);
+  });
+
+  afterEach(() => {
+    storage?.close();
+    removeDb(TEST_DB);
+  });
+
+  it('should upgrade a database from before versioning, keeping its data', async () => {
+    loadFixture('schema-v0.sql');
+    storage = new SqliteStorage(TEST_DB);
+    expect(storage.schemaVersion()).toBe(SQLITE_SCHEMA_VERSION);
+    storage.close();
+    expect(schemaOf(TEST_DB)).toEqual(freshSchema);
+
+    storage = new SqliteStorage(TEST_DB);
+    expect((await storage.events().query({ endpointId: 'SKILL_lamp' })).events.map((e) => e.id)).toEqual(['evt-2', 'evt-1']);
+    expect(await storage.routines().get('routine-1')).toMatchObject({ name: 'Morning Lights', trigger: { type: 'schedule', cron: '0 8 * * *' } });
+    expect(await storage.tokens().get('user-1')).toMatchObject({ refreshToken: 'Atzr|refresh' });
+    expect(await storage.cookies().get('user-1')).toMatchObject({ csrf: '-123456' });
+    expect((await storage.activities().query({})).records).toHaveLength(1);
+    expect((await storage.pushEvents().query({})).events[0]).toMatchObject({ id: 'push-1', processed: true });
+
+    // Snapshots of the first release become change records
+    const history = await storage.deviceStateChanges().query({ deviceId: 'SKILL_lamp' });
+    expect(history.snapshots.map((s) => s.capabilities[0].value)).toEqual(['OFF', 'ON']);
+  });
+
+  it('should upgrade a version 1 database, keeping its data', async () => {
+    loadFixture('schema-v1.sql');
+    storage = new SqliteStorage(TEST_DB);
+    expect(storage.stats()).toMatchObject({ schemaVersion: SQLITE_SCHEMA_VERSION });
+    storage.close();
+    expect(schemaOf(TEST_DB)).toEqual(freshSchema);
+
+    storage = new SqliteStorage(TEST_DB);
+    expect((await storage.events().query({ eventType: 'PropertyChange' })).totalCount).toBe(1);
+    expect((await storage.routineRuns().query({})).runs[0]).toMatchObject({ id: 'run-1', status: 'succeeded' });
+    expect(await storage.deviceStateChanges().getLatest('SKILL_lamp')).toMatchObject({
+      capabilities: expect.arrayContaining([{ namespace: 'Alexa.PowerController', name: 'powerState', value: 'OFF' }]),
+    });
+    const rollups = storage.stateRollups();
+    expect(await rollups.getWatermark('1h')).toEqual({ from: '2026-02-01T08:00:00.000Z', to: '2026-02-01T09:00:00.000Z' });
+    expect(await rollups.query(
+      { deviceId: 'SKILL_air', namespace: 'Alexa.RangeController', name: 'rangeValue', instance: '4' },
+      '1h', '2026-02-01T00:00:00.000Z', '2026-02-02T00:00:00.000Z',
+    )).toEqual([expect.objectContaining({ avg: 15, last: 18 })]);
+    expect(await storage.connectivity().latest()).toEqual([expect.objectContaining({ deviceId: 'SKILL_lamp', status: 'ONLINE' })]);
+  });
+
+  it('should copy snapshot history into change records once', async () => {
+    const db = new Database(TEST_DB);
+    runMigrations(db, SQLITE_MIGRATIONS.slice(0, 2));
+    const insert = db.prepare('INSERT INTO device_states (device_id, capabilities, polled_at) VALUES (?, ?, ?)');
+    for (const [polledAt, power] of [['2026-02-01T08:20:00.000Z', 'OFF'], ['2026-02-01T08:00:00.000Z', 'ON'], ['2026-02-01T08:10:00.000Z', 'ON']]) {
+      insert.run('SKILL_lamp', JSON.stringify([{ namespace: 'Alexa.PowerController', name: 'powerState', value: power }]), polledAt);
+    }
+    db.close();
+
+    storage = new SqliteStorage(TEST_DB);
+    const onChanges = jest.fn();
+    const changes = storage.deviceStateChanges({ onChanges });
+    expect((await changes.query({ deviceId: 'SKILL_lamp' })).snapshots.map((s) => s.capabilities[0].value)).toEqual(['OFF', 'ON']);
+    expect(onChanges).not.toHaveBeenCalled();
+    expect(storage.stats().tables).toMatchObject({ device_states: 3, device_state_changes: 1, device_state_keyframes: 1 });
+
+    storage.close();
+    storage = new SqliteStorage(TEST_DB);
+    expect(storage.stats().tables).toMatchObject({ device_states: 3, device_state_changes: 1 });
+  });
+
+  it('should refuse to open a database written by a newer release', () => {
+    const newer = new Database(TEST_DB);
+    newer.exec('CREATE TABLE events (id TEXT PRIMARY KEY, recorded_at TEXT)');
+    newer.pragma(`user_version = ${SQLITE_SCHEMA_VERSION + 1}`);
+    newer.close();
+
+    expect(() => new SqliteStorage(TEST_DB))
+      .toThrow(`Database schema version ${SQLITE_SCHEMA_VERSION + 1} is newer than this release supports (${SQLITE_SCHEMA_VERSION})`);
+
+    const untouched = new Database(TEST_DB, { readonly: true });
+    expect(tableNames(untouched)).toEqual(['events']);
+    expect(schemaVersion(untouched)).toBe(SQLITE_SCHEMA_VERSION + 1);
+    expect(untouched.pragma('journal_mode', { simple: true })).toBe('delete');
+    untouched.close();
+  });
+});
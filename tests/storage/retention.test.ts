@@ -0,0 +1,112 @@
+import { RetentionManager, DEFAULT_RETENTION_POLICY, mergeRetentionPolicy } from '../../src/storage/retention';
+
+const DAY = 24 * 60 * 60_000;
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+
+function at(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+describe('mergeRetentionPolicy', () => {
+  it('should replace the ages given and reject nonsense', () => {
+    const policy = mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { pushEvents: 7 * DAY, stateRollups1d: undefined });
+    expect(policy).toEqual({ ...DEFAULT_RETENTION_POLICY, pushEvents: 7 * DAY });
+
+    expect(() => mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { events: -1 }))
+      .toThrow('events retention must be a non-negative number of milliseconds');
+    expect(() => mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { logs: DAY } as never))
+      .toThrow('Unknown retention target "logs"');
+  });
+});
+
+describe('RetentionManager', () => {
+  let pruned: Record<string, string>;
+  let vacuum: jest.Mock;
+  let onRun: jest.Mock;
+  let onError: jest.Mock;
+  let manager: RetentionManager;
+
+  function pruner(target: string, removed: number) {
+    return async (olderThan: string) => {
+      pruned[target] = olderThan;
+      return removed;
+    };
+  }
+
+  beforeEach(() => {
+    pruned = {};
+    vacuum = jest.fn(() => ({ mode: 'incremental', reclaimedBytes: 8192 }));
+    onRun = jest.fn();
+    onError = jest.fn();
+    manager = new RetentionManager({
+      events: pruner('events', 3),
+      deviceStates: pruner('deviceStates', 10),
+      pushEvents: pruner('pushEvents', 0),
+      stateRollups1h: pruner('stateRollups1h', 2),
+      stateRollups1d: pruner('stateRollups1d', 1),
+    }, {
+      policy: { pushEvents: 7 * DAY },
+      vacuum,
+      onRun,
+      onError,
+    });
+  });
+
+  afterEach(() => {
+    manager.stop();
+  });
+
+  it('should prune each store at its own cutoff and vacuum afterwards', async () => {
+    const result = await manager.run(NOW);
+
+    expect(pruned).toEqual({
+      events: at(NOW - 90 * DAY),
+      deviceStates: at(NOW - 30 * DAY),
+      pushEvents: at(NOW - 7 * DAY),
+      stateRollups1h: at(NOW - 365 * DAY),
+    });
+    expect(result).toMatchObject({
+      startedAt: at(NOW),
+      removed: { events: 3, deviceStates: 10, pushEvents: 0, stateRollups1h: 2 },
+      removedCount: 15,
+      errors: {},
+      vacuum: { mode: 'incremental', reclaimedBytes: 8192 },
+    });
+    expect(onRun).toHaveBeenCalledWith(result);
+    expect(manager.getStatus()).toEqual({ running: false, policy: manager.getPolicy(), lastRun: result });
+  });
+
+  it('should not vacuum when nothing was removed', async () => {
+    manager = new RetentionManager({ events: pruner('events', 0) }, { vacuum });
+    const result = await manager.run(NOW);
+    expect(result.removedCount).toBe(0);
+    expect(result.vacuum).toBeUndefined();
+    expect(vacuum).not.toHaveBeenCalled();
+  });
+
+  it('should keep pruning the other stores when one fails', async () => {
+    manager = new RetentionManager({
+      events: async () => { throw new Error('database is locked'); },
+      activity: pruner('activity', 4),
+    }, { vacuum, onError });
+
+    const result = await manager.run(NOW);
+    expect(result).toMatchObject({ removed: { activity: 4 }, removedCount: 4, errors: { events: 'database is locked' } });
+    expect(onError).toHaveBeenCalledWith(new Error('database is locked'), 'events');
+    expect(vacuum).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one run between concurrent calls', async () => {
+    const [a, b] = await Promise.all([manager.run(NOW), manager.run(NOW)]);
+    expect(a).toBe(b);
+    expect(onRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run on start and keep running until stopped', async () => {
+    expect((await manager.start()).removedCount).toBe(15);
+    expect(manager.isRunning()).toBe(true);
+    expect(manager.getStatus().running).toBe(true);
+    manager.stop();
+    expect(manager.isRunning()).toBe(false);
+  });
+});
@@ -1,11 +1,15 @@
 import path from 'path';
 import fs from 'fs';
-import { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteDeviceStateStore, SqliteActivityStore, SqlitePushEventStore } from '../../src/storage/sqlite';
+import Database from 'better-sqlite3';
+import { SqliteStorage, SqliteEventStore, SqliteRoutineStore, SqliteTokenStore, SqliteCookieStore, SqliteRefreshTokenStore, SqliteDeviceStateStore, SqliteChangeDeviceStateStore, SqliteActivityStore, SqlitePushEventStore, SqliteRoutineRunStore, SqliteDiscoveryStateStore, SqliteDeviceDirectoryStore, SqliteMediaSessionStore, SqliteConnectivityStore, SqliteStateRollupStore } from '../../src/storage/sqlite';
 import type { StoredEvent } from '../../src/events/event-store';
 import type { StoredRoutine } from '../../src/routines/routine-store';
+import type { RoutineRun } from '../../src/routines/routine-run-store';
 import type { TokenPair } from '../../src/auth/token-store';
-import type { AlexaCookieCredentials, DeviceStateSnapshot, ActivityRecord } from '../../src/alexa-api/alexa-api-types';
+import type { AlexaCookieCredentials, AlexaRefreshToken, DeviceStateSnapshot, ActivityRecord } from '../../src/alexa-api/alexa-api-types';
 import type { StoredPushEvent } from '../../src/alexa-api/push-event-types';
+import type { StatePropertyChange } from '../../src/alexa-api/device-state-store';
+import type { StateRollup } from '../../src/alexa-api/state-aggregates';
 
 const TEST_DB = path.join(__dirname, '..', 'test-storage.db');
 
@@ -50,6 +54,42 @@ describe('SqliteStorage', () => {
     expect(storage.activities()).toBeInstanceOf(SqliteActivityStore);
     expect(storage.pushEvents()).toBeInstanceOf(SqlitePushEventStore);
   });
+
+  it('should report the file size and row count of every table', async () => {
+    await storage.events().insertBatch([makeEvent(), makeEvent()]);
+    const stats = storage.stats();
+    expect(stats).toMatchObject({ path: TEST_DB, freePages: 0 });
+    expect(stats.fileSizeBytes + stats.walSizeBytes).toBeGreaterThan(0);
+    expect(stats.pageCount * stats.pageSize).toBeGreaterThan(0);
+    expect(stats.tables).toMatchObject({ events: 2, routines: 0, device_state_changes: 0, state_rollups: 0 });
+  });
+
+  it('should hand the pages freed by pruning back to the file system', async () => {
+    const events = storage.events();
+    await events.insertBatch(Array.from({ length: 200 }, () => makeEvent({
+      timestamp: '2024-01-01T00:00:00.000Z',
+      payload: { note: 'x'.repeat(2000) },
+    })));
+    expect(await events.prune('2025-01-01T00:00:00.000Z')).toBe(200);
+    expect(storage.stats().freePages).toBeGreaterThan(0);
+
+    const result = storage.vacuum();
+    expect(result.mode).toBe('incremental');
+    expect(result.reclaimedBytes).toBeGreaterThan(0);
+    expect(storage.stats()).toMatchObject({ freePages: 0, walSizeBytes: 0 });
+  });
+
+  it('should convert a file without incremental auto-vacuum with one full vacuum', () => {
+    storage.close();
+    fs.unlinkSync(TEST_DB);
+    const legacy = new Database(TEST_DB);
+    legacy.exec('CREATE TABLE notes (id TEXT PRIMARY KEY)');
+    legacy.close();
+
+    storage = new SqliteStorage(TEST_DB);
+    expect(storage.vacuum().mode).toBe('full');
+    expect(storage.vacuum().mode).toBe('incremental');
+  });
 });
 
 describe('SqliteEventStore', () => {
@@ -241,6 +281,97 @@ describe('SqliteRoutineStore', () => {
   });
 });
 
+describe('SqliteRoutineRunStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteRoutineRunStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.routineRuns();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  function makeRun(overrides: Partial<RoutineRun> = {}): RoutineRun {
+    return {
+      id: `run-${Math.random().toString(36).slice(2, 8)}`,
+      routineId: 'r-1',
+      routineName: 'Bedtime',
+      source: 'manual',
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      steps: [],
+      ...overrides,
+    };
+  }
+
+  it('should insert a running run and complete it', async () => {
+    await store.insert(makeRun({ id: 'run-1' }));
+    expect((await store.get('run-1'))!.finishedAt).toBeUndefined();
+
+    await store.update('run-1', {
+      status: 'succeeded',
+      finishedAt: '2024-03-01T22:00:01Z',
+      durationMs: 1200,
+      steps: [{
+        index: 0, type: 'if', status: 'succeeded', durationMs: 3, branch: 'then',
+        steps: [{ index: 0, type: 'device_command', status: 'succeeded', durationMs: 2 }],
+      }],
+    });
+
+    const run = await store.get('run-1');
+    expect(run!.status).toBe('succeeded');
+    expect(run!.durationMs).toBe(1200);
+    expect(run!.steps[0].steps![0].type).toBe('device_command');
+    expect(run!.error).toBeUndefined();
+  });
+
+  it('should return null for a missing run', async () => {
+    expect(await store.get('nope')).toBeNull();
+  });
+
+  it('should throw when updating a missing run', async () => {
+    await expect(store.update('nope', { status: 'failed' })).rejects.toThrow('not found');
+  });
+
+  it('should query newest first with filters', async () => {
+    await store.insert(makeRun({ id: 'a', startedAt: '2024-03-01T00:00:00Z', status: 'succeeded' }));
+    await store.insert(makeRun({ id: 'b', startedAt: '2024-03-02T00:00:00Z', source: 'device_event', status: 'failed', error: 'boom' }));
+    await store.insert(makeRun({ id: 'c', routineId: 'r-2', startedAt: '2024-03-03T00:00:00Z' }));
+
+    const all = await store.query({});
+    expect(all.runs.map((r) => r.id)).toEqual(['c', 'b', 'a']);
+    expect(all.totalCount).toBe(3);
+
+    const failed = await store.query({ routineId: 'r-1', status: 'failed' });
+    expect(failed.runs).toHaveLength(1);
+    expect(failed.runs[0].error).toBe('boom');
+    expect((await store.query({ source: 'device_event' })).totalCount).toBe(1);
+    expect((await store.query({ endTime: '2024-03-02T00:00:00Z' })).totalCount).toBe(2);
+    expect((await store.query({ limit: 1, offset: 2 })).runs[0].id).toBe('a');
+  });
+
+  it('should close running runs as interrupted', async () => {
+    await store.insert(makeRun({ id: 'a', status: 'failed', error: 'boom' }));
+    await store.insert(makeRun({ id: 'b' }));
+
+    expect(await store.interruptRunning('2024-03-01T22:00:00Z', 'restarted')).toBe(1);
+    expect(await store.get('a')).toMatchObject({ status: 'failed', error: 'boom' });
+    expect(await store.get('b')).toMatchObject({ status: 'interrupted', finishedAt: '2024-03-01T22:00:00Z', error: 'restarted' });
+  });
+
+  it('should prune old runs', async () => {
+    await store.insert(makeRun({ startedAt: '2024-01-01T00:00:00Z' }));
+    await store.insert(makeRun({ startedAt: '2024-06-01T00:00:00Z' }));
+    expect(await store.prune('2024-03-01T00:00:00Z')).toBe(1);
+    expect((await store.query({})).totalCount).toBe(1);
+  });
+});
+
 describe('SqliteTokenStore', () => {
   let storage: SqliteStorage;
   let store: SqliteTokenStore;
@@ -381,6 +512,40 @@ describe('SqliteCookieStore', () => {
   });
 });
 
+describe('SqliteRefreshTokenStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteRefreshTokenStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.refreshTokens();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  const sampleToken: AlexaRefreshToken = {
+    refreshToken: 'Atnr|abc123',
+    storedAt: '2026-01-15T10:00:00.000Z',
+  };
+
+  it('should store, update and delete a refresh token', async () => {
+    expect(await store.get('user-1')).toBeNull();
+    await store.set('user-1', sampleToken);
+    expect(await store.get('user-1')).toEqual(sampleToken);
+
+    const refreshed = { ...sampleToken, lastRefreshedAt: '2026-01-16T10:00:00.000Z', lastError: 'HTTP 500' };
+    await store.set('user-1', refreshed);
+    expect(await store.get('user-1')).toEqual(refreshed);
+
+    await store.delete('user-1');
+    expect(await store.get('user-1')).toBeNull();
+  });
+});
+
 describe('SqliteDeviceStateStore', () => {
   let storage: SqliteStorage;
   let store: SqliteDeviceStateStore;
@@ -500,6 +665,25 @@ describe('SqliteDeviceStateStore', () => {
     expect(result.snapshots[0].capabilities).toEqual([]);
   });
 
+  it('should filter by deviceName case-insensitively', async () => {
+    await store.insert({ ...sampleSnapshot, deviceId: 'light-1', deviceName: 'Kitchen Light' });
+    await store.insert({ ...sampleSnapshot, deviceId: 'plug-1', deviceName: 'Desk Plug' });
+
+    const result = await store.query({ deviceName: 'kitchen light' });
+    expect(result.snapshots.map((s) => s.deviceId)).toEqual(['light-1']);
+  });
+
+  it('should fill in missing device names', async () => {
+    await store.insert({ ...sampleSnapshot, deviceId: 'light-1', deviceName: undefined });
+    await store.insert({ ...sampleSnapshot, deviceId: 'plug-1', deviceName: 'Desk Plug' });
+
+    const filled = await store.fillDeviceNames({ 'light-1': 'Kitchen Light', 'plug-1': 'Renamed Plug' });
+
+    expect(filled).toBe(1);
+    expect((await store.getLatest('light-1'))!.deviceName).toBe('Kitchen Light');
+    expect((await store.getLatest('plug-1'))!.deviceName).toBe('Desk Plug');
+  });
+
   it('should persist across reopen', async () => {
     await store.insert(sampleSnapshot);
     storage.close();
@@ -513,6 +697,204 @@ describe('SqliteDeviceStateStore', () => {
   });
 });
 
+describe('SqliteChangeDeviceStateStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteChangeDeviceStateStore;
+  let recorded: StatePropertyChange[][];
+
+  const HOUR = 60 * 60_000;
+
+  function lamp(polledAt: string, power: string, brightness: number | null = 75): DeviceStateSnapshot {
+    return {
+      deviceId: 'lamp-1',
+      deviceName: 'Kitchen Light',
+      capabilities: [
+        { namespace: 'Alexa.PowerController', name: 'powerState', value: power },
+        ...(brightness === null ? [] : [{ namespace: 'Alexa.BrightnessController', name: 'brightness', value: brightness }]),
+      ],
+      polledAt,
+    };
+  }
+
+  function rowCount(table: string): number {
+    return ((storage as any).db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+  }
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    recorded = [];
+    store = storage.deviceStateChanges({ keyframeIntervalMs: 24 * HOUR, onChanges: (changes) => { recorded.push(changes); } });
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  it('should keep one row per value change and rebuild snapshots from them', async () => {
+    await store.insert(lamp('2024-06-01T12:00:00.000Z', 'ON'));
+    await store.insertBatch([lamp('2024-06-01T12:10:00.000Z', 'ON')], 'PERIODIC_POLL');
+    await store.insertBatch([lamp('2024-06-01T12:20:00.000Z', 'OFF')], 'PHYSICAL_INTERACTION');
+    await store.insertBatch([lamp('2024-06-01T12:30:00.000Z', 'OFF', 40)], 'PERIODIC_POLL');
+
+    expect(rowCount('device_state_changes')).toBe(2);
+    expect(rowCount('device_state_keyframes')).toBe(1);
+    expect(recorded).toEqual([
+      [{
+        deviceId: 'lamp-1', deviceName: 'Kitchen Light', namespace: 'Alexa.PowerController', name: 'powerState',
+        value: 'OFF', changedAt: '2024-06-01T12:20:00.000Z', cause: 'PHYSICAL_INTERACTION',
+      }],
+      [expect.objectContaining({ name: 'brightness', value: 40, cause: 'PERIODIC_POLL' })],
+    ]);
+
+    const result = await store.query({ deviceId: 'lamp-1' });
+    expect(result.totalCount).toBe(3);
+    expect(result.snapshots.map((s) => [s.polledAt, s.capabilities.map((c) => c.value)])).toEqual([
+      ['2024-06-01T12:30:00.000Z', ['OFF', 40]],
+      ['2024-06-01T12:20:00.000Z', ['OFF', 75]],
+      ['2024-06-01T12:00:00.000Z', ['ON', 75]],
+    ]);
+    expect(result.snapshots[0].deviceName).toBe('Kitchen Light');
+
+    expect(await store.getLatest('lamp-1')).toEqual({ ...lamp('2024-06-01T12:30:00.000Z', 'OFF', 40), error: undefined });
+    expect(await store.getLatest('nope')).toBeNull();
+  });
+
+  it('should record instances and properties that stop being reported', async () => {
+    const fan = (polledAt: string, speed?: number): DeviceStateSnapshot => ({
+      deviceId: 'fan-1',
+      capabilities: speed === undefined ? [] : [{ namespace: 'Alexa.RangeController', name: 'rangeValue', instance: 'Fan.Speed', value: speed }],
+      polledAt,
+    });
+    await store.insert(fan('2024-06-01T12:00:00.000Z', 1));
+    await store.insert(fan('2024-06-01T12:10:00.000Z', 3));
+    await store.insert(fan('2024-06-01T12:20:00.000Z'));
+
+    expect(recorded.flat().map((c) => [c.instance, c.value])).toEqual([['Fan.Speed', 3], ['Fan.Speed', undefined]]);
+    const result = await store.query({ deviceId: 'fan-1', startTime: '2024-06-01T12:05:00.000Z' });
+    expect(result.snapshots.map((s) => s.capabilities)).toEqual([
+      [],
+      [{ namespace: 'Alexa.RangeController', name: 'rangeValue', instance: 'Fan.Speed', value: 3 }],
+    ]);
+  });
+
+  it('should keep the last good values through an error', async () => {
+    await store.insert(lamp('2024-06-01T12:00:00.000Z', 'ON'));
+    await store.insert({ deviceId: 'lamp-1', capabilities: [], polledAt: '2024-06-01T12:10:00.000Z', error: 'ENDPOINT_UNREACHABLE' });
+    expect(await store.getLatest('lamp-1')).toMatchObject({ capabilities: [], error: 'ENDPOINT_UNREACHABLE' });
+
+    recorded = [];
+    await store.insert(lamp('2024-06-01T12:20:00.000Z', 'ON'));
+    expect(recorded.flat().map((c) => [c.namespace, c.name, c.value])).toEqual([['', 'error', undefined]]);
+    expect((await store.getLatest('lamp-1'))!.capabilities).toHaveLength(2);
+    expect((await store.query({ deviceId: 'lamp-1' })).snapshots.map((s) => s.error)).toEqual([undefined, 'ENDPOINT_UNREACHABLE', undefined]);
+  });
+
+  it('should ignore snapshots older than the latest state', async () => {
+    await store.insert(lamp('2024-06-01T12:00:00.000Z', 'ON'));
+    await store.insert(lamp('2024-06-01T12:20:00.000Z', 'OFF'));
+    recorded = [];
+
+    // A replayed push, and a poll that raced it
+    await store.insertBatch([lamp('2024-06-01T12:10:00.000Z', 'ON', 20), lamp('2024-06-01T12:30:00.000Z', 'OFF', 40)]);
+    await store.insert(lamp('2024-06-01T12:25:00.000Z', 'ON'));
+
+    expect(recorded.flat().map((c) => [c.name, c.value, c.changedAt])).toEqual([['brightness', 40, '2024-06-01T12:30:00.000Z']]);
+    expect(await store.getLatest('lamp-1')).toEqual({ ...lamp('2024-06-01T12:30:00.000Z', 'OFF', 40), error: undefined });
+    expect((await store.query({ deviceId: 'lamp-1' })).snapshots.map((s) => [s.polledAt, s.capabilities.map((c) => c.value)])).toEqual([
+      ['2024-06-01T12:30:00.000Z', ['OFF', 40]],
+      ['2024-06-01T12:20:00.000Z', ['OFF', 75]],
+      ['2024-06-01T12:00:00.000Z', ['ON', 75]],
+    ]);
+  });
+
+  it('should write a keyframe per device each interval', async () => {
+    const start = Date.parse('2024-06-01T00:00:00.000Z');
+    for (let h = 0; h <= 48; h += 6) {
+      await store.insert(lamp(new Date(start + h * HOUR).toISOString(), h % 12 === 0 ? 'ON' : 'OFF'));
+    }
+    expect(rowCount('device_state_keyframes')).toBe(3);
+    expect(rowCount('device_state_changes')).toBe(8);
+
+    const [latest] = (await store.query({ deviceId: 'lamp-1', limit: 1 })).snapshots;
+    expect(latest).toMatchObject({ polledAt: '2024-06-03T00:00:00.000Z', capabilities: [expect.objectContaining({ value: 'ON' }), expect.anything()] });
+    const [at30h] = (await store.query({ deviceId: 'lamp-1', endTime: '2024-06-02T06:00:00.000Z', limit: 1 })).snapshots;
+    expect(at30h.capabilities[0].value).toBe('OFF');
+  });
+
+  it('should filter by device name and page results', async () => {
+    await store.insert(lamp('2024-06-01T12:00:00.000Z', 'ON'));
+    await store.insert(lamp('2024-06-01T12:10:00.000Z', 'OFF'));
+    await store.insert({ deviceId: 'plug-1', deviceName: 'Plug', capabilities: [], polledAt: '2024-06-01T12:05:00.000Z' });
+
+    const byName = await store.query({ deviceName: 'kitchen light' });
+    expect(byName.totalCount).toBe(2);
+    const page = await store.query({ limit: 1, offset: 1 });
+    expect(page.totalCount).toBe(3);
+    expect(page.snapshots[0].deviceId).toBe('plug-1');
+    expect((await store.getAllLatest()).map((s) => s.deviceId).sort()).toEqual(['lamp-1', 'plug-1']);
+  });
+
+  it('should prune history before the cutoff but keep the state there', async () => {
+    await store.insert(lamp('2024-06-01T00:00:00.000Z', 'ON'));
+    await store.insert(lamp('2024-06-01T06:00:00.000Z', 'OFF'));
+    await store.insert(lamp('2024-06-01T18:00:00.000Z', 'ON'));
+    await store.insert({ deviceId: 'gone-1', capabilities: [], polledAt: '2024-05-01T00:00:00.000Z' });
+
+    expect(await store.prune('2024-06-01T12:00:00.000Z')).toBe(3);
+    expect(await store.getLatest('gone-1')).toBeNull();
+    const result = await store.query({ deviceId: 'lamp-1' });
+    expect(result.snapshots.map((s) => [s.polledAt, s.capabilities[0].value])).toEqual([
+      ['2024-06-01T18:00:00.000Z', 'ON'],
+      ['2024-06-01T12:00:00.000Z', 'OFF'],
+    ]);
+  });
+
+  it('should fill missing device names', async () => {
+    await store.insert({ ...lamp('2024-06-01T12:00:00.000Z', 'ON'), deviceName: undefined });
+    expect(await store.fillDeviceNames({ 'lamp-1': 'Kitchen Light', other: 'Other' })).toBe(1);
+    expect((await store.getLatest('lamp-1'))!.deviceName).toBe('Kitchen Light');
+  });
+
+  it('should return the same latest state as the snapshot store', async () => {
+    const snapshots = storage.deviceStates();
+    const poll = (polledAt: string, power: string): DeviceStateSnapshot => ({
+      ...lamp(polledAt, power),
+      capabilities: lamp(polledAt, power).capabilities.map((cap) => ({ ...cap, timeOfSample: polledAt })),
+    });
+    const polls = [
+      poll('2024-06-01T12:00:00.000Z', 'ON'),
+      poll('2024-06-01T12:10:00.000Z', 'ON'),
+      { ...poll('2024-06-01T12:20:00.000Z', 'ON'), capabilities: [], error: 'Device unreachable' },
+      poll('2024-06-01T12:30:00.000Z', 'OFF'),
+      poll('2024-06-01T12:40:00.000Z', 'OFF'),
+    ];
+
+    for (const p of polls) {
+      await store.insert(p);
+      await snapshots.insert(p);
+      expect(await store.getLatest('lamp-1')).toEqual(await snapshots.getLatest('lamp-1'));
+    }
+    // Brightness last changed at 12:00 but was sampled again at 12:40
+    expect((await store.getLatest('lamp-1'))!.capabilities.map((c) => c.timeOfSample))
+      .toEqual(['2024-06-01T12:40:00.000Z', '2024-06-01T12:40:00.000Z']);
+  });
+
+  it('should leave stored snapshots in place until retention prunes them', async () => {
+    await storage.deviceStates().insertBatch([
+      lamp('2024-06-01T12:00:00.000Z', 'ON'),
+      lamp('2024-06-03T12:00:00.000Z', 'OFF'),
+    ]);
+
+    store = storage.deviceStateChanges();
+    expect(rowCount('device_states')).toBe(2);
+
+    await store.prune('2024-06-02T00:00:00.000Z');
+    expect(rowCount('device_states')).toBe(1);
+  });
+});
+
 describe('SqliteActivityStore', () => {
   let storage: SqliteStorage;
   let store: SqliteActivityStore;
@@ -798,6 +1180,20 @@ describe('SqlitePushEventStore', () => {
     expect(found!.processed).toBe(true);
   });
 
+  it('should list pending events oldest first until they fail', async () => {
+    await store.insert(makeEvent({ id: 'p-new', timestamp: '2024-06-01T00:00:02Z' }));
+    await store.insert(makeEvent({ id: 'p-old', timestamp: '2024-06-01T00:00:01Z' }));
+    await store.insert(makeEvent({ id: 'p-done', timestamp: '2024-06-01T00:00:00Z', processed: true }));
+
+    expect((await store.listPending(10)).map((e) => e.id)).toEqual(['p-old', 'p-new']);
+
+    expect(await store.recordFailure('p-old', 'boom', 2)).toBe(1);
+    expect((await store.listPending(1)).map((e) => e.id)).toEqual(['p-old']);
+    expect(await store.recordFailure('p-old', 'boom again', 2)).toBe(2);
+    expect((await store.listPending(1)).map((e) => e.id)).toEqual(['p-new']);
+    expect(await store.getById('p-old')).toMatchObject({ processed: false, failed: true, attempts: 2, error: 'boom again' });
+  });
+
   it('should prune old events', async () => {
     await store.insert(makeEvent({ id: 'pr1', timestamp: '2024-01-01T00:00:00Z' }));
     await store.insert(makeEvent({ id: 'pr2', timestamp: '2024-06-01T00:00:00Z' }));
@@ -826,6 +1222,17 @@ describe('SqlitePushEventStore', () => {
     });
   });
 
+  it('should filter by deviceName and fill in missing names', async () => {
+    await store.insert(makeEvent({ id: 'pe-a', deviceSerial: 'ECHO-1' }));
+    await store.insert(makeEvent({ id: 'pe-b', deviceSerial: 'ECHO-2', deviceName: 'Bedroom Echo' }));
+
+    expect(await store.fillDeviceNames({ 'ECHO-1': 'Kitchen Echo', 'ECHO-2': 'Other' })).toBe(1);
+
+    const result = await store.query({ deviceName: 'KITCHEN ECHO' });
+    expect(result.events.map((e) => e.id)).toEqual(['pe-a']);
+    expect((await store.getById('pe-b'))!.deviceName).toBe('Bedroom Echo');
+  });
+
   it('should persist across reopen', async () => {
     await store.insert(makeEvent({ id: 'persist-pe', command: 'PUSH_ACTIVITY', processed: false }));
     storage.close();
@@ -839,3 +1246,261 @@ describe('SqlitePushEventStore', () => {
     storage2.close();
   });
 });
+
+describe('SqliteDiscoveryStateStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteDiscoveryStateStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.discoveryState();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  const ack = (endpointId: string, fingerprint = 'f1') => ({
+    endpointId,
+    fingerprint,
+    acknowledgedAt: '2026-01-15T10:00:00.000Z',
+  });
+
+  it('should upsert, remove and replace per user', async () => {
+    await store.upsert('user-1', [ack('light-1'), ack('plug-1')]);
+    await store.upsert('user-1', [ack('light-1', 'f2')]);
+    await store.upsert('user-2', [ack('lock-1')]);
+
+    expect(await store.list('user-1')).toEqual([ack('light-1', 'f2'), ack('plug-1')]);
+
+    await store.remove('user-1', ['plug-1']);
+    expect((await store.list('user-1')).map((e) => e.endpointId)).toEqual(['light-1']);
+
+    await store.replace('user-1', [ack('fan-1')]);
+    expect((await store.list('user-1')).map((e) => e.endpointId)).toEqual(['fan-1']);
+    expect((await store.list('user-2')).map((e) => e.endpointId)).toEqual(['lock-1']);
+  });
+
+  it('should persist across reopen', async () => {
+    await store.upsert('user-1', [ack('light-1')]);
+    storage.close();
+
+    const storage2 = new SqliteStorage(TEST_DB);
+    expect(await storage2.discoveryState().list('user-1')).toEqual([ack('light-1')]);
+    storage2.close();
+  });
+});
+
+describe('SqliteDeviceDirectoryStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteDeviceDirectoryStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.deviceDirectory();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  const echo = {
+    id: 'G0911234',
+    name: 'Kitchen Echo',
+    source: 'echo' as const,
+    serialNumber: 'G0911234',
+    applianceId: 'AAA_SonarCloudService_G0911234',
+    updatedAt: '2026-01-15T10:00:00.000Z',
+  };
+
+  it('should replace the whole directory', async () => {
+    await store.replaceAll([echo, { id: 'plug-1', name: 'Desk Plug', source: 'smart_home', endpointId: 'plug-1', updatedAt: echo.updatedAt }]);
+    await store.replaceAll([{ ...echo, name: 'Living Room Echo' }]);
+
+    expect(await store.list()).toEqual([{ ...echo, name: 'Living Room Echo' }]);
+  });
+
+  it('should persist across reopen', async () => {
+    await store.replaceAll([echo]);
+    storage.close();
+
+    const storage2 = new SqliteStorage(TEST_DB);
+    expect(await storage2.deviceDirectory().list()).toEqual([echo]);
+    storage2.close();
+  });
+});
+
+describe('SqliteMediaSessionStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteMediaSessionStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.mediaSessions();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  const session = (id: string, startedAt: string, endedAt?: string) => ({
+    id,
+    deviceSerial: 'ECHO-1',
+    deviceName: 'Kitchen Echo',
+    startedAt,
+    lastEventAt: endedAt ?? startedAt,
+    mediaReferenceIds: ['track-1'],
+    ...(endedAt ? { endedAt, endReason: 'FINISHED' as const } : {}),
+  });
+
+  it('should save and read now-playing state', async () => {
+    const state = {
+      deviceSerial: 'ECHO-1',
+      playerState: 'PLAYING' as const,
+      mediaReferenceId: 'track-1',
+      mediaProgress: 12.5,
+      mediaLength: 240,
+      updatedAt: '2026-03-01T10:00:00.000Z',
+    };
+    await store.saveNowPlaying(state);
+    await store.saveNowPlaying({ ...state, playerState: 'INTERRUPTED' });
+
+    expect(await store.getNowPlaying('ECHO-1')).toEqual({ ...state, playerState: 'INTERRUPTED' });
+    expect(await store.listNowPlaying()).toHaveLength(1);
+    expect(await store.getNowPlaying('ECHO-2')).toBeNull();
+  });
+
+  it('should upsert sessions and query them', async () => {
+    await store.saveSession(session('s1', '2026-03-01T10:00:00.000Z'));
+    await store.saveSession(session('s1', '2026-03-01T10:00:00.000Z', '2026-03-01T10:30:00.000Z'));
+    await store.saveSession(session('s2', '2026-03-01T11:00:00.000Z'));
+
+    expect((await store.getLatestSession('ECHO-1'))!.id).toBe('s2');
+    expect((await store.querySessions({ open: false })).sessions).toEqual([
+      session('s1', '2026-03-01T10:00:00.000Z', '2026-03-01T10:30:00.000Z'),
+    ]);
+    expect((await store.querySessions({ open: true })).sessions.map((s) => s.id)).toEqual(['s2']);
+    expect((await store.querySessions({ deviceName: 'kitchen echo', startTime: '2026-03-01T10:30:00.000Z' })).totalCount).toBe(1);
+  });
+
+  it('should prune sessions by their last event', async () => {
+    await store.saveSession(session('s1', '2026-03-01T10:00:00.000Z', '2026-03-01T10:30:00.000Z'));
+    await store.saveSession(session('s2', '2026-03-01T11:00:00.000Z'));
+
+    expect(await store.prune('2026-03-01T10:45:00.000Z')).toBe(1);
+    expect((await store.querySessions({})).sessions.map((s) => s.id)).toEqual(['s2']);
+  });
+});
+
+describe('SqliteConnectivityStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteConnectivityStore;
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.connectivity();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  const transition = (deviceId: string, status: 'ONLINE' | 'OFFLINE', at: string) => ({
+    deviceId, status, source: 'push' as const, at,
+  });
+
+  it('should return the latest transition per device', async () => {
+    await store.insert(transition('echo-1', 'ONLINE', '2026-03-01T00:00:00.000Z'));
+    await store.insert(transition('echo-1', 'OFFLINE', '2026-03-01T05:00:00.000Z'));
+    await store.insert({ ...transition('echo-2', 'ONLINE', '2026-03-01T02:00:00.000Z'), deviceName: 'Bedroom Echo' });
+
+    expect(await store.latest()).toEqual([
+      transition('echo-1', 'OFFLINE', '2026-03-01T05:00:00.000Z'),
+      { ...transition('echo-2', 'ONLINE', '2026-03-01T02:00:00.000Z'), deviceName: 'Bedroom Echo' },
+    ]);
+    expect(await store.latest('2026-03-01T01:00:00.000Z')).toEqual([
+      transition('echo-1', 'ONLINE', '2026-03-01T00:00:00.000Z'),
+    ]);
+  });
+
+  it('should query transitions oldest first', async () => {
+    await store.insert(transition('echo-1', 'OFFLINE', '2026-03-01T05:00:00.000Z'));
+    await store.insert(transition('echo-1', 'ONLINE', '2026-03-01T00:00:00.000Z'));
+    await store.insert(transition('echo-2', 'ONLINE', '2026-03-01T02:00:00.000Z'));
+
+    const result = await store.query({ deviceId: 'echo-1', startTime: '2026-03-01T00:00:00.000Z' });
+    expect(result.map((t) => t.status)).toEqual(['ONLINE', 'OFFLINE']);
+  });
+
+  it('should prune old transitions but keep the latest per device', async () => {
+    await store.insert(transition('echo-1', 'ONLINE', '2026-03-01T00:00:00.000Z'));
+    await store.insert(transition('echo-1', 'OFFLINE', '2026-03-01T01:00:00.000Z'));
+    await store.insert(transition('echo-2', 'ONLINE', '2026-03-01T02:00:00.000Z'));
+    await store.insert(transition('echo-1', 'ONLINE', '2026-03-01T10:00:00.000Z'));
+
+    expect(await store.prune('2026-03-01T05:00:00.000Z')).toBe(2);
+    expect(await store.latest()).toEqual([
+      transition('echo-1', 'ONLINE', '2026-03-01T10:00:00.000Z'),
+      transition('echo-2', 'ONLINE', '2026-03-01T02:00:00.000Z'),
+    ]);
+    expect(await store.query({})).toHaveLength(2);
+  });
+});
+
+describe('SqliteStateRollupStore', () => {
+  let storage: SqliteStorage;
+  let store: SqliteStateRollupStore;
+
+  const pm25 = { deviceId: 'aq-1', namespace: 'Alexa.RangeController', name: 'rangeValue', instance: '4' };
+  const rollup = (bucketStart: string, avg: number): StateRollup => ({
+    ...pm25, bucket: '1h', bucketStart, min: avg - 1, max: avg + 1, avg, last: avg, count: 6,
+  });
+
+  beforeEach(() => {
+    try { fs.unlinkSync(TEST_DB); } catch {}
+    storage = new SqliteStorage(TEST_DB);
+    store = storage.stateRollups();
+  });
+
+  afterEach(() => {
+    storage.close();
+    try { fs.unlinkSync(TEST_DB); } catch {}
+  });
+
+  it('should upsert rollups and query one series oldest first', async () => {
+    await store.upsert([rollup('2026-03-01T01:00:00.000Z', 12), rollup('2026-03-01T00:00:00.000Z', 10)]);
+    await store.upsert([rollup('2026-03-01T01:00:00.000Z', 14)]);
+    await store.upsert([{ ...rollup('2026-03-01T00:00:00.000Z', 21), namespace: 'Alexa.TemperatureSensor', name: 'temperature', instance: undefined }]);
+
+    expect(await store.query(pm25, '1h', '2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z')).toEqual([
+      rollup('2026-03-01T00:00:00.000Z', 10),
+      rollup('2026-03-01T01:00:00.000Z', 14),
+    ]);
+    expect(await store.query(pm25, '1h', '2026-03-01T00:00:00.000Z', '2026-03-01T01:00:00.000Z')).toHaveLength(1);
+    expect(await store.query(
+      { deviceId: 'aq-1', namespace: 'Alexa.TemperatureSensor', name: 'temperature' }, '1h', '2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z',
+    )).toEqual([expect.not.objectContaining({ instance: expect.anything() })]);
+    expect(await store.query(pm25, '1d', '2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z')).toEqual([]);
+  });
+
+  it('should keep a watermark per bucket and prune old rollups', async () => {
+    expect(await store.getWatermark('1h')).toBeNull();
+    await store.setWatermark('1h', { from: '2026-03-01T00:00:00.000Z', to: '2026-03-01T02:00:00.000Z' });
+    await store.setWatermark('1h', { from: '2026-03-01T00:00:00.000Z', to: '2026-03-01T03:00:00.000Z' });
+    expect(await store.getWatermark('1h')).toEqual({ from: '2026-03-01T00:00:00.000Z', to: '2026-03-01T03:00:00.000Z' });
+    expect(await store.getWatermark('5m')).toBeNull();
+
+    await store.upsert([rollup('2026-03-01T00:00:00.000Z', 10), rollup('2026-03-01T01:00:00.000Z', 12), { ...rollup('2026-03-01T00:00:00.000Z', 10), bucket: '1d' }]);
+    expect(await store.prune('2026-03-01T01:00:00.000Z', '1h')).toBe(1);
+    expect(await store.prune('2026-03-01T01:00:00.000Z')).toBe(1);
+    expect(await store.query(pm25, '1h', '2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z')).toHaveLength(1);
+  });
+});
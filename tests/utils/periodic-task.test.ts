@@ -0,0 +1,51 @@
+import { PeriodicTask } from '../../src/utils';
+
+describe('PeriodicTask', () => {
+  let job: jest.Mock;
+  let onError: jest.Mock;
+  let task: PeriodicTask;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    job = jest.fn().mockResolvedValue(undefined);
+    onError = jest.fn();
+    task = new PeriodicTask(job, onError);
+  });
+
+  afterEach(() => {
+    task.stop();
+    jest.useRealTimers();
+  });
+
+  it('should run the job every interval until stopped', async () => {
+    expect(task.start(1000)).toBe(true);
+    expect(task.isRunning()).toBe(true);
+    expect(job).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(job).toHaveBeenCalledTimes(3);
+
+    task.stop();
+    expect(task.isRunning()).toBe(false);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(job).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep the first interval when started twice', async () => {
+    task.start(1000);
+    expect(task.start(100)).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(job).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failed runs and keep running', async () => {
+    job.mockRejectedValueOnce(new Error('boom')).mockRejectedValueOnce('bad');
+    task.start(1000);
+
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual(['boom', 'bad']);
+    expect(job).toHaveBeenCalledTimes(3);
+  });
+});